@@ -11,11 +11,24 @@ export type GitHubCredentials = {
   token: string;
 };
 
+export type LinearCredentials = {
+  apiKey: string;
+};
+
+export type GitLabCredentials = {
+  token: string;
+};
+
 export type AuthStore = {
   jira?: Record<string, JiraCredentials>;
   github?: Record<string, GitHubCredentials>;
+  githubHosts?: Record<string, Record<string, GitHubCredentials>>;
+  linear?: Record<string, LinearCredentials>;
+  gitlab?: Record<string, GitLabCredentials>;
 };
 
+const GITHUB_HOST = 'github.com';
+
 function resolveDataDir(): string {
   return process.env.XDG_DATA_HOME ?? path.join(os.homedir(), '.local', 'share');
 }
@@ -44,6 +57,22 @@ function isGitHubCredentials(value: unknown): value is GitHubCredentials {
   return typeof value.token === 'string';
 }
 
+function isLinearCredentials(value: unknown): value is LinearCredentials {
+  if (!isObject(value)) {
+    return false;
+  }
+
+  return typeof value.apiKey === 'string';
+}
+
+function isGitLabCredentials(value: unknown): value is GitLabCredentials {
+  if (!isObject(value)) {
+    return false;
+  }
+
+  return typeof value.token === 'string';
+}
+
 function parseCredentialsMap<T>(
   value: unknown,
   validator: (credential: unknown) => credential is T,
@@ -80,6 +109,26 @@ function parseAuthStore(raw: unknown): AuthStore {
     store.github = parseCredentialsMap(raw.github, isGitHubCredentials);
   }
 
+  if (raw.githubHosts !== undefined) {
+    if (!isObject(raw.githubHosts)) {
+      throw new Error('Invalid auth store format.');
+    }
+
+    store.githubHosts = {};
+
+    for (const [host, profiles] of Object.entries(raw.githubHosts)) {
+      store.githubHosts[host] = parseCredentialsMap(profiles, isGitHubCredentials);
+    }
+  }
+
+  if (raw.linear !== undefined) {
+    store.linear = parseCredentialsMap(raw.linear, isLinearCredentials);
+  }
+
+  if (raw.gitlab !== undefined) {
+    store.gitlab = parseCredentialsMap(raw.gitlab, isGitLabCredentials);
+  }
+
   return store;
 }
 
@@ -128,19 +177,105 @@ export namespace Auth {
     await save(store);
   }
 
-  export async function getGitHub(profile = 'default'): Promise<GitHubCredentials | undefined> {
+  // github.com profiles live under `github`; GitHub Enterprise Server profiles
+  // are kept per hostname under `githubHosts`.
+  export function getGitHubProfiles(
+    store: AuthStore,
+    host = GITHUB_HOST,
+  ): Record<string, GitHubCredentials> | undefined {
+    return host === GITHUB_HOST ? store.github : store.githubHosts?.[host];
+  }
+
+  export async function getGitHub(
+    profile = 'default',
+    host = GITHUB_HOST,
+  ): Promise<GitHubCredentials | undefined> {
+    const store = await load();
+    return getGitHubProfiles(store, host)?.[profile];
+  }
+
+  export async function setGitHub(
+    profile: string,
+    credentials: GitHubCredentials,
+    host = GITHUB_HOST,
+  ): Promise<void> {
+    const store = await load();
+
+    if (host === GITHUB_HOST) {
+      if (!store.github) {
+        store.github = {};
+      }
+
+      store.github[profile] = credentials;
+    } else {
+      if (!store.githubHosts) {
+        store.githubHosts = {};
+      }
+
+      if (!store.githubHosts[host]) {
+        store.githubHosts[host] = {};
+      }
+
+      store.githubHosts[host][profile] = credentials;
+    }
+
+    await save(store);
+  }
+
+  export async function removeGitHub(profile: string, host = GITHUB_HOST): Promise<void> {
+    const store = await load();
+    const profiles = getGitHubProfiles(store, host);
+
+    if (!profiles) {
+      return;
+    }
+
+    delete profiles[profile];
+
+    if (Object.keys(profiles).length === 0) {
+      if (host === GITHUB_HOST) {
+        delete store.github;
+      } else {
+        delete store.githubHosts?.[host];
+
+        if (Object.keys(store.githubHosts ?? {}).length === 0) {
+          delete store.githubHosts;
+        }
+      }
+    }
+
+    await save(store);
+  }
+
+  export async function getLinear(profile = 'default'): Promise<LinearCredentials | undefined> {
+    const store = await load();
+    return store.linear?.[profile];
+  }
+
+  export async function setLinear(profile: string, credentials: LinearCredentials): Promise<void> {
+    const store = await load();
+
+    if (!store.linear) {
+      store.linear = {};
+    }
+
+    store.linear[profile] = credentials;
+    await save(store);
+  }
+
+  export async function getGitLab(profile = 'default'): Promise<GitLabCredentials | undefined> {
     const store = await load();
-    return store.github?.[profile];
+    return store.gitlab?.[profile];
   }
 
-  export async function setGitHub(profile: string, credentials: GitHubCredentials): Promise<void> {
+  export async function setGitLab(profile: string, credentials: GitLabCredentials): Promise<void> {
     const store = await load();
 
-    if (!store.github) {
-      store.github = {};
+    if (!store.gitlab) {
+      store.gitlab = {};
     }
 
-    store.github[profile] = credentials;
+    store.gitlab[profile] = credentials;
     await save(store);
   }
 }
@@ -1,2 +1,8 @@
 export { Auth } from './auth';
-export type { AuthStore, GitHubCredentials, JiraCredentials } from './auth';
+export type {
+  AuthStore,
+  GitHubCredentials,
+  GitLabCredentials,
+  JiraCredentials,
+  LinearCredentials,
+} from './auth';
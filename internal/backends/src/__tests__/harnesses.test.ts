@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { Backend } from '../backend';
+import { Harnesses } from '../registry';
+import { TemplateHarness } from '../template';
+
+let tmpDir: string;
+
+describe('TemplateHarness', () => {
+  test('fills placeholders and drops arguments whose value is missing', () => {
+    const harness = new TemplateHarness({
+      command: ['aider', '--model={model}', '--agent', '{agent}', '--message', '{prompt}'],
+      interactiveCommand: ['aider', '--model={model}'],
+    });
+
+    expect(harness.buildCommand('fix it', { agent: 'build' })).toEqual([
+      'aider',
+      '--agent',
+      'build',
+      '--message',
+      'fix it',
+    ]);
+    expect(harness.buildInteractiveCommand('fix it', { model: 'gpt-5' })).toEqual([
+      'aider',
+      '--model=gpt-5',
+    ]);
+  });
+});
+
+describe('Harnesses', () => {
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(path.join(os.tmpdir(), 'ody-harnesses-test-'));
+  });
+
+  afterEach(async () => {
+    await Harnesses.load({});
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  test('builds commands for a harness declared as a template', async () => {
+    await Harnesses.load({
+      harnesses: {
+        gemini: { label: 'Gemini CLI', command: ['gemini', '-m', '{model}', '-p', '{prompt}'] },
+      },
+    });
+
+    const backend = new Backend('gemini', { model: 'gemini-2.5-pro' });
+
+    expect(backend.buildCommand('do the task')).toEqual([
+      'gemini',
+      '-m',
+      'gemini-2.5-pro',
+      '-p',
+      'do the task',
+    ]);
+    expect(Harnesses.get('gemini')).toMatchObject({ label: 'Gemini CLI', binary: 'gemini' });
+  });
+
+  test('loads a harness class from a module relative to the project', async () => {
+    await writeFile(
+      path.join(tmpDir, 'wrapper.ts'),
+      [
+        'export default class Wrapper {',
+        "  outputFormat = 'stream-json';",
+        '  buildCommand(prompt: string, opts: { model?: string } = {}) {',
+        "    return ['wrapper', opts.model ?? 'default', prompt];",
+        '  }',
+        '}',
+      ].join('\n'),
+    );
+
+    await Harnesses.load({ harnesses: { wrapper: { module: './wrapper.ts' } } }, tmpDir);
+
+    const backend = new Backend('wrapper', {});
+
+    expect(backend.outputFormat).toBe('stream-json');
+    expect(backend.buildInteractiveCommand('hi', 'big')).toEqual(['wrapper', 'big', 'hi']);
+  });
+
+  test('rejects modules without a default-exported class', async () => {
+    await writeFile(path.join(tmpDir, 'broken.ts'), 'export const harness = {};\n');
+
+    await expect(
+      Harnesses.load({ harnesses: { broken: { module: 'broken.ts' } } }, tmpDir),
+    ).rejects.toThrow('must default-export a Harness class');
+  });
+
+  test('reports unknown backends', () => {
+    expect(() => new Backend('aider', {})).toThrow('Unknown backend "aider"');
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, test } from 'bun:test';
+
+import { StreamJson, createStreamJsonCollector } from '../streamJson';
+
+const lines = [
+  '{"type":"system","subtype":"init","session_id":"abc","tools":["Bash"]}',
+  JSON.stringify({
+    type: 'assistant',
+    message: {
+      content: [
+        { type: 'text', text: 'Reading the task.' },
+        { type: 'tool_use', id: 'tool-1', name: 'Bash', input: { command: 'ls' } },
+      ],
+    },
+  }),
+  '{"type":"user","message":{"content":[{"type":"tool_result","tool_use_id":"tool-1","content":"a.ts"}]}}',
+  JSON.stringify({
+    type: 'assistant',
+    message: { content: [{ type: 'text', text: 'Done.\n<woof>COMPLETE</woof>' }] },
+  }),
+  JSON.stringify({
+    type: 'result',
+    subtype: 'success',
+    is_error: false,
+    result: 'Done.\n<woof>COMPLETE</woof>',
+    total_cost_usd: 0.4213,
+    usage: {
+      input_tokens: 1200,
+      output_tokens: 340,
+      cache_creation_input_tokens: 5000,
+      cache_read_input_tokens: 20000,
+    },
+  }),
+];
+
+describe('StreamJson', () => {
+  test('collects assistant messages, tool calls and the final usage', () => {
+    const collector = createStreamJsonCollector();
+
+    for (const line of lines) {
+      collector.onLine(line);
+    }
+
+    expect(collector.finalize()).toEqual({
+      messages: ['Reading the task.', 'Done.\n<woof>COMPLETE</woof>'],
+      toolCalls: [{ name: 'Bash', input: { command: 'ls' } }],
+      result: 'Done.\n<woof>COMPLETE</woof>',
+      isError: false,
+      usage: {
+        inputTokens: 1200,
+        outputTokens: 340,
+        cacheCreationInputTokens: 5000,
+        cacheReadInputTokens: 20000,
+        costUsd: 0.4213,
+      },
+    });
+  });
+
+  test('ignores plain text and malformed JSON lines', () => {
+    expect(StreamJson.parseLine('not json')).toEqual([]);
+    expect(StreamJson.parseLine('{"type":"assistant"')).toEqual([]);
+    expect(StreamJson.parseLine('{"type":"assistant","message":{}}')).toEqual([]);
+  });
+
+  test('flags error results', () => {
+    expect(
+      StreamJson.parseLine('{"type":"result","subtype":"error_max_turns","usage":{}}'),
+    ).toEqual([{ type: 'result', text: null, isError: true, usage: StreamJson.emptyUsage() }]);
+  });
+
+  test('adds and formats usage totals', () => {
+    const usage = StreamJson.addUsage(
+      {
+        inputTokens: 1000,
+        outputTokens: 200,
+        cacheCreationInputTokens: 0,
+        cacheReadInputTokens: 500,
+        costUsd: 0.1,
+      },
+      {
+        inputTokens: 500,
+        outputTokens: 100,
+        cacheCreationInputTokens: 0,
+        cacheReadInputTokens: 0,
+        costUsd: 0.25,
+      },
+    );
+
+    expect(StreamJson.formatUsage(usage)).toBe('2,000 input / 300 output tokens, $0.35');
+  });
+});
@@ -1,9 +1,7 @@
 import type { OdyConfig } from '@internal/config';
 
-import { Claude } from './claude';
-import { Codex } from './codex';
 import type { Harness } from './harness';
-import { Opencode } from './opencode';
+import { Harnesses } from './registry';
 
 export class Backend {
   name: string;
@@ -14,18 +12,15 @@ export class Backend {
     selectedBackend: string,
     config: Pick<OdyConfig, 'agent' | 'model' | 'skipPermissions'>,
   ) {
-    if (selectedBackend === 'claude') {
-      this.harness = new Claude();
-    } else if (selectedBackend === 'codex') {
-      this.harness = new Codex();
-    } else {
-      this.harness = new Opencode();
-    }
-
+    this.harness = Harnesses.create(selectedBackend);
     this.name = selectedBackend;
     this.config = config;
   }
 
+  get outputFormat() {
+    return this.harness.outputFormat;
+  }
+
   buildCommand(prompt: string, model?: string) {
     const fallbackModel = typeof this.config.model === 'string' ? this.config.model : undefined;
 
@@ -1,7 +1,8 @@
-import { Harness, type CommandOptions } from './harness';
+import { Harness, type CommandOptions, type OutputFormat } from './harness';
 
 export class Claude extends Harness {
   name = 'Claude Code';
+  override outputFormat: OutputFormat = 'stream-json';
 
   override buildCommand(prompt: string, opts: CommandOptions = {}): string[] {
     const skipPermissions = opts.skipPermissions ?? true;
@@ -4,7 +4,11 @@ export type CommandOptions = {
   skipPermissions?: boolean;
 };
 
+export type OutputFormat = 'text' | 'stream-json';
+
 export abstract class Harness {
+  outputFormat: OutputFormat = 'text';
+
   abstract buildCommand(prompt: string, opts?: CommandOptions): string[];
 
   buildInteractiveCommand(prompt: string, opts?: CommandOptions): string[] {
@@ -1,3 +1,7 @@
 export { Backend } from './backend';
-export { Harness, type CommandOptions } from './harness';
+export { Harness, type CommandOptions, type OutputFormat } from './harness';
+export { Harnesses, type HarnessDefinition } from './registry';
+export { StreamJson, createStreamJsonCollector } from './streamJson';
+export type { AgentUsage, StreamJsonEvent, StreamJsonSummary } from './streamJson';
+export { TemplateHarness, type HarnessTemplate } from './template';
 export { getAvailableBackends } from './util';
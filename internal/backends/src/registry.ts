@@ -0,0 +1,161 @@
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+import type { HarnessConfig, OdyConfig } from '@internal/config';
+
+import { Claude } from './claude';
+import { Codex } from './codex';
+import { Harness, type CommandOptions, type OutputFormat } from './harness';
+import { Opencode } from './opencode';
+import { TemplateHarness } from './template';
+
+export type HarnessDefinition = {
+  label: string;
+  binary?: string;
+  create: () => Harness;
+};
+
+type ExternalHarnessInstance = {
+  outputFormat?: OutputFormat;
+  buildCommand: (prompt: string, opts?: CommandOptions) => string[];
+  buildInteractiveCommand?: (prompt: string, opts?: CommandOptions) => string[];
+};
+
+// Module harnesses are loaded from the user's project and cannot import ody's
+// own Harness class, so they are checked by shape and adapted.
+class ExternalHarness extends Harness {
+  private instance: ExternalHarnessInstance;
+
+  constructor(instance: ExternalHarnessInstance) {
+    super();
+    this.instance = instance;
+    this.outputFormat = instance.outputFormat ?? 'text';
+  }
+
+  override buildCommand(prompt: string, opts?: CommandOptions): string[] {
+    return this.instance.buildCommand(prompt, opts);
+  }
+
+  override buildInteractiveCommand(prompt: string, opts?: CommandOptions): string[] {
+    return (this.instance.buildInteractiveCommand ?? this.instance.buildCommand).call(
+      this.instance,
+      prompt,
+      opts,
+    );
+  }
+}
+
+const BUILT_IN_HARNESSES: Record<string, HarnessDefinition> = {
+  opencode: { label: 'OpenCode', binary: 'opencode', create: () => new Opencode() },
+  claude: { label: 'Claude Code', binary: 'claude', create: () => new Claude() },
+  codex: { label: 'Codex', binary: 'codex', create: () => new Codex() },
+};
+
+function isExternalHarness(value: unknown): value is ExternalHarnessInstance {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as ExternalHarnessInstance).buildCommand === 'function'
+  );
+}
+
+async function importHarnessClass(name: string, modulePath: string) {
+  let exports: Record<string, unknown>;
+
+  try {
+    exports = (await import(pathToFileURL(modulePath).href)) as Record<string, unknown>;
+  } catch (err) {
+    throw new Error(
+      `Failed to load harness "${name}" from ${modulePath}: ${Error.isError(err) ? err.message : String(err)}`,
+    );
+  }
+
+  const HarnessClass = exports.default;
+
+  if (typeof HarnessClass !== 'function') {
+    throw new Error(`Harness module ${modulePath} must default-export a Harness class`);
+  }
+
+  return HarnessClass as new () => unknown;
+}
+
+function defineModuleHarness(
+  name: string,
+  HarnessClass: new () => unknown,
+  label: string,
+): HarnessDefinition {
+  return {
+    label,
+    create() {
+      const instance = new HarnessClass();
+
+      if (instance instanceof Harness) {
+        return instance;
+      }
+
+      if (!isExternalHarness(instance)) {
+        throw new Error(`Harness "${name}" does not implement buildCommand(prompt, opts)`);
+      }
+
+      return new ExternalHarness(instance);
+    },
+  };
+}
+
+async function defineHarness(
+  name: string,
+  harness: HarnessConfig,
+  baseDir: string,
+): Promise<HarnessDefinition> {
+  const label = harness.label ?? name;
+
+  if ('module' in harness) {
+    const HarnessClass = await importHarnessClass(name, path.resolve(baseDir, harness.module));
+    return defineModuleHarness(name, HarnessClass, label);
+  }
+
+  const [binary] = harness.command;
+
+  return {
+    label,
+    // Commands given as a path are not looked up on PATH.
+    binary: binary && path.basename(binary) === binary ? binary : undefined,
+    create: () => new TemplateHarness(harness),
+  };
+}
+
+export namespace Harnesses {
+  let custom = new Map<string, HarnessDefinition>();
+
+  export async function load(config: Pick<OdyConfig, 'harnesses'>, baseDir = process.cwd()) {
+    const loaded = new Map<string, HarnessDefinition>();
+
+    for (const [name, harness] of Object.entries(config.harnesses ?? {})) {
+      loaded.set(name, await defineHarness(name, harness, baseDir));
+    }
+
+    custom = loaded;
+  }
+
+  export function get(name: string): HarnessDefinition | undefined {
+    return BUILT_IN_HARNESSES[name] ?? custom.get(name);
+  }
+
+  export function list(): [string, HarnessDefinition][] {
+    return [...Object.entries(BUILT_IN_HARNESSES), ...custom.entries()];
+  }
+
+  export function create(name: string): Harness {
+    const definition = get(name);
+
+    if (!definition) {
+      throw new Error(
+        `Unknown backend "${name}". Use one of ${list()
+          .map(([key]) => key)
+          .join(', ')}, or define it under "harnesses" in ody.json.`,
+      );
+    }
+
+    return definition.create();
+  }
+}
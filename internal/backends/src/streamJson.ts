@@ -0,0 +1,162 @@
+export type AgentUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd: number;
+};
+
+export type StreamJsonEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; name: string; input: unknown }
+  | { type: 'result'; text: string | null; isError: boolean; usage: AgentUsage };
+
+export type StreamJsonSummary = {
+  messages: string[];
+  toolCalls: { name: string; input: unknown }[];
+  result: string | null;
+  isError: boolean;
+  usage: AgentUsage | null;
+};
+
+type RawContentBlock = {
+  type?: string;
+  text?: unknown;
+  name?: unknown;
+  input?: unknown;
+};
+
+type RawEvent = {
+  type?: string;
+  subtype?: string;
+  is_error?: boolean;
+  result?: unknown;
+  total_cost_usd?: unknown;
+  usage?: Record<string, unknown>;
+  message?: { content?: unknown };
+};
+
+function toNumber(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+function parseUsage(event: RawEvent): AgentUsage {
+  return {
+    inputTokens: toNumber(event.usage?.input_tokens),
+    outputTokens: toNumber(event.usage?.output_tokens),
+    cacheCreationInputTokens: toNumber(event.usage?.cache_creation_input_tokens),
+    cacheReadInputTokens: toNumber(event.usage?.cache_read_input_tokens),
+    costUsd: toNumber(event.total_cost_usd),
+  };
+}
+
+export namespace StreamJson {
+  export function emptyUsage(): AgentUsage {
+    return {
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+      costUsd: 0,
+    };
+  }
+
+  export function addUsage(total: AgentUsage, usage: AgentUsage): AgentUsage {
+    return {
+      inputTokens: total.inputTokens + usage.inputTokens,
+      outputTokens: total.outputTokens + usage.outputTokens,
+      cacheCreationInputTokens: total.cacheCreationInputTokens + usage.cacheCreationInputTokens,
+      cacheReadInputTokens: total.cacheReadInputTokens + usage.cacheReadInputTokens,
+      costUsd: total.costUsd + usage.costUsd,
+    };
+  }
+
+  export function totalInputTokens(usage: AgentUsage) {
+    return usage.inputTokens + usage.cacheCreationInputTokens + usage.cacheReadInputTokens;
+  }
+
+  export function formatUsage(usage: AgentUsage) {
+    const tokens = new Intl.NumberFormat('en-US');
+
+    return `${tokens.format(totalInputTokens(usage))} input / ${tokens.format(usage.outputTokens)} output tokens, $${usage.costUsd.toFixed(2)}`;
+  }
+
+  export function parseLine(line: string): StreamJsonEvent[] {
+    const trimmed = line.trim();
+
+    if (!trimmed.startsWith('{')) {
+      return [];
+    }
+
+    let event: RawEvent;
+
+    try {
+      event = JSON.parse(trimmed) as RawEvent;
+    } catch {
+      return [];
+    }
+
+    if (event.type === 'result') {
+      return [
+        {
+          type: 'result',
+          text: typeof event.result === 'string' ? event.result : null,
+          isError: event.is_error === true || (event.subtype ?? 'success') !== 'success',
+          usage: parseUsage(event),
+        },
+      ];
+    }
+
+    if (event.type !== 'assistant' || !Array.isArray(event.message?.content)) {
+      return [];
+    }
+
+    const events: StreamJsonEvent[] = [];
+
+    for (const block of event.message.content as RawContentBlock[]) {
+      if (block.type === 'text' && typeof block.text === 'string') {
+        events.push({ type: 'text', text: block.text });
+      } else if (block.type === 'tool_use' && typeof block.name === 'string') {
+        events.push({ type: 'tool_use', name: block.name, input: block.input });
+      }
+    }
+
+    return events;
+  }
+}
+
+export function createStreamJsonCollector() {
+  const summary: StreamJsonSummary = {
+    messages: [],
+    toolCalls: [],
+    result: null,
+    isError: false,
+    usage: null,
+  };
+
+  return {
+    onLine(line: string): StreamJsonEvent[] {
+      const events = StreamJson.parseLine(line);
+
+      for (const event of events) {
+        if (event.type === 'text') {
+          summary.messages.push(event.text);
+        } else if (event.type === 'tool_use') {
+          summary.toolCalls.push({ name: event.name, input: event.input });
+        } else {
+          summary.result = event.text;
+          summary.isError = event.isError;
+          summary.usage = StreamJson.addUsage(
+            summary.usage ?? StreamJson.emptyUsage(),
+            event.usage,
+          );
+        }
+      }
+
+      return events;
+    },
+    finalize(): StreamJsonSummary {
+      return summary;
+    },
+  };
+}
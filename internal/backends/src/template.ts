@@ -0,0 +1,41 @@
+import { Harness, type CommandOptions, type OutputFormat } from './harness';
+
+export type HarnessTemplate = {
+  command: string[];
+  interactiveCommand?: string[];
+  outputFormat?: OutputFormat;
+};
+
+const PLACEHOLDER = /\{(prompt|model|agent)\}/g;
+
+function renderTemplate(template: string[], prompt: string, opts: CommandOptions) {
+  const values: Record<string, string | undefined> = {
+    prompt,
+    model: opts.model,
+    agent: opts.agent,
+  };
+
+  // An argument whose placeholder has no value is dropped, so `--model={model}`
+  // disappears when no model is configured.
+  return template
+    .filter((arg) => [...arg.matchAll(PLACEHOLDER)].every(([, key]) => values[key!] !== undefined))
+    .map((arg) => arg.replace(PLACEHOLDER, (_, key: string) => values[key] ?? ''));
+}
+
+export class TemplateHarness extends Harness {
+  private template: HarnessTemplate;
+
+  constructor(template: HarnessTemplate) {
+    super();
+    this.template = template;
+    this.outputFormat = template.outputFormat ?? 'text';
+  }
+
+  override buildCommand(prompt: string, opts: CommandOptions = {}): string[] {
+    return renderTemplate(this.template.command, prompt, opts);
+  }
+
+  override buildInteractiveCommand(prompt: string, opts: CommandOptions = {}): string[] {
+    return renderTemplate(this.template.interactiveCommand ?? this.template.command, prompt, opts);
+  }
+}
@@ -1,6 +1,8 @@
 import { accessSync, constants, statSync } from 'node:fs';
 import { delimiter, extname, join } from 'node:path';
 
+import { Harnesses } from './registry';
+
 type AvailableBackend = {
   label: string;
   value: string;
@@ -81,29 +83,7 @@ const isOnPath = (binary: string): boolean => {
   return false;
 };
 
-export const getAvailableBackends = (): AvailableBackend[] => {
-  const backends: AvailableBackend[] = [];
-
-  if (isOnPath('opencode')) {
-    backends.push({
-      label: 'OpenCode',
-      value: 'opencode',
-    });
-  }
-
-  if (isOnPath('claude')) {
-    backends.push({
-      label: 'Claude Code',
-      value: 'claude',
-    });
-  }
-
-  if (isOnPath('codex')) {
-    backends.push({
-      label: 'Codex',
-      value: 'codex',
-    });
-  }
-
-  return backends;
-};
+export const getAvailableBackends = (): AvailableBackend[] =>
+  Harnesses.list()
+    .filter(([, definition]) => !definition.binary || isOnPath(definition.binary))
+    .map(([name, definition]) => ({ label: definition.label, value: name }));
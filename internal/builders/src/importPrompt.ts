@@ -28,8 +28,8 @@ The following is the formatted data from a Jira ticket. Use this data to populat
 - Map the ticket **description** and **comments** to the Description, Background, and Technical Requirements sections
 - Infer the Implementation Approach from the ticket context, breaking it into concrete steps
 - Infer Acceptance Criteria from the ticket context using the Given/When/Then format
-- Include the Jira ticket key (e.g., PROJ-123) in the Labels metadata field
-- Map the ticket priority to the Complexity field (use your best judgement)
+- Include the Jira ticket key (e.g., PROJ-123) in the \`labels\` frontmatter list
+- Map the ticket priority to the \`complexity\` frontmatter field (use your best judgement)
 
 {TICKET_DATA}
 
@@ -61,8 +61,8 @@ The following is the formatted data from a GitHub issue. Use this data to popula
 - Map the issue **body** (description) and **comments** to the Description, Background, and Technical Requirements sections
 - Infer the Implementation Approach from the issue context, breaking it into concrete steps
 - Infer Acceptance Criteria from the issue context using the Given/When/Then format
-- Include the issue reference (e.g., owner/repo#123) in the Labels metadata field
-- Use the issue labels to help inform the Complexity field (use your best judgement)
+- Include the issue reference (e.g., owner/repo#123) in the \`labels\` frontmatter list
+- Use the issue labels to help inform the \`complexity\` frontmatter field (use your best judgement)
 
 {TICKET_DATA}
 
@@ -70,7 +70,80 @@ OUTPUT
 When finished writing the task file, output the text: <woof>COMPLETE</woof>.
 `;
 
-export type ImportSource = 'github' | 'jira';
+const LINEAR_IMPORT_PROMPT = `
+OVERVIEW
+This SOP generates a structured code task file from an imported Linear issue. It takes the formatted issue data and creates a properly formatted .code-task.md file following the code task format specification. The agent maps Linear issue fields to the appropriate task sections.
+
+RULES
+- Create EXACTLY ONE task as a markdown file
+- The file MUST be written to the {TASKS_DIR} directory
+- The filename MUST use kebab-case and end with .code-task.md (e.g., {TASKS_DIR}/add-email-validation.code-task.md)
+- The filename should be descriptive of the task content, derived from the Linear issue title
+- <woof>COMPLETE</woof> should NEVER be added to the task file, as it's important during the runtime of implementing a task
+- All sections in the template below are REQUIRED — do not skip any
+
+FILE FORMAT
+The file MUST follow this exact structure:
+
+${TASK_FILE_FORMAT}
+
+IMPORTED LINEAR ISSUE
+The following is the formatted data from a Linear issue. Use this data to populate the task file sections:
+
+- Use the issue **title** as the basis for the Task name (concise and descriptive)
+- Map the issue **body** (description) and **comments** to the Description, Background, and Technical Requirements sections
+- Infer the Implementation Approach from the issue context, breaking it into concrete steps
+- Infer Acceptance Criteria from the issue context using the Given/When/Then format
+- Include the issue reference (e.g., ENG-123) in the \`labels\` frontmatter list
+- Use the issue priority and labels to help inform the \`complexity\` frontmatter field (use your best judgement)
+
+{TICKET_DATA}
+
+OUTPUT
+When finished writing the task file, output the text: <woof>COMPLETE</woof>.
+`;
+
+const GITLAB_IMPORT_PROMPT = `
+OVERVIEW
+This SOP generates a structured code task file from an imported GitLab issue. It takes the formatted issue data and creates a properly formatted .code-task.md file following the code task format specification. The agent maps GitLab issue fields to the appropriate task sections.
+
+RULES
+- Create EXACTLY ONE task as a markdown file
+- The file MUST be written to the {TASKS_DIR} directory
+- The filename MUST use kebab-case and end with .code-task.md (e.g., {TASKS_DIR}/add-email-validation.code-task.md)
+- The filename should be descriptive of the task content, derived from the GitLab issue title
+- <woof>COMPLETE</woof> should NEVER be added to the task file, as it's important during the runtime of implementing a task
+- All sections in the template below are REQUIRED — do not skip any
+
+FILE FORMAT
+The file MUST follow this exact structure:
+
+${TASK_FILE_FORMAT}
+
+IMPORTED GITLAB ISSUE
+The following is the formatted data from a GitLab issue. Use this data to populate the task file sections:
+
+- Use the issue **title** as the basis for the Task name (concise and descriptive)
+- Map the issue **body** (description) and **comments** to the Description, Background, and Technical Requirements sections
+- Infer the Implementation Approach from the issue context, breaking it into concrete steps
+- Infer Acceptance Criteria from the issue context using the Given/When/Then format
+- Include the issue reference (e.g., group/project#123) in the \`labels\` frontmatter list
+- Use the issue labels to help inform the \`complexity\` frontmatter field (use your best judgement)
+
+{TICKET_DATA}
+
+OUTPUT
+When finished writing the task file, output the text: <woof>COMPLETE</woof>.
+`;
+
+export type ImportSource = 'github' | 'gitlab' | 'jira' | 'linear';
+
+const IMPORT_PROMPTS: Record<ImportSource, string> = {
+  github: GITHUB_IMPORT_PROMPT,
+  gitlab: GITLAB_IMPORT_PROMPT,
+  jira: IMPORT_PROMPT,
+  linear: LINEAR_IMPORT_PROMPT,
+};
 
 export const buildImportPrompt = ({
   data,
@@ -94,7 +167,7 @@ export const buildImportPrompt = ({
 
   const tasksDirPath = path.join(BASE_DIR, tasksDir);
 
-  const prompt = source === 'github' ? GITHUB_IMPORT_PROMPT : IMPORT_PROMPT;
+  const prompt = IMPORT_PROMPTS[source];
 
   return prompt
     .replace('{TICKET_DATA}', data)
@@ -7,3 +7,4 @@ export { buildResolvePrompt } from './resolvePrompt';
 export { buildReviewPrompt } from './reviewPrompt';
 export { LOOP_PROMPT, SINGLE_TASK_PROMPT, buildRunPrompt } from './runPrompt';
 export { TASK_FILE_FORMAT } from './shared';
+export { buildTaskReviewPrompt } from './taskReviewPrompt';
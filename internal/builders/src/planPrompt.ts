@@ -67,6 +67,7 @@ Objectives:
 - Decompose broad requests into discrete, well-scoped task files.
 - Once enough information is gathered, write the task file or files in the required format.
 - Order tasks logically: dependencies first, dependent tasks later.
+- Record prerequisites in each task's \`dependsOn\` frontmatter as a list of task filenames; use \`[]\` when a task has none.
 
 Behavior rules:
 - Be concise, practical, and structured.
@@ -139,6 +140,7 @@ RULES
 - <woof>COMPLETE</woof> should NEVER be added to any task file, as it's important during the runtime of implementing a task
 - All sections in the template below are REQUIRED for each task file — do not skip any
 - Order tasks logically: dependencies first, dependent tasks later
+- Record prerequisites in each task's "dependsOn" frontmatter as a list of task filenames (e.g., dependsOn: [add-email-validation.code-task.md]); use [] when a task has none
 
 FILE FORMAT
 Each file MUST follow this exact structure:
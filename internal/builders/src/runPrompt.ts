@@ -4,18 +4,15 @@ import { BASE_DIR, Config, TASKS_DIR } from '@internal/config';
 import type { OdyConfig } from '@internal/config';
 
 export const LOOP_PROMPT = `
-1. Look in the {TASKS_DIR} directory for .code-task.md files. Read the YAML frontmatter of each file and find tasks with "status: pending". Select the single highest-priority pending task (use your judgement; not necessarily the first listed).
+1. Look in the {TASKS_DIR} directory for .code-task.md files. Read the YAML frontmatter of each file and find tasks with "status: pending". If a task is already "status: in_progress", a previous run was interrupted while working on it: select that task first and continue its partial work. Skip any task whose "dependsOn" list references a task that is not "status: completed". Select the single highest-priority remaining task (use your judgement; not necessarily the first listed).
 2. Update the selected task's YAML frontmatter: set "status: in_progress" and set "started" to today's date (YYYY-MM-DD format).
 3. Implement only that task, following its Technical Requirements and Implementation Approach.
 4. Use following commands to validate work: {VALIDATION_COMMANDS} (skip if none).
    If any validation commands are failing, do your best to fix them on your own
-5. Update the task's YAML frontmatter: set "status: completed" and set "completed" to today's date (YYYY-MM-DD format).
-6. Append a short progress note to {PROGRESS_FILE} file.
-7. If autoCommit is true, create a git commit for this task.
-   ONLY commit if all validation commands are passing
-
-INPUT
-autoCommit: {AUTO_COMMIT}
+5. Verify each numbered item under "## Acceptance Criteria" in the task file. When a criterion is satisfied, check it off by writing "[x]" after its number (e.g. "1. [x] **Criterion Name**") and add an "- Evidence: ..." line under it naming the test, command output or file that proves it. Leave criteria you could not verify unchecked.
+6. If every acceptance criterion is checked, update the task's YAML frontmatter: set "status: completed" and set "completed" to today's date (YYYY-MM-DD format). Otherwise leave the task "in_progress".
+7. Append a short progress note to {PROGRESS_FILE} file.
+8. Do not create git commits. ody commits the task's changes itself after checking them.
 
 OUTPUT
 - If all tasks in {TASKS_DIR} are completed (no pending tasks remain), output <woof>COMPLETE</woof>.
@@ -25,16 +22,13 @@ OUTPUT
 export const SINGLE_TASK_PROMPT = `
 1. Read the task file at {TASK_FILE}. Parse its YAML frontmatter and body.
 2. Update the task's YAML frontmatter: set "status: in_progress" and set "started" to today's date (YYYY-MM-DD format).
-3. Implement only that task, following its Technical Requirements and Implementation Approach.
+3. Implement only that task, following its Technical Requirements and Implementation Approach. Do not change the status of any other task file.
 4. Use following commands to validate work: {VALIDATION_COMMANDS} (skip if none).
    If any validation commands are failing, do your best to fix them on your own
-5. Update the task's YAML frontmatter: set "status: completed" and set "completed" to today's date (YYYY-MM-DD format).
-6. Append a short progress note to {PROGRESS_FILE} file.
-7. If autoCommit is true, create a git commit for this task.
-   ONLY commit if all validation commands are passing
-
-INPUT
-autoCommit: {AUTO_COMMIT}
+5. Verify each numbered item under "## Acceptance Criteria" in the task file. When a criterion is satisfied, check it off by writing "[x]" after its number (e.g. "1. [x] **Criterion Name**") and add an "- Evidence: ..." line under it naming the test, command output or file that proves it. Leave criteria you could not verify unchecked.
+6. If every acceptance criterion is checked, update the task's YAML frontmatter: set "status: completed" and set "completed" to today's date (YYYY-MM-DD format). Otherwise leave the task "in_progress".
+7. Append a short progress note to {PROGRESS_FILE} file.
+8. Do not create git commits. ody commits the task's changes itself after checking them.
 
 OUTPUT
 - When the task is completed, output <woof>COMPLETE</woof>.
@@ -43,38 +37,70 @@ OUTPUT
 type BuildRunPromptOptions = {
   taskFiles?: string[];
   taskFile?: string;
-  config?: Pick<OdyConfig, 'autoCommit' | 'validatorCommands' | 'tasksDir'>;
+  config?: Pick<OdyConfig, 'validatorCommands' | 'tasksDir'>;
+  validationFailures?: string;
+  reviewFeedback?: string;
+  resume?: boolean;
 };
 
+const formatReviewFeedback = (feedback: string) => `
+
+REVIEW FEEDBACK
+A reviewer looked at the changes from your previous attempt and asked for changes before approving the task, so it was set back to "in_progress". Address the feedback below, keep its acceptance criteria checked, then set the task to "completed" again.
+
+${feedback}`;
+
 export const buildRunPrompt = (options?: BuildRunPromptOptions) => {
   const config = options?.config ?? Config.all();
-  const autoCommit = config.autoCommit;
   const validatorCommands = config.validatorCommands;
   const tasksDirPath = path.join(BASE_DIR, config.tasksDir ?? TASKS_DIR);
   const validationStr = validatorCommands ? validatorCommands.join(', ') : '';
 
   if (options?.taskFile) {
-    const prompt = SINGLE_TASK_PROMPT.replace('{TASK_FILE}', options.taskFile)
+    let taskPrompt = SINGLE_TASK_PROMPT.replace('{TASK_FILE}', options.taskFile)
       .replace('{VALIDATION_COMMANDS}', validationStr)
       .replace('{PROGRESS_FILE}', '.ody/progress.txt')
-      .replace('{AUTO_COMMIT}', String(autoCommit));
+      .trim();
+
+    if (options.resume) {
+      taskPrompt += `
 
-    return prompt.trim();
+RESUMED TASK
+A previous run was interrupted while working on this task, so it may already be partially implemented. Inspect the working tree (e.g. git status and git diff) and continue from where that work stopped instead of starting over.`;
+    }
+
+    if (options.reviewFeedback) {
+      taskPrompt += formatReviewFeedback(options.reviewFeedback);
+    }
+
+    if (options.validationFailures) {
+      return `${taskPrompt}
+
+VALIDATION FAILURES
+ody checked your previous attempt and found the problems below, so the task was set back to "in_progress". Fix the failing validation commands and verify and check off the remaining acceptance criteria, then set the task to "completed" again.
+
+${options.validationFailures}`;
+    }
+
+    return taskPrompt;
   }
 
   let prompt = LOOP_PROMPT.replace('{VALIDATION_COMMANDS}', validationStr)
     .replace(/{TASKS_DIR}/g, tasksDirPath)
-    .replace('{PROGRESS_FILE}', '.ody/progress.txt')
-    .replace('{AUTO_COMMIT}', String(autoCommit));
+    .replace('{PROGRESS_FILE}', '.ody/progress.txt');
 
   if (options?.taskFiles && options.taskFiles.length > 0) {
     const taskList = options.taskFiles.map((f) => `  - ${f}`).join('\n');
     prompt += `
 
-LABEL FILTER
-Only consider the following task files:
+TASK FILTER
+Only consider the following task files, listed in dependency order (every other task is filtered out or still blocked by its dependencies):
 ${taskList}`;
   }
 
+  if (options?.reviewFeedback) {
+    prompt += formatReviewFeedback(options.reviewFeedback);
+  }
+
   return prompt.trim();
 };
@@ -5,6 +5,10 @@ status: pending
 created: {CURRENT_DATE}
 started: null
 completed: null
+priority: medium  # high | medium | low
+complexity: medium  # low | medium | high
+labels: []  # e.g. [auth, api]
+dependsOn: []
 ---
 # Task: [Concise Task Name]
 
@@ -20,7 +24,7 @@ completed: null
 3. [Third requirement]
 
 ## Dependencies
-- [First dependency with details]
+- [First dependency with details; list prerequisite task filenames in the "dependsOn" frontmatter, e.g. dependsOn: [add-user-model.code-task.md]]
 - [Second dependency with details]
 
 ## Implementation Approach
@@ -30,18 +34,14 @@ completed: null
 
 ## Acceptance Criteria
 
-1. **[Criterion Name]**
+1. [ ] **[Criterion Name]**
    - Given [precondition]
    - When [action]
    - Then [expected result]
 
-2. **[Another Criterion]**
+2. [ ] **[Another Criterion]**
    - Given [precondition]
    - When [action]
    - Then [expected result]
-
-## Metadata
-- **Complexity**: [Low/Medium/High]
-- **Labels**: [Comma-separated list of labels]
 \`\`\`
 `;
@@ -0,0 +1,112 @@
+const TASK_REVIEW_PROMPT = `
+# Task Review
+
+## Overview
+
+Review the changes another agent made to implement a task, focusing on critical issues: missed requirements, security vulnerabilities, bugs and best practices. Generates concise, actionable findings.
+
+Review only the diff below. Do not modify, create or delete any files and do not commit; only report findings.
+
+
+## Workflow
+
+1. Read the task
+
+The task file is at {TASK_FILE}:
+
+<task>
+{TASK_CONTENT}
+</task>
+
+2. Read the diff
+
+The changes made for the task, relative to the commit the task started from:
+
+<diff>
+{DIFF}
+</diff>
+
+3. Analyze the diff against the task
+
+Compare the diff against the task's Technical Requirements and Acceptance Criteria. Read the surrounding code in the repository when the diff alone does not give enough context. The analysis should follow the following key areas:
+
+### Focus areas
+
+#### Requirements - priority: CRITICAL
+
+- Every Technical Requirement is implemented
+- Every Acceptance Criterion is actually satisfied by the change, not only checked off
+- The change stays within the scope of the task
+
+#### Security - priority: CRITICAL
+
+- Ensure there are no security holes in the specified changes
+- Authentication/authorization bypasses
+- Input validation/sanitization
+
+#### Correctness - priority: HIGH
+
+- Bugs and unhandled edge cases
+- Tests that do not exercise the behavior they claim to
+
+#### Best practices - priority: MEDIUM
+
+- Error handling
+- Consistent code patterns (scoped by current project definitions)
+- Code readability
+
+4. Report findings
+
+Each finding should be short, concise and actionable. Refrain from asking questions in a finding, they should be direct changes that can be applied. Output one block per finding:
+
+\`\`\`
+<finding severity="{severity}">
+**{title}**
+Issue: {1-2 sentence problem description}
+Fix: {numbered actionable steps}
+</finding>
+\`\`\`
+
+Severity is one of critical, high, medium or low. Critical and high findings block the task and send it back to the implementer; medium and low findings are recorded as suggestions.
+If nothing is worth flagging, output no finding blocks.
+
+**Example finding**:
+
+\`\`\`
+<finding severity="high">
+**Expired sessions are still accepted**
+Issue: \`getSession\` returns the stored session without comparing \`expiresAt\` to the current time.
+Fix:
+1. Return \`null\` from \`getSession\` when \`expiresAt\` is in the past.
+2. Add a test for an expired session.
+</finding>
+\`\`\`
+
+OUTPUT
+- When the review is finished, output <woof>COMPLETE</woof>.
+`;
+
+type BuildTaskReviewPromptParams = {
+  taskFile: string;
+  taskContent: string;
+  diff: string;
+};
+
+// Placeholders are filled in one pass so a diff or task that happens to
+// contain one is left alone.
+export const buildTaskReviewPrompt = ({
+  taskFile,
+  taskContent,
+  diff,
+}: BuildTaskReviewPromptParams) => {
+  const values: Record<string, string> = {
+    TASK_FILE: taskFile,
+    TASK_CONTENT: taskContent.trim(),
+    DIFF: diff.trim() || '(no changes)',
+  };
+
+  return TASK_REVIEW_PROMPT.replace(
+    /\{(TASK_FILE|TASK_CONTENT|DIFF)\}/g,
+    (match, key: string) => values[key] ?? match,
+  ).trim();
+};
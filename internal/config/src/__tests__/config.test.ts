@@ -0,0 +1,26 @@
+import { describe, expect, test } from 'bun:test';
+
+import { Config } from '../config';
+
+describe('Config.parse', () => {
+  test('accepts a backend defined under harnesses', () => {
+    const config = Config.parse({
+      backend: 'aider',
+      maxIterations: 1,
+      harnesses: { aider: { command: ['aider', '--message', '{prompt}'] } },
+    });
+
+    expect(config.backend).toBe('aider');
+  });
+
+  test('rejects unknown backends and redefined built-ins', () => {
+    expect(() => Config.parse({ backend: 'aider', maxIterations: 1 })).toThrow('Unknown backend');
+    expect(() =>
+      Config.parse({
+        backend: 'claude',
+        maxIterations: 1,
+        harnesses: { claude: { module: './claude.ts' } },
+      }),
+    ).toThrow('is a built-in backend and cannot be redefined');
+  });
+});
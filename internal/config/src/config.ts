@@ -7,6 +7,7 @@ import { z } from 'zod';
 import { ALLOWED_BACKENDS, BASE_DIR, ODY_FILE, TASKS_DIR } from './constants';
 
 export const backendsSchema = z.union(ALLOWED_BACKENDS.map((backend) => z.literal(backend)));
+const backendSchema = z.union([backendsSchema, z.string().nonempty()]);
 const notifySchema = z
   .union([z.boolean(), z.enum(['all', 'individual'])])
   .default(false)
@@ -21,31 +22,183 @@ const jiraSchema = z
 
 const githubSchema = z
   .object({
+    baseUrl: z.url().optional(),
+    apiUrl: z.url().optional(),
     profile: z.string().optional(),
   })
   .optional();
 
+const linearSchema = z
+  .object({
+    profile: z.string().optional(),
+  })
+  .optional();
+
+const gitlabSchema = z
+  .object({
+    baseUrl: z.url().optional(),
+    profile: z.string().optional(),
+  })
+  .optional();
+
+const harnessSchema = z.union([
+  z
+    .object({
+      label: z.string().optional(),
+      command: z.array(z.string()).nonempty(),
+      interactiveCommand: z.array(z.string()).nonempty().optional(),
+      outputFormat: z.enum(['text', 'stream-json']).optional(),
+    })
+    .strict(),
+  z
+    .object({
+      label: z.string().optional(),
+      module: z.string().nonempty(),
+    })
+    .strict(),
+]);
+
 const commandModelsSchema = z.object({
   run: z.string(),
   plan: z.string(),
   edit: z.string(),
 });
 
-export const configSchema = z.object({
-  backend: backendsSchema,
-  maxIterations: z.number().int().nonnegative(),
-  autoCommit: z.boolean().default(false),
-  validatorCommands: z.array(z.string()).default([]).optional(),
-  model: z.union([z.string(), commandModelsSchema]).optional(),
-  skipPermissions: z.boolean().default(true).optional(),
-  agent: z.string().nonempty().default('build').optional(),
-  tasksDir: z.string().nonempty().default(TASKS_DIR).optional(),
-  notify: notifySchema,
-  jira: jiraSchema,
-  github: githubSchema,
-});
+const modelSchema = z.union([z.string(), commandModelsSchema]);
+
+const reviewSchema = z
+  .object({
+    backend: backendSchema.optional(),
+    model: z.string().optional(),
+    rounds: z.number().int().positive().default(2).optional(),
+  })
+  .strict()
+  .optional();
+
+const gitSchema = z
+  .object({
+    branchPerTask: z.boolean().default(false).optional(),
+    branchName: z.string().nonempty().default('ody/{slug}').optional(),
+    baseBranch: z.string().nonempty().optional(),
+    openPullRequest: z.boolean().default(false).optional(),
+  })
+  .strict()
+  .optional();
+
+const commitSchema = z
+  .object({
+    template: z.string().nonempty().default('{type}: {title}').optional(),
+    trailers: z.boolean().default(true).optional(),
+    includeOdyDir: z.boolean().default(false).optional(),
+  })
+  .strict()
+  .optional();
+
+const taskStatusMapSchema = z
+  .object({
+    pending: z.string().nonempty().optional(),
+    in_progress: z.string().nonempty().optional(),
+    completed: z.string().nonempty().optional(),
+  })
+  .strict();
+
+const syncSchema = z
+  .object({
+    enabled: z.boolean().default(false).optional(),
+    jiraStatuses: taskStatusMapSchema.optional(),
+    closeGitHubIssues: z.boolean().default(false).optional(),
+  })
+  .strict()
+  .optional();
+
+const backendChainSchema = z
+  .array(
+    z.union([
+      backendSchema,
+      z
+        .object({
+          name: backendSchema,
+          model: modelSchema.optional(),
+        })
+        .strict(),
+    ]),
+  )
+  .nonempty();
+
+export const configSchema = z
+  .object({
+    backend: z.union([backendSchema, backendChainSchema]),
+    backendRetries: z.number().int().nonnegative().default(2).optional(),
+    maxIterations: z.number().int().nonnegative(),
+    autoCommit: z.boolean().default(false),
+    commit: commitSchema,
+    validatorCommands: z.array(z.string()).default([]).optional(),
+    validatorRetries: z.number().int().nonnegative().default(2).optional(),
+    validatorTimeout: z.number().positive().default(10).optional(),
+    budget: z.number().positive().optional(),
+    iterationTimeout: z.number().positive().optional(),
+    idleTimeout: z.number().positive().optional(),
+    onTimeout: z.enum(['retry', 'skip']).default('retry').optional(),
+    approval: z.enum(['none', 'required']).default('none').optional(),
+    review: reviewSchema,
+    git: gitSchema,
+    sync: syncSchema,
+    model: modelSchema.optional(),
+    skipPermissions: z.boolean().default(true).optional(),
+    agent: z.string().nonempty().default('build').optional(),
+    tasksDir: z.string().nonempty().default(TASKS_DIR).optional(),
+    notify: notifySchema,
+    jira: jiraSchema,
+    github: githubSchema,
+    linear: linearSchema,
+    gitlab: gitlabSchema,
+    harnesses: z.record(z.string(), harnessSchema).optional(),
+  })
+  .superRefine((config, ctx) => {
+    const builtIn: readonly string[] = ALLOWED_BACKENDS;
+
+    for (const name of Object.keys(config.harnesses ?? {})) {
+      if (builtIn.includes(name)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['harnesses', name],
+          message: `"${name}" is a built-in backend and cannot be redefined`,
+        });
+      }
+    }
+
+    for (const { name } of getBackendEntries(config.backend)) {
+      if (!builtIn.includes(name) && !config.harnesses?.[name]) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['backend'],
+          message: `Unknown backend "${name}". Use one of ${ALLOWED_BACKENDS.join(', ')}, or define it under "harnesses"`,
+        });
+      }
+    }
+
+    const reviewBackend = config.review?.backend;
+
+    if (reviewBackend && !builtIn.includes(reviewBackend) && !config.harnesses?.[reviewBackend]) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['review', 'backend'],
+        message: `Unknown backend "${reviewBackend}". Use one of ${ALLOWED_BACKENDS.join(', ')}, or define it under "harnesses"`,
+      });
+    }
+  });
 
 export type OdyConfig = z.infer<typeof configSchema>;
+export type BackendChoice = { name: string; model?: string };
+export type HarnessConfig = z.infer<typeof harnessSchema>;
+
+type BackendEntry = { name: string; model?: z.infer<typeof modelSchema> };
+
+function getBackendEntries(backend: string | (string | BackendEntry)[]): BackendEntry[] {
+  return (Array.isArray(backend) ? backend : [backend]).map((entry) =>
+    typeof entry === 'string' ? { name: entry } : entry,
+  );
+}
 
 function getHomeDir(): string {
   return process.env.HOME ?? process.env.USERPROFILE ?? os.homedir();
@@ -142,7 +295,40 @@ export namespace Config {
   export const Schema = z
     .object({
       $schema: z.string().optional().describe('JSON schema reference for configuration validation'),
-      backend: backendsSchema.describe('Backend harness to use for agent'),
+      backend: z
+        .union([
+          backendSchema.describe(
+            'Backend harness to use for agent: a built-in backend or a name defined in `harnesses`',
+          ),
+          z
+            .array(
+              z.union([
+                backendSchema,
+                z
+                  .object({
+                    name: backendSchema.describe('Backend harness name'),
+                    model: modelSchema
+                      .optional()
+                      .describe('Model for this backend, overriding the top-level `model`'),
+                  })
+                  .strict(),
+              ]),
+            )
+            .nonempty()
+            .describe(
+              'Ordered fallback chain; `ody run` moves to the next backend when one keeps failing with retryable errors',
+            ),
+        ])
+        .describe('Backend harness to use for agent'),
+      backendRetries: z
+        .number()
+        .int()
+        .nonnegative()
+        .default(2)
+        .optional()
+        .describe(
+          'How many times `ody run` retries a backend after a rate limit or outage before falling back to the next one',
+        ),
       maxIterations: z
         .number()
         .int()
@@ -151,12 +337,162 @@ export namespace Config {
       autoCommit: z
         .boolean()
         .default(false)
-        .describe('Generate a commit after each loop iteration'),
+        .describe('Have ody commit the changes of each task once its validators pass'),
+      commit: z
+        .object({
+          template: z
+            .string()
+            .nonempty()
+            .default('{type}: {title}')
+            .optional()
+            .describe(
+              'Commit message template; supports `{type}`, `{title}`, `{labels}` and `{taskFile}`',
+            ),
+          trailers: z
+            .boolean()
+            .default(true)
+            .optional()
+            .describe('Add trailers linking the Jira key or GitHub issue a task was imported from'),
+          includeOdyDir: z
+            .boolean()
+            .default(false)
+            .optional()
+            .describe('Also commit changes under `.ody/` (task files, progress notes)'),
+        })
+        .strict()
+        .optional()
+        .describe('How ody writes the commits it makes for tasks'),
       validatorCommands: z
         .array(z.string())
         .default([])
         .optional()
-        .describe('Specific commands the agent can use to verify the code is in good shape'),
+        .describe(
+          'Commands ody runs after each task to verify the code is in good shape; the agent can also use them',
+        ),
+      validatorRetries: z
+        .number()
+        .int()
+        .nonnegative()
+        .default(2)
+        .optional()
+        .describe('How many times the agent is re-invoked to fix failing validator commands'),
+      validatorTimeout: z
+        .number()
+        .positive()
+        .default(10)
+        .optional()
+        .describe(
+          'Minutes a validator command may run before ody terminates it and counts it as failed',
+        ),
+      budget: z
+        .number()
+        .positive()
+        .optional()
+        .describe('Maximum agent spend in USD per `ody run`; the loop stops once it is reached'),
+      iterationTimeout: z
+        .number()
+        .positive()
+        .optional()
+        .describe('Minutes an agent invocation may run before ody terminates it'),
+      idleTimeout: z
+        .number()
+        .positive()
+        .optional()
+        .describe('Minutes an agent may go without printing output before ody terminates it'),
+      onTimeout: z
+        .enum(['retry', 'skip'])
+        .default('retry')
+        .optional()
+        .describe(
+          'What `ody run` does after a timeout: retry the task (using `backendRetries` and the fallback chain) or skip to the next task',
+        ),
+      approval: z
+        .enum(['none', 'required'])
+        .default('none')
+        .optional()
+        .describe(
+          'Whether `ody run` pauses after each task so you can review the diff and approve, reject or send feedback before it is completed and committed',
+        ),
+      review: z
+        .object({
+          backend: backendSchema
+            .optional()
+            .describe('Backend harness for the reviewer (defaults to the primary `backend`)'),
+          model: z
+            .string()
+            .optional()
+            .describe(
+              'Model for the reviewer (defaults to the run model when the backend is not overridden)',
+            ),
+          rounds: z
+            .number()
+            .int()
+            .positive()
+            .default(2)
+            .optional()
+            .describe('How many review rounds a task gets before blocking findings fail it'),
+        })
+        .strict()
+        .optional()
+        .describe(
+          'Have a second agent review each completed task against its requirements; blocking findings send it back to the implementer',
+        ),
+      git: z
+        .object({
+          branchPerTask: z
+            .boolean()
+            .default(false)
+            .optional()
+            .describe('Create a branch for each task in `ody run` and commit the task onto it'),
+          branchName: z
+            .string()
+            .nonempty()
+            .default('ody/{slug}')
+            .optional()
+            .describe(
+              'Branch name template; `{slug}` is the task filename without `.code-task.md`',
+            ),
+          baseBranch: z
+            .string()
+            .nonempty()
+            .optional()
+            .describe(
+              'Branch each task branch starts from (defaults to the branch `ody run` starts on)',
+            ),
+          openPullRequest: z
+            .boolean()
+            .default(false)
+            .optional()
+            .describe(
+              'Push each task branch and open a GitHub pull request against the base branch',
+            ),
+        })
+        .strict()
+        .optional()
+        .describe('Git workflow settings for `ody run`'),
+      sync: z
+        .object({
+          enabled: z
+            .boolean()
+            .default(false)
+            .optional()
+            .describe(
+              'Push task status changes during `ody run` back to the Jira ticket or GitHub issue a task was imported from',
+            ),
+          jiraStatuses: taskStatusMapSchema
+            .optional()
+            .describe(
+              'Jira status to move a ticket to for each task status (defaults to "In Progress" and "Done")',
+            ),
+          closeGitHubIssues: z
+            .boolean()
+            .default(false)
+            .optional()
+            .describe('Close the GitHub issue once its task is completed'),
+        })
+        .strict()
+        .optional()
+        .describe('Sync task status to the issue tracker a task was imported from'),
       model: z
         .union([
           z.string().describe('What model the agent should use for the backend'),
@@ -190,6 +526,16 @@ export namespace Config {
         .describe('Jira integration settings'),
       github: z
         .object({
+          baseUrl: z
+            .url()
+            .optional()
+            .describe('GitHub Enterprise Server base URL (defaults to https://github.com)'),
+          apiUrl: z
+            .url()
+            .optional()
+            .describe(
+              'GitHub REST API URL (defaults to https://api.github.com, or <baseUrl>/api/v3 for GitHub Enterprise Server)',
+            ),
           profile: z
             .string()
             .optional()
@@ -197,6 +543,73 @@ export namespace Config {
         })
         .optional()
         .describe('GitHub integration settings'),
+      linear: z
+        .object({
+          profile: z
+            .string()
+            .optional()
+            .describe('Named credential profile from auth store (defaults to "default")'),
+        })
+        .optional()
+        .describe('Linear integration settings'),
+      gitlab: z
+        .object({
+          baseUrl: z
+            .url()
+            .optional()
+            .describe(
+              'GitLab instance base URL for self-hosted instances (defaults to https://gitlab.com)',
+            ),
+          profile: z
+            .string()
+            .optional()
+            .describe('Named credential profile from auth store (defaults to "default")'),
+        })
+        .optional()
+        .describe('GitLab integration settings'),
+      harnesses: z
+        .record(
+          z.string(),
+          z.union([
+            z
+              .object({
+                label: z.string().optional().describe('Name shown when picking a backend'),
+                command: z
+                  .array(z.string())
+                  .nonempty()
+                  .describe(
+                    'Non-interactive command; arguments may use {prompt}, {model} and {agent} placeholders',
+                  ),
+                interactiveCommand: z
+                  .array(z.string())
+                  .nonempty()
+                  .optional()
+                  .describe(
+                    'Interactive command with the same placeholders (defaults to `command`)',
+                  ),
+                outputFormat: z
+                  .enum(['text', 'stream-json'])
+                  .optional()
+                  .describe('Output format the command prints (defaults to "text")'),
+              })
+              .strict()
+              .describe('Harness declared as a command template'),
+            z
+              .object({
+                label: z.string().optional().describe('Name shown when picking a backend'),
+                module: z
+                  .string()
+                  .nonempty()
+                  .describe(
+                    'Path, relative to the project, of a module that default-exports a Harness class',
+                  ),
+              })
+              .strict()
+              .describe('Harness implemented in a JavaScript or TypeScript module'),
+          ]),
+        )
+        .optional()
+        .describe('Custom backends, keyed by the name used in `backend`'),
     })
     .strict()
     .meta({
@@ -260,4 +673,27 @@ export namespace Config {
 
     return source.model?.[command];
   }
+
+  export function resolveBackends(
+    command: 'run' | 'plan' | 'edit',
+    source: Pick<OdyConfig, 'backend' | 'model'> = all(),
+  ): BackendChoice[] {
+    return getBackendEntries(source.backend).map((entry) => ({
+      name: entry.name,
+      model: resolveModel(command, entry.model === undefined ? source : entry),
+    }));
+  }
+
+  export function primaryBackend(
+    command: 'run' | 'plan' | 'edit',
+    source: Pick<OdyConfig, 'backend' | 'model'> = all(),
+  ): BackendChoice {
+    const [primary] = resolveBackends(command, source);
+
+    if (!primary) {
+      throw new Error('No backend configured');
+    }
+
+    return primary;
+  }
 }
@@ -10,5 +10,5 @@ export {
   TASKS_DIR,
 } from './constants';
 export { Config, backendsSchema, configSchema } from './config';
-export type { OdyConfig } from './config';
+export type { BackendChoice, HarnessConfig, OdyConfig } from './config';
 export { createSequencer } from './sequencer';
@@ -0,0 +1,227 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { chmod, mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { Git } from '../git';
+
+let repoDir: string;
+
+async function initRepo() {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'ody-git-test-'));
+
+  await Git.run(['init', '-q', '-b', 'main'], dir);
+  await Git.run(['config', 'user.email', 'ody@example.com'], dir);
+  await Git.run(['config', 'user.name', 'Ody'], dir);
+  await writeFile(path.join(dir, 'README.md'), 'hello\n');
+  await Git.run(['add', '-A'], dir);
+  await Git.run(['commit', '-q', '-m', 'initial'], dir);
+
+  return dir;
+}
+
+describe('Git', () => {
+  beforeEach(async () => {
+    repoDir = await initRepo();
+  });
+
+  afterEach(async () => {
+    await rm(repoDir, { recursive: true, force: true });
+  });
+
+  test('run throws with git output when the command fails', async () => {
+    await expect(Git.run(['rev-parse', 'does-not-exist'], repoDir)).rejects.toThrow(
+      'git rev-parse failed',
+    );
+  });
+
+  test('commitAll skips excluded paths and reports when nothing was staged', async () => {
+    await mkdir(path.join(repoDir, '.ody'), { recursive: true });
+    await writeFile(path.join(repoDir, '.ody', 'progress.txt'), 'note\n');
+
+    expect(await Git.hasUncommittedChanges(repoDir, { exclude: ['.ody'] })).toBe(false);
+    expect(await Git.commitAll(repoDir, 'nothing', { exclude: ['.ody'] })).toBe(false);
+
+    await writeFile(path.join(repoDir, 'feature.ts'), 'export {};\n');
+
+    expect(await Git.commitAll(repoDir, 'add feature', { exclude: ['.ody'] })).toBe(true);
+    expect(await Git.run(['show', '--name-only', '--format=', 'HEAD'], repoDir)).toBe('feature.ts');
+  });
+
+  test('merges a worktree branch back into the main tree', async () => {
+    const worktreeDir = path.join(repoDir, '..', `${path.basename(repoDir)}-wt`);
+
+    await Git.addWorktree(repoDir, worktreeDir, 'ody/feature');
+    await writeFile(path.join(worktreeDir, 'feature.ts'), 'export {};\n');
+    await Git.commitAll(worktreeDir, 'add feature');
+
+    const result = await Git.merge(repoDir, 'ody/feature');
+    await Git.removeWorktree(repoDir, worktreeDir);
+    await Git.deleteBranch(repoDir, 'ody/feature');
+
+    expect(result.ok).toBe(true);
+    expect(await readFile(path.join(repoDir, 'feature.ts'), 'utf-8')).toBe('export {};\n');
+  });
+
+  test('aborts a conflicting merge and leaves the main tree clean', async () => {
+    const worktreeDir = path.join(repoDir, '..', `${path.basename(repoDir)}-wt`);
+
+    await Git.addWorktree(repoDir, worktreeDir, 'ody/conflict');
+    await writeFile(path.join(worktreeDir, 'README.md'), 'from branch\n');
+    await Git.commitAll(worktreeDir, 'branch change');
+    await writeFile(path.join(repoDir, 'README.md'), 'from main\n');
+    await Git.commitAll(repoDir, 'main change');
+
+    const result = await Git.merge(repoDir, 'ody/conflict');
+    await Git.removeWorktree(repoDir, worktreeDir);
+
+    expect(result.ok).toBe(false);
+    expect(await Git.hasUncommittedChanges(repoDir)).toBe(false);
+  });
+
+  test('reports changes since a commit, including new files, and discards them', async () => {
+    const base = await Git.getHeadSha(repoDir);
+
+    await mkdir(path.join(repoDir, '.ody'), { recursive: true });
+    await writeFile(path.join(repoDir, '.ody', 'progress.txt'), 'note\n');
+    await writeFile(path.join(repoDir, 'README.md'), 'changed\n');
+    await writeFile(path.join(repoDir, 'feature.ts'), 'export {};\n');
+    await Git.commitAll(repoDir, 'agent commit', { exclude: ['.ody'] });
+    await writeFile(path.join(repoDir, 'extra.ts'), 'export {};\n');
+
+    const changes = await Git.getChanges(repoDir, base, { exclude: ['.ody'] });
+
+    expect(changes.files).toEqual([
+      { status: 'M', path: 'README.md' },
+      { status: 'A', path: 'extra.ts' },
+      { status: 'A', path: 'feature.ts' },
+    ]);
+    expect(changes.diff).toContain('+changed');
+    expect(await Git.showFile(repoDir, base, 'README.md')).toBe('hello\n');
+    expect(await Git.showFile(repoDir, base, 'feature.ts')).toBe('');
+
+    await Git.discardChanges(repoDir, base, { exclude: ['.ody'] });
+
+    expect(await Git.getHeadSha(repoDir)).toBe(base);
+    expect(await Git.hasUncommittedChanges(repoDir, { exclude: ['.ody'] })).toBe(false);
+    expect(await readFile(path.join(repoDir, '.ody', 'progress.txt'), 'utf-8')).toBe('note\n');
+  });
+
+  test('creates a task branch from a base and pushes it', async () => {
+    const remoteDir = await mkdtemp(path.join(os.tmpdir(), 'ody-git-remote-'));
+
+    try {
+      await Git.run(['init', '-q', '--bare'], remoteDir);
+      await Git.run(['remote', 'add', 'origin', remoteDir], repoDir);
+
+      expect(await Git.branchExists(repoDir, 'ody/feature')).toBe(false);
+
+      await Git.switchBranch(repoDir, 'ody/feature', { create: true, base: 'main' });
+      await writeFile(path.join(repoDir, 'feature.ts'), 'export {};\n');
+      await Git.commitAll(repoDir, 'feat: add feature');
+      await Git.push(repoDir, 'origin', 'ody/feature');
+
+      expect(await Git.getCurrentBranch(repoDir)).toBe('ody/feature');
+      expect(await Git.branchExists(repoDir, 'ody/feature')).toBe(true);
+      expect(await Git.getRemoteUrl(repoDir)).toBe(remoteDir);
+      expect(await Git.run(['log', '-1', '--format=%s', 'ody/feature'], remoteDir)).toBe(
+        'feat: add feature',
+      );
+
+      await Git.switchBranch(repoDir, 'main');
+      expect(await Git.getCurrentBranch(repoDir)).toBe('main');
+    } finally {
+      await rm(remoteDir, { recursive: true, force: true });
+    }
+  });
+
+  test('commits only the files changed since a snapshot', async () => {
+    await writeFile(path.join(repoDir, 'README.md'), 'user edit\n');
+    await writeFile(path.join(repoDir, 'notes.txt'), 'scratch\n');
+    await mkdir(path.join(repoDir, 'src'), { recursive: true });
+
+    const before = await Git.snapshotDirtyFiles(repoDir, { exclude: ['.ody'] });
+
+    await writeFile(path.join(repoDir, 'notes.txt'), 'scratch, edited by the agent\n');
+    await writeFile(path.join(repoDir, 'src', 'feature.ts'), 'export {};\n');
+    await mkdir(path.join(repoDir, '.ody'), { recursive: true });
+    await writeFile(path.join(repoDir, '.ody', 'progress.txt'), 'note\n');
+
+    const changed = Git.diffSnapshots(
+      before,
+      await Git.snapshotDirtyFiles(path.join(repoDir, 'src'), { exclude: ['.ody'] }),
+    );
+
+    expect(changed.toSorted()).toEqual(['notes.txt', 'src/feature.ts']);
+    expect(await Git.commitPaths(path.join(repoDir, 'src'), 'feat: add feature', changed)).toBe(
+      true,
+    );
+    expect(
+      (await Git.run(['show', '--name-only', '--format=', 'HEAD'], repoDir)).split('\n'),
+    ).toEqual(['notes.txt', 'src/feature.ts']);
+    expect((await Git.exec(['status', '--porcelain'], repoDir)).stdout).toBe(
+      ' M README.md\n?? .ody/\n',
+    );
+    expect(await Git.commitPaths(repoDir, 'nothing', [])).toBe(false);
+  });
+
+  test('runs commit hooks and fails the commit when one rejects it', async () => {
+    const hook = path.join(repoDir, '.git', 'hooks', 'pre-commit');
+    // Environment config such as `core.hooksPath=/dev/null` would skip the hook.
+    const configCount = process.env.GIT_CONFIG_COUNT;
+
+    await writeFile(hook, '#!/bin/sh\necho "lint failed" >&2\nexit 1\n');
+    await chmod(hook, 0o755);
+    await writeFile(path.join(repoDir, 'feature.ts'), 'export {};\n');
+    delete process.env.GIT_CONFIG_COUNT;
+
+    try {
+      await expect(Git.commitAll(repoDir, 'add feature')).rejects.toThrow(
+        'git commit failed: lint failed',
+      );
+      await expect(Git.commitPaths(repoDir, 'add feature', ['feature.ts'])).rejects.toThrow(
+        'git commit failed: lint failed',
+      );
+    } finally {
+      if (configCount !== undefined) {
+        process.env.GIT_CONFIG_COUNT = configCount;
+      }
+    }
+
+    expect(await Git.listCommits(repoDir, await Git.getHeadSha(repoDir))).toEqual([]);
+  });
+
+  test('restores a checkpoint, including uncommitted files, and leaves excluded paths alone', async () => {
+    const base = await Git.getHeadSha(repoDir);
+
+    await writeFile(path.join(repoDir, 'README.md'), 'user edit\n');
+    await writeFile(path.join(repoDir, 'notes.txt'), 'scratch\n');
+
+    const checkpoint = await Git.createCheckpoint(repoDir, { exclude: ['.ody'] });
+
+    expect((await Git.exec(['status', '--porcelain'], repoDir)).stdout).toBe(
+      ' M README.md\n?? notes.txt\n',
+    );
+
+    await writeFile(path.join(repoDir, 'README.md'), 'agent edit\n');
+    await writeFile(path.join(repoDir, 'feature.ts'), 'export {};\n');
+    await Git.commitAll(repoDir, 'agent commit');
+    await rm(path.join(repoDir, 'notes.txt'));
+    await mkdir(path.join(repoDir, '.ody'), { recursive: true });
+    await writeFile(path.join(repoDir, '.ody', 'progress.txt'), 'note\n');
+
+    expect(await Git.isAncestor(repoDir, `${checkpoint}^`)).toBe(true);
+    expect(await Git.listCommits(repoDir, `${checkpoint}^`)).toEqual([
+      expect.stringMatching(/^[0-9a-f]+ agent commit$/),
+    ]);
+
+    await Git.restoreCheckpoint(repoDir, checkpoint, { exclude: ['.ody'] });
+
+    expect(await Git.getHeadSha(repoDir)).toBe(base);
+    expect(await readFile(path.join(repoDir, 'README.md'), 'utf-8')).toBe('user edit\n');
+    expect(await readFile(path.join(repoDir, 'notes.txt'), 'utf-8')).toBe('scratch\n');
+    expect((await Git.exec(['status', '--porcelain'], repoDir)).stdout).toBe(
+      ' M README.md\n?? .ody/\n?? notes.txt\n',
+    );
+  });
+});
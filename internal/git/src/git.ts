@@ -0,0 +1,409 @@
+import { execFile } from 'node:child_process';
+import { lstat, mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+
+const MAX_BUFFER_BYTES = 16 * 1024 * 1024;
+
+export type GitResult = {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+};
+
+export type GitIntegrationResult = {
+  ok: boolean;
+  message: string;
+};
+
+export type GitFileChange = {
+  status: string;
+  path: string;
+};
+
+export type GitChanges = {
+  diff: string;
+  files: GitFileChange[];
+};
+
+// Dirty paths (relative to the repository root) mapped to a hash of their
+// current content, or null when the path is deleted or not a regular file.
+export type GitSnapshot = Map<string, string | null>;
+
+function excludePathspecs(exclude: string[] = []) {
+  return [':/', ...exclude.map((entry) => `:(exclude)${entry}`)];
+}
+
+function topLevelPathspecs(paths: string[]) {
+  return paths.map((entry) => `:(top,literal)${entry}`);
+}
+
+export namespace Git {
+  export async function exec(
+    args: string[],
+    cwd?: string,
+    env?: Record<string, string>,
+  ): Promise<GitResult> {
+    try {
+      const { stdout, stderr } = await execFileAsync('git', args, {
+        cwd,
+        env: env ? { ...process.env, ...env } : undefined,
+        maxBuffer: MAX_BUFFER_BYTES,
+      });
+
+      return { exitCode: 0, stdout, stderr };
+    } catch (error) {
+      const failure = error as { code?: number | string; stdout?: string; stderr?: string };
+
+      return {
+        exitCode: typeof failure.code === 'number' ? failure.code : 1,
+        stdout: failure.stdout ?? '',
+        stderr: failure.stderr ?? String(error),
+      };
+    }
+  }
+
+  export async function run(
+    args: string[],
+    cwd?: string,
+    env?: Record<string, string>,
+  ): Promise<string> {
+    const result = await exec(args, cwd, env);
+
+    if (result.exitCode !== 0) {
+      const details = result.stderr.trim() || result.stdout.trim();
+      throw new Error(`git ${args[0] ?? ''} failed: ${details}`);
+    }
+
+    return result.stdout.trim();
+  }
+
+  export async function getTopLevel(cwd?: string): Promise<string> {
+    return run(['rev-parse', '--show-toplevel'], cwd);
+  }
+
+  export async function getHeadSha(cwd?: string): Promise<string> {
+    return run(['rev-parse', 'HEAD'], cwd);
+  }
+
+  export async function getCurrentBranch(cwd?: string): Promise<string> {
+    return run(['rev-parse', '--abbrev-ref', 'HEAD'], cwd);
+  }
+
+  export async function branchExists(cwd: string | undefined, branch: string): Promise<boolean> {
+    const result = await exec(['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`], cwd);
+
+    return result.exitCode === 0;
+  }
+
+  export async function switchBranch(
+    cwd: string | undefined,
+    branch: string,
+    options: { create?: boolean; base?: string } = {},
+  ): Promise<void> {
+    const args = options.create ? ['switch', '-c', branch] : ['switch', branch];
+
+    await run(options.create && options.base ? [...args, options.base] : args, cwd);
+  }
+
+  export async function getRemoteUrl(cwd: string | undefined, remote = 'origin'): Promise<string> {
+    return run(['remote', 'get-url', remote], cwd);
+  }
+
+  export async function push(
+    cwd: string | undefined,
+    remote: string,
+    branch: string,
+  ): Promise<void> {
+    await run(['push', '--set-upstream', remote, branch], cwd);
+  }
+
+  export async function hasUncommittedChanges(
+    cwd?: string,
+    options: { exclude?: string[] } = {},
+  ): Promise<boolean> {
+    const status = await run(
+      ['status', '--porcelain', '--', ...excludePathspecs(options.exclude)],
+      cwd,
+    );
+
+    return status.length > 0;
+  }
+
+  // Stashes uncommitted changes, including untracked files, and reports
+  // whether there was anything to stash.
+  export async function stash(
+    cwd: string | undefined,
+    message: string,
+    options: { exclude?: string[] } = {},
+  ): Promise<boolean> {
+    if (!(await hasUncommittedChanges(cwd, options))) {
+      return false;
+    }
+
+    await run(
+      [
+        'stash',
+        'push',
+        '--include-untracked',
+        '-q',
+        '-m',
+        message,
+        '--',
+        ...excludePathspecs(options.exclude),
+      ],
+      cwd,
+    );
+    return true;
+  }
+
+  export async function addWorktree(
+    cwd: string,
+    worktreePath: string,
+    branch: string,
+    base = 'HEAD',
+  ): Promise<void> {
+    await run(['worktree', 'add', '-b', branch, worktreePath, base], cwd);
+  }
+
+  export async function removeWorktree(cwd: string, worktreePath: string): Promise<void> {
+    await exec(['worktree', 'remove', '--force', worktreePath], cwd);
+    await exec(['worktree', 'prune'], cwd);
+  }
+
+  export async function deleteBranch(cwd: string, branch: string): Promise<void> {
+    await run(['branch', '-D', branch], cwd);
+  }
+
+  export async function commitAll(
+    cwd: string,
+    message: string,
+    options: { exclude?: string[] } = {},
+  ): Promise<boolean> {
+    await run(['add', '-A', '--', ...excludePathspecs(options.exclude)], cwd);
+
+    const staged = await exec(['diff', '--cached', '--quiet'], cwd);
+
+    if (staged.exitCode === 0) {
+      return false;
+    }
+
+    await run(['commit', '-m', message], cwd);
+    return true;
+  }
+
+  export async function snapshotDirtyFiles(
+    cwd?: string,
+    options: { exclude?: string[] } = {},
+  ): Promise<GitSnapshot> {
+    const root = await getTopLevel(cwd);
+    // Not trimmed like `run`: a leading space is part of the first status code.
+    const status = await exec(
+      [
+        'status',
+        '--porcelain=v1',
+        '-z',
+        '--untracked-files=all',
+        '--',
+        ...excludePathspecs(options.exclude),
+      ],
+      root,
+    );
+
+    if (status.exitCode !== 0) {
+      throw new Error(`git status failed: ${status.stderr.trim()}`);
+    }
+
+    const entries = status.stdout.split('\0');
+    const paths: string[] = [];
+
+    for (let index = 0; index < entries.length; index++) {
+      const entry = entries[index] ?? '';
+
+      if (entry.length < 4) {
+        continue;
+      }
+
+      paths.push(entry.slice(3));
+
+      // Renames and copies are followed by their original path.
+      if (entry[0] === 'R' || entry[0] === 'C') {
+        paths.push(entries[++index] ?? '');
+      }
+    }
+
+    const files = await Promise.all(
+      paths.map(async (file) => {
+        const stats = await lstat(path.join(root, file)).catch(() => null);
+        return { file, hashable: stats?.isFile() === true };
+      }),
+    );
+    const hashable = files.filter((entry) => entry.hashable).map((entry) => entry.file);
+    const hashes =
+      hashable.length > 0 ? (await run(['hash-object', '--', ...hashable], root)).split('\n') : [];
+    const snapshot: GitSnapshot = new Map(files.map((entry) => [entry.file, null]));
+
+    for (const [index, file] of hashable.entries()) {
+      snapshot.set(file, hashes[index] ?? null);
+    }
+
+    return snapshot;
+  }
+
+  export function diffSnapshots(before: GitSnapshot, after: GitSnapshot): string[] {
+    return [...after.entries()]
+      .filter(([file, hash]) => !before.has(file) || before.get(file) !== hash)
+      .map(([file]) => file);
+  }
+
+  export async function commitPaths(
+    cwd: string,
+    message: string,
+    paths: string[],
+  ): Promise<boolean> {
+    if (paths.length === 0) {
+      return false;
+    }
+
+    const pathspecs = topLevelPathspecs(paths);
+
+    await run(['add', '-A', '--', ...pathspecs], cwd);
+
+    const staged = await exec(['diff', '--cached', '--quiet', '--', ...pathspecs], cwd);
+
+    if (staged.exitCode === 0) {
+      return false;
+    }
+
+    await run(['commit', '-m', message, '--only', '--', ...pathspecs], cwd);
+    return true;
+  }
+
+  export async function getChanges(
+    cwd: string,
+    base: string,
+    options: { exclude?: string[] } = {},
+  ): Promise<GitChanges> {
+    const pathspecs = excludePathspecs(options.exclude);
+
+    // Mark new files as intent-to-add so they show up in the diff.
+    await run(['add', '-A', '--intent-to-add', '--', ...pathspecs], cwd);
+
+    const diff = await run(['diff', base, '--', ...pathspecs], cwd);
+    const nameStatus = await run(['diff', '--name-status', base, '--', ...pathspecs], cwd);
+    const files = nameStatus
+      .split('\n')
+      .filter((line) => line !== '')
+      .map((line) => {
+        const [status = '', ...paths] = line.split('\t');
+        return { status, path: paths.at(-1) ?? '' };
+      });
+
+    return { diff, files };
+  }
+
+  export async function showFile(cwd: string, rev: string, file: string): Promise<string> {
+    const result = await exec(['show', `${rev}:${file}`], cwd);
+
+    return result.exitCode === 0 ? result.stdout : '';
+  }
+
+  export async function discardChanges(
+    cwd: string,
+    base: string,
+    options: { exclude?: string[] } = {},
+  ): Promise<void> {
+    const pathspecs = excludePathspecs(options.exclude);
+
+    await run(['reset', '-q', base], cwd);
+    await run(['checkout', '--', ...pathspecs], cwd);
+    await run(['clean', '-fdq', '--', ...pathspecs], cwd);
+  }
+
+  // Records the working tree, including untracked files, as a commit on top
+  // of HEAD without touching the real index or the working tree.
+  export async function createCheckpoint(
+    cwd: string,
+    options: { exclude?: string[] } = {},
+  ): Promise<string> {
+    const head = await getHeadSha(cwd);
+    const indexDir = await mkdtemp(path.join(os.tmpdir(), 'ody-checkpoint-'));
+    const env = { GIT_INDEX_FILE: path.join(indexDir, 'index') };
+
+    try {
+      await run(['read-tree', head], cwd, env);
+      await run(['add', '-A', '--', ...excludePathspecs(options.exclude)], cwd, env);
+
+      const tree = await run(['write-tree'], cwd, env);
+
+      return await run(['commit-tree', tree, '-p', head, '-m', 'ody checkpoint'], cwd);
+    } finally {
+      await rm(indexDir, { recursive: true, force: true });
+    }
+  }
+
+  export async function restoreCheckpoint(
+    cwd: string,
+    checkpoint: string,
+    options: { exclude?: string[] } = {},
+  ): Promise<void> {
+    const head = await run(['rev-parse', `${checkpoint}^`], cwd);
+
+    await discardChanges(cwd, head, options);
+    await run(['checkout', checkpoint, '--', ...excludePathspecs(options.exclude)], cwd);
+    // Files that were uncommitted at the checkpoint stay uncommitted.
+    await run(['reset', '-q'], cwd);
+  }
+
+  export async function isAncestor(cwd: string, ancestor: string, rev = 'HEAD'): Promise<boolean> {
+    const result = await exec(['merge-base', '--is-ancestor', ancestor, rev], cwd);
+
+    return result.exitCode === 0;
+  }
+
+  export async function listCommits(cwd: string, from: string, to = 'HEAD'): Promise<string[]> {
+    const log = await run(['log', '--format=%h %s', `${from}..${to}`], cwd);
+
+    return log === '' ? [] : log.split('\n');
+  }
+
+  export async function updateRef(cwd: string, ref: string, sha: string | null): Promise<void> {
+    await run(sha ? ['update-ref', ref, sha] : ['update-ref', '-d', ref], cwd);
+  }
+
+  export async function merge(cwd: string, branch: string): Promise<GitIntegrationResult> {
+    const result = await exec(['merge', '--no-ff', '--no-edit', branch], cwd);
+
+    if (result.exitCode === 0) {
+      return { ok: true, message: result.stdout.trim() };
+    }
+
+    await exec(['merge', '--abort'], cwd);
+
+    return { ok: false, message: (result.stdout + result.stderr).trim() };
+  }
+
+  export async function rebase(cwd: string, onto: string): Promise<GitIntegrationResult> {
+    const result = await exec(['rebase', onto], cwd);
+
+    if (result.exitCode === 0) {
+      return { ok: true, message: result.stdout.trim() };
+    }
+
+    await exec(['rebase', '--abort'], cwd);
+
+    return { ok: false, message: (result.stdout + result.stderr).trim() };
+  }
+
+  export async function fastForward(cwd: string, branch: string): Promise<GitIntegrationResult> {
+    const result = await exec(['merge', '--ff-only', branch], cwd);
+
+    return {
+      ok: result.exitCode === 0,
+      message: (result.stdout + result.stderr).trim(),
+    };
+  }
+}
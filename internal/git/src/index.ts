@@ -0,0 +1,8 @@
+export { Git } from './git';
+export type {
+  GitChanges,
+  GitFileChange,
+  GitIntegrationResult,
+  GitResult,
+  GitSnapshot,
+} from './git';
@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, spyOn, test } from 'bun:test';
+
+import { GitHub } from '../github';
+
+const enterprise = GitHub.resolveHost({ baseUrl: 'https://github.acme.dev/' });
+
+describe('GitHub.resolveHost', () => {
+  test('uses api.github.com for github.com and /api/v3 for enterprise hosts', () => {
+    expect(GitHub.resolveHost()).toEqual({
+      baseUrl: 'https://github.com',
+      apiUrl: 'https://api.github.com',
+      hostname: 'github.com',
+    });
+    expect(enterprise).toEqual({
+      baseUrl: 'https://github.acme.dev',
+      apiUrl: 'https://github.acme.dev/api/v3',
+      hostname: 'github.acme.dev',
+    });
+    expect(
+      GitHub.resolveHost({ baseUrl: 'https://github.acme.dev', apiUrl: 'https://api.acme.dev/' })
+        .apiUrl,
+    ).toBe('https://api.acme.dev');
+  });
+});
+
+describe('GitHub.parseInput', () => {
+  test('accepts issue URLs on the configured host', () => {
+    expect(GitHub.parseInput('https://github.acme.dev/platform/api/issues/42', enterprise)).toEqual(
+      { owner: 'platform', repo: 'api', issueNumber: 42 },
+    );
+    expect(GitHub.parseInput('https://www.github.com/acme/api/issues/7').issueNumber).toBe(7);
+  });
+
+  test('rejects issue URLs on another host', () => {
+    expect(() => GitHub.parseInput('https://github.com/acme/api/issues/7', enterprise)).toThrow(
+      'is not on https://github.acme.dev',
+    );
+  });
+});
+
+describe('GitHub.parseRemoteUrl', () => {
+  test('parses SSH, scp-like and HTTPS remotes on an enterprise host', () => {
+    for (const remote of [
+      'git@github.acme.dev:platform/api.git',
+      'ssh://git@github.acme.dev:2222/platform/api.git',
+      'https://github.acme.dev/platform/api',
+    ]) {
+      expect(GitHub.parseRemoteUrl(remote, enterprise)).toEqual({ owner: 'platform', repo: 'api' });
+    }
+  });
+
+  test('rejects remotes on another host', () => {
+    expect(() => GitHub.parseRemoteUrl('git@gitlab.com:platform/api.git')).toThrow(
+      'Unsupported GitHub remote URL',
+    );
+    expect(() => GitHub.parseRemoteUrl('git@github.com:platform/api.git', enterprise)).toThrow(
+      'Unsupported GitHub remote URL',
+    );
+  });
+});
+
+describe('GitHub.searchIssues', () => {
+  let fetchSpy: ReturnType<typeof spyOn> | undefined;
+
+  afterEach(() => {
+    fetchSpy?.mockRestore();
+  });
+
+  test('restricts the search to issues and maps each result to its repository', async () => {
+    const requested: URL[] = [];
+
+    fetchSpy = spyOn(globalThis, 'fetch').mockImplementation((async (input: string) => {
+      requested.push(new URL(input));
+
+      return Response.json({
+        items: [
+          {
+            number: 12,
+            title: 'Reject expired sessions',
+            state: 'open',
+            labels: [{ name: 'ody' }],
+            repository_url: 'https://api.github.com/repos/acme/api',
+          },
+        ],
+      });
+    }) as typeof fetch);
+
+    const results = await GitHub.searchIssues('repo:acme/api label:ody is:open');
+
+    expect(requested).toHaveLength(1);
+    expect(requested[0]?.searchParams.get('q')).toBe('repo:acme/api label:ody is:open is:issue');
+    expect(results).toEqual([
+      {
+        owner: 'acme',
+        repo: 'api',
+        issue: expect.objectContaining({ number: 12, labels: ['ody'], comments: [] }),
+      },
+    ]);
+  });
+
+  test('queries the enterprise API when given its URL', async () => {
+    const requested: URL[] = [];
+
+    fetchSpy = spyOn(globalThis, 'fetch').mockImplementation((async (input: string) => {
+      requested.push(new URL(input));
+      return Response.json({ items: [] });
+    }) as typeof fetch);
+
+    await GitHub.searchIssues('label:ody', 'ghp_test', { apiUrl: enterprise.apiUrl });
+
+    expect(requested[0]?.href).toStartWith('https://github.acme.dev/api/v3/search/issues?');
+  });
+});
@@ -0,0 +1,106 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+
+import { GitLab } from '../gitlab';
+
+describe('GitLab.parseInput', () => {
+  test('reads nested project paths from issue URLs', () => {
+    expect(GitLab.parseInput('https://gitlab.example.com/platform/core/api/-/issues/42')).toEqual({
+      baseUrl: 'https://gitlab.example.com',
+      projectPath: 'platform/core/api',
+      issueIid: 42,
+    });
+  });
+
+  test('resolves shorthand against the configured instance, defaulting to gitlab.com', () => {
+    expect(GitLab.parseInput('platform/api#7', 'https://git.acme.dev/')).toEqual({
+      baseUrl: 'https://git.acme.dev',
+      projectPath: 'platform/api',
+      issueIid: 7,
+    });
+    expect(GitLab.parseInput('platform/api#7').baseUrl).toBe('https://gitlab.com');
+  });
+
+  test('rejects input that is not an issue reference', () => {
+    expect(() => GitLab.parseInput('platform/api')).toThrow('Invalid GitLab issue input');
+  });
+});
+
+describe('GitLab.fetchIssue', () => {
+  const requests: { path: string; token: string | null }[] = [];
+  let server: ReturnType<typeof Bun.serve>;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      fetch(req) {
+        const url = new URL(req.url);
+        requests.push({ path: url.pathname, token: req.headers.get('PRIVATE-TOKEN') });
+
+        if (url.pathname === '/api/v4/projects/platform%2Fapi/issues/42') {
+          return Response.json({
+            iid: 42,
+            title: 'Rate limit the login endpoint',
+            description: 'Too many attempts should return 429.',
+            state: 'opened',
+            labels: ['security', 'backend'],
+            assignees: [{ username: 'sam' }],
+            milestone: { title: '2026.11' },
+            web_url: 'https://git.acme.dev/platform/api/-/issues/42',
+          });
+        }
+
+        if (url.pathname === '/api/v4/projects/platform%2Fapi/issues/42/notes') {
+          return Response.json([
+            { body: 'added ~security label', system: true, author: { username: 'sam' } },
+            { body: 'Use a sliding window.\nPer IP.', system: false, author: { username: 'kim' } },
+          ]);
+        }
+
+        return Response.json({ message: '404 Not found' }, { status: 404 });
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test('fetches the issue and its discussion, leaving out system notes', async () => {
+    const baseUrl = `http://localhost:${server.port}`;
+    const issue = await GitLab.fetchIssue(baseUrl, 'platform/api', 42, 'glpat-test');
+
+    expect(requests.every((request) => request.token === 'glpat-test')).toBe(true);
+    expect(issue).toMatchObject({
+      iid: 42,
+      labels: ['security', 'backend'],
+      assignees: ['sam'],
+      milestone: '2026.11',
+      comments: ['kim: Use a sliding window.\nPer IP.'],
+    });
+    expect(GitLab.formatAsDescription(issue, 'platform/api')).toBe(
+      [
+        'Issue: platform/api#42',
+        'Title: Rate limit the login endpoint',
+        'State: opened',
+        'Labels: security, backend',
+        'Assignees: sam',
+        'Milestone: 2026.11',
+        '',
+        'Description:',
+        'Too many attempts should return 429.',
+        '',
+        'Comments:',
+        '- kim: Use a sliding window.',
+        '  Per IP.',
+      ].join('\n'),
+    );
+  });
+
+  test('reports a missing issue', async () => {
+    const baseUrl = `http://localhost:${server.port}`;
+
+    await expect(GitLab.fetchIssue(baseUrl, 'platform/api', 9)).rejects.toThrow(
+      `Issue platform/api#9 not found on ${baseUrl}`,
+    );
+  });
+});
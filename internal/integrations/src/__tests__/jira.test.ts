@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, spyOn, test } from 'bun:test';
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { Jira } from '../jira';
+
+const FIXTURES_DIR = path.join(import.meta.dir, 'fixtures');
+const ADF_FIXTURES = (await readdir(path.join(FIXTURES_DIR, 'adf')))
+  .filter((file) => file.endsWith('.json'))
+  .map((file) => path.basename(file, '.json'));
+
+async function readFixture(name: string) {
+  return readFile(path.join(FIXTURES_DIR, name), 'utf-8');
+}
+
+describe('Jira.adfToMarkdown', () => {
+  for (const name of ADF_FIXTURES) {
+    test(`renders the ${name} fixture`, async () => {
+      const doc = JSON.parse(await readFixture(`adf/${name}.json`));
+      const expected = await readFixture(`adf/${name}.md`);
+
+      expect(Jira.adfToMarkdown(doc)).toBe(expected.trimEnd());
+    });
+  }
+
+  test('renders unknown nodes through their content', () => {
+    expect(
+      Jira.adfToMarkdown({
+        type: 'doc',
+        content: [{ type: 'futureBlock', content: [{ type: 'text', text: 'kept' }] }],
+      }),
+    ).toBe('kept');
+  });
+});
+
+describe('Jira.fetchTicket', () => {
+  let fetchSpy: ReturnType<typeof spyOn> | undefined;
+
+  afterEach(() => {
+    fetchSpy?.mockRestore();
+  });
+
+  test('converts ADF descriptions and comments for the import prompt', async () => {
+    const issue = await readFixture('issue.json');
+
+    fetchSpy = spyOn(globalThis, 'fetch').mockResolvedValue(new Response(issue, { status: 200 }));
+
+    const ticket = await Jira.fetchTicket('https://example.atlassian.net', 'PROJ-7');
+
+    expect(ticket.description).toBe('Expired sessions are still accepted.');
+    expect(ticket.comments).toEqual(['Jane Doe: Also check:\n\n- refresh tokens']);
+    expect(Jira.formatAsDescription(ticket)).toContain(
+      'Comments:\n- Jane Doe: Also check:\n\n  - refresh tokens',
+    );
+  });
+
+  test('searches with JQL across pages up to the limit', async () => {
+    const requested: URL[] = [];
+    const issue = (key: string) => ({ key, fields: { summary: `Ticket ${key}` } });
+
+    fetchSpy = spyOn(globalThis, 'fetch').mockImplementation((async (input: string) => {
+      const url = new URL(input);
+      requested.push(url);
+
+      return Response.json(
+        url.searchParams.has('nextPageToken')
+          ? { issues: [issue('PROJ-3'), issue('PROJ-4')], nextPageToken: 'page-3' }
+          : { issues: [issue('PROJ-1'), issue('PROJ-2')], nextPageToken: 'page-2' },
+      );
+    }) as typeof fetch);
+
+    const tickets = await Jira.searchTickets(
+      'https://example.atlassian.net',
+      'project = PROJ',
+      undefined,
+      { limit: 3 },
+    );
+
+    expect(tickets.map((ticket) => ticket.key)).toEqual(['PROJ-1', 'PROJ-2', 'PROJ-3']);
+    expect(requested.map((url) => url.searchParams.get('maxResults'))).toEqual(['3', '1']);
+    expect(requested[1]?.searchParams.get('nextPageToken')).toBe('page-2');
+  });
+
+  test('transitions a ticket to the status it is mapped to', async () => {
+    const requests: { method: string; url: string; body?: string }[] = [];
+
+    fetchSpy = spyOn(globalThis, 'fetch').mockImplementation((async (
+      input: string,
+      init?: RequestInit,
+    ) => {
+      requests.push({ method: init?.method ?? 'GET', url: input, body: init?.body as string });
+
+      return init?.method === 'POST'
+        ? new Response(null, { status: 204 })
+        : Response.json({
+            transitions: [
+              { id: '11', name: 'Start work', to: { name: 'In Progress' } },
+              { id: '31', name: 'Resolve', to: { name: 'Done' } },
+            ],
+          });
+    }) as typeof fetch);
+
+    await Jira.transitionTicket('https://example.atlassian.net', 'PROJ-7', 'done');
+
+    expect(requests[1]).toEqual({
+      method: 'POST',
+      url: 'https://example.atlassian.net/rest/api/3/issue/PROJ-7/transitions',
+      body: JSON.stringify({ transition: { id: '31' } }),
+    });
+    await expect(
+      Jira.transitionTicket('https://example.atlassian.net', 'PROJ-7', 'Blocked'),
+    ).rejects.toThrow('Available: In Progress, Done');
+  });
+});
@@ -0,0 +1,107 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+
+import { Linear } from '../linear';
+
+describe('Linear.parseInput', () => {
+  test('accepts issue IDs and issue URLs', () => {
+    expect(Linear.parseInput('eng-123')).toBe('ENG-123');
+    expect(Linear.parseInput('https://linear.app/acme/issue/ENG-123/rate-limit-login')).toBe(
+      'ENG-123',
+    );
+  });
+
+  test('rejects input that is not an issue reference', () => {
+    expect(() => Linear.parseInput('https://linear.app/acme/project/api')).toThrow(
+      'Could not extract issue ID',
+    );
+    expect(() => Linear.parseInput('rate limit login')).toThrow('Invalid Linear input');
+  });
+});
+
+describe('Linear.fetchIssue', () => {
+  const requests: { authorization: string | null; variables: unknown }[] = [];
+  let server: ReturnType<typeof Bun.serve>;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const body = (await req.json()) as { variables: { id: string } };
+        requests.push({
+          authorization: req.headers.get('Authorization'),
+          variables: body.variables,
+        });
+
+        if (body.variables.id !== 'ENG-123') {
+          return Response.json({
+            data: null,
+            errors: [{ message: 'Entity not found: Issue' }],
+          });
+        }
+
+        return Response.json({
+          data: {
+            issue: {
+              identifier: 'ENG-123',
+              title: 'Rate limit the login endpoint',
+              description: 'Too many attempts should return **429**.',
+              url: 'https://linear.app/acme/issue/ENG-123',
+              priorityLabel: 'High',
+              state: { name: 'Todo' },
+              team: { name: 'Engineering' },
+              project: null,
+              assignee: { name: 'Sam' },
+              labels: { nodes: [{ name: 'security' }] },
+              comments: {
+                nodes: [
+                  { body: 'Per IP.', createdAt: '2026-10-02T10:00:00Z', user: { name: 'Kim' } },
+                  { body: 'Sliding window?', createdAt: '2026-10-01T10:00:00Z', user: null },
+                ],
+              },
+            },
+          },
+        });
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test('queries the issue by ID and formats it for the import prompt', async () => {
+    const apiUrl = `http://localhost:${server.port}/graphql`;
+    const issue = await Linear.fetchIssue('ENG-123', 'lin_api_test', apiUrl);
+
+    expect(requests[0]).toEqual({
+      authorization: 'lin_api_test',
+      variables: { id: 'ENG-123' },
+    });
+    expect(Linear.formatAsDescription(issue)).toBe(
+      [
+        'Issue: ENG-123',
+        'Title: Rate limit the login endpoint',
+        'Team: Engineering',
+        'Priority: High',
+        'State: Todo',
+        'Labels: security',
+        'Assignee: Sam',
+        '',
+        'Description:',
+        'Too many attempts should return **429**.',
+        '',
+        'Comments:',
+        '- Unknown: Sliding window?',
+        '- Kim: Per IP.',
+      ].join('\n'),
+    );
+  });
+
+  test('reports an unknown issue', async () => {
+    const apiUrl = `http://localhost:${server.port}/graphql`;
+
+    await expect(Linear.fetchIssue('ENG-999', 'lin_api_test', apiUrl)).rejects.toThrow(
+      'Issue ENG-999 not found in Linear',
+    );
+  });
+});
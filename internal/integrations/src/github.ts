@@ -1,9 +1,12 @@
 import { Http } from './http';
 
-const GITHUB_URL_PATTERN = /^https?:\/\/github\.com\/([^/]+)\/([^/]+)\/issues\/(\d+)/;
+const ISSUE_PATH_PATTERN = /^\/([^/]+)\/([^/]+)\/issues\/(\d+)/;
 const SHORTHAND_PATTERN = /^([^/]+)\/([^#]+)#(\d+)$/;
+const REMOTE_PATH_PATTERN = /^\/?([^/]+)\/([^/]+?)(?:\.git)?\/?$/;
 
+const GITHUB_BASE_URL = 'https://github.com';
 const GITHUB_API_BASE = 'https://api.github.com';
+const SEARCH_PAGE_SIZE = 100;
 
 export type GitHubIssue = {
   number: number;
@@ -16,6 +19,12 @@ export type GitHubIssue = {
   comments: string[];
 };
 
+export type GitHubIssueSearchResult = {
+  owner: string;
+  repo: string;
+  issue: GitHubIssue;
+};
+
 export type GitHubPullRequest = {
   author: string;
   baseRefName: string;
@@ -28,6 +37,14 @@ export type GitHubPullRequest = {
   url: string;
 };
 
+export type CreatePullRequestInput = {
+  title: string;
+  head: string;
+  base: string;
+  body: string;
+  draft?: boolean;
+};
+
 export type GitHubIssueComment = {
   author: string;
   body: string;
@@ -51,6 +68,17 @@ export type GitHubReviewComment = {
   url: string;
 };
 
+export type GitHubHost = {
+  baseUrl: string;
+  apiUrl: string;
+  hostname: string;
+};
+
+export type GitHubHostOptions = {
+  baseUrl?: string;
+  apiUrl?: string;
+};
+
 export type ParsedIssueInput = {
   owner: string;
   repo: string;
@@ -87,23 +115,122 @@ export namespace GitHub {
     return response.json() as Promise<any>;
   }
 
-  export function parseInput(input: string): ParsedIssueInput {
+  async function sendJson(method: string, url: string, payload: unknown, token?: string) {
+    // Not retried: a retried write could open the same pull request twice.
+    const response = await Http.fetchWithRetry(
+      url,
+      {
+        method,
+        headers: { ...buildHeaders(token), 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      },
+      {
+        timeoutMs: 10_000,
+        retries: 0,
+      },
+    );
+
+    if (!response.ok) {
+      const details = (await response.json().catch(() => null)) as {
+        message?: string;
+        errors?: { message?: string }[];
+      } | null;
+      const messages = [details?.message, ...(details?.errors ?? []).map((e) => e.message)].filter(
+        Boolean,
+      );
+
+      throw new Error(
+        `GitHub API error (HTTP ${response.status}) when sending ${method} ${url}${messages.length > 0 ? `: ${messages.join('; ')}` : '.'}`,
+      );
+    }
+
+    return response.json() as Promise<any>;
+  }
+
+  function normalizeHostname(hostname: string) {
+    const lower = hostname.toLowerCase();
+    return lower === 'www.github.com' ? 'github.com' : lower;
+  }
+
+  // github.com is served from api.github.com; GitHub Enterprise Server serves
+  // its REST API under /api/v3 on the instance itself unless apiUrl overrides it.
+  export function resolveHost(options: GitHubHostOptions = {}): GitHubHost {
+    const baseUrl = (options.baseUrl ?? GITHUB_BASE_URL).replace(/\/+$/, '');
+    const hostname = normalizeHostname(new URL(baseUrl).hostname);
+    const apiUrl =
+      options.apiUrl?.replace(/\/+$/, '') ??
+      (hostname === 'github.com' ? GITHUB_API_BASE : `${baseUrl}/api/v3`);
+
+    return { baseUrl, apiUrl, hostname };
+  }
+
+  export function matchesHost(hostname: string, host: GitHubHost) {
+    return normalizeHostname(hostname) === host.hostname;
+  }
+
+  export function parseRemoteUrl(remoteUrl: string, host: GitHubHost = resolveHost()) {
+    const trimmed = remoteUrl.trim();
+    // scp-like SSH remotes (git@host:owner/repo.git) are not valid URLs.
+    const scpMatch = trimmed.match(/^(?:[^@/]+@)?([^:/]+):(?!\/)(.+)$/);
+    let hostname: string | undefined;
+    let repoPath: string | undefined;
+
+    if (scpMatch && !trimmed.includes('://')) {
+      hostname = scpMatch[1];
+      repoPath = scpMatch[2];
+    } else {
+      try {
+        const url = new URL(trimmed);
+
+        if (['http:', 'https:', 'ssh:'].includes(url.protocol)) {
+          hostname = url.hostname;
+          repoPath = url.pathname;
+        }
+      } catch {
+        // Falls through to the unsupported remote error.
+      }
+    }
+
+    const match = repoPath?.match(REMOTE_PATH_PATTERN);
+
+    if (!hostname || !match || !matchesHost(hostname, host)) {
+      throw new Error(`Unsupported GitHub remote URL: ${remoteUrl}`);
+    }
+
+    return {
+      owner: match[1] as string,
+      repo: match[2] as string,
+    };
+  }
+
+  export function parseInput(input: string, host: GitHubHost = resolveHost()): ParsedIssueInput {
     const trimmed = input.trim();
 
-    const urlMatch = trimmed.match(GITHUB_URL_PATTERN);
+    if (trimmed.includes('://')) {
+      let url: URL;
 
-    if (urlMatch) {
-      const owner = urlMatch[1] as string;
-      const repo = urlMatch[2] as string;
-      const issueNumber = Number.parseInt(urlMatch[3] as string, 10);
+      try {
+        url = new URL(trimmed);
+      } catch {
+        throw new Error(`Invalid GitHub URL: ${trimmed}`);
+      }
 
-      if (!owner || !repo || !Number.isFinite(issueNumber) || issueNumber < 1) {
+      if (!matchesHost(url.hostname, host)) {
         throw new Error(
-          `Invalid GitHub issue URL: ${trimmed}. Expected format: https://github.com/owner/repo/issues/123`,
+          `GitHub issue URL ${trimmed} is not on ${host.baseUrl}. Set github.baseUrl in .ody/ody.json to import from another GitHub host.`,
         );
       }
 
-      return { owner, repo, issueNumber };
+      const urlMatch = url.pathname.match(ISSUE_PATH_PATTERN);
+      const issueNumber = Number.parseInt(urlMatch?.[3] ?? '', 10);
+
+      if (!urlMatch || !Number.isFinite(issueNumber) || issueNumber < 1) {
+        throw new Error(
+          `Invalid GitHub issue URL: ${trimmed}. Expected format: ${host.baseUrl}/owner/repo/issues/123`,
+        );
+      }
+
+      return { owner: urlMatch[1] as string, repo: urlMatch[2] as string, issueNumber };
     }
 
     const shortMatch = trimmed.match(SHORTHAND_PATTERN);
@@ -123,7 +250,7 @@ export namespace GitHub {
     }
 
     throw new Error(
-      `Invalid GitHub issue input: "${trimmed}". Provide a full URL (https://github.com/owner/repo/issues/123) or shorthand (owner/repo#123).`,
+      `Invalid GitHub issue input: "${trimmed}". Provide a full URL (${host.baseUrl}/owner/repo/issues/123) or shorthand (owner/repo#123).`,
     );
   }
 
@@ -132,8 +259,9 @@ export namespace GitHub {
     repo: string,
     issueNumber: number,
     token?: string,
+    apiUrl = GITHUB_API_BASE,
   ): Promise<GitHubIssue> {
-    const issueUrl = `${GITHUB_API_BASE}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/issues/${issueNumber}`;
+    const issueUrl = `${apiUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/issues/${issueNumber}`;
 
     const headers: Record<string, string> = {
       Accept: 'application/vnd.github.v3+json',
@@ -177,13 +305,79 @@ export namespace GitHub {
     return mapResponseToIssue(issueData, comments);
   }
 
+  // Search results carry no comments; fetch the issue itself before importing it.
+  export async function searchIssues(
+    query: string,
+    token?: string,
+    options: { limit?: number; apiUrl?: string } = {},
+  ): Promise<GitHubIssueSearchResult[]> {
+    const limit = options.limit ?? 50;
+    const apiUrl = options.apiUrl ?? GITHUB_API_BASE;
+    // The search endpoint also returns pull requests unless told otherwise.
+    const q = /(?:^|\s)(?:is|type):(?:issue|pr|pull-request)\b/.test(query)
+      ? query
+      : `${query} is:issue`;
+    const results: GitHubIssueSearchResult[] = [];
+
+    for (let page = 1; results.length < limit; page++) {
+      const url = new URL(`${apiUrl}/search/issues`);
+
+      url.searchParams.set('q', q);
+      url.searchParams.set('per_page', String(SEARCH_PAGE_SIZE));
+      url.searchParams.set('page', String(page));
+
+      const response = await Http.fetchWithRetry(
+        url.toString(),
+        { headers: buildHeaders(token) },
+        {
+          timeoutMs: 10_000,
+          retries: 2,
+        },
+      );
+
+      if (!response.ok) {
+        const details = (await response.json().catch(() => null)) as {
+          message?: string;
+          errors?: { message?: string }[];
+        } | null;
+        const messages = [
+          details?.message,
+          ...(details?.errors ?? []).map((e) => e.message),
+        ].filter(Boolean);
+
+        throw new Error(
+          `GitHub search failed (HTTP ${response.status}) for "${q}"${messages.length > 0 ? `: ${messages.join('; ')}` : '.'}`,
+        );
+      }
+
+      const data = (await response.json()) as { items?: any[] };
+      const items = data.items ?? [];
+
+      for (const item of items) {
+        const [owner = '', repo = ''] =
+          String(item.repository_url ?? '')
+            .split('/repos/')[1]
+            ?.split('/') ?? [];
+
+        results.push({ owner, repo, issue: mapResponseToIssue(item, []) });
+      }
+
+      if (items.length < SEARCH_PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return results.slice(0, limit);
+  }
+
   export async function fetchPullRequest(
     owner: string,
     repo: string,
     pullRequestNumber: number,
     token?: string,
+    apiUrl = GITHUB_API_BASE,
   ): Promise<GitHubPullRequest> {
-    const url = `${GITHUB_API_BASE}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/pulls/${pullRequestNumber}`;
+    const url = `${apiUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/pulls/${pullRequestNumber}`;
     const data = await fetchJson(url, token);
 
     return {
@@ -204,9 +398,10 @@ export namespace GitHub {
     repo: string,
     branch: string,
     token?: string,
+    apiUrl = GITHUB_API_BASE,
   ): Promise<GitHubPullRequest | undefined> {
     const url = new URL(
-      `${GITHUB_API_BASE}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/pulls`,
+      `${apiUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/pulls`,
     );
 
     url.searchParams.set('head', `${owner}:${branch}`);
@@ -233,13 +428,89 @@ export namespace GitHub {
     };
   }
 
+  export async function createPullRequest(
+    owner: string,
+    repo: string,
+    input: CreatePullRequestInput,
+    token?: string,
+    apiUrl = GITHUB_API_BASE,
+  ): Promise<GitHubPullRequest> {
+    if (!token) {
+      throw new Error(
+        'Authentication required to open a pull request. Run `ody auth github` to configure credentials.',
+      );
+    }
+
+    const url = `${apiUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/pulls`;
+    const data = await sendJson(
+      'POST',
+      url,
+      {
+        title: input.title,
+        head: input.head,
+        base: input.base,
+        body: input.body,
+        draft: input.draft ?? false,
+      },
+      token,
+    );
+
+    return {
+      author: data.user?.login ?? 'unknown',
+      baseRefName: data.base?.ref ?? input.base,
+      body: data.body ?? '',
+      headOwner: data.head?.repo?.owner?.login ?? owner,
+      headRefName: data.head?.ref ?? input.head,
+      number: data.number ?? 0,
+      state: data.state ?? '',
+      title: data.title ?? input.title,
+      url: data.html_url ?? '',
+    };
+  }
+
+  export async function addIssueComment(
+    owner: string,
+    repo: string,
+    issueNumber: number,
+    body: string,
+    token?: string,
+    apiUrl = GITHUB_API_BASE,
+  ): Promise<void> {
+    if (!token) {
+      throw new Error(
+        'Authentication required to comment on an issue. Run `ody auth github` to configure credentials.',
+      );
+    }
+
+    const url = `${apiUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/issues/${issueNumber}/comments`;
+    await sendJson('POST', url, { body }, token);
+  }
+
+  export async function closeIssue(
+    owner: string,
+    repo: string,
+    issueNumber: number,
+    token?: string,
+    apiUrl = GITHUB_API_BASE,
+  ): Promise<void> {
+    if (!token) {
+      throw new Error(
+        'Authentication required to close an issue. Run `ody auth github` to configure credentials.',
+      );
+    }
+
+    const url = `${apiUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/issues/${issueNumber}`;
+    await sendJson('PATCH', url, { state: 'closed', state_reason: 'completed' }, token);
+  }
+
   export async function fetchIssueComment(
     owner: string,
     repo: string,
     commentId: number,
     token?: string,
+    apiUrl = GITHUB_API_BASE,
   ): Promise<GitHubIssueComment> {
-    const url = `${GITHUB_API_BASE}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/issues/comments/${commentId}`;
+    const url = `${apiUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/issues/comments/${commentId}`;
     const data = await fetchJson(url, token);
 
     return mapIssueComment(data);
@@ -250,8 +521,9 @@ export namespace GitHub {
     repo: string,
     commentId: number,
     token?: string,
+    apiUrl = GITHUB_API_BASE,
   ): Promise<GitHubReviewComment> {
-    const url = `${GITHUB_API_BASE}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/pulls/comments/${commentId}`;
+    const url = `${apiUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/pulls/comments/${commentId}`;
     const data = await fetchJson(url, token);
 
     return mapReviewComment(data);
@@ -262,9 +534,10 @@ export namespace GitHub {
     repo: string,
     pullRequestNumber: number,
     token?: string,
+    apiUrl = GITHUB_API_BASE,
   ): Promise<GitHubIssueComment[]> {
     const url = new URL(
-      `${GITHUB_API_BASE}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/issues/${pullRequestNumber}/comments`,
+      `${apiUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/issues/${pullRequestNumber}/comments`,
     );
 
     url.searchParams.set('per_page', '100');
@@ -278,9 +551,10 @@ export namespace GitHub {
     repo: string,
     pullRequestNumber: number,
     token?: string,
+    apiUrl = GITHUB_API_BASE,
   ): Promise<GitHubReviewComment[]> {
     const url = new URL(
-      `${GITHUB_API_BASE}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/pulls/${pullRequestNumber}/comments`,
+      `${apiUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/pulls/${pullRequestNumber}/comments`,
     );
 
     url.searchParams.set('per_page', '100');
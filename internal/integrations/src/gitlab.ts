@@ -0,0 +1,218 @@
+import { Http } from './http';
+
+const SHORTHAND_PATTERN = /^([^#\s]+\/[^#\s]+)#(\d+)$/;
+
+const GITLAB_DEFAULT_BASE_URL = 'https://gitlab.com';
+
+export type GitLabIssue = {
+  iid: number;
+  title: string;
+  description: string;
+  state: string;
+  labels: string[];
+  assignees: string[];
+  milestone: string | null;
+  webUrl: string;
+  comments: string[];
+};
+
+export type ParsedGitLabInput = {
+  baseUrl: string;
+  projectPath: string;
+  issueIid: number;
+};
+
+export namespace GitLab {
+  function buildHeaders(token?: string) {
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+    };
+
+    if (token) {
+      headers['PRIVATE-TOKEN'] = token;
+    }
+
+    return headers;
+  }
+
+  // Accepts https://gitlab.example.com/group/subgroup/project/-/issues/42 or
+  // group/project#42, which resolves against the configured instance.
+  export function parseInput(input: string, configBaseUrl?: string): ParsedGitLabInput {
+    const trimmed = input.trim();
+
+    if (trimmed.includes('://')) {
+      let url: URL;
+
+      try {
+        url = new URL(trimmed);
+      } catch {
+        throw new Error(`Invalid GitLab URL: ${trimmed}`);
+      }
+
+      const match = url.pathname.match(/^\/(.+?)\/-\/(?:issues|work_items)\/(\d+)\/?$/);
+      const issueIid = Number.parseInt(match?.[2] ?? '', 10);
+
+      if (!match || !Number.isFinite(issueIid) || issueIid < 1) {
+        throw new Error(
+          `Invalid GitLab issue URL: ${trimmed}. Expected format: https://gitlab.com/group/project/-/issues/42`,
+        );
+      }
+
+      // A self-hosted instance under a relative URL keeps that prefix in its
+      // configured base URL.
+      const configured = configBaseUrl?.replace(/\/+$/, '');
+      let baseUrl = url.origin;
+      let projectPath = match[1] as string;
+
+      if (configured && new URL(configured).origin === url.origin) {
+        const prefix = new URL(configured).pathname.replace(/^\/+|\/+$/g, '');
+
+        if (prefix && projectPath.startsWith(`${prefix}/`)) {
+          baseUrl = configured;
+          projectPath = projectPath.slice(prefix.length + 1);
+        }
+      }
+
+      return { baseUrl, projectPath, issueIid };
+    }
+
+    const shortMatch = trimmed.match(SHORTHAND_PATTERN);
+
+    if (shortMatch) {
+      const issueIid = Number.parseInt(shortMatch[2] as string, 10);
+
+      if (!Number.isFinite(issueIid) || issueIid < 1) {
+        throw new Error(
+          `Invalid GitLab issue shorthand: ${trimmed}. Expected format: group/project#42`,
+        );
+      }
+
+      return {
+        baseUrl: configBaseUrl?.replace(/\/+$/, '') ?? GITLAB_DEFAULT_BASE_URL,
+        projectPath: shortMatch[1] as string,
+        issueIid,
+      };
+    }
+
+    throw new Error(
+      `Invalid GitLab issue input: "${trimmed}". Provide a full URL (https://gitlab.com/group/project/-/issues/42) or shorthand (group/project#42).`,
+    );
+  }
+
+  export async function fetchIssue(
+    baseUrl: string,
+    projectPath: string,
+    issueIid: number,
+    token?: string,
+  ): Promise<GitLabIssue> {
+    const reference = `${projectPath}#${issueIid}`;
+    const issueUrl = `${baseUrl}/api/v4/projects/${encodeURIComponent(projectPath)}/issues/${issueIid}`;
+
+    const issueRes = await Http.fetchWithRetry(
+      issueUrl,
+      { headers: buildHeaders(token) },
+      {
+        timeoutMs: 6_000,
+        retries: 2,
+      },
+    );
+
+    if (!issueRes.ok) {
+      switch (issueRes.status) {
+        case 401:
+          throw new Error(
+            `Authentication failed for ${baseUrl}. Run \`ody auth gitlab\` to configure your access token.`,
+          );
+        case 403:
+          throw new Error(
+            `Permission denied when fetching ${reference} from ${baseUrl}. Check that your token has the read_api scope.`,
+          );
+        case 404:
+          throw new Error(
+            `Issue ${reference} not found on ${baseUrl}. Check the reference, or run \`ody auth gitlab\` if the project is private.`,
+          );
+        default:
+          throw new Error(
+            `GitLab API error (HTTP ${issueRes.status}) when fetching ${reference} from ${baseUrl}: ${issueRes.statusText}`,
+          );
+      }
+    }
+
+    const issueData = await issueRes.json();
+
+    const notesRes = await Http.fetchWithRetry(
+      `${issueUrl}/notes?sort=asc&order_by=created_at&per_page=100`,
+      { headers: buildHeaders(token) },
+      {
+        timeoutMs: 6_000,
+        retries: 2,
+      },
+    );
+    let comments: string[] = [];
+
+    if (notesRes.ok) {
+      const notesData = (await notesRes.json()) as any[];
+
+      // System notes record events such as label changes rather than discussion.
+      comments = notesData
+        .filter((note) => !note.system)
+        .map((note) => `${note.author?.username ?? 'unknown'}: ${note.body ?? ''}`);
+    }
+
+    return mapResponseToIssue(issueData, comments);
+  }
+
+  function mapResponseToIssue(data: any, comments: string[]): GitLabIssue {
+    return {
+      iid: data.iid ?? 0,
+      title: data.title ?? '',
+      description: data.description ?? '',
+      state: data.state ?? '',
+      labels: (data.labels ?? []).map((l: any) => (typeof l === 'string' ? l : (l.name ?? ''))),
+      assignees: (data.assignees ?? []).map((a: any) => a.username ?? ''),
+      milestone: data.milestone?.title ?? null,
+      webUrl: data.web_url ?? '',
+      comments,
+    };
+  }
+
+  export function formatAsDescription(issue: GitLabIssue, projectPath: string): string {
+    const lines: string[] = [];
+
+    lines.push(`Issue: ${projectPath}#${issue.iid}`);
+    lines.push(`Title: ${issue.title}`);
+    lines.push(`State: ${issue.state}`);
+
+    if (issue.labels.length > 0) {
+      lines.push(`Labels: ${issue.labels.join(', ')}`);
+    }
+
+    if (issue.assignees.length > 0) {
+      lines.push(`Assignees: ${issue.assignees.join(', ')}`);
+    }
+
+    if (issue.milestone) {
+      lines.push(`Milestone: ${issue.milestone}`);
+    }
+
+    lines.push('');
+
+    if (issue.description) {
+      lines.push('Description:');
+      lines.push(issue.description);
+    } else {
+      lines.push('Description: (none)');
+    }
+
+    if (issue.comments.length > 0) {
+      lines.push('');
+      lines.push('Comments:');
+
+      for (const comment of issue.comments) {
+        lines.push(`- ${comment.replaceAll('\n', '\n  ')}`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+}
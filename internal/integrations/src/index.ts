@@ -1,11 +1,19 @@
 export { GitHub } from './github';
 export type {
+  CreatePullRequestInput,
+  GitHubHost,
+  GitHubHostOptions,
   GitHubIssue,
   GitHubIssueComment,
+  GitHubIssueSearchResult,
   GitHubPullRequest,
   GitHubReviewComment,
   ParsedIssueInput,
 } from './github';
+export { GitLab } from './gitlab';
+export type { GitLabIssue, ParsedGitLabInput } from './gitlab';
 export { Http } from './http';
 export { Jira } from './jira';
-export type { ParsedInput as JiraParsedInput, JiraTicket } from './jira';
+export type { AdfNode, ParsedInput as JiraParsedInput, JiraTicket, JiraTransition } from './jira';
+export { Linear } from './linear';
+export type { LinearIssue } from './linear';
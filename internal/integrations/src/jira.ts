@@ -21,7 +21,256 @@ export type ParsedInput = {
   ticketKey: string;
 };
 
+export type JiraTransition = {
+  id: string;
+  name: string;
+  to: string;
+};
+
+export type AdfNode = {
+  type: string;
+  text?: string;
+  attrs?: Record<string, any>;
+  marks?: { type: string; attrs?: Record<string, any> }[];
+  content?: AdfNode[];
+};
+
+const PANEL_TITLES: Record<string, string> = {
+  info: 'Info',
+  note: 'Note',
+  tip: 'Tip',
+  success: 'Success',
+  warning: 'Warning',
+  error: 'Error',
+};
+
+function renderBlocks(nodes: AdfNode[] | undefined, separator = '\n\n'): string {
+  return (nodes ?? [])
+    .map((node) => renderBlock(node))
+    .filter((block) => block !== '')
+    .join(separator);
+}
+
+function renderBlock(node: AdfNode): string {
+  switch (node.type) {
+    case 'doc':
+      return renderBlocks(node.content);
+    case 'paragraph':
+      return renderInline(node.content);
+    case 'heading': {
+      const level = Math.min(Math.max(Number(node.attrs?.level) || 1, 1), 6);
+      return `${'#'.repeat(level)} ${renderInline(node.content)}`;
+    }
+    case 'bulletList':
+    case 'orderedList':
+    case 'taskList':
+      return renderList(node);
+    case 'codeBlock':
+      return renderCodeBlock(node);
+    case 'blockquote':
+      return quote(renderBlocks(node.content));
+    case 'panel': {
+      const title = PANEL_TITLES[node.attrs?.panelType] ?? 'Note';
+      return quote(`**${title}:** ${renderBlocks(node.content)}`);
+    }
+    case 'expand':
+    case 'nestedExpand': {
+      const body = renderBlocks(node.content);
+      return node.attrs?.title ? `**${node.attrs.title}**\n\n${body}` : body;
+    }
+    case 'rule':
+      return '---';
+    case 'table':
+      return renderTable(node);
+    case 'mediaSingle':
+    case 'mediaGroup':
+      return renderBlocks(node.content, '\n');
+    case 'blockCard':
+    case 'embedCard':
+      return node.attrs?.url ?? '';
+    default:
+      return node.content ? renderBlocks(node.content) : renderInlineNode(node);
+  }
+}
+
+function renderList(node: AdfNode): string {
+  const start = Number(node.attrs?.order) || 1;
+
+  return (node.content ?? [])
+    .map((item, index) => {
+      let marker = '- ';
+
+      if (node.type === 'orderedList') {
+        marker = `${start + index}. `;
+      } else if (item.type === 'taskItem') {
+        marker = item.attrs?.state === 'DONE' ? '- [x] ' : '- [ ] ';
+      }
+
+      // Task items hold inline content directly; list items hold blocks.
+      const body =
+        item.type === 'taskItem' ? renderInline(item.content) : renderBlocks(item.content, '\n');
+
+      return marker + indent(body, ' '.repeat(marker.length));
+    })
+    .join('\n');
+}
+
+function renderCodeBlock(node: AdfNode): string {
+  const code = (node.content ?? []).map((child) => child.text ?? '').join('');
+  const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+
+  return `${fence}${node.attrs?.language ?? ''}\n${code}\n${fence}`;
+}
+
+function renderTable(node: AdfNode): string {
+  const rows = (node.content ?? []).map((row) =>
+    (row.content ?? []).map((cell) =>
+      renderBlocks(cell.content, ' ').replace(/\n+/g, ' ').replace(/\|/g, '\\|'),
+    ),
+  );
+  const columns = Math.max(0, ...rows.map((row) => row.length));
+
+  if (columns === 0) {
+    return '';
+  }
+
+  const lines = rows.map((row) => {
+    const cells = Array.from({ length: columns }, (_, index) => row[index] ?? '');
+    return `| ${cells.join(' | ')} |`;
+  });
+
+  // Markdown tables need a header row; the first row takes that role even when
+  // Jira did not mark it as one.
+  lines.splice(1, 0, `|${' --- |'.repeat(columns)}`);
+
+  return lines.join('\n');
+}
+
+function renderInline(nodes: AdfNode[] | undefined): string {
+  return (nodes ?? []).map((node) => renderInlineNode(node)).join('');
+}
+
+function renderInlineNode(node: AdfNode): string {
+  switch (node.type) {
+    case 'text':
+      return applyMarks(node.text ?? '', node.marks);
+    case 'hardBreak':
+      return '\n';
+    case 'mention': {
+      const name = node.attrs?.text || node.attrs?.id || 'unknown';
+      return name.startsWith('@') ? name : `@${name}`;
+    }
+    case 'emoji':
+      return node.attrs?.text ?? node.attrs?.shortName ?? '';
+    case 'date': {
+      const date = new Date(Number(node.attrs?.timestamp));
+      return Number.isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 10);
+    }
+    case 'status':
+      return `[${node.attrs?.text ?? ''}]`;
+    case 'inlineCard':
+      return node.attrs?.url ?? '';
+    case 'media':
+      return `[attachment${node.attrs?.alt ? `: ${node.attrs.alt}` : ''}]`;
+    default:
+      return node.content ? renderInline(node.content) : (node.text ?? '');
+  }
+}
+
+function applyMarks(text: string, marks: AdfNode['marks']): string {
+  let result = text;
+  let href: string | undefined;
+
+  for (const mark of marks ?? []) {
+    switch (mark.type) {
+      case 'code':
+        result = `\`${result}\``;
+        break;
+      case 'strong':
+        result = `**${result}**`;
+        break;
+      case 'em':
+        result = `_${result}_`;
+        break;
+      case 'strike':
+        result = `~~${result}~~`;
+        break;
+      case 'link':
+        href = mark.attrs?.href;
+        break;
+    }
+  }
+
+  return href ? `[${result}](${href})` : result;
+}
+
+function indent(text: string, prefix: string): string {
+  return text.replace(/\n(?=.)/g, `\n${prefix}`);
+}
+
+function quote(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line === '' ? '>' : `> ${line}`))
+    .join('\n');
+}
+
+const URL_PATTERN = /https?:\/\/[^\s)]+/g;
+
+// Comments are written as one paragraph per line, with URLs turned into links.
+function textToAdf(text: string): AdfNode & { version: 1 } {
+  return {
+    version: 1,
+    type: 'doc',
+    content: text.split('\n').map((line) => {
+      const content: AdfNode[] = [];
+      let index = 0;
+
+      for (const match of line.matchAll(URL_PATTERN)) {
+        if (match.index > index) {
+          content.push({ type: 'text', text: line.slice(index, match.index) });
+        }
+
+        content.push({
+          type: 'text',
+          text: match[0],
+          marks: [{ type: 'link', attrs: { href: match[0] } }],
+        });
+        index = match.index + match[0].length;
+      }
+
+      if (index < line.length) {
+        content.push({ type: 'text', text: line.slice(index) });
+      }
+
+      return { type: 'paragraph', content };
+    }),
+  };
+}
+
+function isAdfNode(value: unknown): value is AdfNode {
+  return typeof value === 'object' && value !== null && typeof (value as AdfNode).type === 'string';
+}
+
+const TICKET_FIELDS = 'summary,description,status,priority,issuetype,labels,components,comment';
+const SEARCH_PAGE_SIZE = 50;
+
 export namespace Jira {
+  function buildHeaders(auth?: JiraCredentials) {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+    };
+
+    if (auth) {
+      const authToken = Buffer.from(`${auth.email}:${auth.apiToken}`).toString('base64');
+      headers['Authorization'] = `Basic ${authToken}`;
+    }
+
+    return headers;
+  }
+
   export function parseInput(input: string, configBaseUrl?: string): ParsedInput {
     const trimmed = input.trim();
 
@@ -75,22 +324,11 @@ export namespace Jira {
     key: string,
     auth?: JiraCredentials,
   ): Promise<JiraTicket> {
-    const fields = 'summary,description,status,priority,issuetype,labels,components,comment';
-    const url = `${baseUrl}/rest/api/3/issue/${encodeURIComponent(key)}?fields=${fields}`;
-
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      Accept: 'application/json',
-    };
-
-    if (auth) {
-      const authToken = Buffer.from(`${auth.email}:${auth.apiToken}`).toString('base64');
-      headers['Authorization'] = `Basic ${authToken}`;
-    }
+    const url = `${baseUrl}/rest/api/3/issue/${encodeURIComponent(key)}?fields=${TICKET_FIELDS}`;
 
     const res = await Http.fetchWithRetry(
       url,
-      { headers },
+      { headers: buildHeaders(auth) },
       {
         timeoutMs: 6_000,
         retries: 2,
@@ -123,19 +361,218 @@ export namespace Jira {
     return mapResponseToTicket(key, data);
   }
 
+  // Uses the enhanced JQL search, which pages with a token instead of an offset.
+  export async function searchTickets(
+    baseUrl: string,
+    jql: string,
+    auth?: JiraCredentials,
+    options: { limit?: number } = {},
+  ): Promise<JiraTicket[]> {
+    const limit = options.limit ?? SEARCH_PAGE_SIZE;
+    const tickets: JiraTicket[] = [];
+    let nextPageToken: string | undefined;
+
+    while (tickets.length < limit) {
+      const url = new URL(`${baseUrl}/rest/api/3/search/jql`);
+
+      url.searchParams.set('jql', jql);
+      url.searchParams.set('fields', TICKET_FIELDS);
+      url.searchParams.set(
+        'maxResults',
+        String(Math.min(SEARCH_PAGE_SIZE, limit - tickets.length)),
+      );
+
+      if (nextPageToken) {
+        url.searchParams.set('nextPageToken', nextPageToken);
+      }
+
+      const res = await Http.fetchWithRetry(
+        url.toString(),
+        { headers: buildHeaders(auth) },
+        {
+          timeoutMs: 10_000,
+          retries: 2,
+        },
+      );
+
+      if (!res.ok) {
+        switch (res.status) {
+          case 400: {
+            const details = (await res.json().catch(() => null)) as {
+              errorMessages?: string[];
+            } | null;
+            const messages = details?.errorMessages ?? [];
+
+            throw new Error(
+              `Invalid JQL query${messages.length > 0 ? `: ${messages.join('; ')}` : '.'}`,
+            );
+          }
+          case 401:
+            throw new Error(
+              `Authentication failed for ${baseUrl}. Run \`ody auth jira\` to configure your credentials.`,
+            );
+          default:
+            throw new Error(
+              `Jira API error (HTTP ${res.status}) when searching ${baseUrl}: ${res.statusText}`,
+            );
+        }
+      }
+
+      const data = (await res.json()) as { issues?: any[]; nextPageToken?: string };
+
+      for (const issue of data.issues ?? []) {
+        tickets.push(mapResponseToTicket(issue.key ?? '', issue));
+      }
+
+      nextPageToken = data.nextPageToken;
+
+      if (!nextPageToken || (data.issues ?? []).length === 0) {
+        break;
+      }
+    }
+
+    return tickets.slice(0, limit);
+  }
+
+  async function sendJson(
+    method: string,
+    url: string,
+    payload: unknown,
+    baseUrl: string,
+    auth?: JiraCredentials,
+  ) {
+    // Not retried: a retried write could post the same comment twice.
+    const res = await Http.fetchWithRetry(
+      url,
+      { method, headers: buildHeaders(auth), body: JSON.stringify(payload) },
+      {
+        timeoutMs: 10_000,
+        retries: 0,
+      },
+    );
+
+    if (res.status === 401) {
+      throw new Error(
+        `Authentication failed for ${baseUrl}. Run \`ody auth jira\` to configure your credentials.`,
+      );
+    }
+
+    if (!res.ok) {
+      const details = (await res.json().catch(() => null)) as {
+        errorMessages?: string[];
+        errors?: Record<string, string>;
+      } | null;
+      const messages = [...(details?.errorMessages ?? []), ...Object.values(details?.errors ?? {})];
+
+      throw new Error(
+        `Jira API error (HTTP ${res.status}) when sending ${method} ${url}${messages.length > 0 ? `: ${messages.join('; ')}` : '.'}`,
+      );
+    }
+
+    return res;
+  }
+
+  export async function fetchTransitions(
+    baseUrl: string,
+    key: string,
+    auth?: JiraCredentials,
+  ): Promise<JiraTransition[]> {
+    const url = `${baseUrl}/rest/api/3/issue/${encodeURIComponent(key)}/transitions`;
+    const res = await Http.fetchWithRetry(
+      url,
+      { headers: buildHeaders(auth) },
+      {
+        timeoutMs: 6_000,
+        retries: 2,
+      },
+    );
+
+    if (!res.ok) {
+      throw new Error(
+        `Jira API error (HTTP ${res.status}) when fetching transitions of ${key} from ${baseUrl}: ${res.statusText}`,
+      );
+    }
+
+    const data = (await res.json()) as { transitions?: any[] };
+
+    return (data.transitions ?? []).map((t: any) => ({
+      id: String(t.id ?? ''),
+      name: t.name ?? '',
+      to: t.to?.name ?? '',
+    }));
+  }
+
+  // Moves the ticket to the status named `status`, matching either the target
+  // status or the transition name since workflows label them differently.
+  export async function transitionTicket(
+    baseUrl: string,
+    key: string,
+    status: string,
+    auth?: JiraCredentials,
+  ): Promise<void> {
+    const transitions = await fetchTransitions(baseUrl, key, auth);
+    const wanted = status.toLowerCase();
+    const transition =
+      transitions.find((t) => t.to.toLowerCase() === wanted) ??
+      transitions.find((t) => t.name.toLowerCase() === wanted);
+
+    if (!transition) {
+      const available = transitions.map((t) => t.to).join(', ') || 'none';
+      throw new Error(
+        `${key} cannot move to "${status}" from its current status. Available: ${available}`,
+      );
+    }
+
+    await sendJson(
+      'POST',
+      `${baseUrl}/rest/api/3/issue/${encodeURIComponent(key)}/transitions`,
+      { transition: { id: transition.id } },
+      baseUrl,
+      auth,
+    );
+  }
+
+  export async function addComment(
+    baseUrl: string,
+    key: string,
+    body: string,
+    auth?: JiraCredentials,
+  ): Promise<void> {
+    await sendJson(
+      'POST',
+      `${baseUrl}/rest/api/3/issue/${encodeURIComponent(key)}/comment`,
+      { body: textToAdf(body) },
+      baseUrl,
+      auth,
+    );
+  }
+
+  // REST v3 returns rich text as Atlassian Document Format; older servers and
+  // v2 return plain strings.
+  function toMarkdown(value: unknown): string {
+    if (typeof value === 'string') {
+      return value;
+    }
+
+    return isAdfNode(value) ? adfToMarkdown(value) : '';
+  }
+
+  export function adfToMarkdown(doc: AdfNode): string {
+    return renderBlock(doc).trim();
+  }
+
   function mapResponseToTicket(key: string, data: any): JiraTicket {
     const fields = data.fields ?? {};
 
     const comments: string[] = (fields.comment?.comments ?? []).map((c: any) => {
       const author = c.author?.displayName ?? c.author?.name ?? 'Unknown';
-      const body = c.body ?? '';
-      return `${author}: ${body}`;
+      return `${author}: ${toMarkdown(c.body)}`;
     });
 
     return {
       key,
       summary: fields.summary ?? '',
-      description: fields.description ?? '',
+      description: toMarkdown(fields.description),
       status: fields.status?.name ?? '',
       priority: fields.priority?.name ?? '',
       type: fields.issuetype?.name ?? '',
@@ -176,7 +613,7 @@ export namespace Jira {
       lines.push('Comments:');
 
       for (const comment of ticket.comments) {
-        lines.push(`- ${comment}`);
+        lines.push(`- ${indent(comment, '  ')}`);
       }
     }
 
@@ -0,0 +1,191 @@
+import { Http } from './http';
+
+const IDENTIFIER_PATTERN = /^[A-Z][A-Z0-9]*-\d+$/i;
+
+const LINEAR_API_URL = 'https://api.linear.app/graphql';
+
+const ISSUE_QUERY = `
+  query Issue($id: String!) {
+    issue(id: $id) {
+      identifier
+      title
+      description
+      url
+      priorityLabel
+      state { name }
+      team { name }
+      project { name }
+      assignee { name }
+      labels { nodes { name } }
+      comments { nodes { body createdAt user { name } } }
+    }
+  }
+`;
+
+export type LinearIssue = {
+  identifier: string;
+  title: string;
+  description: string;
+  url: string;
+  state: string;
+  priority: string;
+  team: string;
+  project: string | null;
+  assignee: string | null;
+  labels: string[];
+  comments: string[];
+};
+
+export namespace Linear {
+  export function parseInput(input: string): string {
+    const trimmed = input.trim();
+
+    if (trimmed.includes('://')) {
+      let url: URL;
+
+      try {
+        url = new URL(trimmed);
+      } catch {
+        throw new Error(`Invalid Linear URL: ${trimmed}`);
+      }
+
+      const segments = url.pathname.split('/').filter(Boolean);
+      const issueIndex = segments.indexOf('issue');
+      const identifier = segments[issueIndex + 1];
+
+      if (issueIndex === -1 || !identifier || !IDENTIFIER_PATTERN.test(identifier)) {
+        throw new Error(
+          `Could not extract issue ID from URL: ${trimmed}. Expected a URL containing /issue/ENG-123`,
+        );
+      }
+
+      return identifier.toUpperCase();
+    }
+
+    if (IDENTIFIER_PATTERN.test(trimmed)) {
+      return trimmed.toUpperCase();
+    }
+
+    throw new Error(
+      `Invalid Linear input: "${trimmed}". Provide a full issue URL (https://linear.app/team/issue/ENG-123) or an issue ID (ENG-123).`,
+    );
+  }
+
+  export async function fetchIssue(
+    identifier: string,
+    apiKey?: string,
+    apiUrl = LINEAR_API_URL,
+  ): Promise<LinearIssue> {
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      'Content-Type': 'application/json',
+    };
+
+    if (apiKey) {
+      // Personal API keys are sent as-is; only OAuth tokens use the Bearer scheme.
+      headers['Authorization'] = apiKey;
+    }
+
+    const res = await Http.fetchWithRetry(
+      apiUrl,
+      {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ query: ISSUE_QUERY, variables: { id: identifier } }),
+      },
+      {
+        timeoutMs: 6_000,
+        retries: 2,
+      },
+    );
+
+    if (res.status === 401) {
+      throw new Error(
+        'Authentication failed for Linear. Run `ody auth linear` to configure your API key.',
+      );
+    }
+
+    // GraphQL errors such as an unknown issue usually come back with HTTP 200.
+    const data = (await res.json().catch(() => null)) as {
+      data?: { issue?: any };
+      errors?: { message?: string }[];
+    } | null;
+    const issue = data?.data?.issue;
+
+    if (issue) {
+      return mapResponseToIssue(issue);
+    }
+
+    const messages = (data?.errors ?? []).flatMap((e) => (e.message ? [e.message] : []));
+
+    if (res.ok && (messages.length === 0 || messages.some((m) => /not found/i.test(m)))) {
+      throw new Error(`Issue ${identifier} not found in Linear. Check the issue ID and try again.`);
+    }
+
+    throw new Error(
+      `Linear API error (HTTP ${res.status}) when fetching ${identifier}${messages.length > 0 ? `: ${messages.join('; ')}` : '.'}`,
+    );
+  }
+
+  function mapResponseToIssue(data: any): LinearIssue {
+    const comments = [...(data.comments?.nodes ?? [])]
+      .sort((a: any, b: any) => String(a.createdAt ?? '').localeCompare(String(b.createdAt ?? '')))
+      .map((c: any) => `${c.user?.name ?? 'Unknown'}: ${c.body ?? ''}`);
+
+    return {
+      identifier: data.identifier ?? '',
+      title: data.title ?? '',
+      description: data.description ?? '',
+      url: data.url ?? '',
+      state: data.state?.name ?? '',
+      priority: data.priorityLabel ?? '',
+      team: data.team?.name ?? '',
+      project: data.project?.name ?? null,
+      assignee: data.assignee?.name ?? null,
+      labels: (data.labels?.nodes ?? []).map((l: any) => l.name ?? ''),
+      comments,
+    };
+  }
+
+  export function formatAsDescription(issue: LinearIssue): string {
+    const lines: string[] = [];
+
+    lines.push(`Issue: ${issue.identifier}`);
+    lines.push(`Title: ${issue.title}`);
+    lines.push(`Team: ${issue.team}`);
+    lines.push(`Priority: ${issue.priority}`);
+    lines.push(`State: ${issue.state}`);
+
+    if (issue.project) {
+      lines.push(`Project: ${issue.project}`);
+    }
+
+    if (issue.labels.length > 0) {
+      lines.push(`Labels: ${issue.labels.join(', ')}`);
+    }
+
+    if (issue.assignee) {
+      lines.push(`Assignee: ${issue.assignee}`);
+    }
+
+    lines.push('');
+
+    if (issue.description) {
+      lines.push('Description:');
+      lines.push(issue.description);
+    } else {
+      lines.push('Description: (none)');
+    }
+
+    if (issue.comments.length > 0) {
+      lines.push('');
+      lines.push('Comments:');
+
+      for (const comment of issue.comments) {
+        lines.push(`- ${comment.replaceAll('\n', '\n  ')}`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+}
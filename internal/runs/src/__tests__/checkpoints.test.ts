@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { Git } from '@internal/git';
+
+import { Checkpoints } from '../checkpoints';
+
+let repoDir: string;
+let taskPath: string;
+
+const TASK = `---
+status: in_progress
+started: 2026-01-01
+---
+# Task: Add login
+`;
+
+describe('Checkpoints', () => {
+  beforeEach(async () => {
+    repoDir = await mkdtemp(path.join(os.tmpdir(), 'ody-checkpoints-test-'));
+    taskPath = path.join(repoDir, '.ody', 'tasks', 'add-login.code-task.md');
+
+    await Git.run(['init', '-q', '-b', 'main'], repoDir);
+    await Git.run(['config', 'user.email', 'ody@example.com'], repoDir);
+    await Git.run(['config', 'user.name', 'Ody'], repoDir);
+    await writeFile(path.join(repoDir, 'README.md'), 'hello\n');
+    await Git.run(['add', '-A'], repoDir);
+    await Git.run(['commit', '-q', '-m', 'initial'], repoDir);
+    await mkdir(path.dirname(taskPath), { recursive: true });
+    await writeFile(taskPath, TASK);
+  });
+
+  afterEach(async () => {
+    await rm(repoDir, { recursive: true, force: true });
+  });
+
+  test('rolls a task back to its checkpoint and resets it to pending', async () => {
+    await writeFile(path.join(repoDir, 'README.md'), 'user edit\n');
+
+    const checkpoint = await Checkpoints.record(repoDir, taskPath);
+
+    expect(checkpoint).not.toBeNull();
+    expect(await Checkpoints.get(taskPath)).toBe(checkpoint);
+
+    await writeFile(path.join(repoDir, 'login.ts'), 'export {};\n');
+    await Git.run(['add', 'login.ts'], repoDir);
+    await Git.run(['commit', '-q', '-m', 'feat: Add login'], repoDir);
+
+    const status = await Checkpoints.inspect(repoDir, taskPath);
+
+    expect(status.laterCommits).toHaveLength(1);
+    expect(status.laterCommits[0]).toEndWith('feat: Add login');
+
+    await Checkpoints.rollback(repoDir, taskPath);
+
+    expect(await Bun.file(path.join(repoDir, 'login.ts')).exists()).toBe(false);
+    expect(await readFile(path.join(repoDir, 'README.md'), 'utf-8')).toBe('user edit\n');
+    expect(await readFile(taskPath, 'utf-8')).toContain('status: pending');
+    expect(await Checkpoints.get(taskPath)).toBeNull();
+    expect(
+      await Git.exec(['rev-parse', '--verify', '--quiet', Checkpoints.refFor(taskPath)], repoDir),
+    ).toMatchObject({ exitCode: 1 });
+  });
+
+  test('refuses tasks without a checkpoint', async () => {
+    await expect(Checkpoints.inspect(repoDir, taskPath)).rejects.toThrow('has no checkpoint');
+  });
+});
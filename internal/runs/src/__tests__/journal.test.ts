@@ -0,0 +1,222 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { Journal, type IterationInput, type RunRecord } from '../journal';
+
+let runsDir: string;
+
+function iteration(overrides: Partial<IterationInput> = {}): IterationInput {
+  return {
+    iteration: 1,
+    attempt: 1,
+    taskFile: 'add-login.code-task.md',
+    taskTitle: 'Add login',
+    startedAt: new Date().toISOString(),
+    exitCode: 0,
+    markerDetection: { hasStrictMatch: true, hasAmbiguousMention: false },
+    outcome: 'completed',
+    error: null,
+    validators: [],
+    usage: null,
+    backend: 'claude',
+    stdout: 'agent output\n<woof>COMPLETE</woof>\n',
+    stderr: '',
+    ...overrides,
+  };
+}
+
+describe('Journal', () => {
+  beforeEach(async () => {
+    runsDir = path.join(await mkdtemp(path.join(os.tmpdir(), 'ody-journal-test-')), 'runs');
+  });
+
+  afterEach(async () => {
+    await rm(path.dirname(runsDir), { recursive: true, force: true });
+  });
+
+  test('keeps run journals out of commits even when .ody/ is committed', () => {
+    expect(Journal.getCommitExclude({})).toEqual(['.ody']);
+    expect(Journal.getCommitExclude({ commit: { includeOdyDir: true } })).toEqual([
+      path.join('.ody', 'runs'),
+    ]);
+  });
+
+  test('writes the run record, iteration records and raw logs', async () => {
+    const journal = await Journal.start(runsDir, {
+      source: 'cli',
+      args: { iterations: 2 },
+      backend: 'claude',
+      model: 'sonnet',
+      config: { backend: 'claude', maxIterations: 2 },
+    });
+
+    await journal.recordIteration(iteration());
+    await journal.recordIteration(
+      iteration({
+        iteration: 2,
+        outcome: 'failed',
+        exitCode: 1,
+        error: 'Process exit failure: backend exited with code 1',
+        stderr: 'boom',
+      }),
+    );
+    await journal.finish('failed', 'Process exit failure: backend exited with code 1');
+
+    const run = await Journal.read(runsDir, journal.id);
+
+    expect(run).toMatchObject({
+      id: journal.id,
+      source: 'cli',
+      status: 'failed',
+      backend: 'claude',
+      model: 'sonnet',
+      config: { backend: 'claude', maxIterations: 2 },
+      error: 'Process exit failure: backend exited with code 1',
+    });
+    expect(run.finishedAt).not.toBeNull();
+    expect(run.iterations.map((entry) => entry.outcome)).toEqual(['completed', 'failed']);
+    expect(run.iterations[0]).not.toHaveProperty('stdout');
+    expect(await Journal.readLog(runsDir, journal.id, 'iteration-1-attempt-1.stdout.log')).toBe(
+      'agent output\n<woof>COMPLETE</woof>\n',
+    );
+    expect(
+      await readFile(path.join(journal.dir, run.iterations[1]?.stderrLog ?? ''), 'utf-8'),
+    ).toBe('boom');
+  });
+
+  test('keeps every record when iterations are written concurrently', async () => {
+    const journal = await Journal.start(runsDir, {
+      source: 'cli',
+      args: {},
+      backend: 'claude',
+      config: {},
+    });
+
+    await Promise.all(
+      [1, 2, 3, 4].map((index) => journal.recordIteration(iteration({ iteration: index }))),
+    );
+
+    const run = await Journal.read(runsDir, journal.id);
+
+    expect(run.iterations.map((entry) => entry.iteration).sort()).toEqual([1, 2, 3, 4]);
+  });
+
+  test('sums iteration usage into the run total', async () => {
+    const journal = await Journal.start(runsDir, {
+      source: 'cli',
+      args: {},
+      backend: 'claude',
+      config: {},
+    });
+    const usage = {
+      inputTokens: 100,
+      outputTokens: 40,
+      cacheCreationInputTokens: 10,
+      cacheReadInputTokens: 500,
+      costUsd: 0.05,
+    };
+
+    await journal.recordIteration(iteration({ usage }));
+    await journal.recordIteration(iteration({ iteration: 2, usage: null }));
+    await journal.recordIteration(iteration({ iteration: 3, usage }));
+
+    expect(journal.getUsage()).toEqual({
+      inputTokens: 200,
+      outputTokens: 80,
+      cacheCreationInputTokens: 20,
+      cacheReadInputTokens: 1000,
+      costUsd: 0.1,
+    });
+    expect((await Journal.read(runsDir, journal.id)).usage).toEqual(journal.getUsage());
+  });
+
+  test('numbers the logs of repeated invocations within one attempt', async () => {
+    const journal = await Journal.start(runsDir, {
+      source: 'cli',
+      args: {},
+      backend: 'claude, codex',
+      config: {},
+    });
+
+    await journal.recordIteration(iteration({ outcome: 'retrying', stderr: 'rate limited' }));
+    await journal.recordIteration(iteration({ backend: 'codex' }));
+
+    const run = await Journal.read(runsDir, journal.id);
+
+    expect(run.iterations.map((entry) => [entry.backend, entry.stderrLog])).toEqual([
+      ['claude', 'iteration-1-attempt-1.stderr.log'],
+      ['codex', 'iteration-1-attempt-1-2.stderr.log'],
+    ]);
+    expect(await Journal.readLog(runsDir, journal.id, 'iteration-1-attempt-1.stderr.log')).toBe(
+      'rate limited',
+    );
+  });
+
+  test('lists runs newest first and rejects ids outside the runs directory', async () => {
+    const first = await Journal.start(runsDir, {
+      source: 'cli',
+      args: {},
+      backend: 'claude',
+      config: {},
+    });
+    const second = await Journal.start(runsDir, {
+      source: 'desktop',
+      args: {},
+      backend: 'codex',
+      config: {},
+    });
+
+    expect(second.id).not.toBe(first.id);
+    expect((await Journal.list(runsDir)).map((run) => run.id)).toEqual([second.id, first.id]);
+    expect(await Journal.list(path.join(runsDir, 'missing'))).toEqual([]);
+    await expect(Journal.read(runsDir, '../outside')).rejects.toThrow('Invalid run id');
+  });
+
+  test('finds the latest interrupted run and counts its completed iterations', async () => {
+    const finished = await Journal.start(runsDir, {
+      source: 'cli',
+      args: {},
+      backend: 'claude',
+      config: {},
+    });
+    await finished.finish('completed');
+
+    expect(await Journal.findResumable(runsDir, 'cli')).toBeUndefined();
+
+    const stopped = await Journal.start(runsDir, {
+      source: 'cli',
+      args: { iterations: 5 },
+      backend: 'claude',
+      config: {},
+      resumedFrom: finished.id,
+      iterationOffset: 2,
+    });
+    await stopped.recordIteration(iteration({ iteration: 3, outcome: 'retrying' }));
+    await stopped.recordIteration(iteration({ iteration: 3, attempt: 2 }));
+    await stopped.recordIteration(iteration({ iteration: 4, outcome: 'stopped' }));
+    await stopped.finish('stopped', 'Run interrupted during iteration 4');
+
+    const resumable = await Journal.findResumable(runsDir, 'cli');
+
+    expect(resumable?.id).toBe(stopped.id);
+    expect(resumable?.resumedFrom).toBe(finished.id);
+    expect(Journal.countCompletedIterations(resumable as RunRecord)).toBe(3);
+    expect(await Journal.findResumable(runsDir, 'desktop')).toBeUndefined();
+  });
+
+  test('treats a running record as interrupted once its process is gone', async () => {
+    const journal = await Journal.start(runsDir, {
+      source: 'cli',
+      args: {},
+      backend: 'claude',
+      config: {},
+    });
+    const run = await Journal.read(runsDir, journal.id);
+
+    expect(Journal.isActive({ ...run, pid: process.ppid })).toBe(true);
+    expect(Journal.isActive({ ...run, pid: 2 ** 22 + 1 })).toBe(false);
+    expect(Journal.isInterrupted({ ...run, pid: 2 ** 22 + 1 })).toBe(true);
+  });
+});
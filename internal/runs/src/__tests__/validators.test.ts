@@ -0,0 +1,56 @@
+import { describe, expect, test } from 'bun:test';
+
+import { Validators } from '../validators';
+
+describe('Validators', () => {
+  test('captures exit code, duration and output for each command in order', async () => {
+    const results = await Validators.run(['echo ok', 'echo broken >&2; exit 3']);
+
+    expect(results.map((result) => result.command)).toEqual(['echo ok', 'echo broken >&2; exit 3']);
+    expect(results[0]).toMatchObject({ exitCode: 0, outputTail: 'ok' });
+    expect(results[1]).toMatchObject({ exitCode: 3, outputTail: 'broken' });
+    expect(results.every((result) => result.durationMs >= 0)).toBe(true);
+    expect(Validators.failed(results).map((result) => result.command)).toEqual([
+      'echo broken >&2; exit 3',
+    ]);
+  });
+
+  test('keeps only the tail of long output', async () => {
+    const [result] = await Validators.run(['seq 1 100']);
+
+    expect(result?.outputTail.split('\n')).toHaveLength(40);
+    expect(result?.outputTail.endsWith('100')).toBe(true);
+  });
+
+  test('terminates a command that runs past the timeout and records it as failed', async () => {
+    const startedAt = Date.now();
+    const results = await Validators.run(['echo watching; sleep 30 && echo done'], {
+      timeoutMs: 200,
+    });
+    const [result] = results;
+
+    expect(Date.now() - startedAt).toBeLessThan(5_000);
+    expect(result).toMatchObject({ exitCode: 124, timedOut: true });
+    expect(result?.outputTail).toBe('watching\nTimed out after 0.2s; ody terminated the command');
+    expect(Validators.failed(results)).toHaveLength(1);
+    expect(Validators.formatResults(results)).toStartWith(
+      '- echo watching; sleep 30 && echo done: timed out (exit 124,',
+    );
+  });
+
+  test('formats failures with their output and a progress note for every command', () => {
+    const results = [
+      { command: 'bun lint', exitCode: 0, durationMs: 1200, outputTail: 'clean' },
+      { command: 'bun test', exitCode: 1, durationMs: 3400, outputTail: '1 fail' },
+    ];
+
+    expect(Validators.formatFailures(results)).toBe('$ bun test: failed (exit 1, 3.4s)\n1 fail');
+    expect(Validators.formatProgressNote('add-login.code-task.md', 2, results)).toBe(
+      [
+        'Validation for add-login.code-task.md (attempt 2): failed',
+        '- bun lint: passed (exit 0, 1.2s)',
+        '- bun test: failed (exit 1, 3.4s)',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,86 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { BASE_DIR } from '@internal/config';
+import { Git } from '@internal/git';
+import { readFrontmatterData, updateTaskFrontmatter } from '@internal/tasks';
+
+export type CheckpointStatus = {
+  checkpoint: string;
+  head: string;
+  laterCommits: string[];
+  hasUncommittedChanges: boolean;
+};
+
+// Rollbacks never touch `.ody/`, so other tasks and progress notes survive.
+const EXCLUDE = [BASE_DIR];
+
+export namespace Checkpoints {
+  export function refFor(taskFile: string) {
+    return `refs/ody/checkpoints/${path.basename(taskFile).replace(/\.code-task\.md$/, '')}`;
+  }
+
+  export async function get(taskPath: string): Promise<string | null> {
+    const checkpoint = readFrontmatterData(await readFile(taskPath, 'utf-8')).checkpoint;
+
+    return typeof checkpoint === 'string' && checkpoint !== '' ? checkpoint : null;
+  }
+
+  // The ref keeps the checkpoint commit from being garbage collected; the
+  // task's frontmatter says which checkpoint belongs to it. Projects outside
+  // git, or without a first commit, get no checkpoint.
+  export async function record(cwd: string, taskPath: string): Promise<string | null> {
+    if ((await Git.exec(['rev-parse', '--verify', '--quiet', 'HEAD'], cwd)).exitCode !== 0) {
+      return null;
+    }
+
+    const checkpoint = await Git.createCheckpoint(cwd, { exclude: EXCLUDE });
+
+    await Git.updateRef(cwd, refFor(taskPath), checkpoint);
+    await updateTaskFrontmatter(taskPath, { checkpoint });
+
+    return checkpoint;
+  }
+
+  export async function inspect(cwd: string, taskPath: string): Promise<CheckpointStatus> {
+    const checkpoint = await get(taskPath);
+
+    if (!checkpoint) {
+      throw new Error(
+        `${path.basename(taskPath)} has no checkpoint; only tasks started by \`ody run\` can be rolled back`,
+      );
+    }
+
+    const head = await Git.run(['rev-parse', `${checkpoint}^`], cwd).catch(() => {
+      throw new Error(`Checkpoint ${checkpoint.slice(0, 7)} no longer exists in this repository`);
+    });
+
+    if (!(await Git.isAncestor(cwd, head))) {
+      throw new Error(
+        `HEAD does not contain checkpoint ${checkpoint.slice(0, 7)}; switch to the branch the task ran on first`,
+      );
+    }
+
+    return {
+      checkpoint,
+      head,
+      laterCommits: await Git.listCommits(cwd, head),
+      hasUncommittedChanges: await Git.hasUncommittedChanges(cwd, { exclude: EXCLUDE }),
+    };
+  }
+
+  export async function rollback(cwd: string, taskPath: string): Promise<CheckpointStatus> {
+    const status = await inspect(cwd, taskPath);
+
+    await Git.restoreCheckpoint(cwd, status.checkpoint, { exclude: EXCLUDE });
+    await updateTaskFrontmatter(taskPath, {
+      status: 'pending',
+      started: null,
+      completed: null,
+      checkpoint: null,
+    });
+    await Git.updateRef(cwd, refFor(taskPath), null);
+
+    return status;
+  }
+}
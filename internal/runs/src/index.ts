@@ -0,0 +1,16 @@
+export { Checkpoints } from './checkpoints';
+export type { CheckpointStatus } from './checkpoints';
+export { Journal } from './journal';
+export type {
+  IterationInput,
+  IterationOutcome,
+  IterationRecord,
+  MarkerDetection,
+  RunJournal,
+  RunRecord,
+  RunSource,
+  RunStatus,
+  StartRunOptions,
+} from './journal';
+export { Validators } from './validators';
+export type { ValidatorResult } from './validators';
@@ -0,0 +1,286 @@
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { StreamJson, type AgentUsage } from '@internal/backends';
+import { BASE_DIR, type OdyConfig } from '@internal/config';
+
+import type { ValidatorResult } from './validators';
+
+const RUN_FILE = 'run.json';
+
+export type RunSource = 'cli' | 'desktop';
+
+export type RunStatus = 'running' | 'completed' | 'failed' | 'stopped';
+
+export type MarkerDetection = {
+  hasStrictMatch: boolean;
+  hasAmbiguousMention: boolean;
+};
+
+export type IterationOutcome =
+  | 'completed'
+  | 'retrying'
+  | 'failed'
+  | 'stopped'
+  | 'timed_out'
+  | 'rejected';
+
+export type IterationRecord = {
+  iteration: number;
+  attempt: number;
+  taskFile: string | null;
+  taskTitle: string | null;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  exitCode: number | null;
+  markerDetection: MarkerDetection | null;
+  outcome: IterationOutcome;
+  error: string | null;
+  validators: ValidatorResult[];
+  usage: AgentUsage | null;
+  backend: string | null;
+  stdoutLog: string;
+  stderrLog: string;
+};
+
+export type RunRecord = {
+  id: string;
+  source: RunSource;
+  status: RunStatus;
+  pid: number;
+  resumedFrom: string | null;
+  iterationOffset: number;
+  startedAt: string;
+  finishedAt: string | null;
+  args: Record<string, unknown>;
+  backend: string;
+  model: string | null;
+  config: Record<string, unknown>;
+  iterations: IterationRecord[];
+  usage: AgentUsage;
+  error: string | null;
+};
+
+export type StartRunOptions = {
+  source: RunSource;
+  args: Record<string, unknown>;
+  backend: string;
+  model?: string;
+  config: object;
+  resumedFrom?: string;
+  iterationOffset?: number;
+};
+
+export type IterationInput = Omit<
+  IterationRecord,
+  'finishedAt' | 'durationMs' | 'stdoutLog' | 'stderrLog'
+> & {
+  stdout: string;
+  stderr: string;
+};
+
+export type RunJournal = {
+  id: string;
+  dir: string;
+  recordIteration: (input: IterationInput) => Promise<IterationRecord>;
+  getUsage: () => AgentUsage;
+  finish: (status: Exclude<RunStatus, 'running'>, error?: string) => Promise<RunRecord>;
+};
+
+function createRunId(date: Date) {
+  return date.toISOString().replace(/[:.]/g, '-');
+}
+
+function isProcessAlive(pid: number) {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function errorMessage(err: unknown) {
+  return Error.isError(err) ? err.message : String(err);
+}
+
+export namespace Journal {
+  export function resolveRunsDir(baseDir: string) {
+    return path.join(baseDir, 'runs');
+  }
+
+  // Run journals are never committed, even when the rest of `.ody/` is.
+  export function getCommitExclude(config: Pick<OdyConfig, 'commit'>) {
+    return config.commit?.includeOdyDir ? [resolveRunsDir(BASE_DIR)] : [BASE_DIR];
+  }
+
+  export async function start(runsDir: string, options: StartRunOptions): Promise<RunJournal> {
+    const startedAt = new Date();
+    let id = createRunId(startedAt);
+    let dir = path.join(runsDir, id);
+
+    await mkdir(runsDir, { recursive: true });
+
+    for (let suffix = 1; ; suffix++) {
+      try {
+        await mkdir(dir);
+        break;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw err;
+        }
+
+        id = `${createRunId(startedAt)}-${suffix}`;
+        dir = path.join(runsDir, id);
+      }
+    }
+
+    const record: RunRecord = {
+      id,
+      source: options.source,
+      status: 'running',
+      pid: process.pid,
+      resumedFrom: options.resumedFrom ?? null,
+      iterationOffset: options.iterationOffset ?? 0,
+      startedAt: startedAt.toISOString(),
+      finishedAt: null,
+      args: options.args,
+      backend: options.backend,
+      model: options.model ?? null,
+      config: structuredClone({ ...options.config }),
+      iterations: [],
+      usage: StreamJson.emptyUsage(),
+      error: null,
+    };
+
+    let writes: Promise<unknown> = Promise.resolve();
+
+    // Parallel runs record iterations concurrently, so every update of
+    // run.json goes through one queue.
+    const update = <T>(fn: () => Promise<T>): Promise<T> => {
+      const next = writes.then(fn);
+      writes = next.catch(() => undefined);
+      return next;
+    };
+
+    const save = () => writeFile(path.join(dir, RUN_FILE), `${JSON.stringify(record, null, 2)}\n`);
+
+    await save();
+
+    return {
+      id,
+      dir,
+      recordIteration(input) {
+        return update(async () => {
+          const finishedAt = new Date();
+          // Backend retries within one attempt get their own numbered logs.
+          const invocation = record.iterations.filter(
+            (entry) => entry.iteration === input.iteration && entry.attempt === input.attempt,
+          ).length;
+          const logPrefix = `iteration-${input.iteration}-attempt-${input.attempt}${invocation > 0 ? `-${invocation + 1}` : ''}`;
+          const { stdout, stderr, ...fields } = input;
+          const iteration: IterationRecord = {
+            ...fields,
+            finishedAt: finishedAt.toISOString(),
+            durationMs: finishedAt.getTime() - new Date(input.startedAt).getTime(),
+            stdoutLog: `${logPrefix}.stdout.log`,
+            stderrLog: `${logPrefix}.stderr.log`,
+          };
+
+          await writeFile(path.join(dir, iteration.stdoutLog), stdout);
+          await writeFile(path.join(dir, iteration.stderrLog), stderr);
+
+          record.iterations.push(iteration);
+
+          if (iteration.usage) {
+            record.usage = StreamJson.addUsage(record.usage, iteration.usage);
+          }
+
+          await save();
+
+          return iteration;
+        });
+      },
+      getUsage() {
+        return record.usage;
+      },
+      finish(status, error) {
+        return update(async () => {
+          record.status = status;
+          record.finishedAt = new Date().toISOString();
+          record.error = error ?? null;
+          await save();
+
+          return record;
+        });
+      },
+    };
+  }
+
+  export async function list(runsDir: string): Promise<RunRecord[]> {
+    let entries: string[];
+
+    try {
+      entries = await readdir(runsDir);
+    } catch {
+      return [];
+    }
+
+    const runs: RunRecord[] = [];
+
+    for (const entry of entries) {
+      try {
+        runs.push(await read(runsDir, entry));
+      } catch (err) {
+        console.warn(`Skipping unreadable run ${entry}: ${errorMessage(err)}`);
+      }
+    }
+
+    return runs.sort((a, b) => b.startedAt.localeCompare(a.startedAt) || b.id.localeCompare(a.id));
+  }
+
+  export function isActive(run: RunRecord) {
+    return run.status === 'running' && run.pid !== process.pid && isProcessAlive(run.pid);
+  }
+
+  export function isInterrupted(run: RunRecord) {
+    return run.status === 'stopped' || (run.status === 'running' && !isActive(run));
+  }
+
+  export async function findResumable(
+    runsDir: string,
+    source: RunSource,
+  ): Promise<RunRecord | undefined> {
+    const [latest] = (await list(runsDir)).filter((run) => run.source === source);
+
+    return latest && isInterrupted(latest) ? latest : undefined;
+  }
+
+  export function countCompletedIterations(run: RunRecord) {
+    const completed = new Set(
+      run.iterations
+        .filter((iteration) => iteration.outcome === 'completed')
+        .map((iteration) => iteration.iteration),
+    );
+
+    return (run.iterationOffset ?? 0) + completed.size;
+  }
+
+  export async function read(runsDir: string, id: string): Promise<RunRecord> {
+    if (id !== path.basename(id)) {
+      throw new Error(`Invalid run id: ${id}`);
+    }
+
+    const content = await readFile(path.join(runsDir, id, RUN_FILE), 'utf-8');
+    return JSON.parse(content) as RunRecord;
+  }
+
+  export async function readLog(runsDir: string, id: string, logFile: string): Promise<string> {
+    if (id !== path.basename(id) || logFile !== path.basename(logFile)) {
+      throw new Error(`Invalid log path: ${id}/${logFile}`);
+    }
+
+    return readFile(path.join(runsDir, id, logFile), 'utf-8');
+  }
+}
@@ -0,0 +1,171 @@
+import { spawn } from 'node:child_process';
+
+const OUTPUT_TAIL_LINES = 40;
+const OUTPUT_BUFFER_CHARS = 64 * 1024;
+const DEFAULT_TIMEOUT_MS = 10 * 60_000;
+const TERMINATE_GRACE_MS = 5_000;
+// The exit code `timeout(1)` uses, so a timed-out validator reads as failed.
+const TIMEOUT_EXIT_CODE = 124;
+
+export type ValidatorResult = {
+  command: string;
+  exitCode: number;
+  durationMs: number;
+  outputTail: string;
+  timedOut?: boolean;
+};
+
+type RunValidatorsOptions = {
+  cwd?: string;
+  timeoutMs?: number;
+};
+
+function tailLines(output: string, lineCount = OUTPUT_TAIL_LINES): string {
+  const lines = output.trimEnd().split(/\r?\n/);
+  return lines.slice(-lineCount).join('\n');
+}
+
+function formatDuration(durationMs: number): string {
+  return `${(durationMs / 1000).toFixed(1)}s`;
+}
+
+function formatResultLine(result: ValidatorResult): string {
+  const outcome = result.timedOut ? 'timed out' : result.exitCode === 0 ? 'passed' : 'failed';
+  return `${result.command}: ${outcome} (exit ${result.exitCode}, ${formatDuration(result.durationMs)})`;
+}
+
+function runCommand(
+  command: string,
+  cwd: string | undefined,
+  timeoutMs: number,
+): Promise<ValidatorResult> {
+  const startedAt = Date.now();
+
+  return new Promise((resolve) => {
+    let output = '';
+    let timedOut = false;
+    let killTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const append = (chunk: Buffer) => {
+      output = (output + chunk.toString('utf8')).slice(-OUTPUT_BUFFER_CHARS);
+    };
+
+    // Detached so the shell leads its own process group: test runners and
+    // watchers it starts are signalled along with it.
+    const proc = spawn(command, {
+      cwd,
+      shell: true,
+      detached: process.platform !== 'win32',
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    const kill = (signal: NodeJS.Signals) => {
+      try {
+        if (proc.pid !== undefined && process.platform !== 'win32') {
+          process.kill(-proc.pid, signal);
+        } else {
+          proc.kill(signal);
+        }
+      } catch {
+        // The process group has already exited.
+      }
+    };
+
+    // Outside the terminal's process group the command no longer sees Ctrl-C,
+    // so it is passed on, and the command never outlives ody.
+    const interrupt = () => kill('SIGINT');
+    const killOnExit = () => kill('SIGKILL');
+
+    process.on('SIGINT', interrupt);
+    process.on('exit', killOnExit);
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      kill('SIGTERM');
+      killTimer = setTimeout(() => kill('SIGKILL'), TERMINATE_GRACE_MS);
+    }, timeoutMs);
+
+    const finish = (result: ValidatorResult) => {
+      clearTimeout(timer);
+      clearTimeout(killTimer);
+      process.off('SIGINT', interrupt);
+      process.off('exit', killOnExit);
+      resolve(result);
+    };
+
+    proc.stdout.on('data', append);
+    proc.stderr.on('data', append);
+
+    proc.on('error', (error) => {
+      finish({
+        command,
+        exitCode: 127,
+        durationMs: Date.now() - startedAt,
+        outputTail: error.message,
+      });
+    });
+
+    proc.on('close', (code) => {
+      if (timedOut) {
+        finish({
+          command,
+          exitCode: TIMEOUT_EXIT_CODE,
+          durationMs: Date.now() - startedAt,
+          outputTail: tailLines(
+            `${output.trimEnd()}\nTimed out after ${formatDuration(timeoutMs)}; ody terminated the command`,
+          ).trim(),
+          timedOut,
+        });
+        return;
+      }
+
+      finish({
+        command,
+        exitCode: code ?? 1,
+        durationMs: Date.now() - startedAt,
+        outputTail: tailLines(output),
+      });
+    });
+  });
+}
+
+export namespace Validators {
+  export async function run(
+    commands: string[],
+    options: RunValidatorsOptions = {},
+  ): Promise<ValidatorResult[]> {
+    const results: ValidatorResult[] = [];
+
+    for (const command of commands) {
+      results.push(await runCommand(command, options.cwd, options.timeoutMs ?? DEFAULT_TIMEOUT_MS));
+    }
+
+    return results;
+  }
+
+  export function failed(results: ValidatorResult[]): ValidatorResult[] {
+    return results.filter((result) => result.exitCode !== 0);
+  }
+
+  export function formatFailures(results: ValidatorResult[]): string {
+    return failed(results)
+      .map((result) => `$ ${formatResultLine(result)}\n${result.outputTail}`.trimEnd())
+      .join('\n\n');
+  }
+
+  export function formatResults(results: ValidatorResult[]): string {
+    return results.map((result) => `- ${formatResultLine(result)}`).join('\n');
+  }
+
+  export function formatProgressNote(
+    taskFile: string,
+    attempt: number,
+    results: ValidatorResult[],
+  ): string {
+    const outcome = failed(results).length === 0 ? 'passed' : 'failed';
+
+    return [`Validation for ${taskFile} (attempt ${attempt}): ${outcome}`, formatResults(results)]
+      .filter((line) => line !== '')
+      .join('\n');
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, expect, test } from 'bun:test';
+
+import { formatCommitMessage, getCommitTrailers, inferCommitType } from '../commit';
+
+const task = (labels: string) => `---
+status: completed
+labels: [${labels}]
+---
+# Task: Fix expired session handling.
+`;
+
+describe('inferCommitType', () => {
+  test('maps known labels to a conventional commit type', () => {
+    expect(inferCommitType(['auth', 'Bug'])).toBe('fix');
+    expect(inferCommitType(['documentation'])).toBe('docs');
+  });
+
+  test('defaults to feat', () => {
+    expect(inferCommitType([])).toBe('feat');
+    expect(inferCommitType(['auth'])).toBe('feat');
+  });
+});
+
+describe('getCommitTrailers', () => {
+  test('links imported Jira keys and GitHub issues', () => {
+    expect(getCommitTrailers(['auth', 'PROJ-123', 'acme/api#42'])).toEqual([
+      'Jira: PROJ-123',
+      'Refs: acme/api#42',
+    ]);
+  });
+
+  test('links Linear issues when the task was imported from Linear', () => {
+    expect(getCommitTrailers(['ENG-7', 'platform/api#3'], 'linear')).toEqual([
+      'Linear: ENG-7',
+      'Refs: platform/api#3',
+    ]);
+  });
+});
+
+describe('formatCommitMessage', () => {
+  test('uses the default template and adds trailers', () => {
+    expect(formatCommitMessage(task('bug, PROJ-123'), '.ody/tasks/fix-sessions.code-task.md')).toBe(
+      'fix: Fix expired session handling\n\nJira: PROJ-123',
+    );
+  });
+
+  test('fills every placeholder of a custom template', () => {
+    expect(
+      formatCommitMessage(task('auth, acme/api#42'), '.ody/tasks/fix-sessions.code-task.md', {
+        template: '{type}({labels}): {title} [{taskFile}]',
+        trailers: false,
+      }),
+    ).toBe('feat(auth, acme/api#42): Fix expired session handling [fix-sessions.code-task.md]');
+  });
+
+  test('does not expand placeholders that appear in the title', () => {
+    expect(
+      formatCommitMessage('# Task: Render {labels} literally\n', 'render.code-task.md', {
+        template: '{title} ({labels})',
+      }),
+    ).toBe('Render {labels} literally ()');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, test } from 'bun:test';
+
+import {
+  formatUncheckedCriteria,
+  getUncheckedCriteria,
+  parseAcceptanceCriteria,
+} from '../criteria';
+
+const content = [
+  '---',
+  'status: completed',
+  '---',
+  '# Task: Add login',
+  '',
+  '## Acceptance Criteria',
+  '',
+  '1. [x] **Valid credentials**',
+  '   - Given a registered user',
+  '   - When they submit valid credentials',
+  '   - Then they see the dashboard',
+  '   - Evidence: `bun test src/login.test.ts` passes "signs in"',
+  '',
+  '2. [ ] **Invalid credentials**',
+  '   - Given a registered user',
+  '   - When they submit a wrong password',
+  '   - Then they see an error',
+  '',
+  '3. **Legacy criterion**',
+  '   - Given anything',
+  '',
+  '## Notes',
+  '1. Not a criterion',
+  '',
+].join('\n');
+
+describe('parseAcceptanceCriteria', () => {
+  test('parses checked state, steps, evidence and line numbers', () => {
+    expect(parseAcceptanceCriteria(content)).toEqual([
+      {
+        number: 1,
+        title: 'Valid credentials',
+        checked: true,
+        steps: [
+          'Given a registered user',
+          'When they submit valid credentials',
+          'Then they see the dashboard',
+        ],
+        evidence: '`bun test src/login.test.ts` passes "signs in"',
+        line: 8,
+      },
+      {
+        number: 2,
+        title: 'Invalid credentials',
+        checked: false,
+        steps: [
+          'Given a registered user',
+          'When they submit a wrong password',
+          'Then they see an error',
+        ],
+        evidence: null,
+        line: 14,
+      },
+      {
+        number: 3,
+        title: 'Legacy criterion',
+        checked: false,
+        steps: ['Given anything'],
+        evidence: null,
+        line: 19,
+      },
+    ]);
+  });
+
+  test('returns nothing when the section is missing', () => {
+    expect(
+      parseAcceptanceCriteria('# Task: A\n\n## Description\n1. [ ] Not a criterion\n'),
+    ).toEqual([]);
+  });
+
+  test('lists criteria that are not checked yet', () => {
+    expect(formatUncheckedCriteria(getUncheckedCriteria(content))).toBe(
+      '- Criterion 2: Invalid credentials\n- Criterion 3: Legacy criterion',
+    );
+  });
+});
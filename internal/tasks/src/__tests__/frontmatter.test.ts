@@ -0,0 +1,101 @@
+import { describe, expect, test } from 'bun:test';
+
+import {
+  parseTaskFrontmatter,
+  safeParseTaskFrontmatter,
+  setFrontmatterFields,
+} from '../frontmatter';
+import { parseComplexity, parseLabels } from '../task';
+
+function task(...frontmatter: string[]) {
+  return ['---', ...frontmatter, '---', '# Task: Example'].join('\n');
+}
+
+describe('parseTaskFrontmatter', () => {
+  test('parses lists, quoted strings and dates', () => {
+    const content = task(
+      'status: in_progress',
+      'created: 2026-01-01',
+      'started: "2026-01-02T09:30:00Z"',
+      'completed: null',
+      'priority: high',
+      'labels:',
+      '  - auth',
+      '  - "api: v2"',
+      'dependsOn: [add-model.code-task.md]',
+      'costUsd: 0.42',
+    );
+
+    expect(parseTaskFrontmatter(content)).toEqual({
+      status: 'in_progress',
+      created: '2026-01-01',
+      started: '2026-01-02T09:30:00Z',
+      completed: null,
+      priority: 'high',
+      labels: ['auth', 'api: v2'],
+      dependsOn: ['add-model.code-task.md'],
+      costUsd: 0.42,
+    });
+  });
+
+  test('reports schema errors at the offending value', () => {
+    const result = safeParseTaskFrontmatter(task('created: 2026-01-01', 'status: complete'));
+
+    expect(result).toEqual({
+      success: false,
+      issues: [
+        {
+          line: 3,
+          column: 9,
+          path: 'status',
+          message: 'Invalid option: expected one of "pending"|"in_progress"|"completed"',
+        },
+      ],
+    });
+  });
+
+  test('reports missing fields, bad dates and YAML syntax errors', () => {
+    expect(() => parseTaskFrontmatter(task('created: yesterday'), 'a.code-task.md')).toThrow(
+      'a.code-task.md:2:10: created: Expected an ISO 8601 date',
+    );
+    expect(() => parseTaskFrontmatter(task('created: yesterday'), 'a.code-task.md')).toThrow(
+      'a.code-task.md:1:1: status:',
+    );
+    expect(() => parseTaskFrontmatter(task('status: [pending'), 'a.code-task.md')).toThrow(
+      'a.code-task.md:2:',
+    );
+    expect(() => parseTaskFrontmatter('# Task: Example', 'a.code-task.md')).toThrow(
+      'a.code-task.md:1:1: Missing frontmatter block',
+    );
+  });
+});
+
+describe('setFrontmatterFields', () => {
+  test('writes typed values that read back through the schema', () => {
+    const updated = setFrontmatterFields(task('status: pending', 'labels: [auth]'), {
+      status: 'completed',
+      completed: '2026-01-03',
+      outputTokens: 120,
+    });
+
+    expect(updated).toBe(
+      task('status: completed', 'labels: [auth]', 'completed: 2026-01-03', 'outputTokens: 120'),
+    );
+    expect(parseTaskFrontmatter(updated).outputTokens).toBe(120);
+  });
+});
+
+describe('parseLabels', () => {
+  test('prefers frontmatter labels and falls back to the body metadata', () => {
+    expect(parseLabels(task('status: pending', 'labels: [auth, api]'))).toEqual(['auth', 'api']);
+    expect(
+      parseLabels(`${task('status: pending')}\n- **Labels**: auth, api\n- **Complexity**: High`),
+    ).toEqual(['auth', 'api']);
+    expect(parseLabels(task('status: pending'))).toEqual([]);
+  });
+
+  test('reads complexity from the frontmatter or the body metadata', () => {
+    expect(parseComplexity(task('status: pending', 'complexity: low'))).toBe('low');
+    expect(parseComplexity(`${task('status: pending')}\n- **Complexity**: High`)).toBe('High');
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, test } from 'bun:test';
+
+import {
+  findDependencyCycle,
+  formatBlockedReason,
+  resolveTaskReadiness,
+  sortTasksTopologically,
+  type TaskNode,
+} from '../graph';
+import { parseDependsOn } from '../task';
+
+function node(taskFile: string, status: string, dependsOn: string[] = []): TaskNode {
+  return { taskFile, status, dependsOn };
+}
+
+describe('parseDependsOn', () => {
+  test('parses an inline list and normalizes task references', () => {
+    const content = [
+      '---',
+      'status: pending',
+      'dependsOn: [add-model.code-task.md, "add-api", .ody/tasks/add-ui.code-task.md]',
+      '---',
+      '# Task: Example',
+    ].join('\n');
+
+    expect(parseDependsOn(content)).toEqual([
+      'add-model.code-task.md',
+      'add-api.code-task.md',
+      'add-ui.code-task.md',
+    ]);
+  });
+
+  test('parses a block sequence', () => {
+    const content = [
+      '---',
+      'status: pending',
+      'dependsOn:',
+      '  - add-model.code-task.md',
+      '  - add-api.code-task.md',
+      'created: 2026-01-01',
+      '---',
+    ].join('\n');
+
+    expect(parseDependsOn(content)).toEqual(['add-model.code-task.md', 'add-api.code-task.md']);
+  });
+
+  test('returns an empty list when the field is absent or empty', () => {
+    expect(parseDependsOn('---\nstatus: pending\n---')).toEqual([]);
+    expect(parseDependsOn('---\ndependsOn: []\n---')).toEqual([]);
+    expect(parseDependsOn('# No frontmatter')).toEqual([]);
+  });
+});
+
+describe('graph', () => {
+  describe('sortTasksTopologically', () => {
+    test('places dependencies before dependents and keeps input order otherwise', () => {
+      const sorted = sortTasksTopologically([
+        node('c.code-task.md', 'pending', ['b.code-task.md']),
+        node('a.code-task.md', 'pending'),
+        node('b.code-task.md', 'pending', ['a.code-task.md']),
+        node('d.code-task.md', 'pending'),
+      ]);
+
+      expect(sorted.map((task) => task.taskFile)).toEqual([
+        'a.code-task.md',
+        'b.code-task.md',
+        'c.code-task.md',
+        'd.code-task.md',
+      ]);
+    });
+
+    test('rejects cycles with the cycle path in the error', () => {
+      const nodes = [
+        node('a.code-task.md', 'pending', ['c.code-task.md']),
+        node('b.code-task.md', 'pending', ['a.code-task.md']),
+        node('c.code-task.md', 'pending', ['b.code-task.md']),
+      ];
+
+      expect(findDependencyCycle(nodes)).toEqual([
+        'a.code-task.md',
+        'c.code-task.md',
+        'b.code-task.md',
+        'a.code-task.md',
+      ]);
+      expect(() => sortTasksTopologically(nodes)).toThrow(
+        'Task dependency cycle detected: a.code-task.md -> c.code-task.md -> b.code-task.md -> a.code-task.md',
+      );
+    });
+
+    test('ignores references to tasks that do not exist', () => {
+      const nodes = [node('a.code-task.md', 'pending', ['gone.code-task.md'])];
+
+      expect(findDependencyCycle(nodes)).toBeNull();
+      expect(sortTasksTopologically(nodes)).toHaveLength(1);
+    });
+  });
+
+  describe('resolveTaskReadiness', () => {
+    test('marks pending tasks ready only when every dependency is completed', () => {
+      const readiness = resolveTaskReadiness([
+        node('a.code-task.md', 'completed'),
+        node('b.code-task.md', 'in_progress', ['a.code-task.md']),
+        node('c.code-task.md', 'pending', ['a.code-task.md']),
+        node('d.code-task.md', 'pending', ['a.code-task.md', 'b.code-task.md']),
+        node('e.code-task.md', 'pending', ['missing.code-task.md']),
+      ]);
+
+      const byFile = new Map(readiness.map((task) => [task.taskFile, task]));
+
+      expect(byFile.get('a.code-task.md')?.ready).toBe(false);
+      expect(byFile.get('c.code-task.md')?.ready).toBe(true);
+      expect(byFile.get('d.code-task.md')).toMatchObject({
+        ready: false,
+        blockedBy: ['b.code-task.md'],
+        missing: [],
+      });
+      expect(byFile.get('e.code-task.md')).toMatchObject({
+        ready: false,
+        blockedBy: [],
+        missing: ['missing.code-task.md'],
+      });
+    });
+  });
+
+  describe('formatBlockedReason', () => {
+    test('lists incomplete and missing dependencies', () => {
+      expect(
+        formatBlockedReason({
+          blockedBy: ['b.code-task.md'],
+          missing: ['gone.code-task.md'],
+        }),
+      ).toBe('blocked by b.code-task.md, gone.code-task.md (missing)');
+    });
+  });
+});
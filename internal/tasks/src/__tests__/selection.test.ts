@@ -0,0 +1,62 @@
+import { describe, expect, test } from 'bun:test';
+
+import { resolveTaskReadiness, type TaskNode } from '../graph';
+import { getPriorityRank, selectNextTask } from '../selection';
+
+function node(taskFile: string, overrides: Partial<TaskNode> = {}): TaskNode {
+  return {
+    taskFile,
+    status: 'pending',
+    dependsOn: [],
+    priority: null,
+    created: null,
+    ...overrides,
+  };
+}
+
+describe('selection', () => {
+  describe('getPriorityRank', () => {
+    test('ranks known priorities and treats unknown values as medium', () => {
+      expect(getPriorityRank('high')).toBe(0);
+      expect(getPriorityRank(' Low ')).toBe(2);
+      expect(getPriorityRank(undefined)).toBe(getPriorityRank('medium'));
+      expect(getPriorityRank('urgent')).toBe(getPriorityRank('medium'));
+    });
+  });
+
+  describe('selectNextTask', () => {
+    test('prefers priority, then creation date, then dependency order', () => {
+      const readiness = resolveTaskReadiness([
+        node('a.code-task.md', { created: '2026-01-03' }),
+        node('b.code-task.md', { created: '2026-01-01' }),
+        node('c.code-task.md', { created: '2026-01-05', priority: 'high' }),
+        node('d.code-task.md', { created: '2026-01-01' }),
+      ]);
+
+      expect(selectNextTask(readiness)?.taskFile).toBe('c.code-task.md');
+      expect(
+        selectNextTask(readiness.filter((task) => task.taskFile !== 'c.code-task.md'))?.taskFile,
+      ).toBe('b.code-task.md');
+    });
+
+    test('never selects blocked tasks and respects the candidate filter', () => {
+      const readiness = resolveTaskReadiness([
+        node('a.code-task.md', { priority: 'low' }),
+        node('b.code-task.md', { priority: 'high', dependsOn: ['a.code-task.md'] }),
+        node('c.code-task.md'),
+      ]);
+
+      expect(selectNextTask(readiness)?.taskFile).toBe('c.code-task.md');
+      expect(selectNextTask(readiness, ['a.code-task.md', 'b.code-task.md'])?.taskFile).toBe(
+        'a.code-task.md',
+      );
+      expect(selectNextTask(readiness, ['b.code-task.md'])).toBeUndefined();
+    });
+
+    test('returns undefined when nothing is pending', () => {
+      const readiness = resolveTaskReadiness([node('a.code-task.md', { status: 'completed' })]);
+
+      expect(selectNextTask(readiness)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { formatTaskSource, getImportedSources, parseTaskSource, recordTaskSource } from '../source';
+
+let tasksDir: string;
+
+describe('formatTaskSource', () => {
+  test('lowercases GitHub and GitLab references only', () => {
+    expect(formatTaskSource('jira', 'PROJ-7')).toBe('jira:PROJ-7');
+    expect(formatTaskSource('linear', 'ENG-7')).toBe('linear:ENG-7');
+    expect(formatTaskSource('github', 'Acme/API#12')).toBe('github:acme/api#12');
+    expect(formatTaskSource('gitlab', 'Platform/API#3')).toBe('gitlab:platform/api#3');
+  });
+});
+
+describe('parseTaskSource', () => {
+  test('splits the kind from the key', () => {
+    expect(parseTaskSource('github:acme/api#12')).toEqual({ kind: 'github', key: 'acme/api#12' });
+    expect(parseTaskSource('linear:ENG-1')).toEqual({ kind: 'linear', key: 'ENG-1' });
+    expect(parseTaskSource('trello:abc')).toBeNull();
+  });
+});
+
+describe('task sources', () => {
+  beforeEach(async () => {
+    tasksDir = await mkdtemp(path.join(os.tmpdir(), 'ody-source-test-'));
+    await writeFile(
+      path.join(tasksDir, 'add-login.code-task.md'),
+      '---\nstatus: pending\nsource: jira:PROJ-7\n---\n# Task: Add login\n',
+    );
+  });
+
+  afterEach(async () => {
+    await rm(tasksDir, { recursive: true, force: true });
+  });
+
+  test('records the source on task files created since the snapshot', async () => {
+    const before = ['add-login.code-task.md'];
+
+    await writeFile(
+      path.join(tasksDir, 'fix-sessions.code-task.md'),
+      '---\nstatus: pending\n---\n# Task: Fix sessions\n',
+    );
+
+    expect(await recordTaskSource(tasksDir, before, 'github:acme/api#12')).toEqual([
+      'fix-sessions.code-task.md',
+    ]);
+    expect(await readFile(path.join(tasksDir, 'fix-sessions.code-task.md'), 'utf-8')).toContain(
+      'source: github:acme/api#12',
+    );
+    expect(await getImportedSources(tasksDir)).toEqual(
+      new Map([
+        ['jira:PROJ-7', 'add-login.code-task.md'],
+        ['github:acme/api#12', 'fix-sessions.code-task.md'],
+      ]),
+    );
+  });
+});
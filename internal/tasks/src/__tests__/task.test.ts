@@ -0,0 +1,58 @@
+import { describe, expect, test } from 'bun:test';
+
+import { parseFrontmatter, setFrontmatterFields } from '../frontmatter';
+import { appendReviewNote } from '../task';
+
+describe('setFrontmatterFields', () => {
+  test('replaces existing fields and appends missing ones without touching the body', () => {
+    const content = [
+      '---',
+      'status: completed',
+      'created: 2026-01-01',
+      'completed: 2026-01-02',
+      '---',
+      '# Task: Example',
+      'status: not frontmatter',
+    ].join('\n');
+
+    const updated = setFrontmatterFields(content, {
+      status: 'in_progress',
+      completed: null,
+      priority: 'high',
+    });
+
+    expect(parseFrontmatter(updated)).toEqual({
+      status: 'in_progress',
+      created: '2026-01-01',
+      completed: 'null',
+      priority: 'high',
+    });
+    expect(updated.endsWith('# Task: Example\nstatus: not frontmatter')).toBe(true);
+  });
+
+  test('leaves content without frontmatter unchanged', () => {
+    expect(setFrontmatterFields('# Task: Example', { status: 'pending' })).toBe('# Task: Example');
+  });
+});
+
+describe('appendReviewNote', () => {
+  test('adds a Review Notes section to the end of the task', () => {
+    expect(
+      appendReviewNote(
+        '# Task: A\n\n## Description\nText.\n',
+        'Rejected: too\n  broad',
+        '2026-03-01',
+      ),
+    ).toBe(
+      '# Task: A\n\n## Description\nText.\n\n## Review Notes\n\n- 2026-03-01: Rejected: too broad\n',
+    );
+  });
+
+  test('appends to an existing section without moving later sections', () => {
+    const content = '# Task: A\n\n## Review Notes\n\n- 2026-03-01: First\n\n## Notes\nKeep.\n';
+
+    expect(appendReviewNote(content, 'Second', '2026-03-02')).toBe(
+      '# Task: A\n\n## Review Notes\n\n- 2026-03-01: First\n- 2026-03-02: Second\n\n## Notes\nKeep.\n',
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import path from 'node:path';
+
+import { readFrontmatterData } from './frontmatter';
+import { parseTaskSource, type TaskSourceKind } from './source';
+import { parseLabels, parseTitle } from './task';
+
+export const DEFAULT_COMMIT_TEMPLATE = '{type}: {title}';
+
+export type CommitMessageOptions = {
+  template?: string;
+  trailers?: boolean;
+};
+
+const COMMIT_TYPES: Record<string, string> = {
+  bug: 'fix',
+  bugfix: 'fix',
+  fix: 'fix',
+  docs: 'docs',
+  documentation: 'docs',
+  refactor: 'refactor',
+  perf: 'perf',
+  performance: 'perf',
+  test: 'test',
+  tests: 'test',
+  chore: 'chore',
+  ci: 'ci',
+  build: 'build',
+};
+
+// `ody task import` adds the ticket key or issue reference to the labels. Linear
+// IDs look like Jira keys, so the task's recorded source tells them apart.
+const JIRA_KEY_REGEX = /^[A-Z][A-Z0-9]+-\d+$/;
+const GITHUB_ISSUE_REGEX = /^[\w.-]+\/[\w.-]+#\d+$/;
+
+export function inferCommitType(labels: string[]): string {
+  for (const label of labels) {
+    const type = COMMIT_TYPES[label.toLowerCase()];
+
+    if (type) {
+      return type;
+    }
+  }
+
+  return 'feat';
+}
+
+export function getCommitTrailers(labels: string[], sourceKind?: TaskSourceKind): string[] {
+  return labels.flatMap((label) => {
+    if (JIRA_KEY_REGEX.test(label)) {
+      return [`${sourceKind === 'linear' ? 'Linear' : 'Jira'}: ${label}`];
+    }
+
+    if (GITHUB_ISSUE_REGEX.test(label)) {
+      return [`Refs: ${label}`];
+    }
+
+    return [];
+  });
+}
+
+export function formatCommitMessage(
+  content: string,
+  taskFile: string,
+  options: CommitMessageOptions = {},
+): string {
+  const labels = parseLabels(content);
+  const values: Record<string, string> = {
+    type: inferCommitType(labels),
+    title: parseTitle(content).replace(/\.+$/, ''),
+    labels: labels.join(', '),
+    taskFile: path.basename(taskFile),
+  };
+  const message = (options.template ?? DEFAULT_COMMIT_TEMPLATE)
+    .replace(/\{(type|title|labels|taskFile)\}/g, (_, key: string) => values[key] ?? '')
+    .trim();
+  const source = readFrontmatterData(content).source;
+  const sourceKind = typeof source === 'string' ? parseTaskSource(source)?.kind : undefined;
+  const trailers = options.trailers === false ? [] : getCommitTrailers(labels, sourceKind);
+
+  return trailers.length > 0 ? `${message}\n\n${trailers.join('\n')}` : message;
+}
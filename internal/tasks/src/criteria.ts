@@ -0,0 +1,77 @@
+export type AcceptanceCriterion = {
+  number: number;
+  title: string;
+  checked: boolean;
+  steps: string[];
+  evidence: string | null;
+  line: number;
+};
+
+const SECTION_REGEX = /^##\s+Acceptance Criteria\s*$/im;
+const ITEM_REGEX = /^(\d+)\.\s+(?:\[([ xX])\]\s*)?(.*)$/;
+const BULLET_REGEX = /^\s+[-*]\s+(.*)$/;
+const EVIDENCE_REGEX = /^\**Evidence\**\s*:\s*\**\s*(.*)$/i;
+
+function stripEmphasis(value: string) {
+  return value.replace(/^\*\*(.*)\*\*$/, '$1').trim();
+}
+
+export function parseAcceptanceCriteria(content: string): AcceptanceCriterion[] {
+  const heading = SECTION_REGEX.exec(content);
+
+  if (!heading) {
+    return [];
+  }
+
+  const start = heading.index + heading[0].length;
+  const firstLine = content.slice(0, start).split('\n').length + 1;
+  const lines = content.slice(start).split('\n').slice(1);
+  const criteria: AcceptanceCriterion[] = [];
+
+  for (const [offset, line] of lines.entries()) {
+    if (/^#{1,2}\s/.test(line)) {
+      break;
+    }
+
+    const item = ITEM_REGEX.exec(line);
+
+    if (item) {
+      criteria.push({
+        number: Number(item[1]),
+        title: stripEmphasis(item[3] ?? ''),
+        checked: item[2] !== undefined && item[2] !== ' ',
+        steps: [],
+        evidence: null,
+        line: firstLine + offset,
+      });
+      continue;
+    }
+
+    const criterion = criteria.at(-1);
+    const bullet = BULLET_REGEX.exec(line)?.[1]?.trim();
+
+    if (!criterion || !bullet) {
+      continue;
+    }
+
+    const evidence = EVIDENCE_REGEX.exec(bullet);
+
+    if (evidence) {
+      criterion.evidence = evidence[1]?.trim() || null;
+    } else {
+      criterion.steps.push(bullet);
+    }
+  }
+
+  return criteria;
+}
+
+export function getUncheckedCriteria(content: string): AcceptanceCriterion[] {
+  return parseAcceptanceCriteria(content).filter((criterion) => !criterion.checked);
+}
+
+export function formatUncheckedCriteria(criteria: AcceptanceCriterion[]): string {
+  return criteria
+    .map((criterion) => `- Criterion ${criterion.number}: ${criterion.title}`)
+    .join('\n');
+}
@@ -0,0 +1,198 @@
+import { isNode, LineCounter, parseDocument, type Document } from 'yaml';
+import { z } from 'zod';
+
+import { TASK_PRIORITIES } from './selection';
+
+export const TASK_STATUSES = ['pending', 'in_progress', 'completed'] as const;
+export const TASK_COMPLEXITIES = ['low', 'medium', 'high'] as const;
+
+export const FRONTMATTER_REGEX = /^---\n([\s\S]*?)\n---/;
+
+const dateSchema = z
+  .union([z.iso.date(), z.iso.datetime({ offset: true, local: true })], {
+    error: 'Expected an ISO 8601 date such as 2026-01-31 or 2026-01-31T09:30:00Z',
+  })
+  .nullable();
+
+// Older task files wrote lists as a single comma-separated string.
+const listSchema = z
+  .union([z.string(), z.array(z.string())])
+  .nullable()
+  .transform((value) =>
+    (Array.isArray(value) ? value : (value ?? '').split(','))
+      .map((item) => item.trim())
+      .filter((item) => item !== ''),
+  );
+
+export const taskFrontmatterSchema = z.looseObject({
+  status: z.enum(TASK_STATUSES),
+  created: dateSchema.optional(),
+  started: dateSchema.optional(),
+  completed: dateSchema.optional(),
+  priority: z.enum(TASK_PRIORITIES).nullable().optional(),
+  complexity: z.enum(TASK_COMPLEXITIES).nullable().optional(),
+  labels: listSchema.optional(),
+  dependsOn: listSchema.optional(),
+  checkpoint: z.string().nullable().optional(),
+  source: z.string().nullable().optional(),
+  synced: z.enum(TASK_STATUSES).nullable().optional(),
+});
+
+export type TaskStatus = (typeof TASK_STATUSES)[number];
+export type TaskFrontmatter = z.infer<typeof taskFrontmatterSchema>;
+export type FrontmatterValue = string | number | boolean | null | string[];
+
+export type TaskIssue = {
+  line: number;
+  column: number;
+  path: string;
+  message: string;
+};
+
+export type TaskFrontmatterResult =
+  | { success: true; data: TaskFrontmatter }
+  | { success: false; issues: TaskIssue[] };
+
+type FrontmatterDocument = {
+  doc: Document;
+  locate: (offset: number) => Pick<TaskIssue, 'line' | 'column'>;
+};
+
+function readDocument(content: string): FrontmatterDocument | undefined {
+  const match = content.match(FRONTMATTER_REGEX);
+
+  if (!match || match[1] === undefined) {
+    return undefined;
+  }
+
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(match[1], { lineCounter, prettyErrors: false });
+
+  return {
+    doc,
+    locate(offset) {
+      const { line, col } = lineCounter.linePos(offset);
+      // The frontmatter starts on the line after the opening `---`.
+      return { line: line + 1, column: col };
+    },
+  };
+}
+
+function getSyntaxIssues({ doc, locate }: FrontmatterDocument): TaskIssue[] {
+  return doc.errors.map((error) => ({
+    ...locate(error.pos[0]),
+    path: '',
+    message: error.message,
+  }));
+}
+
+export function formatTaskIssue(issue: TaskIssue, source = 'task') {
+  return `${source}:${issue.line}:${issue.column}: ${issue.path ? `${issue.path}: ` : ''}${issue.message}`;
+}
+
+export function readFrontmatterData(content: string): Record<string, unknown> {
+  const parsed = readDocument(content);
+
+  if (!parsed || parsed.doc.errors.length > 0) {
+    return {};
+  }
+
+  const data: unknown = parsed.doc.toJS();
+
+  return typeof data === 'object' && data !== null && !Array.isArray(data)
+    ? (data as Record<string, unknown>)
+    : {};
+}
+
+function formatFrontmatterValue(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+export function parseFrontmatter(content: string): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(readFrontmatterData(content)).map(([key, value]) => [
+      key,
+      formatFrontmatterValue(value),
+    ]),
+  );
+}
+
+export function safeParseTaskFrontmatter(content: string): TaskFrontmatterResult {
+  const parsed = readDocument(content);
+
+  if (!parsed) {
+    return {
+      success: false,
+      issues: [{ line: 1, column: 1, path: '', message: 'Missing frontmatter block (---)' }],
+    };
+  }
+
+  const syntaxIssues = getSyntaxIssues(parsed);
+
+  if (syntaxIssues.length > 0) {
+    return { success: false, issues: syntaxIssues };
+  }
+
+  const result = taskFrontmatterSchema.safeParse(parsed.doc.toJS() ?? {});
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    issues: result.error.issues.map((issue) => {
+      const node = parsed.doc.getIn(issue.path as (string | number)[], true);
+      const position = isNode(node) && node.range ? parsed.locate(node.range[0]) : undefined;
+
+      return {
+        ...(position ?? { line: 1, column: 1 }),
+        path: issue.path.join('.'),
+        message: issue.message,
+      };
+    }),
+  };
+}
+
+export function parseTaskFrontmatter(content: string, source = 'task'): TaskFrontmatter {
+  const result = safeParseTaskFrontmatter(content);
+
+  if (!result.success) {
+    throw new Error(result.issues.map((issue) => formatTaskIssue(issue, source)).join('\n'));
+  }
+
+  return result.data;
+}
+
+export function setFrontmatterFields(
+  content: string,
+  fields: Record<string, FrontmatterValue>,
+): string {
+  const parsed = readDocument(content);
+
+  if (!parsed) {
+    return content;
+  }
+
+  const syntaxIssues = getSyntaxIssues(parsed);
+
+  if (syntaxIssues.length > 0) {
+    throw new Error(syntaxIssues.map((issue) => formatTaskIssue(issue)).join('\n'));
+  }
+
+  for (const [key, value] of Object.entries(fields)) {
+    parsed.doc.set(
+      key,
+      Array.isArray(value) ? parsed.doc.createNode(value, { flow: true }) : value,
+    );
+  }
+
+  const frontmatter = parsed.doc.toString({ lineWidth: 0, flowCollectionPadding: false }).trimEnd();
+  const match = content.match(FRONTMATTER_REGEX);
+
+  return `---\n${frontmatter}\n---${content.slice(match?.[0].length ?? 0)}`;
+}
@@ -0,0 +1,156 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { parseTaskFrontmatter } from './frontmatter';
+import { getTaskFilesInDir, mapWithConcurrency, normalizeTaskRef, resolveTasksDir } from './task';
+
+const TASK_READ_CONCURRENCY = 8;
+
+export type TaskNode = {
+  taskFile: string;
+  status: string;
+  dependsOn: string[];
+  priority?: string | null;
+  created?: string | null;
+};
+
+export type TaskReadiness = TaskNode & {
+  ready: boolean;
+  blockedBy: string[];
+  missing: string[];
+};
+
+export async function getTaskNodes(tasksDir = resolveTasksDir()): Promise<TaskNode[]> {
+  const taskFiles = await getTaskFilesInDir(tasksDir);
+
+  return mapWithConcurrency(taskFiles, TASK_READ_CONCURRENCY, async (taskFile) => {
+    try {
+      const content = await readFile(path.join(tasksDir, taskFile), 'utf-8');
+
+      const frontmatter = parseTaskFrontmatter(content, taskFile);
+
+      return {
+        taskFile,
+        status: frontmatter.status,
+        dependsOn: (frontmatter.dependsOn ?? [])
+          .map(normalizeTaskRef)
+          .filter((dep) => dep !== taskFile),
+        priority: frontmatter.priority ?? null,
+        created: frontmatter.created ?? null,
+      };
+    } catch (err) {
+      console.warn(
+        `Failed to read task file ${taskFile}: ${Error.isError(err) ? err.message : String(err)}`,
+      );
+      return { taskFile, status: 'unknown', dependsOn: [], priority: null, created: null };
+    }
+  });
+}
+
+export function findDependencyCycle(nodes: TaskNode[]): string[] | null {
+  const byFile = new Map(nodes.map((node) => [node.taskFile, node]));
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (taskFile: string): string[] | null => {
+    if (visiting.has(taskFile)) {
+      return [...stack.slice(stack.indexOf(taskFile)), taskFile];
+    }
+
+    if (visited.has(taskFile)) {
+      return null;
+    }
+
+    visiting.add(taskFile);
+    stack.push(taskFile);
+
+    for (const dep of byFile.get(taskFile)?.dependsOn ?? []) {
+      if (!byFile.has(dep)) {
+        continue;
+      }
+
+      const cycle = visit(dep);
+
+      if (cycle) {
+        return cycle;
+      }
+    }
+
+    stack.pop();
+    visiting.delete(taskFile);
+    visited.add(taskFile);
+
+    return null;
+  };
+
+  for (const node of nodes) {
+    const cycle = visit(node.taskFile);
+
+    if (cycle) {
+      return cycle;
+    }
+  }
+
+  return null;
+}
+
+export function sortTasksTopologically(nodes: TaskNode[]): TaskNode[] {
+  const cycle = findDependencyCycle(nodes);
+
+  if (cycle) {
+    throw new Error(`Task dependency cycle detected: ${cycle.join(' -> ')}`);
+  }
+
+  const byFile = new Map(nodes.map((node) => [node.taskFile, node]));
+  const sorted: TaskNode[] = [];
+  const placed = new Set<string>();
+
+  const place = (node: TaskNode) => {
+    if (placed.has(node.taskFile)) {
+      return;
+    }
+
+    placed.add(node.taskFile);
+
+    for (const dep of node.dependsOn) {
+      const depNode = byFile.get(dep);
+
+      if (depNode) {
+        place(depNode);
+      }
+    }
+
+    sorted.push(node);
+  };
+
+  for (const node of nodes) {
+    place(node);
+  }
+
+  return sorted;
+}
+
+export function resolveTaskReadiness(nodes: TaskNode[]): TaskReadiness[] {
+  const statusByFile = new Map(nodes.map((node) => [node.taskFile, node.status]));
+
+  return sortTasksTopologically(nodes).map((node) => {
+    const missing = node.dependsOn.filter((dep) => !statusByFile.has(dep));
+    const blockedBy = node.dependsOn.filter(
+      (dep) => statusByFile.has(dep) && statusByFile.get(dep) !== 'completed',
+    );
+
+    return {
+      ...node,
+      ready: node.status === 'pending' && blockedBy.length === 0 && missing.length === 0,
+      blockedBy,
+      missing,
+    };
+  });
+}
+
+export function formatBlockedReason(task: Pick<TaskReadiness, 'blockedBy' | 'missing'>): string {
+  const reasons = [...task.blockedBy, ...task.missing.map((dep) => `${dep} (missing)`)];
+
+  return `blocked by ${reasons.join(', ')}`;
+}
@@ -1,14 +1,65 @@
 export {
+  DEFAULT_COMMIT_TEMPLATE,
+  formatCommitMessage,
+  getCommitTrailers,
+  inferCommitType,
+} from './commit';
+export type { CommitMessageOptions } from './commit';
+export { formatUncheckedCriteria, getUncheckedCriteria, parseAcceptanceCriteria } from './criteria';
+export type { AcceptanceCriterion } from './criteria';
+export {
+  findDependencyCycle,
+  formatBlockedReason,
+  getTaskNodes,
+  resolveTaskReadiness,
+  sortTasksTopologically,
+} from './graph';
+export type { TaskNode, TaskReadiness } from './graph';
+export {
+  FRONTMATTER_REGEX,
+  TASK_COMPLEXITIES,
+  TASK_STATUSES,
+  formatTaskIssue,
+  parseFrontmatter,
+  parseTaskFrontmatter,
+  readFrontmatterData,
+  safeParseTaskFrontmatter,
+  setFrontmatterFields,
+  taskFrontmatterSchema,
+} from './frontmatter';
+export type {
+  FrontmatterValue,
+  TaskFrontmatter,
+  TaskFrontmatterResult,
+  TaskIssue,
+  TaskStatus,
+} from './frontmatter';
+export { formatTaskSource, getImportedSources, parseTaskSource, recordTaskSource } from './source';
+export type { TaskSourceKind } from './source';
+export {
+  TASK_PRIORITIES,
+  compareCreated,
+  getPriorityRank,
+  rankReadyTasks,
+  selectNextTask,
+} from './selection';
+export {
+  appendReviewNote,
   getTaskFilesByLabel,
   getTaskFilesInDir,
   getTaskFilesInTasksDir,
   getTaskStates,
   getTaskStatus,
   mapWithConcurrency,
+  normalizeTaskRef,
+  parseComplexity,
+  parseDependsOn,
   parseDescription,
-  parseFrontmatter,
+  parseLabels,
   parseTitle,
+  rejectTask,
   resolveTasksDir,
+  updateTaskFrontmatter,
 } from './task';
 export type { TaskState } from './task';
 export type { CompletedTask } from './types';
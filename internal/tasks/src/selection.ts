@@ -0,0 +1,61 @@
+import type { TaskReadiness } from './graph';
+
+export const TASK_PRIORITIES = ['high', 'medium', 'low'] as const;
+
+const DEFAULT_PRIORITY = 'medium';
+
+export function getPriorityRank(priority: string | null | undefined): number {
+  const normalized = (priority ?? DEFAULT_PRIORITY).trim().toLowerCase();
+  const rank = TASK_PRIORITIES.indexOf(normalized as (typeof TASK_PRIORITIES)[number]);
+
+  return rank === -1 ? TASK_PRIORITIES.indexOf(DEFAULT_PRIORITY) : rank;
+}
+
+function normalizeCreated(created: string | null | undefined): string | null {
+  if (!created || created === 'null') {
+    return null;
+  }
+
+  return created;
+}
+
+export function compareCreated(a: string | null | undefined, b: string | null | undefined): number {
+  const left = normalizeCreated(a);
+  const right = normalizeCreated(b);
+
+  if (left === right) {
+    return 0;
+  }
+
+  if (left === null) {
+    return 1;
+  }
+
+  if (right === null) {
+    return -1;
+  }
+
+  return left.localeCompare(right);
+}
+
+export function rankReadyTasks(readiness: TaskReadiness[], candidates?: string[]): TaskReadiness[] {
+  const ready = readiness
+    .map((task, order) => ({ task, order }))
+    .filter(({ task }) => task.ready && (!candidates || candidates.includes(task.taskFile)));
+
+  ready.sort(
+    (a, b) =>
+      getPriorityRank(a.task.priority) - getPriorityRank(b.task.priority) ||
+      compareCreated(a.task.created, b.task.created) ||
+      a.order - b.order,
+  );
+
+  return ready.map(({ task }) => task);
+}
+
+export function selectNextTask(
+  readiness: TaskReadiness[],
+  candidates?: string[],
+): TaskReadiness | undefined {
+  return rankReadyTasks(readiness, candidates)[0];
+}
@@ -0,0 +1,50 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { readFrontmatterData } from './frontmatter';
+import { getTaskFilesInDir, mapWithConcurrency, updateTaskFrontmatter } from './task';
+
+export type TaskSourceKind = 'jira' | 'github' | 'linear' | 'gitlab';
+
+const SOURCE_READ_CONCURRENCY = 8;
+
+// GitHub and GitLab paths are case-insensitive, so their references are
+// lowercased to keep `Acme/API#1` and `acme/api#1` from importing twice.
+export function formatTaskSource(kind: TaskSourceKind, key: string) {
+  return `${kind}:${kind === 'github' || kind === 'gitlab' ? key.toLowerCase() : key}`;
+}
+
+export function parseTaskSource(source: string): { kind: TaskSourceKind; key: string } | null {
+  const match = source.match(/^(jira|github|linear|gitlab):(.+)$/);
+
+  return match ? { kind: match[1] as TaskSourceKind, key: match[2] as string } : null;
+}
+
+export async function getImportedSources(tasksDir: string): Promise<Map<string, string>> {
+  const taskFiles = await getTaskFilesInDir(tasksDir);
+  const sources = await mapWithConcurrency(taskFiles, SOURCE_READ_CONCURRENCY, async (taskFile) => {
+    const content = await readFile(path.join(tasksDir, taskFile), 'utf-8').catch(() => '');
+    const source = readFrontmatterData(content).source;
+
+    return typeof source === 'string' && source !== '' ? ([source, taskFile] as const) : null;
+  });
+
+  return new Map(sources.filter((entry) => entry !== null));
+}
+
+// The import agent chooses the task's filename, so the source is recorded on
+// whichever task files appeared while it ran.
+export async function recordTaskSource(
+  tasksDir: string,
+  before: string[],
+  source: string,
+): Promise<string[]> {
+  const existing = new Set(before);
+  const created = (await getTaskFilesInDir(tasksDir)).filter((file) => !existing.has(file));
+
+  for (const taskFile of created) {
+    await updateTaskFrontmatter(path.join(tasksDir, taskFile), { source });
+  }
+
+  return created;
+}
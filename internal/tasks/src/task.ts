@@ -1,9 +1,19 @@
-import { access, readdir, readFile } from 'node:fs/promises';
+import { access, readdir, readFile, writeFile } from 'node:fs/promises';
 import path from 'node:path';
 
 import { BASE_DIR, Config, TASKS_DIR } from '@internal/config';
 
+import {
+  parseTaskFrontmatter,
+  readFrontmatterData,
+  setFrontmatterFields,
+  taskFrontmatterSchema,
+  type FrontmatterValue,
+} from './frontmatter';
+
 const LABELS_REGEX = /\*\*Labels\*\*:\s*(.+)/i;
+const COMPLEXITY_REGEX = /\*\*Complexity\*\*:\s*(.+)/i;
+const REVIEW_NOTES_REGEX = /^## Review Notes[ \t]*$/m;
 const TASK_READ_CONCURRENCY = 8;
 
 export type TaskState = {
@@ -34,19 +44,46 @@ export function resolveTasksDir(tasksDir?: string) {
   return path.join(BASE_DIR, tasksDir ?? Config.get('tasksDir') ?? TASKS_DIR);
 }
 
-export function parseFrontmatter(content: string): Record<string, string> {
-  const match = content.match(/^---\n([\s\S]*?)\n---/);
-  if (!match || !match[1]) return {};
+function stripQuotes(value: string): string {
+  return value.replace(/^(['"])(.*)\1$/, '$2');
+}
+
+export function normalizeTaskRef(ref: string): string {
+  const filename = path.basename(stripQuotes(ref.trim()));
+  return filename.endsWith('.code-task.md') ? filename : `${filename}.code-task.md`;
+}
+
+export function parseDependsOn(content: string): string[] {
+  const result = taskFrontmatterSchema.shape.dependsOn.safeParse(
+    readFrontmatterData(content).dependsOn,
+  );
+
+  return result.success ? (result.data ?? []).map(normalizeTaskRef) : [];
+}
+
+export function parseLabels(content: string): string[] {
+  const result = taskFrontmatterSchema.shape.labels.safeParse(readFrontmatterData(content).labels);
 
-  const fields: Record<string, string> = {};
-  for (const line of match[1].split('\n')) {
-    const sep = line.indexOf(':');
-    if (sep === -1) continue;
-    const key = line.slice(0, sep).trim();
-    const value = line.slice(sep + 1).trim();
-    fields[key] = value;
+  if (result.success && result.data) {
+    return result.data;
   }
-  return fields;
+
+  const labelsMatch = content.match(LABELS_REGEX);
+
+  return (labelsMatch?.[1] ?? '')
+    .split(',')
+    .map((label) => label.trim())
+    .filter((label) => label !== '');
+}
+
+export function parseComplexity(content: string): string | null {
+  const complexity = readFrontmatterData(content).complexity;
+
+  if (typeof complexity === 'string' && complexity.trim() !== '') {
+    return complexity.trim();
+  }
+
+  return content.match(COMPLEXITY_REGEX)?.[1]?.trim() ?? null;
 }
 
 export function parseTitle(content: string): string {
@@ -102,15 +139,9 @@ export async function getTaskFilesByLabel(
           const filePath = path.join(tasksDir, filename);
           const content = await readFile(filePath, 'utf-8');
 
-          const labelsMatch = content.match(LABELS_REGEX);
-
-          if (!labelsMatch?.[1]) {
-            return false;
-          }
-
-          const labels = labelsMatch[1].split(',').map((value) => value.trim().toLowerCase());
-
-          return labels.includes(label.toLowerCase());
+          return parseLabels(content)
+            .map((value) => value.toLowerCase())
+            .includes(label.toLowerCase());
         } catch (err) {
           console.warn(`Failed to read task file ${filename}: ${String(err)}`);
           return false;
@@ -164,14 +195,50 @@ export async function getTaskFilesInDir(tasksDir: string): Promise<string[]> {
 export async function getTaskStatus(taskFilePath: string): Promise<string | null> {
   try {
     const content = await readFile(taskFilePath, 'utf-8');
-    const frontmatter = parseFrontmatter(content);
-    return frontmatter.status ?? null;
+    return parseTaskFrontmatter(content, taskFilePath).status;
   } catch (err) {
-    console.error(`Failed to read task file ${taskFilePath}: ${String(err)}`);
+    console.error(
+      `Failed to read task file ${taskFilePath}: ${Error.isError(err) ? err.message : String(err)}`,
+    );
     return null;
   }
 }
 
+export async function updateTaskFrontmatter(
+  taskFilePath: string,
+  fields: Record<string, FrontmatterValue>,
+): Promise<void> {
+  const content = await readFile(taskFilePath, 'utf-8');
+  await writeFile(taskFilePath, setFrontmatterFields(content, fields));
+}
+
+export function appendReviewNote(content: string, note: string, date: string): string {
+  const entry = `- ${date}: ${note.replace(/\s*\n\s*/g, ' ').trim()}`;
+  const heading = REVIEW_NOTES_REGEX.exec(content);
+
+  if (!heading) {
+    return `${content.trimEnd()}\n\n## Review Notes\n\n${entry}\n`;
+  }
+
+  const start = heading.index + heading[0].length;
+  const next = content.slice(start).search(/^## /m);
+  const end = next === -1 ? content.length : start + next;
+  const rest = next === -1 ? '' : `\n${content.slice(end)}`;
+
+  return `${content.slice(0, start)}${content.slice(start, end).trimEnd()}\n${entry}\n${rest}`;
+}
+
+export async function rejectTask(taskFilePath: string, note: string, date: string): Promise<void> {
+  const content = await readFile(taskFilePath, 'utf-8');
+  const reset = setFrontmatterFields(content, {
+    status: 'pending',
+    started: null,
+    completed: null,
+  });
+
+  await writeFile(taskFilePath, appendReviewNote(reset, note, date));
+}
+
 export async function getTaskStates(
   taskFiles?: string[],
   tasksDir = resolveTasksDir(),
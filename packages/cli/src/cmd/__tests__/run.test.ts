@@ -0,0 +1,37 @@
+import { describe, expect, test } from 'bun:test';
+
+import { findUnexpectedCompletions } from '../run';
+
+describe('findUnexpectedCompletions', () => {
+  test('ignores the selected task and tasks that were already completed', () => {
+    const before = [
+      { taskFile: 'a.code-task.md', status: 'pending' },
+      { taskFile: 'b.code-task.md', status: 'completed' },
+      { taskFile: 'c.code-task.md', status: 'pending' },
+    ];
+    const after = [
+      { taskFile: 'a.code-task.md', status: 'completed' },
+      { taskFile: 'b.code-task.md', status: 'completed' },
+      { taskFile: 'c.code-task.md', status: 'pending' },
+    ];
+
+    expect(findUnexpectedCompletions(before, after, 'a.code-task.md')).toEqual([]);
+  });
+
+  test('reports other tasks the agent moved to completed', () => {
+    const before = [
+      { taskFile: 'a.code-task.md', status: 'pending' },
+      { taskFile: 'c.code-task.md', status: 'in_progress' },
+    ];
+    const after = [
+      { taskFile: 'a.code-task.md', status: 'completed' },
+      { taskFile: 'c.code-task.md', status: 'completed' },
+      { taskFile: 'new.code-task.md', status: 'completed' },
+    ];
+
+    expect(findUnexpectedCompletions(before, after, 'a.code-task.md')).toEqual([
+      { taskFile: 'c.code-task.md', status: 'completed' },
+      { taskFile: 'new.code-task.md', status: 'completed' },
+    ]);
+  });
+});
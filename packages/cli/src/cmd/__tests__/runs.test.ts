@@ -0,0 +1,74 @@
+import { describe, expect, test } from 'bun:test';
+
+import type { IterationRecord, RunRecord } from '@internal/runs';
+
+import { formatDuration, formatIteration, formatRunSummary } from '../runs/format';
+
+const iteration: IterationRecord = {
+  iteration: 2,
+  attempt: 1,
+  taskFile: 'add-login.code-task.md',
+  taskTitle: 'Add login',
+  startedAt: '2026-01-01T10:00:00.000Z',
+  finishedAt: '2026-01-01T10:01:05.000Z',
+  durationMs: 65_000,
+  exitCode: 0,
+  markerDetection: { hasStrictMatch: false, hasAmbiguousMention: true },
+  outcome: 'failed',
+  error: 'Marker ambiguity',
+  validators: [{ command: 'bun test', exitCode: 1, durationMs: 2_000, outputTail: '1 fail' }],
+  usage: {
+    inputTokens: 1_200,
+    outputTokens: 450,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 800,
+    costUsd: 0.125,
+  },
+  backend: 'codex',
+  stdoutLog: 'iteration-2-attempt-1.stdout.log',
+  stderrLog: 'iteration-2-attempt-1.stderr.log',
+};
+
+describe('runs format', () => {
+  test('formats durations in seconds and minutes', () => {
+    expect(formatDuration(1_250)).toBe('1.3s');
+    expect(formatDuration(65_000)).toBe('1m 5s');
+    expect(formatDuration(119_600)).toBe('2m 0s');
+  });
+
+  test('summarizes a run on one line', () => {
+    const run: RunRecord = {
+      id: '2026-01-01T10-00-00-000Z',
+      source: 'cli',
+      status: 'running',
+      pid: 1234,
+      resumedFrom: null,
+      iterationOffset: 0,
+      startedAt: '2026-01-01T10:00:00.000Z',
+      finishedAt: null,
+      args: {},
+      backend: 'claude',
+      model: null,
+      config: {},
+      iterations: [iteration],
+      usage: iteration.usage!,
+      error: null,
+    };
+
+    expect(formatRunSummary(run)).toBe(
+      '2026-01-01T10-00-00-000Z  running  cli  1 iteration  unfinished  $0.13',
+    );
+  });
+
+  test('includes marker detection, validators and errors for an iteration', () => {
+    expect(formatIteration(iteration)).toBe(
+      [
+        '#2.1 Add login (add-login.code-task.md)',
+        '  failed on codex, exit 0, marker: ambiguous, 1m 5s',
+        '  failed: bun test (exit 1, 2.0s)',
+        '  usage: 2,000 input / 450 output tokens, $0.13',
+        '  error: Marker ambiguity',
+      ].join('\n'),
+    );
+  });
+});
@@ -1,7 +1,24 @@
 import { intro, isCancel, log, outro, password } from '@clack/prompts';
 import { Auth } from '@internal/auth';
+import { Config } from '@internal/config';
+import { GitHub } from '@internal/integrations';
 import { defineCommand } from 'citty';
 
+// Credentials default to the host configured in github.baseUrl, else github.com.
+async function resolveAuthHost(host?: string) {
+  if (host) {
+    return GitHub.resolveHost({ baseUrl: host.includes('://') ? host : `https://${host}` })
+      .hostname;
+  }
+
+  try {
+    await Config.load();
+    return GitHub.resolveHost(Config.get('github')).hostname;
+  } catch {
+    return GitHub.resolveHost().hostname;
+  }
+}
+
 export const githubAuthCmd = defineCommand({
   meta: {
     name: 'github',
@@ -13,11 +30,16 @@ export const githubAuthCmd = defineCommand({
       default: 'default',
       description: 'Named profile for storing credentials',
     },
+    host: {
+      type: 'string',
+      description: 'GitHub Enterprise Server hostname (defaults to github.baseUrl or github.com)',
+    },
   },
   async run({ args }) {
     const profile = args.profile;
+    const host = await resolveAuthHost(args.host);
 
-    intro(`Configuring GitHub credentials for profile: ${profile}`);
+    intro(`Configuring GitHub credentials for profile: ${profile} (${host})`);
 
     const token = await password({
       message: 'Enter your GitHub personal access token',
@@ -34,13 +56,13 @@ export const githubAuthCmd = defineCommand({
     }
 
     try {
-      await Auth.setGitHub(profile, { token });
+      await Auth.setGitHub(profile, { token }, host);
     } catch (err) {
       log.error(`Failed to save credentials: ${String(err)}`);
       return;
     }
 
-    log.success(`Credentials saved under profile "${profile}"`);
+    log.success(`Credentials saved under profile "${profile}" for ${host}`);
     outro('GitHub authentication configured successfully.');
   },
 });
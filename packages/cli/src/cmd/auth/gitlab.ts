@@ -0,0 +1,46 @@
+import { intro, isCancel, log, outro, password } from '@clack/prompts';
+import { Auth } from '@internal/auth';
+import { defineCommand } from 'citty';
+
+export const gitlabAuthCmd = defineCommand({
+  meta: {
+    name: 'gitlab',
+    description: 'Configure GitLab authentication credentials',
+  },
+  args: {
+    profile: {
+      type: 'string',
+      default: 'default',
+      description: 'Named profile for storing credentials',
+    },
+  },
+  async run({ args }) {
+    const profile = args.profile;
+
+    intro(`Configuring GitLab credentials for profile: ${profile}`);
+
+    const token = await password({
+      message: 'Enter your GitLab personal access token',
+      validate(value) {
+        if (!value || value.trim().length === 0) {
+          return 'Access token is required';
+        }
+      },
+    });
+
+    if (isCancel(token)) {
+      outro('Authentication cancelled.');
+      return;
+    }
+
+    try {
+      await Auth.setGitLab(profile, { token });
+    } catch (err) {
+      log.error(`Failed to save credentials: ${String(err)}`);
+      return;
+    }
+
+    log.success(`Credentials saved under profile "${profile}"`);
+    outro('GitLab authentication configured successfully.');
+  },
+});
@@ -8,6 +8,8 @@ export const authCmd = defineCommand({
   subCommands: {
     jira: () => import('./jira').then((m) => m.jiraAuthCmd),
     github: () => import('./github').then((m) => m.githubAuthCmd),
+    linear: () => import('./linear').then((m) => m.linearAuthCmd),
+    gitlab: () => import('./gitlab').then((m) => m.gitlabAuthCmd),
     list: () => import('./list').then((m) => m.listAuthCmd),
   },
 });
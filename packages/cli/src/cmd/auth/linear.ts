@@ -0,0 +1,46 @@
+import { intro, isCancel, log, outro, password } from '@clack/prompts';
+import { Auth } from '@internal/auth';
+import { defineCommand } from 'citty';
+
+export const linearAuthCmd = defineCommand({
+  meta: {
+    name: 'linear',
+    description: 'Configure Linear authentication credentials',
+  },
+  args: {
+    profile: {
+      type: 'string',
+      default: 'default',
+      description: 'Named profile for storing credentials',
+    },
+  },
+  async run({ args }) {
+    const profile = args.profile;
+
+    intro(`Configuring Linear credentials for profile: ${profile}`);
+
+    const apiKey = await password({
+      message: 'Enter your Linear personal API key',
+      validate(value) {
+        if (!value || value.trim().length === 0) {
+          return 'API key is required';
+        }
+      },
+    });
+
+    if (isCancel(apiKey)) {
+      outro('Authentication cancelled.');
+      return;
+    }
+
+    try {
+      await Auth.setLinear(profile, { apiKey });
+    } catch (err) {
+      log.error(`Failed to save credentials: ${String(err)}`);
+      return;
+    }
+
+    log.success(`Credentials saved under profile "${profile}"`);
+    outro('Linear authentication configured successfully.');
+  },
+});
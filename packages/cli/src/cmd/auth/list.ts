@@ -1,6 +1,7 @@
 import { intro, log, outro } from '@clack/prompts';
 import { Auth } from '@internal/auth';
 import { Config } from '@internal/config';
+import { GitHub } from '@internal/integrations';
 import { defineCommand } from 'citty';
 
 function maskToken(token: string): string {
@@ -22,7 +23,9 @@ export const listAuthCmd = defineCommand({
     const store = await Auth.load();
 
     let jiraConfig: { baseUrl?: string; profile?: string } | undefined;
-    let githubConfig: { profile?: string } | undefined;
+    let githubConfig: { baseUrl?: string; apiUrl?: string; profile?: string } | undefined;
+    let linearConfig: { profile?: string } | undefined;
+    let gitlabConfig: { baseUrl?: string; profile?: string } | undefined;
 
     try {
       await Config.load();
@@ -37,18 +40,28 @@ export const listAuthCmd = defineCommand({
       if (github) {
         githubConfig = github;
       }
+
+      linearConfig = Config.get('linear');
+      gitlabConfig = Config.get('gitlab');
     } catch {
       // Config may not exist; auth is a skippable command
     }
 
     const jiraProfiles = store.jira;
-    const githubProfiles = store.github;
+    const githubHosts = Object.entries({
+      'github.com': store.github ?? {},
+      ...store.githubHosts,
+    }).filter(([, profiles]) => Object.keys(profiles).length > 0);
     const hasJira = jiraProfiles && Object.keys(jiraProfiles).length > 0;
-    const hasGitHub = githubProfiles && Object.keys(githubProfiles).length > 0;
+    const hasGitHub = githubHosts.length > 0;
+    const linearProfiles = store.linear;
+    const gitlabProfiles = store.gitlab;
+    const hasLinear = linearProfiles && Object.keys(linearProfiles).length > 0;
+    const hasGitLab = gitlabProfiles && Object.keys(gitlabProfiles).length > 0;
 
-    if (!hasJira && !hasGitHub) {
+    if (!hasJira && !hasGitHub && !hasLinear && !hasGitLab) {
       log.warn(
-        'No credentials configured. Run `ody auth jira` or `ody auth github` to set up authentication.',
+        'No credentials configured. Run `ody auth jira`, `ody auth github`, `ody auth linear` or `ody auth gitlab` to set up authentication.',
       );
       outro('Done');
       return;
@@ -78,10 +91,52 @@ export const listAuthCmd = defineCommand({
 
     if (hasGitHub) {
       const activeProfile = githubConfig?.profile ?? 'default';
+      const activeHost = GitHub.resolveHost(githubConfig);
 
       log.info('GitHub');
 
-      for (const [profileName, credentials] of Object.entries(githubProfiles)) {
+      for (const [host, profiles] of githubHosts) {
+        for (const [profileName, credentials] of Object.entries(profiles)) {
+          const isActive = host === activeHost.hostname && profileName === activeProfile;
+          const activeLabel = isActive ? ' (active)' : '';
+          const masked = maskToken(credentials.token);
+
+          let message = `  Profile: ${profileName}${activeLabel}\n`;
+          message += `  Host:    ${host}\n`;
+          message += `  Token:   ${masked}`;
+
+          if (isActive && host !== 'github.com') {
+            message += `\n  API URL: ${activeHost.apiUrl}`;
+          }
+
+          log.message(message);
+        }
+      }
+    }
+
+    if (hasLinear) {
+      const activeProfile = linearConfig?.profile ?? 'default';
+
+      log.info('Linear');
+
+      for (const [profileName, credentials] of Object.entries(linearProfiles)) {
+        const isActive = profileName === activeProfile;
+        const activeLabel = isActive ? ' (active)' : '';
+        const masked = maskToken(credentials.apiKey);
+
+        let message = `  Profile: ${profileName}${activeLabel}\n`;
+        message += `  API key: ${masked}`;
+
+        log.message(message);
+      }
+    }
+
+    if (hasGitLab) {
+      const activeProfile = gitlabConfig?.profile ?? 'default';
+
+      log.info('GitLab');
+
+      for (const [profileName, credentials] of Object.entries(gitlabProfiles)) {
         const isActive = profileName === activeProfile;
         const activeLabel = isActive ? ' (active)' : '';
         const masked = maskToken(credentials.token);
@@ -89,6 +144,10 @@ export const listAuthCmd = defineCommand({
         let message = `  Profile: ${profileName}${activeLabel}\n`;
         message += `  Token:   ${masked}`;
 
+        if (isActive && gitlabConfig?.baseUrl) {
+          message += `\n  BaseURL: ${gitlabConfig.baseUrl}`;
+        }
+
         log.message(message);
       }
     }
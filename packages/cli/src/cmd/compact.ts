@@ -6,10 +6,11 @@ import { BASE_DIR } from '@internal/config';
 import {
   getTaskFilesInTasksDir,
   parseDescription,
-  parseFrontmatter,
+  parseTaskFrontmatter,
   parseTitle,
   resolveTasksDir,
   type CompletedTask,
+  type TaskFrontmatter,
 } from '@internal/tasks';
 import { defineCommand } from 'citty';
 
@@ -31,13 +32,16 @@ export const compactCmd = defineCommand({
 
       for (const filename of taskFiles) {
         const content = await Bun.file(path.join(tasksDir, filename)).text();
-        const frontmatter = parseFrontmatter(content);
+        let frontmatter: TaskFrontmatter;
 
-        if (
-          frontmatter.status === 'completed' &&
-          frontmatter.completed &&
-          frontmatter.completed !== 'null'
-        ) {
+        try {
+          frontmatter = parseTaskFrontmatter(content, filename);
+        } catch (err) {
+          log.warn(Error.isError(err) ? err.message : String(err));
+          continue;
+        }
+
+        if (frontmatter.status === 'completed' && frontmatter.completed) {
           const title = parseTitle(content);
           const description = parseDescription(content);
           completed.push({
@@ -13,14 +13,7 @@ import {
   select,
 } from '@clack/prompts';
 import { getAvailableBackends } from '@internal/backends';
-import {
-  BASE_DIR,
-  DOCS_WEBSITE_URL,
-  ODY_FILE,
-  backendsSchema,
-  Config,
-  type OdyConfig,
-} from '@internal/config';
+import { BASE_DIR, DOCS_WEBSITE_URL, ODY_FILE, Config, type OdyConfig } from '@internal/config';
 import { defineCommand } from 'citty';
 
 import { getRandomValidatorPlaceholder } from '../util/inputPrompt';
@@ -90,7 +83,7 @@ export const initCmd = defineCommand({
       alias: 'c',
       required: false,
       default: false,
-      description: 'If the agent should create commits after each task completion',
+      description: 'If ody should commit each task once its validators pass',
       type: 'boolean',
     },
     agent: {
@@ -152,7 +145,7 @@ export const initCmd = defineCommand({
       }
 
       const configInput: OdyConfig = {
-        backend: backendsSchema.parse(backend),
+        backend,
         maxIterations: parseInt(args.maxIterations, 10),
         autoCommit: args.autoCommit,
       };
@@ -45,8 +45,8 @@ export const planCmd = defineCommand({
   },
   async run({ args }) {
     const config = Config.all();
-    const backend = new Backend(config.backend, config);
-    const model = Config.resolveModel('plan', config);
+    const { name: backendName, model } = Config.primaryBackend('plan', config);
+    const backend = new Backend(backendName, config);
     const tasksDirPath = path.join(BASE_DIR, config.tasksDir ?? TASKS_DIR);
     const spin = spinner();
 
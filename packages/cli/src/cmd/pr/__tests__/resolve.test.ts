@@ -1,7 +1,7 @@
 import { afterEach, describe, expect, test } from 'bun:test';
 
 import { buildResolvePrompt } from '@internal/builders';
-import type { GitHubPullRequest } from '@internal/integrations';
+import { GitHub, type GitHubPullRequest } from '@internal/integrations';
 
 import type { ResolvableComment } from '../resolve';
 import { parseGitHubCommentUrl, parseGitHubRemoteUrl, runResolve } from '../resolve';
@@ -240,6 +240,17 @@ describe('parseGitHubCommentUrl', () => {
       'A valid GitHub pull request comment URL is required.',
     );
   });
+
+  test('accepts comment URLs on the configured GitHub Enterprise Server host', () => {
+    const host = GitHub.resolveHost({ baseUrl: 'https://github.acme.dev' });
+
+    expect(
+      parseGitHubCommentUrl('https://github.acme.dev/acme/ody/pull/123#discussion_r789', host),
+    ).toMatchObject({ owner: 'acme', commentId: 789, kind: 'review_comment' });
+    expect(() =>
+      parseGitHubCommentUrl('https://github.com/acme/ody/pull/123#discussion_r789', host),
+    ).toThrow('A valid GitHub pull request comment URL is required.');
+  });
 });
 
 describe('parseGitHubRemoteUrl', () => {
@@ -1,6 +1,7 @@
 import { afterEach, describe, expect, test } from 'bun:test';
 
 import { buildReviewPrompt } from '@internal/builders';
+import { GitHub } from '@internal/integrations';
 
 import { isGitHubPullRequestUrl, runReview } from '../review';
 
@@ -87,6 +88,14 @@ describe('isGitHubPullRequestUrl', () => {
   test('rejects malformed GitHub pull request URLs', () => {
     expect(isGitHubPullRequestUrl('not-a-url')).toBe(false);
   });
+
+  test('accepts pull request URLs on the configured GitHub Enterprise Server host only', () => {
+    const host = GitHub.resolveHost({ baseUrl: 'https://github.acme.dev' });
+
+    expect(isGitHubPullRequestUrl('https://github.acme.dev/acme/ody/pull/123', host)).toBe(true);
+    expect(isGitHubPullRequestUrl('https://github.com/acme/ody/pull/123', host)).toBe(false);
+    expect(isGitHubPullRequestUrl('https://github.acme.dev/acme/ody/pull/123')).toBe(false);
+  });
 });
 
 describe('runReview', () => {
@@ -6,7 +6,7 @@ import { Auth } from '@internal/auth';
 import { Backend } from '@internal/backends';
 import { buildResolvePrompt } from '@internal/builders';
 import { Config } from '@internal/config';
-import { GitHub } from '@internal/integrations';
+import { GitHub, type GitHubHost } from '@internal/integrations';
 import { defineCommand } from 'citty';
 
 import { Stream } from '../../util/stream';
@@ -68,7 +68,7 @@ type ResolveDeps = {
   exit: (code: number) => never;
   getConfig: () => ResolveConfig;
   getCurrentBranch: () => Promise<string>;
-  getGitHubToken: (profile?: string) => Promise<string | undefined>;
+  getGitHubToken: (profile?: string, host?: string) => Promise<string | undefined>;
   getOriginRemoteUrl: () => Promise<string>;
   gitHub: {
     fetchIssueComment: typeof GitHub.fetchIssueComment;
@@ -152,8 +152,8 @@ async function getOriginRemoteUrl() {
   return stdout.trim();
 }
 
-async function getGitHubToken(profile?: string) {
-  const credentials = await Auth.getGitHub(profile);
+async function getGitHubToken(profile?: string, host?: string) {
+  const credentials = await Auth.getGitHub(profile, host);
   return credentials?.token;
 }
 
@@ -195,7 +195,10 @@ function formatCommentOptionLabel(comment: ResolvableComment) {
   return `${comment.author} (${typeLabel}${location})`;
 }
 
-export function parseGitHubCommentUrl(value: string): ParsedGitHubCommentUrl {
+export function parseGitHubCommentUrl(
+  value: string,
+  host: GitHubHost = GitHub.resolveHost(),
+): ParsedGitHubCommentUrl {
   let url: URL;
 
   try {
@@ -204,13 +207,12 @@ export function parseGitHubCommentUrl(value: string): ParsedGitHubCommentUrl {
     throw new Error(RESOLVE_URL_ERROR_MESSAGE);
   }
 
-  const hostname = url.hostname.toLowerCase();
   const parts = url.pathname.split('/').filter(Boolean);
   const hash = url.hash.replace(/^#/, '');
 
   if (
     (url.protocol !== 'https:' && url.protocol !== 'http:') ||
-    (hostname !== 'github.com' && hostname !== 'www.github.com') ||
+    !GitHub.matchesHost(url.hostname, host) ||
     parts.length < 4 ||
     parts[2] !== 'pull' ||
     !/^[1-9]\d*$/.test(parts[3] ?? '')
@@ -245,26 +247,8 @@ export function parseGitHubCommentUrl(value: string): ParsedGitHubCommentUrl {
   throw new Error(RESOLVE_URL_ERROR_MESSAGE);
 }
 
-export function parseGitHubRemoteUrl(remoteUrl: string) {
-  const trimmed = remoteUrl.trim();
-  const patterns = [
-    /^git@github\.com:([^/]+)\/([^/]+?)(?:\.git)?$/,
-    /^https?:\/\/github\.com\/([^/]+)\/([^/]+?)(?:\.git)?\/?$/,
-    /^ssh:\/\/git@github\.com\/([^/]+)\/([^/]+?)(?:\.git)?$/,
-  ];
-
-  for (const pattern of patterns) {
-    const match = trimmed.match(pattern);
-
-    if (match) {
-      return {
-        owner: match[1] as string,
-        repo: match[2] as string,
-      };
-    }
-  }
-
-  throw new Error(`Unsupported GitHub remote URL: ${remoteUrl}`);
+export function parseGitHubRemoteUrl(remoteUrl: string, host?: GitHubHost) {
+  return GitHub.parseRemoteUrl(remoteUrl, host);
 }
 
 function toResolvableComment(
@@ -301,15 +285,28 @@ function toResolvableComment(
 async function resolveCommentFromUrl(
   parsed: ParsedGitHubCommentUrl,
   deps: ResolveDeps,
+  host: GitHubHost,
   token?: string,
 ) {
   const comment =
     parsed.kind === 'review_comment'
       ? toResolvableComment(
-          await deps.gitHub.fetchReviewComment(parsed.owner, parsed.repo, parsed.commentId, token),
+          await deps.gitHub.fetchReviewComment(
+            parsed.owner,
+            parsed.repo,
+            parsed.commentId,
+            token,
+            host.apiUrl,
+          ),
         )
       : toResolvableComment(
-          await deps.gitHub.fetchIssueComment(parsed.owner, parsed.repo, parsed.commentId, token),
+          await deps.gitHub.fetchIssueComment(
+            parsed.owner,
+            parsed.repo,
+            parsed.commentId,
+            token,
+            host.apiUrl,
+          ),
         );
 
   if (comment.pullRequestNumber !== parsed.pullRequestNumber) {
@@ -321,6 +318,7 @@ async function resolveCommentFromUrl(
     parsed.repo,
     parsed.pullRequestNumber,
     token,
+    host.apiUrl,
   );
 
   return {
@@ -331,19 +329,20 @@ async function resolveCommentFromUrl(
   } satisfies ResolvedTarget;
 }
 
-async function discoverCommentFromBranch(deps: ResolveDeps, token?: string) {
+async function discoverCommentFromBranch(deps: ResolveDeps, host: GitHubHost, token?: string) {
   const branch = await deps.getCurrentBranch();
 
   if (!branch) {
     throw new Error('Unable to determine the current git branch.');
   }
 
-  const remote = parseGitHubRemoteUrl(await deps.getOriginRemoteUrl());
+  const remote = parseGitHubRemoteUrl(await deps.getOriginRemoteUrl(), host);
   const pullRequest = await deps.gitHub.findOpenPullRequestByBranch(
     remote.owner,
     remote.repo,
     branch,
     token,
+    host.apiUrl,
   );
 
   if (!pullRequest) {
@@ -351,12 +350,19 @@ async function discoverCommentFromBranch(deps: ResolveDeps, token?: string) {
   }
 
   const [issueComments, reviewComments] = await Promise.all([
-    deps.gitHub.fetchPullRequestIssueComments(remote.owner, remote.repo, pullRequest.number, token),
+    deps.gitHub.fetchPullRequestIssueComments(
+      remote.owner,
+      remote.repo,
+      pullRequest.number,
+      token,
+      host.apiUrl,
+    ),
     deps.gitHub.fetchPullRequestReviewComments(
       remote.owner,
       remote.repo,
       pullRequest.number,
       token,
+      host.apiUrl,
     ),
   ]);
 
@@ -383,7 +389,7 @@ async function discoverCommentFromBranch(deps: ResolveDeps, token?: string) {
 }
 
 function resolveRunModel(config: ResolveConfig) {
-  return Config.resolveModel('run', config);
+  return Config.primaryBackend('run', config).model;
 }
 
 export async function runResolve(
@@ -414,15 +420,16 @@ export async function runResolve(
   },
 ) {
   const config = deps.getConfig();
-  const token = await deps.getGitHubToken(config.github?.profile);
+  const host = GitHub.resolveHost(config.github);
+  const token = await deps.getGitHubToken(config.github?.profile, host.hostname);
   const trimmedUrl = args.commentUrl?.trim();
 
   let target: ResolvedTarget | undefined;
 
   try {
     target = trimmedUrl
-      ? await resolveCommentFromUrl(parseGitHubCommentUrl(trimmedUrl), deps, token)
-      : await discoverCommentFromBranch(deps, token);
+      ? await resolveCommentFromUrl(parseGitHubCommentUrl(trimmedUrl, host), deps, host, token)
+      : await discoverCommentFromBranch(deps, host, token);
   } catch (error) {
     deps.log.error(error instanceof Error ? error.message : String(error));
     deps.exit(1);
@@ -432,7 +439,7 @@ export async function runResolve(
     return;
   }
 
-  const backend = deps.createBackend(config.backend, config);
+  const backend = deps.createBackend(Config.primaryBackend('run', config).name, config);
   const model = deps.resolveModel(config);
   const shouldDryRun = (args.dryRun ?? false) && !(args.interactive ?? false);
   const prompt = deps.buildPrompt({
@@ -2,17 +2,17 @@ import { log } from '@clack/prompts';
 import { Backend } from '@internal/backends';
 import { buildReviewPrompt } from '@internal/builders';
 import { Config } from '@internal/config';
+import { GitHub, type GitHubHost } from '@internal/integrations';
 import { defineCommand } from 'citty';
 
-export function isGitHubPullRequestUrl(value: string) {
+export function isGitHubPullRequestUrl(value: string, host: GitHubHost = GitHub.resolveHost()) {
   try {
     const url = new URL(value);
-    const hostname = url.hostname.toLowerCase();
     const parts = url.pathname.split('/').filter(Boolean);
 
     return (
       (url.protocol === 'https:' || url.protocol === 'http:') &&
-      (hostname === 'github.com' || hostname === 'www.github.com') &&
+      GitHub.matchesHost(url.hostname, host) &&
       parts.length >= 4 &&
       parts[2] === 'pull' &&
       /^[1-9]\d*$/.test(parts[3] ?? '')
@@ -28,7 +28,7 @@ type ReviewArgs = {
 
 type ReviewConfig = Pick<
   ReturnType<typeof Config.all>,
-  'agent' | 'backend' | 'model' | 'skipPermissions'
+  'agent' | 'backend' | 'github' | 'model' | 'skipPermissions'
 >;
 
 type ReviewBackend = {
@@ -63,11 +63,7 @@ function spawnInteractiveReview(cmd: string[]) {
 const REVIEW_ERROR_MESSAGE = 'A valid GitHub pull request URL is required.';
 
 function resolveReviewModel(config: ReviewConfig) {
-  if (typeof config.model === 'string') {
-    return config.model;
-  }
-
-  return config.model?.run;
+  return Config.primaryBackend('run', config).model;
 }
 
 export async function runReview(
@@ -85,14 +81,17 @@ export async function runReview(
   },
 ) {
   const pullRequestUrl = args.pullRequestUrl?.trim();
+  const config = deps.getConfig();
 
-  if (!pullRequestUrl || !isGitHubPullRequestUrl(pullRequestUrl)) {
+  if (
+    !pullRequestUrl ||
+    !isGitHubPullRequestUrl(pullRequestUrl, GitHub.resolveHost(config.github))
+  ) {
     deps.log.error(REVIEW_ERROR_MESSAGE);
     deps.exit(1);
   }
 
-  const config = deps.getConfig();
-  const backend = deps.createBackend(config.backend, config);
+  const backend = deps.createBackend(Config.primaryBackend('run', config).name, config);
   const model = deps.resolveModel(config);
 
   deps.log.info('Launching interactive review harness');
@@ -1,28 +1,112 @@
+import path from 'node:path';
+
 import { outro, spinner, log, type SpinnerResult } from '@clack/prompts';
-import { Backend } from '@internal/backends';
+import { StreamJson, type AgentUsage } from '@internal/backends';
 import { buildRunPrompt } from '@internal/builders';
-import { Config } from '@internal/config';
+import { BASE_DIR, Config } from '@internal/config';
+import { Git } from '@internal/git';
+import { Checkpoints, Journal, type IterationOutcome, type RunRecord } from '@internal/runs';
 import {
+  formatBlockedReason,
   getTaskFilesByLabel,
+  getTaskNodes,
   getTaskStates,
   getTaskStatus,
+  parseTitle,
+  resolveTaskReadiness,
   resolveTasksDir,
+  selectNextTask,
+  type TaskReadiness,
   type TaskState,
 } from '@internal/tasks';
 import { defineCommand } from 'citty';
 
+import {
+  createAgentCandidates,
+  formatAgentTimeout,
+  formatFallbackRetry,
+  getAgentTimeouts,
+  invokeWithFallback,
+  spawnAgent,
+} from '../lib/agent';
+import { rejectTaskChanges, reopenForFeedback, reviewTask } from '../lib/approval';
+import {
+  blockOnUnmergedBranches,
+  finishTaskBranch,
+  formatBranchName,
+  leaveTaskBranch,
+  startTaskBranch,
+} from '../lib/branch';
+import { commitTask, snapshotTaskStart } from '../lib/commit';
 import { sendNotification } from '../lib/notify';
-import { createCompletionMarkerDetector, validateAgentCompletion } from '../util/agentCompletion';
-import { Stream } from '../util/stream';
-
-function findUnresolvedTaskStates(taskStates: TaskState[]) {
-  return taskStates.filter((taskState) => taskState.status !== 'completed');
+import {
+  MERGE_STRATEGIES,
+  runParallel,
+  type MergeStrategy,
+  type ParallelTaskResult,
+} from '../lib/parallel';
+import {
+  chooseOrphanedTaskAction,
+  findOrphanedTasks,
+  getResumeArgs,
+  resetTasks,
+} from '../lib/recovery';
+import {
+  createReviewCandidate,
+  formatReviewFindings,
+  reviewTaskChanges,
+  type ReviewFinding,
+} from '../lib/review';
+import { getChangeLink, syncTaskStatus } from '../lib/sync';
+import { formatLintIssue, lintTasks } from '../lib/taskLint';
+import { addTaskUsage, formatBudgetExceeded, hasUsage, isOverBudget } from '../lib/usage';
+import {
+  formatFailedValidators,
+  isUnfinishedAttempt,
+  validateTask,
+  type TaskValidation,
+} from '../lib/validation';
+import { validateAgentCompletion, type MarkerDetectionResult } from '../util/agentCompletion';
+
+export function findUnexpectedCompletions(
+  before: TaskState[],
+  after: TaskState[],
+  selectedTaskFile: string,
+) {
+  const previousStatuses = new Map(
+    before.map((taskState) => [taskState.taskFile, taskState.status]),
+  );
+
+  return after.filter(
+    (taskState) =>
+      taskState.taskFile !== selectedTaskFile &&
+      taskState.status === 'completed' &&
+      previousStatuses.get(taskState.taskFile) !== 'completed',
+  );
 }
 
 function formatTaskStates(taskStates: TaskState[]) {
   return taskStates.map((taskState) => `${taskState.taskFile} (${taskState.status})`).join(', ');
 }
 
+function formatBlockedTasks(tasks: TaskReadiness[]) {
+  return tasks.map((task) => `${task.taskFile} (${formatBlockedReason(task)})`).join(', ');
+}
+
+async function loadTaskReadiness(
+  tasksDirPath: string,
+  taskBranches?: { template: string; base: string },
+) {
+  try {
+    const readiness = resolveTaskReadiness(await getTaskNodes(tasksDirPath));
+
+    return taskBranches ? await blockOnUnmergedBranches(readiness, taskBranches) : readiness;
+  } catch (err) {
+    log.error(Error.isError(err) ? err.message : String(err));
+    process.exit(1);
+  }
+}
+
 export const runCmd = defineCommand({
   meta: {
     name: 'run',
@@ -51,18 +135,92 @@ export const runCmd = defineCommand({
       alias: 'i',
       required: false,
     },
+    parallel: {
+      description: 'Run up to N ready tasks concurrently, each in its own git worktree',
+      type: 'string',
+      alias: 'p',
+      required: false,
+    },
+    ['merge-strategy']: {
+      description: 'How parallel task branches are integrated: merge or rebase',
+      type: 'string',
+      default: 'merge',
+    },
+    resume: {
+      description: 'Resume the last interrupted run from where it stopped',
+      type: 'boolean',
+      default: false,
+    },
+    force: {
+      description: 'Start even if `ody task lint` reports errors',
+      type: 'boolean',
+      default: false,
+    },
     ['no-notify']: {
       description: 'Disable OS notifications even if enabled in config',
       type: 'boolean',
       default: false,
     },
   },
-  async run({ args }) {
+  async run({ args: cliArgs }) {
     const config = Config.all();
-    const backend = new Backend(config.backend, config);
-    const model = Config.resolveModel('run', config);
+    const candidates = createAgentCandidates(config);
+    const backendRetries = config.backendRetries ?? 2;
+    const agentTimeouts = getAgentTimeouts(config);
+    const reviewer = createReviewCandidate(config);
     const tasksDirPath = resolveTasksDir(config.tasksDir);
 
+    if (!cliArgs.force) {
+      const lintErrors = (await lintTasks(tasksDirPath)).issues.filter(
+        (issue) => issue.severity === 'error',
+      );
+
+      if (lintErrors.length > 0) {
+        for (const issue of lintErrors) {
+          log.error(formatLintIssue(issue));
+        }
+
+        log.error(
+          `Task lint found ${lintErrors.length} error(s). Fix them (\`ody task lint --fix\` repairs mechanical ones) or pass --force to run anyway.`,
+        );
+        process.exit(1);
+      }
+    }
+
+    const runsDir = Journal.resolveRunsDir(BASE_DIR);
+    let resumedRun: RunRecord | undefined;
+
+    if (cliArgs.resume) {
+      if (
+        cliArgs.taskFile ||
+        cliArgs.label ||
+        cliArgs.iterations !== undefined ||
+        cliArgs.parallel !== undefined
+      ) {
+        log.error(
+          "Cannot combine --resume with a task file, --label, --iterations or --parallel. The interrupted run's options are reused.",
+        );
+        process.exit(1);
+      }
+
+      resumedRun = await Journal.findResumable(runsDir, 'cli');
+
+      if (!resumedRun) {
+        log.info(
+          'No interrupted run found; starting a new run that resumes in_progress tasks first.',
+        );
+      }
+    }
+
+    const args = resumedRun ? { ...cliArgs, ...getResumeArgs(resumedRun) } : cliArgs;
+    const iterationOffset = resumedRun ? Journal.countCompletedIterations(resumedRun) : 0;
+
+    if (resumedRun) {
+      log.info(
+        `Resuming run ${resumedRun.id} after ${iterationOffset} completed iteration${iterationOffset === 1 ? '' : 's'}`,
+      );
+    }
+
     const notifyRaw = args['no-notify'] ? false : (config.notify ?? false);
     const notifySetting: false | 'all' | 'individual' =
       notifyRaw === true ? 'all' : notifyRaw === false ? false : notifyRaw;
@@ -82,6 +240,94 @@ export const runCmd = defineCommand({
       iterationsOverride = parsed;
     }
 
+    let parallel: number | undefined;
+
+    if (args.parallel !== undefined) {
+      const parsed = parseInt(args.parallel, 10);
+
+      if (Number.isNaN(parsed) || parsed < 1) {
+        log.error(`Invalid --parallel value "${args.parallel}". Must be a positive integer.`);
+        process.exit(1);
+      }
+
+      if (args.taskFile) {
+        log.error('Cannot use both a task file argument and --parallel.');
+        process.exit(1);
+      }
+
+      parallel = parsed;
+    }
+
+    const approvalRequired = config.approval === 'required';
+
+    if (approvalRequired) {
+      if (parallel !== undefined) {
+        log.error(
+          'Cannot use --parallel with `approval: required`; tasks are reviewed one at a time.',
+        );
+        process.exit(1);
+      }
+
+      if (!process.stdin.isTTY) {
+        log.error('`approval: required` needs an interactive terminal to review each task.');
+        process.exit(1);
+      }
+
+      // Checked on --resume too: rejecting a task discards everything changed
+      // since its review base, including edits that were never the agent's.
+      if (await Git.hasUncommittedChanges(undefined, { exclude: [BASE_DIR] })) {
+        log.error(
+          `\`approval: required\` needs a clean working tree outside ${BASE_DIR}/ so each task's diff can be reviewed and reverted. ${
+            args.resume
+              ? "Commit the interrupted task's changes to keep them, or stash them to start it over."
+              : 'Commit or stash your changes first.'
+          }`,
+        );
+        process.exit(1);
+      }
+    }
+
+    const branchPerTask = config.git?.branchPerTask === true;
+    let baseBranch: string | undefined;
+
+    if (branchPerTask) {
+      if (parallel !== undefined) {
+        log.error(
+          'Cannot use --parallel with `git.branchPerTask`; parallel runs already use a branch per task.',
+        );
+        process.exit(1);
+      }
+
+      if (!args.resume && (await Git.hasUncommittedChanges(undefined, { exclude: [BASE_DIR] }))) {
+        log.error(
+          `\`git.branchPerTask\` needs a clean working tree outside ${BASE_DIR}/ so each task branch only holds that task's changes. Commit or stash your changes first.`,
+        );
+        process.exit(1);
+      }
+
+      // A resumed run may have stopped on a task branch, so it keeps the base
+      // branch it started from.
+      baseBranch =
+        config.git?.baseBranch ??
+        (resumedRun ? getResumeArgs(resumedRun).baseBranch : undefined) ??
+        (await Git.getCurrentBranch());
+    }
+
+    const taskBranches = baseBranch
+      ? { template: config.git?.branchName ?? 'ody/{slug}', base: baseBranch }
+      : undefined;
+
+    // Approved tasks and task branches are committed even without autoCommit.
+    const odyCommits = config.autoCommit || approvalRequired || branchPerTask;
+    const mergeStrategy = args['merge-strategy'] as MergeStrategy;
+
+    if (!MERGE_STRATEGIES.includes(mergeStrategy)) {
+      log.error(
+        `Invalid --merge-strategy value "${args['merge-strategy']}". Must be one of: ${MERGE_STRATEGIES.join(', ')}.`,
+      );
+      process.exit(1);
+    }
+
     let singleTaskFile: string | undefined;
 
     if (args.taskFile) {
@@ -103,6 +349,15 @@ export const runCmd = defineCommand({
       }
 
       singleTaskFile = args.taskFile;
+
+      const taskFileName = path.basename(args.taskFile);
+      const taskReadiness = await loadTaskReadiness(tasksDirPath, taskBranches);
+      const task = taskReadiness.find((entry) => entry.taskFile === taskFileName);
+
+      if (task && (task.blockedBy.length > 0 || task.missing.length > 0)) {
+        log.error(`Task ${task.taskFile} is ${formatBlockedReason(task)}`);
+        process.exit(1);
+      }
     }
 
     let taskFiles: string[] | undefined;
@@ -116,9 +371,156 @@ export const runCmd = defineCommand({
       }
     }
 
-    const prompt = buildRunPrompt({ taskFiles, taskFile: singleTaskFile });
+    let resumeQueue: string[] = [];
+    const activeRun = (await Journal.list(runsDir)).find((run) => Journal.isActive(run));
+
+    if (singleTaskFile) {
+      if ((await getTaskStatus(singleTaskFile)) === 'in_progress') {
+        resumeQueue = [path.basename(singleTaskFile)];
+      }
+    } else if (activeRun) {
+      log.warn(
+        `Another ody run (${activeRun.id}, pid ${activeRun.pid}) is still active; leaving in_progress tasks alone.`,
+      );
+    } else {
+      const orphans = await findOrphanedTasks(tasksDirPath, taskFiles);
+
+      if (orphans.length > 0) {
+        const action = args.resume
+          ? 'resume'
+          : await chooseOrphanedTaskAction(orphans, { allowResume: parallel === undefined });
+
+        // Parallel runs start every task from a fresh worktree, so resuming
+        // there means starting the task over.
+        if (action === 'reset' || (action === 'resume' && parallel !== undefined)) {
+          await resetTasks(tasksDirPath, orphans);
+          log.info(`Reset ${orphans.length} task(s) to pending: ${orphans.join(', ')}`);
+        } else if (action === 'resume') {
+          resumeQueue = orphans;
+        }
+      }
+    }
 
     const maxIterations = iterationsOverride ?? (singleTaskFile ? 1 : config.maxIterations);
+    const journal = await Journal.start(runsDir, {
+      source: 'cli',
+      args: {
+        taskFile: singleTaskFile ?? null,
+        label: args.label ?? null,
+        iterations: maxIterations,
+        parallel: parallel ?? null,
+        mergeStrategy: parallel === undefined ? null : mergeStrategy,
+        baseBranch: baseBranch ?? null,
+      },
+      backend: candidates.map((candidate) => candidate.name).join(', '),
+      model: candidates[0]?.model,
+      config,
+      resumedFrom: resumedRun?.id,
+      iterationOffset,
+    });
+
+    const interrupt = new AbortController();
+
+    const exitInterrupted = async (reason: string) => {
+      await journal.finish('stopped', reason);
+      log.warn(`${reason}. Continue with \`ody run --resume\`.`);
+      process.exit(130);
+    };
+
+    const exitOverBudget = async () => {
+      const message = formatBudgetExceeded(journal.getUsage(), config.budget ?? 0);
+
+      await journal.finish('stopped', message);
+      log.warn(`${message}. Raise \`budget\` and continue with \`ody run --resume\`.`);
+      process.exit(1);
+    };
+
+    process.on('SIGINT', () => {
+      if (interrupt.signal.aborted) {
+        process.exit(130);
+      }
+
+      interrupt.abort();
+    });
+
+    if (parallel !== undefined) {
+      let results: ParallelTaskResult[];
+
+      try {
+        results = await runParallel({
+          candidates,
+          reviewer,
+          backendRetries,
+          config,
+          tasksDirPath,
+          taskFiles,
+          concurrency: parallel,
+          maxTasks: maxIterations === 0 ? 0 : Math.max(maxIterations - iterationOffset, 0),
+          mergeStrategy,
+          verbose: args.verbose,
+          journal,
+          signal: interrupt.signal,
+          async onTaskComplete(result) {
+            if (notifySetting === 'individual') {
+              await sendNotification('ody', `Agent task complete: ${result.title}`);
+            }
+
+            if (config.sync?.enabled) {
+              await syncTaskStatus(path.join(tasksDirPath, result.taskFile), result.title, config, {
+                status: 'completed',
+              });
+            }
+          },
+        });
+      } catch (err) {
+        const message = Error.isError(err) ? err.message : String(err);
+
+        await journal.finish('failed', message);
+        log.error(message);
+        process.exit(1);
+      }
+
+      if (interrupt.signal.aborted) {
+        await exitInterrupted('Parallel run interrupted');
+      }
+
+      if (isOverBudget(journal.getUsage(), config.budget)) {
+        await exitOverBudget();
+      }
+
+      const completedCount = results.filter((result) => result.status === 'completed').length;
+      const failedCount = results.length - completedCount;
+
+      await journal.finish(
+        failedCount > 0 ? 'failed' : 'completed',
+        failedCount > 0 ? `${failedCount} parallel task(s) failed` : undefined,
+      );
+
+      if (notifySetting === 'all') {
+        await sendNotification('ody', 'Agent loop complete');
+      }
+
+      const runUsage = journal.getUsage();
+
+      for (const result of results) {
+        if (result.usage) {
+          log.message(`  ${result.title}: ${StreamJson.formatUsage(result.usage)}`);
+        }
+      }
+
+      outro(
+        `Parallel run complete — ${completedCount} task${completedCount === 1 ? '' : 's'} completed, ${failedCount} failed${hasUsage(runUsage) ? `, ${StreamJson.formatUsage(runUsage)}` : ''}`,
+      );
+
+      if (failedCount > 0) {
+        process.exit(1);
+      }
+
+      return;
+    }
+
+    const validatorRetries = config.validatorRetries ?? 2;
+    const reviewRounds = config.review?.rounds ?? 2;
     let agentSpinner: SpinnerResult | null = null;
 
     if (!args.verbose) {
@@ -126,80 +528,437 @@ export const runCmd = defineCommand({
     }
 
     let completed = 0;
+    const skippedTasks = new Set<string>();
+    const rejectedTasks = new Set<string>();
+    const completedTaskUsage: { title: string; usage: AgentUsage }[] = [];
+
+    for (let i = iterationOffset; maxIterations === 0 || i < maxIterations; i++) {
+      let taskPath: string;
+      let resume = false;
+
+      if (interrupt.signal.aborted) {
+        await exitInterrupted(`Run interrupted before iteration ${i + 1}`);
+      }
+
+      if (isOverBudget(journal.getUsage(), config.budget)) {
+        await exitOverBudget();
+      }
+
+      if (singleTaskFile) {
+        taskPath = singleTaskFile;
+        resume = resumeQueue.length > 0;
+      } else if (resumeQueue.length > 0) {
+        taskPath = path.join(tasksDirPath, resumeQueue.shift() ?? '');
+        resume = true;
+      } else {
+        const taskReadiness = (await loadTaskReadiness(tasksDirPath, taskBranches)).filter(
+          (task) => !skippedTasks.has(task.taskFile) && !rejectedTasks.has(task.taskFile),
+        );
+        const nextTask = selectNextTask(taskReadiness, taskFiles);
+
+        if (!nextTask) {
+          const blockedTasks = taskReadiness.filter(
+            (task) =>
+              task.status === 'pending' && (!taskFiles || taskFiles.includes(task.taskFile)),
+          );
 
-    for (let i = 0; maxIterations === 0 || i < maxIterations; i++) {
+          if (blockedTasks.length > 0) {
+            log.warn(`No tasks are ready to run: ${formatBlockedTasks(blockedTasks)}`);
+          } else {
+            log.info('All pending tasks finished');
+          }
+
+          break;
+        }
+
+        taskPath = path.join(tasksDirPath, nextTask.taskFile);
+      }
+
+      const taskFileName = path.basename(taskPath);
+      const taskTitle = parseTitle(await Bun.file(taskPath).text());
       const iterLabel =
         maxIterations === 0
-          ? `Running agent task ${i + 1}`
-          : `Running agent task ${i + 1} of ${maxIterations}`;
+          ? `Running agent task ${i + 1}: ${taskTitle}`
+          : `Running agent task ${i + 1} of ${maxIterations}: ${taskTitle}`;
+
+      if (agentSpinner) {
+        agentSpinner.start(iterLabel);
+      } else {
+        log.step(iterLabel);
+      }
+
+      let taskUsage: AgentUsage | null = null;
+      let completedBy: string | null = null;
+      let timedOut: string | null = null;
+      let rejected = false;
 
-      agentSpinner?.start(iterLabel);
+      const taskBranch = taskBranches
+        ? formatBranchName(taskBranches.template, taskFileName)
+        : undefined;
 
       try {
-        const proc = Bun.spawn({
-          cmd: backend.buildCommand(prompt, model),
-          stdio: ['ignore', 'pipe', 'pipe'],
-        });
+        if (taskBranch && baseBranch) {
+          await startTaskBranch(taskBranch, baseBranch);
+        }
 
-        const markerDetector = createCompletionMarkerDetector();
+        // A resumed task keeps the checkpoint from before its first attempt.
+        if (!resume || !(await Checkpoints.get(taskPath))) {
+          await Checkpoints.record(process.cwd(), taskPath);
+        }
 
-        await Promise.all([
-          Stream.toOutput(proc.stdout, {
-            shouldPrint: args.verbose,
-            onChunk(chunk) {
-              markerDetector.onChunk(chunk);
-            },
-          }),
-          Stream.toOutput(proc.stderr, { shouldPrint: args.verbose }),
-        ]);
+        if (config.sync?.enabled) {
+          await syncTaskStatus(taskPath, taskTitle, config, { status: 'in_progress' });
+        }
 
-        const markerDetection = markerDetector.finalize();
-        const exitCode = await proc.exited;
-        validateAgentCompletion(exitCode, markerDetection);
+        const commitBase = odyCommits ? await snapshotTaskStart(config) : null;
+        const statesBefore = await getTaskStates(undefined, tasksDirPath);
+        const reviewBase = approvalRequired || reviewer ? await Git.getHeadSha() : '';
+        let validationFailures: string | undefined;
+        let reviewFeedback: string | undefined;
+        let feedbackAttempt = 0;
+        let reviewRound = 0;
+
+        for (let attempt = 1; ; attempt++) {
+          const startedAt = new Date().toISOString();
+          let stdout = '';
+          let stderr = '';
+          let exitCode: number | null = null;
+          let markerDetection: MarkerDetectionResult | null = null;
+          let usage: AgentUsage | null = null;
+          let usedBackend: string | null = null;
+          let validation: TaskValidation | null = null;
+          let blockingFindings: ReviewFinding[] = [];
+
+          const recordAttempt = async (outcome: IterationOutcome, error: string | null = null) => {
+            if (usage) {
+              taskUsage = StreamJson.addUsage(taskUsage ?? StreamJson.emptyUsage(), usage);
+              await addTaskUsage(taskPath, usage);
+            }
+
+            await journal.recordIteration({
+              iteration: i + 1,
+              attempt,
+              taskFile: taskFileName,
+              taskTitle,
+              startedAt,
+              exitCode,
+              markerDetection,
+              outcome,
+              error,
+              validators: validation?.results ?? [],
+              usage,
+              backend: usedBackend,
+              stdout,
+              stderr,
+            });
+          };
+
+          try {
+            const prompt = buildRunPrompt({
+              taskFile: taskPath,
+              validationFailures,
+              reviewFeedback,
+              resume,
+              config,
+            });
+            const { candidate, invocation } = await invokeWithFallback({
+              candidates,
+              retries: backendRetries,
+              retryTimeouts: config.onTimeout !== 'skip',
+              signal: interrupt.signal,
+              invoke: (next) =>
+                spawnAgent({
+                  candidate: next,
+                  prompt,
+                  signal: interrupt.signal,
+                  verbose: args.verbose,
+                  timeouts: agentTimeouts,
+                }),
+              async onRetry(retry) {
+                ({ exitCode, stdout, stderr, markerDetection, usage } = retry.invocation);
+                usedBackend = retry.candidate.name;
+
+                const message = formatFallbackRetry(retry);
+
+                await recordAttempt('retrying', message);
+
+                if (agentSpinner) {
+                  agentSpinner.message(message);
+                } else {
+                  log.warn(message);
+                }
+              },
+            });
+
+            ({ exitCode, stdout, stderr, markerDetection, usage } = invocation);
+            usedBackend = candidate.name;
+
+            if (invocation.timeout && !interrupt.signal.aborted) {
+              timedOut = `${candidate.name} ${formatAgentTimeout(invocation.timeout, agentTimeouts)}`;
+              await recordAttempt('timed_out', timedOut);
+              break;
+            }
+
+            validateAgentCompletion(exitCode, markerDetection);
+
+            const taskStatus = await getTaskStatus(taskPath);
+
+            if (taskStatus !== 'completed' && !(await isUnfinishedAttempt(taskPath, taskStatus))) {
+              throw new Error(
+                `Post-run task state verification failed: ${taskFileName} status is "${taskStatus ?? 'unknown'}"`,
+              );
+            }
+
+            const unexpectedCompletions = findUnexpectedCompletions(
+              statesBefore,
+              await getTaskStates(undefined, tasksDirPath),
+              taskFileName,
+            );
 
-        if (singleTaskFile) {
-          const taskStatus = await getTaskStatus(singleTaskFile);
+            if (unexpectedCompletions.length > 0) {
+              throw new Error(
+                `Post-run task state verification failed: agent completed tasks other than ${taskFileName}: ${formatTaskStates(unexpectedCompletions)}`,
+              );
+            }
+
+            validation = await validateTask({
+              taskFile: taskFileName,
+              taskPath,
+              attempt,
+              commands: config.validatorCommands ?? [],
+              timeoutMs: config.validatorTimeout && config.validatorTimeout * 60_000,
+            });
+
+            const validationAttempt = attempt - feedbackAttempt;
+
+            if (!validation.passed && validationAttempt > validatorRetries) {
+              throw new Error(
+                `Validation still failing after ${validationAttempt} attempt${validationAttempt === 1 ? '' : 's'}: ${formatFailedValidators(validation)}`,
+              );
+            }
+
+            if (validation.passed && reviewer) {
+              reviewRound++;
+
+              const reviewLabel = `Reviewing ${taskTitle} with ${reviewer.name} (round ${reviewRound} of ${reviewRounds})`;
+
+              if (agentSpinner) {
+                agentSpinner.message(reviewLabel);
+              } else {
+                log.step(reviewLabel);
+              }
+
+              const review = await reviewTaskChanges({
+                candidate: reviewer,
+                taskFile: taskFileName,
+                taskPath,
+                base: reviewBase,
+                round: reviewRound,
+                signal: interrupt.signal,
+                verbose: args.verbose,
+                timeouts: agentTimeouts,
+              });
+
+              if (review.usage) {
+                usage = StreamJson.addUsage(usage ?? StreamJson.emptyUsage(), review.usage);
+              }
+
+              blockingFindings = review.blocking;
+
+              if (blockingFindings.length > 0 && reviewRound >= reviewRounds) {
+                throw new Error(
+                  `Review still has ${blockingFindings.length} blocking finding${blockingFindings.length === 1 ? '' : 's'} after ${reviewRound} round${reviewRound === 1 ? '' : 's'}:\n${formatReviewFindings(blockingFindings)}`,
+                );
+              }
+            }
+          } catch (err) {
+            await recordAttempt(
+              interrupt.signal.aborted ? 'stopped' : 'failed',
+              Error.isError(err) ? err.message : String(err),
+            );
+            throw err;
+          }
 
-          if (taskStatus !== 'completed') {
-            throw new Error(
-              `Post-run task state verification failed: ${singleTaskFile} status is "${taskStatus ?? 'unknown'}"`,
+          if (validation.passed && blockingFindings.length > 0) {
+            await reopenForFeedback(taskPath);
+            await recordAttempt(
+              'retrying',
+              `review found ${blockingFindings.length} blocking finding${blockingFindings.length === 1 ? '' : 's'}`,
             );
+            reviewFeedback = formatReviewFindings(blockingFindings);
+            validationFailures = undefined;
+            feedbackAttempt = attempt;
+
+            const reviewRetryLabel = `Review requested changes to ${taskTitle}; retrying (round ${reviewRound} of ${reviewRounds})`;
+
+            if (agentSpinner) {
+              agentSpinner.message(reviewRetryLabel);
+            } else {
+              log.warn(reviewRetryLabel);
+            }
+
+            if (isOverBudget(journal.getUsage(), config.budget)) {
+              agentSpinner?.stop(`Agent task ${i + 1} stopped: ${taskTitle}`);
+              await exitOverBudget();
+            }
+
+            continue;
+          }
+
+          if (validation.passed && approvalRequired) {
+            agentSpinner?.stop(`Agent task ${i + 1} ready for review: ${taskTitle}`);
+
+            const decision = await reviewTask({
+              cwd: process.cwd(),
+              base: reviewBase,
+              title: taskTitle,
+              validation,
+            });
+
+            if (!decision) {
+              await reopenForFeedback(taskPath);
+              await recordAttempt('stopped', 'review cancelled');
+              await exitInterrupted(`Run stopped while reviewing ${taskFileName}`);
+            } else if (decision.action === 'reject') {
+              await rejectTaskChanges(process.cwd(), reviewBase, taskPath, decision.note);
+              await recordAttempt('rejected', decision.note || null);
+              rejected = true;
+              break;
+            } else if (decision.action === 'feedback') {
+              await reopenForFeedback(taskPath);
+              await recordAttempt('retrying', `review feedback: ${decision.comment}`);
+              reviewFeedback = decision.comment;
+              validationFailures = undefined;
+              feedbackAttempt = attempt;
+
+              if (agentSpinner) {
+                agentSpinner.start(`Addressing review feedback: ${taskTitle}`);
+              } else {
+                log.step(`Addressing review feedback: ${taskTitle}`);
+              }
+
+              continue;
+            } else {
+              agentSpinner?.start(`Committing ${taskTitle}`);
+            }
+          }
+
+          if (validation.passed) {
+            await recordAttempt('completed');
+            completedBy = usedBackend;
+            break;
+          }
+
+          await recordAttempt('retrying');
+          validationFailures = validation.failures;
+
+          const retryLabel = `Validation failed for ${taskTitle}: ${formatFailedValidators(validation)}; retrying (${attempt - feedbackAttempt} of ${validatorRetries} retries)`;
+
+          if (agentSpinner) {
+            agentSpinner.message(retryLabel);
+          } else {
+            log.warn(retryLabel);
+          }
+
+          if (isOverBudget(journal.getUsage(), config.budget)) {
+            agentSpinner?.stop(`Agent task ${i + 1} stopped: ${taskTitle}`);
+            await exitOverBudget();
           }
         }
 
-        if (!singleTaskFile && markerDetection.hasStrictMatch) {
-          const taskStates = await getTaskStates(taskFiles, tasksDirPath);
-          const unresolvedTaskStates = findUnresolvedTaskStates(taskStates);
+        if (rejected) {
+          rejectedTasks.add(taskFileName);
 
-          if (unresolvedTaskStates.length > 0) {
-            throw new Error(
-              `Post-run task state verification failed: completion marker received with unresolved tasks: ${formatTaskStates(unresolvedTaskStates)}`,
-            );
+          if (taskBranch && baseBranch) {
+            await Git.switchBranch(undefined, baseBranch);
+          }
+
+          log.warn(`Agent task ${i + 1} rejected, reset to pending: ${taskTitle}`);
+
+          if (singleTaskFile) {
+            break;
           }
+
+          continue;
         }
 
-        if (markerDetection.hasStrictMatch) {
-          completed++;
-          agentSpinner?.stop(`Agent task ${i + 1} complete`);
+        if (timedOut) {
+          skippedTasks.add(taskFileName);
 
-          if (!singleTaskFile) {
-            log.info('All pending tasks finished');
+          const stashed =
+            taskBranch && baseBranch ? await leaveTaskBranch(taskFileName, baseBranch) : false;
+          const skippedLabel = `Agent task ${i + 1} timed out, skipped: ${taskTitle} (${timedOut})`;
+
+          if (agentSpinner) {
+            agentSpinner.stop(skippedLabel);
+          } else {
+            log.warn(skippedLabel);
           }
 
-          break;
+          if (stashed) {
+            log.info(
+              `Stashed the unfinished changes from ${taskBranch}; switch to it and run \`git stash pop\` to restore them`,
+            );
+          }
+
+          if (singleTaskFile) {
+            break;
+          }
+
+          continue;
         }
 
         completed++;
+
+        if (taskUsage) {
+          completedTaskUsage.push({ title: taskTitle, usage: taskUsage });
+        }
+
+        const taskCommit = commitBase
+          ? await commitTask({ taskPath, before: commitBase, config })
+          : null;
+        const pullRequest =
+          taskBranch && baseBranch && taskCommit
+            ? await finishTaskBranch({
+                branch: taskBranch,
+                base: baseBranch,
+                taskPath,
+                commit: taskCommit,
+                openPullRequest: config.git?.openPullRequest === true,
+                github: config.github,
+              })
+            : null;
+
         agentSpinner?.stop(
-          maxIterations === 0
-            ? `Agent task ${i + 1} complete`
-            : `Agent task ${i + 1} of ${maxIterations} complete`,
+          `Agent task ${i + 1} complete: ${taskTitle}${candidates.length > 1 ? ` via ${completedBy}` : ''}${taskUsage ? ` (${StreamJson.formatUsage(taskUsage)})` : ''}`,
         );
 
+        if (taskCommit && !taskCommit.committed) {
+          log.warn(`No changes to commit for ${taskTitle}`);
+        }
+
+        if (pullRequest) {
+          log.info(`Pull request for ${taskTitle}: ${pullRequest.url}`);
+        }
+
+        if (config.sync?.enabled) {
+          await syncTaskStatus(taskPath, taskTitle, config, {
+            status: 'completed',
+            link: taskCommit?.sha
+              ? await getChangeLink(pullRequest, taskCommit.sha, config.github)
+              : null,
+          });
+        }
+
         if (notifySetting === 'individual') {
-          await sendNotification('ody', `Agent task ${i + 1} complete`);
+          await sendNotification('ody', `Agent task complete: ${taskTitle}`);
         }
       } catch (err) {
+        if (interrupt.signal.aborted) {
+          agentSpinner?.stop(`Agent task ${i + 1} interrupted: ${taskTitle}`);
+          await exitInterrupted(`Run interrupted during iteration ${i + 1} (${taskFileName})`);
+        }
+
         const message = Error.isError(err) ? err.message : String(err);
 
         if (agentSpinner) {
@@ -208,14 +967,25 @@ export const runCmd = defineCommand({
           log.error(`Agent task ${i + 1} failed: ${message}`);
         }
 
+        await journal.finish('failed', message);
         process.exit(1);
       }
     }
 
+    await journal.finish('completed');
+
     if (notifySetting === 'all') {
       await sendNotification('ody', 'Agent loop complete');
     }
 
-    outro(`Agent loop complete — ${completed} task${completed === 1 ? '' : 's'}`);
+    const runUsage = journal.getUsage();
+
+    for (const task of completedTaskUsage) {
+      log.message(`  ${task.title}: ${StreamJson.formatUsage(task.usage)}`);
+    }
+
+    outro(
+      `Agent loop complete — ${completed} task${completed === 1 ? '' : 's'}${skippedTasks.size > 0 ? `, ${skippedTasks.size} timed out` : ''}${rejectedTasks.size > 0 ? `, ${rejectedTasks.size} rejected` : ''}${hasUsage(runUsage) ? `, ${StreamJson.formatUsage(runUsage)}` : ''}`,
+    );
   },
 });
@@ -0,0 +1,74 @@
+import { StreamJson } from '@internal/backends';
+import type { IterationRecord, RunRecord } from '@internal/runs';
+
+export function formatDuration(durationMs: number) {
+  const seconds = durationMs / 1000;
+
+  if (seconds < 60) {
+    return `${seconds.toFixed(1)}s`;
+  }
+
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}m ${total % 60}s`;
+}
+
+export function getRunDuration(run: RunRecord) {
+  if (!run.finishedAt) {
+    return null;
+  }
+
+  return new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime();
+}
+
+export function formatRunSummary(run: RunRecord) {
+  const duration = getRunDuration(run);
+  const iterationCount = run.iterations.length;
+
+  return [
+    run.id,
+    run.status,
+    run.source,
+    `${iterationCount} iteration${iterationCount === 1 ? '' : 's'}`,
+    duration === null ? 'unfinished' : formatDuration(duration),
+    // Runs recorded before usage tracking have no usage field.
+    ...(run.usage?.costUsd ? [`$${run.usage.costUsd.toFixed(2)}`] : []),
+  ].join('  ');
+}
+
+function formatMarker(iteration: IterationRecord) {
+  if (!iteration.markerDetection) {
+    return 'marker: not checked';
+  }
+
+  if (iteration.markerDetection.hasStrictMatch) {
+    return 'marker: found';
+  }
+
+  return iteration.markerDetection.hasAmbiguousMention ? 'marker: ambiguous' : 'marker: none';
+}
+
+export function formatIteration(iteration: IterationRecord) {
+  const task = iteration.taskTitle
+    ? `${iteration.taskTitle} (${iteration.taskFile})`
+    : (iteration.taskFile ?? 'all tasks');
+  const lines = [
+    `#${iteration.iteration}.${iteration.attempt} ${task}`,
+    `  ${iteration.outcome}${iteration.backend ? ` on ${iteration.backend}` : ''}, exit ${iteration.exitCode ?? 'none'}, ${formatMarker(iteration)}, ${formatDuration(iteration.durationMs)}`,
+  ];
+
+  for (const validator of iteration.validators) {
+    lines.push(
+      `  ${validator.exitCode === 0 ? 'passed' : 'failed'}: ${validator.command} (exit ${validator.exitCode}, ${formatDuration(validator.durationMs)})`,
+    );
+  }
+
+  if (iteration.usage) {
+    lines.push(`  usage: ${StreamJson.formatUsage(iteration.usage)}`);
+  }
+
+  if (iteration.error) {
+    lines.push(`  error: ${iteration.error}`);
+  }
+
+  return lines.join('\n');
+}
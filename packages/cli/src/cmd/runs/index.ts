@@ -0,0 +1,12 @@
+import { defineCommand } from 'citty';
+
+export const runsCmd = defineCommand({
+  meta: {
+    name: 'runs',
+    description: 'Browse the history of agent runs',
+  },
+  subCommands: {
+    list: () => import('./list').then((m) => m.listCmd),
+    show: () => import('./show').then((m) => m.showCmd),
+  },
+});
@@ -0,0 +1,44 @@
+import { log, outro } from '@clack/prompts';
+import { BASE_DIR } from '@internal/config';
+import { Journal } from '@internal/runs';
+import { defineCommand } from 'citty';
+
+import { formatRunSummary } from './format';
+
+export const listCmd = defineCommand({
+  meta: {
+    name: 'list',
+    description: 'List recorded runs, newest first',
+  },
+  args: {
+    limit: {
+      description: 'Maximum number of runs to show',
+      type: 'string',
+      alias: 'n',
+      default: '20',
+    },
+  },
+  async run({ args }) {
+    const limit = parseInt(args.limit, 10);
+
+    if (Number.isNaN(limit) || limit <= 0) {
+      log.error(`Invalid --limit value "${args.limit}". Must be a positive integer.`);
+      process.exit(1);
+    }
+
+    const runs = await Journal.list(Journal.resolveRunsDir(BASE_DIR));
+
+    if (runs.length === 0) {
+      log.info('No runs recorded yet.');
+      return;
+    }
+
+    log.info(`Showing ${Math.min(limit, runs.length)} of ${runs.length} run(s):`);
+
+    for (const run of runs.slice(0, limit)) {
+      log.message(`  ${formatRunSummary(run)}`);
+    }
+
+    outro('Use `ody runs show <id>` for details');
+  },
+});
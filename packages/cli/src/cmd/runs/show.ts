@@ -0,0 +1,83 @@
+import path from 'node:path';
+
+import { log, outro } from '@clack/prompts';
+import { StreamJson } from '@internal/backends';
+import { BASE_DIR } from '@internal/config';
+import { Journal, type RunRecord } from '@internal/runs';
+import { defineCommand } from 'citty';
+
+import { formatDuration, formatIteration, getRunDuration } from './format';
+
+export const showCmd = defineCommand({
+  meta: {
+    name: 'show',
+    description: 'Show the details of a recorded run',
+  },
+  args: {
+    id: {
+      type: 'positional',
+      description: 'Run id (defaults to the most recent run)',
+      required: false,
+    },
+    logs: {
+      description: "Print each iteration's captured stdout and stderr",
+      type: 'boolean',
+      default: false,
+    },
+  },
+  async run({ args }) {
+    const runsDir = Journal.resolveRunsDir(BASE_DIR);
+    let run: RunRecord | undefined;
+
+    try {
+      run = args.id ? await Journal.read(runsDir, args.id) : (await Journal.list(runsDir))[0];
+    } catch {
+      log.error(`Run not found: ${args.id}`);
+      process.exit(1);
+    }
+
+    if (!run) {
+      log.info('No runs recorded yet.');
+      return;
+    }
+
+    const duration = getRunDuration(run);
+
+    log.info(
+      [
+        `Run ${run.id}`,
+        `  Status: ${run.status}`,
+        `  Source: ${run.source}`,
+        ...(run.resumedFrom ? [`  Resumed from: ${run.resumedFrom}`] : []),
+        `  Started: ${run.startedAt}`,
+        `  Duration: ${duration === null ? 'unfinished' : formatDuration(duration)}`,
+        `  Backend: ${run.backend}${run.model ? ` (${run.model})` : ''}`,
+        `  Arguments: ${JSON.stringify(run.args)}`,
+        ...(run.usage ? [`  Usage: ${StreamJson.formatUsage(run.usage)}`] : []),
+        ...(run.error ? [`  Error: ${run.error}`] : []),
+      ].join('\n'),
+    );
+
+    if (run.iterations.length === 0) {
+      log.message('No iterations recorded.');
+    }
+
+    for (const iteration of run.iterations) {
+      log.message(formatIteration(iteration));
+
+      if (!args.logs) {
+        continue;
+      }
+
+      for (const logFile of [iteration.stdoutLog, iteration.stderrLog]) {
+        const output = await Journal.readLog(runsDir, run.id, logFile).catch(() => '');
+
+        if (output.trim() !== '') {
+          log.message(`--- ${logFile} ---\n${output.trimEnd()}`);
+        }
+      }
+    }
+
+    outro(`Run files: ${path.join(runsDir, run.id)}`);
+  },
+});
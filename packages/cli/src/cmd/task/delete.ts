@@ -0,0 +1,66 @@
+import { rm } from 'node:fs/promises';
+import path from 'node:path';
+
+import { cancel, confirm, isCancel, log, outro } from '@clack/prompts';
+import { getTaskFilesInTasksDir, getTaskNodes, resolveTasksDir } from '@internal/tasks';
+import { defineCommand } from 'citty';
+
+import { matchTaskFiles } from '../../lib/taskFiles';
+
+export const deleteCmd = defineCommand({
+  meta: {
+    name: 'delete',
+    description: 'Delete task files by name or glob',
+  },
+  args: {
+    patterns: {
+      type: 'positional',
+      description: 'Task file names or globs, e.g. "add-*"',
+      required: true,
+    },
+    yes: {
+      type: 'boolean',
+      alias: 'y',
+      description: 'Delete without asking for confirmation',
+      default: false,
+    },
+  },
+  async run({ args }) {
+    const tasksDir = resolveTasksDir();
+    const patterns = args._.map(String);
+    const matched = matchTaskFiles(await getTaskFilesInTasksDir(tasksDir), patterns);
+
+    if (matched.length === 0) {
+      log.error(`No task files match ${patterns.join(', ')}`);
+      process.exit(1);
+    }
+
+    log.info(`Matched ${matched.length} task file(s):\n${matched.join('\n')}`);
+
+    const dependents = (await getTaskNodes(tasksDir)).filter(
+      (node) =>
+        !matched.includes(node.taskFile) && node.dependsOn.some((dep) => matched.includes(dep)),
+    );
+
+    if (dependents.length > 0) {
+      log.warn(
+        `These tasks depend on a deleted task and will be blocked: ${dependents.map((node) => node.taskFile).join(', ')}`,
+      );
+    }
+
+    if (!args.yes) {
+      const confirmed = await confirm({ message: `Delete ${matched.length} task file(s)?` });
+
+      if (isCancel(confirmed) || !confirmed) {
+        cancel('Nothing deleted.');
+        return;
+      }
+    }
+
+    for (const taskFile of matched) {
+      await rm(path.join(tasksDir, taskFile));
+    }
+
+    outro(`Deleted ${matched.length} task file(s)`);
+  },
+});
@@ -7,7 +7,7 @@ import { Config } from '@internal/config';
 import {
   getTaskFilesInTasksDir,
   mapWithConcurrency,
-  parseFrontmatter,
+  parseTaskFrontmatter,
   parseTitle,
   resolveTasksDir,
 } from '@internal/tasks';
@@ -43,9 +43,16 @@ export const editCmd = defineCommand({
       TASK_READ_CONCURRENCY,
       async (filename) => {
         const content = await Bun.file(path.join(tasksDir, filename)).text();
-        const frontmatter = parseFrontmatter(content);
+        let status: string;
 
-        if (frontmatter.status !== 'pending') {
+        try {
+          status = parseTaskFrontmatter(content, filename).status;
+        } catch (err) {
+          log.warn(Error.isError(err) ? err.message : String(err));
+          return null;
+        }
+
+        if (status !== 'pending') {
           return null;
         }
 
@@ -83,8 +90,8 @@ export const editCmd = defineCommand({
     }
 
     const config = Config.all();
-    const backend = new Backend(config.backend, config);
-    const model = Config.resolveModel('edit', config);
+    const { name: backendName, model } = Config.primaryBackend('edit', config);
+    const backend = new Backend(backendName, config);
 
     log.info('Opening editor agent in interactive mode');
 
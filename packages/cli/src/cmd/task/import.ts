@@ -1,12 +1,18 @@
 import { mkdir } from 'node:fs/promises';
 import path from 'node:path';
 
-import { log, outro, spinner } from '@clack/prompts';
+import { cancel, isCancel, log, multiselect, outro, spinner } from '@clack/prompts';
 import { Auth } from '@internal/auth';
 import { Backend } from '@internal/backends';
-import { buildImportPrompt } from '@internal/builders';
+import { buildImportPrompt, type ImportSource } from '@internal/builders';
 import { BASE_DIR, Config, TASKS_DIR, type OdyConfig } from '@internal/config';
-import { GitHub, Jira } from '@internal/integrations';
+import { GitHub, GitLab, Jira, Linear } from '@internal/integrations';
+import {
+  formatTaskSource,
+  getImportedSources,
+  getTaskFilesInDir,
+  recordTaskSource,
+} from '@internal/tasks';
 import { defineCommand } from 'citty';
 
 import {
@@ -15,6 +21,14 @@ import {
 } from '../../util/agentCompletion';
 import { Stream } from '../../util/stream';
 
+type ImportItem = {
+  kind: ImportSource;
+  reference: string;
+  title: string;
+  source: string;
+  loadData: () => Promise<string>;
+};
+
 export const importCmd = defineCommand({
   meta: {
     name: 'import',
@@ -32,6 +46,38 @@ export const importCmd = defineCommand({
       alias: 'gh',
       description: 'GitHub issue URL or shorthand (e.g. owner/repo#123)',
     },
+    linear: {
+      type: 'string',
+      required: false,
+      description: 'Linear issue ID (e.g. ENG-123) or full URL',
+    },
+    gitlab: {
+      type: 'string',
+      required: false,
+      description: 'GitLab issue URL or shorthand (e.g. group/project#123)',
+    },
+    jql: {
+      type: 'string',
+      required: false,
+      description: 'Import the Jira tickets matching a JQL query',
+    },
+    ['github-query']: {
+      type: 'string',
+      required: false,
+      description:
+        'Import the GitHub issues matching a search query (e.g. "repo:owner/repo label:ody")',
+    },
+    limit: {
+      type: 'string',
+      default: '50',
+      description: 'Maximum number of search results to fetch',
+    },
+    yes: {
+      type: 'boolean',
+      alias: 'y',
+      default: false,
+      description: 'Import every new search result without asking',
+    },
     verbose: {
       type: 'boolean',
       default: false,
@@ -46,33 +92,81 @@ export const importCmd = defineCommand({
   },
   async run({ args }) {
     const config = Config.all();
-    const backend = new Backend(config.backend, config);
+    const backend = new Backend(Config.primaryBackend('plan', config).name, config);
     const tasksDirPath = path.join(BASE_DIR, config.tasksDir ?? TASKS_DIR);
 
-    const hasJira = Boolean(args.jira);
-    const hasGitHub = Boolean(args.github);
+    const sourceCount = [
+      args.jira,
+      args.github,
+      args.linear,
+      args.gitlab,
+      args.jql,
+      args['github-query'],
+    ].filter(Boolean).length;
 
-    if (hasJira && hasGitHub) {
-      log.error('Provide exactly one source: --jira or --github, not both.');
+    if (sourceCount !== 1) {
+      log.error(
+        'Provide exactly one source: --jira, --github, --linear, --gitlab, --jql or --github-query.',
+      );
       process.exit(1);
     }
 
-    if (!hasJira && !hasGitHub) {
-      log.error('Provide exactly one source: --jira or --github.');
-      process.exit(1);
+    const imported = await getImportedSources(tasksDirPath);
+
+    if (args.jql || args['github-query']) {
+      const limit = parseInt(args.limit, 10);
+
+      if (Number.isNaN(limit) || limit <= 0) {
+        log.error(`Invalid --limit value "${args.limit}". Must be a positive integer.`);
+        process.exit(1);
+      }
+
+      const items = args.jql
+        ? await searchJira(args.jql, limit, config.jira)
+        : await searchGitHub(args['github-query'] as string, limit, config.github);
+
+      await importItems(items, imported, {
+        yes: args.yes,
+        dryRun: args['dry-run'],
+        verbose: args.verbose,
+        backend,
+        tasksDirPath,
+      });
+      return;
     }
 
     let prompt: string;
     let sourceLabel: string;
+    let source: string;
 
-    if (hasJira) {
-      const result = await buildJiraPrompt(args.jira as string, config.jira);
+    if (args.jira) {
+      const result = await buildJiraPrompt(args.jira, config.jira);
       prompt = result.prompt;
       sourceLabel = result.sourceLabel;
+      source = formatTaskSource('jira', result.sourceLabel);
+    } else if (args.linear) {
+      const result = await buildLinearPrompt(args.linear, config.linear);
+      prompt = result.prompt;
+      sourceLabel = result.sourceLabel;
+      source = formatTaskSource('linear', result.sourceLabel);
+    } else if (args.gitlab) {
+      const result = await buildGitLabPrompt(args.gitlab, config.gitlab);
+      prompt = result.prompt;
+      sourceLabel = result.sourceLabel;
+      source = formatTaskSource('gitlab', result.sourceLabel);
     } else {
       const result = await buildGitHubPromptFromArgs(args.github as string, config.github);
       prompt = result.prompt;
       sourceLabel = result.sourceLabel;
+      source = formatTaskSource('github', result.sourceLabel);
+    }
+
+    const existingTask = imported.get(source);
+
+    if (existingTask) {
+      log.warn(`${sourceLabel} was already imported as ${existingTask}.`);
+      outro('Nothing imported');
+      return;
     }
 
     if (args['dry-run']) {
@@ -81,7 +175,13 @@ export const importCmd = defineCommand({
       return;
     }
 
-    await spawnAgent(prompt, sourceLabel, args.verbose, backend, tasksDirPath);
+    try {
+      await generateTask(prompt, sourceLabel, source, args.verbose, backend, tasksDirPath);
+    } catch {
+      process.exit(1);
+    }
+
+    outro(`Task imported from ${sourceLabel}`);
   },
 });
 
@@ -112,10 +212,11 @@ async function buildJiraPrompt(input: string, jiraConfig: OdyConfig['jira']) {
 }
 
 async function buildGitHubPromptFromArgs(input: string, githubConfig: OdyConfig['github']) {
-  const { owner, repo, issueNumber } = GitHub.parseInput(input);
+  const host = GitHub.resolveHost(githubConfig);
+  const { owner, repo, issueNumber } = GitHub.parseInput(input, host);
   const issueRef = `${owner}/${repo}#${issueNumber}`;
   const profile = githubConfig?.profile ?? 'default';
-  const auth = await Auth.getGitHub(profile);
+  const auth = await Auth.getGitHub(profile, host.hostname);
   const token = auth?.token;
 
   const spin = spinner();
@@ -124,7 +225,7 @@ async function buildGitHubPromptFromArgs(input: string, githubConfig: OdyConfig[
 
   try {
     spin.start(`Fetching ${issueRef} from GitHub...`);
-    issue = await GitHub.fetchIssue(owner, repo, issueNumber, token);
+    issue = await GitHub.fetchIssue(owner, repo, issueNumber, token, host.apiUrl);
     spin.stop(`Fetched ${issueRef}: ${issue.title}`);
   } catch (err) {
     spin.stop(`Failed to fetch ${issueRef}`);
@@ -138,9 +239,238 @@ async function buildGitHubPromptFromArgs(input: string, githubConfig: OdyConfig[
   return { prompt, sourceLabel: issueRef };
 }
 
-async function spawnAgent(
+async function buildLinearPrompt(input: string, linearConfig: OdyConfig['linear']) {
+  const identifier = Linear.parseInput(input);
+  const profile = linearConfig?.profile ?? 'default';
+  const auth = await Auth.getLinear(profile);
+
+  if (!auth) {
+    log.error(
+      `Missing Linear credentials for profile "${profile}". Run \`ody auth linear\` to configure them.`,
+    );
+    process.exit(1);
+  }
+
+  const spin = spinner();
+
+  let issue;
+
+  try {
+    spin.start(`Fetching ${identifier} from Linear...`);
+    issue = await Linear.fetchIssue(identifier, auth.apiKey);
+    spin.stop(`Fetched ${identifier}: ${issue.title}`);
+  } catch (err) {
+    spin.stop(`Failed to fetch ${identifier}`);
+    log.error(`${err}`);
+    process.exit(1);
+  }
+
+  const issueData = Linear.formatAsDescription(issue);
+  const prompt = buildImportPrompt({ data: issueData, source: 'linear' });
+
+  return { prompt, sourceLabel: identifier };
+}
+
+async function buildGitLabPrompt(input: string, gitlabConfig: OdyConfig['gitlab']) {
+  const { baseUrl, projectPath, issueIid } = GitLab.parseInput(input, gitlabConfig?.baseUrl);
+  const issueRef = `${projectPath}#${issueIid}`;
+  const profile = gitlabConfig?.profile ?? 'default';
+  const auth = await Auth.getGitLab(profile);
+
+  const spin = spinner();
+
+  let issue;
+
+  try {
+    spin.start(`Fetching ${issueRef} from GitLab...`);
+    issue = await GitLab.fetchIssue(baseUrl, projectPath, issueIid, auth?.token);
+    spin.stop(`Fetched ${issueRef}: ${issue.title}`);
+  } catch (err) {
+    spin.stop(`Failed to fetch ${issueRef}`);
+    log.error(`${err}`);
+    process.exit(1);
+  }
+
+  const issueData = GitLab.formatAsDescription(issue, projectPath);
+  const prompt = buildImportPrompt({ data: issueData, source: 'gitlab' });
+
+  return { prompt, sourceLabel: issueRef };
+}
+
+async function searchJira(
+  jql: string,
+  limit: number,
+  jiraConfig: OdyConfig['jira'],
+): Promise<ImportItem[]> {
+  const baseUrl = jiraConfig?.baseUrl;
+
+  if (!baseUrl) {
+    log.error('Set jira.baseUrl in .ody/ody.json to search Jira with --jql.');
+    process.exit(1);
+  }
+
+  const auth = await Auth.getJira(jiraConfig?.profile ?? 'default');
+  const spin = spinner();
+
+  try {
+    spin.start('Searching Jira...');
+    const tickets = await Jira.searchTickets(baseUrl, jql, auth, { limit });
+    spin.stop(`Found ${tickets.length} ticket(s)`);
+
+    return tickets.map((ticket) => ({
+      kind: 'jira',
+      reference: ticket.key,
+      title: ticket.summary,
+      source: formatTaskSource('jira', ticket.key),
+      loadData: async () => Jira.formatAsDescription(ticket),
+    }));
+  } catch (err) {
+    spin.stop('Jira search failed');
+    log.error(`${err}`);
+    process.exit(1);
+  }
+}
+
+async function searchGitHub(
+  query: string,
+  limit: number,
+  githubConfig: OdyConfig['github'],
+): Promise<ImportItem[]> {
+  const host = GitHub.resolveHost(githubConfig);
+  const auth = await Auth.getGitHub(githubConfig?.profile ?? 'default', host.hostname);
+  const token = auth?.token;
+  const spin = spinner();
+
+  try {
+    spin.start('Searching GitHub...');
+    const results = await GitHub.searchIssues(query, token, { limit, apiUrl: host.apiUrl });
+    spin.stop(`Found ${results.length} issue(s)`);
+
+    return results.map(({ owner, repo, issue }) => {
+      const reference = `${owner}/${repo}#${issue.number}`;
+
+      return {
+        kind: 'github',
+        reference,
+        title: issue.title,
+        source: formatTaskSource('github', reference),
+        loadData: async () =>
+          GitHub.formatAsDescription(
+            await GitHub.fetchIssue(owner, repo, issue.number, token, host.apiUrl),
+            owner,
+            repo,
+          ),
+      };
+    });
+  } catch (err) {
+    spin.stop('GitHub search failed');
+    log.error(`${err}`);
+    process.exit(1);
+  }
+}
+
+async function importItems(
+  items: ImportItem[],
+  imported: Map<string, string>,
+  options: {
+    yes: boolean;
+    dryRun: boolean;
+    verbose: boolean;
+    backend: Backend;
+    tasksDirPath: string;
+  },
+) {
+  const newItems = items.filter((item) => !imported.has(item.source));
+  const skipped = items.length - newItems.length;
+
+  if (skipped > 0) {
+    log.info(`Skipping ${skipped} already imported result(s).`);
+  }
+
+  if (newItems.length === 0) {
+    outro('Nothing new to import');
+    return;
+  }
+
+  let selected = newItems;
+
+  if (!options.yes) {
+    const references = await multiselect({
+      message: 'Select the tickets to import',
+      options: newItems.map((item) => ({
+        value: item.reference,
+        label: item.reference,
+        hint: item.title,
+      })),
+      initialValues: newItems.map((item) => item.reference),
+      required: false,
+    });
+
+    if (isCancel(references)) {
+      cancel('Nothing imported.');
+      return;
+    }
+
+    selected = newItems.filter((item) => references.includes(item.reference));
+  }
+
+  if (selected.length === 0) {
+    outro('Nothing imported');
+    return;
+  }
+
+  const failed: string[] = [];
+
+  for (const [index, item] of selected.entries()) {
+    const label = `${item.reference} (${index + 1}/${selected.length})`;
+
+    let data: string;
+
+    try {
+      data = await item.loadData();
+    } catch (err) {
+      log.error(`Failed to fetch ${item.reference}: ${err}`);
+      failed.push(item.reference);
+      continue;
+    }
+
+    const prompt = buildImportPrompt({ data, source: item.kind });
+
+    if (options.dryRun) {
+      log.info(`${label}\n${prompt}`);
+      continue;
+    }
+
+    try {
+      await generateTask(
+        prompt,
+        label,
+        item.source,
+        options.verbose,
+        options.backend,
+        options.tasksDirPath,
+      );
+    } catch {
+      failed.push(item.reference);
+    }
+  }
+
+  if (options.dryRun) {
+    outro('Dry run complete');
+  } else {
+    outro(`Imported ${selected.length - failed.length} of ${selected.length} task(s)`);
+  }
+
+  if (failed.length > 0) {
+    log.error(`Failed to import: ${failed.join(', ')}`);
+    process.exit(1);
+  }
+}
+
+async function generateTask(
   prompt: string,
   sourceLabel: string,
+  source: string,
   verbose: boolean,
   backend: Backend,
   tasksDirPath: string,
@@ -149,6 +479,7 @@ async function spawnAgent(
 
   try {
     await mkdir(tasksDirPath, { recursive: true });
+    const before = await getTaskFilesInDir(tasksDirPath);
     spin.start(`Generating task from ${sourceLabel}...`);
 
     const proc = Bun.spawn({
@@ -171,12 +502,12 @@ async function spawnAgent(
     const exitCode = await proc.exited;
     validateAgentCompletion(exitCode, markerDetection, { requireMarker: true });
 
-    spin.stop(`Task generated`);
+    const created = await recordTaskSource(tasksDirPath, before, source);
+
+    spin.stop(created.length > 0 ? `Task generated: ${created.join(', ')}` : 'Task generated');
   } catch (err) {
     spin.stop('Task generation failed');
     log.error(`Failed to generate task: ${err}`);
-    process.exit(1);
+    throw err;
   }
-
-  outro(`Task imported from ${sourceLabel}`);
 }
@@ -6,8 +6,16 @@ export const taskCmd = defineCommand({
     description: 'Manage Ody tasks',
   },
   subCommands: {
+    delete: () => import('./delete').then((m) => m.deleteCmd),
     edit: () => import('./edit').then((m) => m.editCmd),
     import: () => import('./import').then((m) => m.importCmd),
+    lint: () => import('./lint').then((m) => m.lintCmd),
     list: () => import('./list').then((m) => m.listCmd),
+    new: () => import('./new').then((m) => m.newCmd),
+    reopen: () => import('./reopen').then((m) => m.reopenCmd),
+    rollback: () => import('./rollback').then((m) => m.rollbackCmd),
+    ['set-status']: () => import('./setStatus').then((m) => m.setStatusCmd),
+    show: () => import('./show').then((m) => m.showCmd),
+    sync: () => import('./sync').then((m) => m.syncCmd),
   },
 });
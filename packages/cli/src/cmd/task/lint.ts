@@ -0,0 +1,58 @@
+import { exists } from 'node:fs/promises';
+
+import { log, outro } from '@clack/prompts';
+import { resolveTasksDir } from '@internal/tasks';
+import { defineCommand } from 'citty';
+
+import { formatLintIssue, lintTasks } from '../../lib/taskLint';
+
+export const lintCmd = defineCommand({
+  meta: {
+    name: 'lint',
+    description: 'Check task files for structural problems',
+  },
+  args: {
+    fix: {
+      description: 'Repair mechanical problems such as status typos and task references',
+      type: 'boolean',
+      default: false,
+    },
+  },
+  async run({ args }) {
+    const tasksDir = resolveTasksDir();
+
+    if (!(await exists(tasksDir))) {
+      log.error(`${tasksDir} not found.`);
+      process.exit(1);
+    }
+
+    const result = await lintTasks(tasksDir, { fix: args.fix });
+
+    for (const taskFile of result.fixed) {
+      log.success(`Fixed ${taskFile}`);
+    }
+
+    for (const issue of result.issues) {
+      if (issue.severity === 'error') {
+        log.error(formatLintIssue(issue));
+      } else {
+        log.warn(formatLintIssue(issue));
+      }
+    }
+
+    if (result.fixable.length > 0) {
+      log.info(
+        `${result.fixable.length} file(s) can be repaired automatically with \`ody task lint --fix\``,
+      );
+    }
+
+    const errors = result.issues.filter((issue) => issue.severity === 'error').length;
+    const warnings = result.issues.length - errors;
+
+    outro(`Checked ${result.fileCount} task file(s): ${errors} error(s), ${warnings} warning(s)`);
+
+    if (errors > 0) {
+      process.exit(1);
+    }
+  },
+});
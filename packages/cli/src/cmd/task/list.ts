@@ -4,64 +4,188 @@ import path from 'node:path';
 import { log, outro } from '@clack/prompts';
 import {
   getTaskFilesInTasksDir,
+  getTaskNodes,
   mapWithConcurrency,
-  parseFrontmatter,
+  normalizeTaskRef,
+  parseComplexity,
+  parseDescription,
+  parseLabels,
+  parseTaskFrontmatter,
   parseTitle,
+  resolveTaskReadiness,
   resolveTasksDir,
+  type TaskReadiness,
+  type TaskStatus,
 } from '@internal/tasks';
 import { defineCommand } from 'citty';
 
+import {
+  TASK_LIST_FORMATS,
+  TASK_LIST_SORTS,
+  filterTaskList,
+  formatTaskList,
+  formatTaskListItem,
+  getReadinessFields,
+  getRepeatedArg,
+  parseLabelFilter,
+  parseStatusFilter,
+  sortTaskList,
+  type TaskListItem,
+} from '../../lib/taskList';
+
 const TASK_READ_CONCURRENCY = 8;
 
 export const listCmd = defineCommand({
   meta: {
     name: 'list',
-    description: 'List pending tasks',
+    description: 'List tasks, filtered by status and label',
   },
-  async run() {
+  args: {
+    status: {
+      type: 'string',
+      alias: 's',
+      description: 'Comma-separated statuses to include, or "all"',
+      default: 'pending',
+    },
+    label: {
+      type: 'string',
+      alias: 'l',
+      description:
+        'Only tasks with one of these comma-separated labels (repeat to require several)',
+      required: false,
+    },
+    sort: {
+      type: 'string',
+      description: `Sort by ${TASK_LIST_SORTS.join(', ')}`,
+      required: false,
+    },
+    format: {
+      type: 'string',
+      alias: 'f',
+      description: `Output format (${TASK_LIST_FORMATS.join(', ')})`,
+      default: 'table',
+    },
+  },
+  async run({ args, rawArgs }) {
     const tasksDir = resolveTasksDir();
+    const sort = TASK_LIST_SORTS.find((value) => value === args.sort);
+    const format = TASK_LIST_FORMATS.find((value) => value === args.format);
+
+    if (args.sort !== undefined && !sort) {
+      log.error(
+        `Invalid --sort value "${args.sort}". Must be one of: ${TASK_LIST_SORTS.join(', ')}.`,
+      );
+      process.exit(1);
+    }
+
+    if (!format) {
+      log.error(
+        `Invalid --format value "${args.format}". Must be one of: ${TASK_LIST_FORMATS.join(', ')}.`,
+      );
+      process.exit(1);
+    }
+
+    // Keep stdout parseable in machine-readable formats.
+    const warn = (message: string) =>
+      format === 'table' ? log.warn(message) : process.stderr.write(`${message}\n`);
+    const fail = (message: string): never => {
+      if (format === 'table') {
+        log.error(message);
+      } else {
+        process.stderr.write(`${message}\n`);
+      }
+
+      process.exit(1);
+    };
+
+    let statuses: TaskStatus[] = [];
+
+    try {
+      statuses = parseStatusFilter(args.status);
+    } catch (err) {
+      fail(Error.isError(err) ? err.message : String(err));
+    }
 
     if (!(await exists(tasksDir))) {
-      log.error(`${tasksDir} not found.`);
-      return;
+      fail(`${tasksDir} not found.`);
     }
 
     const taskFiles = await getTaskFilesInTasksDir();
 
-    if (taskFiles.length === 0) {
-      log.info('No task files found.');
-      return;
+    let readiness: TaskReadiness[] = [];
+
+    try {
+      readiness = taskFiles.length > 0 ? resolveTaskReadiness(await getTaskNodes(tasksDir)) : [];
+    } catch (err) {
+      fail(Error.isError(err) ? err.message : String(err));
     }
 
-    const pendingTaskData = await mapWithConcurrency(
+    const readinessByFile = new Map(readiness.map((task) => [task.taskFile, task]));
+
+    const taskData = await mapWithConcurrency(
       taskFiles,
       TASK_READ_CONCURRENCY,
-      async (filename) => {
-        const content = await Bun.file(path.join(tasksDir, filename)).text();
-        const frontmatter = parseFrontmatter(content);
+      async (taskFile): Promise<TaskListItem | null> => {
+        const content = await Bun.file(path.join(tasksDir, taskFile)).text();
+
+        try {
+          const frontmatter = parseTaskFrontmatter(content, taskFile);
 
-        if (frontmatter.status !== 'pending') {
+          return {
+            taskFile,
+            title: parseTitle(content),
+            description: parseDescription(content),
+            status: frontmatter.status,
+            ...getReadinessFields(readinessByFile.get(taskFile)),
+            priority: frontmatter.priority ?? 'medium',
+            complexity: parseComplexity(content),
+            labels: parseLabels(content),
+            dependsOn: (frontmatter.dependsOn ?? []).map(normalizeTaskRef),
+            created: frontmatter.created ?? null,
+            started: frontmatter.started ?? null,
+            completed: frontmatter.completed ?? null,
+          };
+        } catch (err) {
+          warn(Error.isError(err) ? err.message : String(err));
           return null;
         }
-
-        const title = parseTitle(content);
-        return { title, filename };
       },
     );
 
-    const pending = pendingTaskData.filter((task): task is { title: string; filename: string } =>
-      Boolean(task),
+    const labels = parseLabelFilter(getRepeatedArg(rawArgs, 'label', 'l'));
+    const tasks = sortTaskList(
+      filterTaskList(
+        taskData.filter((task): task is TaskListItem => task !== null),
+        { statuses, labels },
+      ),
+      sort,
     );
 
-    if (pending.length === 0) {
-      log.info('No pending tasks.');
+    if (format !== 'table') {
+      process.stdout.write(formatTaskList(tasks, format));
+      return;
+    }
+
+    if (taskFiles.length === 0) {
+      log.info('No task files found.');
       return;
     }
 
-    log.info(`Found ${pending.length} pending task(s):`);
+    if (tasks.length === 0) {
+      log.info(
+        labels.length === 0 && statuses.length === 1 && statuses[0] === 'pending'
+          ? 'No pending tasks.'
+          : 'No tasks match the filters.',
+      );
+      return;
+    }
+
+    const noun = statuses.length === 1 ? `${statuses[0]} task(s)` : 'task(s)';
+
+    log.info(`Found ${tasks.length} ${noun}:`);
 
-    for (const task of pending) {
-      log.message(`  - ${task.title}  (${task.filename})`);
+    for (const task of tasks) {
+      log.message(formatTaskListItem(task));
     }
 
     outro('Done');
@@ -0,0 +1,94 @@
+import { exists, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+
+import { log, outro } from '@clack/prompts';
+import { TASK_COMPLEXITIES, TASK_PRIORITIES, resolveTasksDir } from '@internal/tasks';
+import { defineCommand } from 'citty';
+
+import { buildTaskFile, slugifyTitle, splitList, today } from '../../lib/taskFiles';
+
+export const newCmd = defineCommand({
+  meta: {
+    name: 'new',
+    description: 'Create a task file from the task template',
+  },
+  args: {
+    title: {
+      type: 'positional',
+      description: 'Task title',
+      required: true,
+    },
+    labels: {
+      type: 'string',
+      alias: 'l',
+      description: 'Comma-separated labels',
+      required: false,
+    },
+    priority: {
+      type: 'string',
+      alias: 'p',
+      description: `Task priority (${TASK_PRIORITIES.join(', ')})`,
+      default: 'medium',
+    },
+    complexity: {
+      type: 'string',
+      description: `Task complexity (${TASK_COMPLEXITIES.join(', ')})`,
+      required: false,
+    },
+    ['depends-on']: {
+      type: 'string',
+      description: 'Comma-separated task files this task depends on',
+      required: false,
+    },
+  },
+  async run({ args }) {
+    const tasksDir = resolveTasksDir();
+    const title = args.title.trim();
+    const priority = TASK_PRIORITIES.find((value) => value === args.priority);
+    const complexity = TASK_COMPLEXITIES.find((value) => value === args.complexity);
+
+    if (!priority) {
+      log.error(
+        `Invalid --priority value "${args.priority}". Must be one of: ${TASK_PRIORITIES.join(', ')}.`,
+      );
+      process.exit(1);
+    }
+
+    if (args.complexity !== undefined && !complexity) {
+      log.error(
+        `Invalid --complexity value "${args.complexity}". Must be one of: ${TASK_COMPLEXITIES.join(', ')}.`,
+      );
+      process.exit(1);
+    }
+
+    const slug = slugifyTitle(title);
+
+    if (!slug) {
+      log.error('The task title must contain at least one letter or digit.');
+      process.exit(1);
+    }
+
+    const taskFile = `${slug}.code-task.md`;
+    const taskPath = path.join(tasksDir, taskFile);
+
+    if (await exists(taskPath)) {
+      log.error(`${taskPath} already exists.`);
+      process.exit(1);
+    }
+
+    await mkdir(tasksDir, { recursive: true });
+    await Bun.write(
+      taskPath,
+      buildTaskFile({
+        title,
+        date: today(),
+        priority,
+        complexity,
+        labels: splitList(args.labels),
+        dependsOn: splitList(args['depends-on']),
+      }),
+    );
+
+    outro(`Created ${taskPath}`);
+  },
+});
@@ -0,0 +1,41 @@
+import path from 'node:path';
+
+import { log, outro } from '@clack/prompts';
+import { parseTaskFrontmatter, resolveTasksDir, updateTaskFrontmatter } from '@internal/tasks';
+import { defineCommand } from 'citty';
+
+import { getStatusFields, resolveTaskFile, today } from '../../lib/taskFiles';
+
+export const reopenCmd = defineCommand({
+  meta: {
+    name: 'reopen',
+    description: 'Move a task back to pending so it runs again',
+  },
+  args: {
+    task: {
+      type: 'positional',
+      description: 'Task file name or path',
+      required: true,
+    },
+  },
+  async run({ args }) {
+    const tasksDir = resolveTasksDir();
+
+    try {
+      const taskFile = await resolveTaskFile(tasksDir, args.task);
+      const taskPath = path.join(tasksDir, taskFile);
+      const frontmatter = parseTaskFrontmatter(await Bun.file(taskPath).text(), taskFile);
+
+      if (frontmatter.status === 'pending') {
+        outro(`${taskFile} is already pending`);
+        return;
+      }
+
+      await updateTaskFrontmatter(taskPath, getStatusFields('pending', frontmatter, today()));
+      outro(`Reopened ${taskFile}`);
+    } catch (err) {
+      log.error(Error.isError(err) ? err.message : String(err));
+      process.exit(1);
+    }
+  },
+});
@@ -0,0 +1,75 @@
+import path from 'node:path';
+
+import { cancel, confirm, isCancel, log, outro } from '@clack/prompts';
+import { BASE_DIR } from '@internal/config';
+import { Checkpoints, Journal } from '@internal/runs';
+import { resolveTasksDir } from '@internal/tasks';
+import { defineCommand } from 'citty';
+
+import { resolveTaskFile } from '../../lib/taskFiles';
+
+export const rollbackCmd = defineCommand({
+  meta: {
+    name: 'rollback',
+    description: 'Restore the working tree to before a task ran and reset it to pending',
+  },
+  args: {
+    task: {
+      type: 'positional',
+      description: 'Task file name or path',
+      required: true,
+    },
+    yes: {
+      type: 'boolean',
+      alias: 'y',
+      description: 'Roll back without asking for confirmation',
+      default: false,
+    },
+  },
+  async run({ args }) {
+    const tasksDir = resolveTasksDir();
+
+    try {
+      const activeRun = (await Journal.list(Journal.resolveRunsDir(BASE_DIR))).find((run) =>
+        Journal.isActive(run),
+      );
+
+      if (activeRun) {
+        throw new Error(
+          `An ody run (${activeRun.id}, pid ${activeRun.pid}) is still active; stop it before rolling back`,
+        );
+      }
+
+      const taskFile = await resolveTaskFile(tasksDir, args.task);
+      const taskPath = path.join(tasksDir, taskFile);
+      const status = await Checkpoints.inspect(process.cwd(), taskPath);
+
+      log.info(`Checkpoint ${status.checkpoint.slice(0, 7)} on top of ${status.head.slice(0, 7)}`);
+
+      if (status.laterCommits.length > 0) {
+        log.warn(
+          `Rolling back also undoes ${status.laterCommits.length} later commit(s):\n${status.laterCommits.join('\n')}`,
+        );
+      }
+
+      if (status.hasUncommittedChanges) {
+        log.warn(`Uncommitted changes outside ${BASE_DIR}/ will be replaced by the checkpoint.`);
+      }
+
+      if (!args.yes) {
+        const confirmed = await confirm({ message: `Roll back ${taskFile}?` });
+
+        if (isCancel(confirmed) || !confirmed) {
+          cancel('Nothing rolled back.');
+          return;
+        }
+      }
+
+      await Checkpoints.rollback(process.cwd(), taskPath);
+      outro(`Rolled back ${taskFile}; it is pending again`);
+    } catch (err) {
+      log.error(Error.isError(err) ? err.message : String(err));
+      process.exit(1);
+    }
+  },
+});
@@ -0,0 +1,56 @@
+import path from 'node:path';
+
+import { log, outro } from '@clack/prompts';
+import {
+  TASK_STATUSES,
+  parseTaskFrontmatter,
+  resolveTasksDir,
+  updateTaskFrontmatter,
+} from '@internal/tasks';
+import { defineCommand } from 'citty';
+
+import { getStatusFields, isTaskStatus, resolveTaskFile, today } from '../../lib/taskFiles';
+
+export const setStatusCmd = defineCommand({
+  meta: {
+    name: 'set-status',
+    description: 'Change the status of a task and update its dates',
+  },
+  args: {
+    task: {
+      type: 'positional',
+      description: 'Task file name or path',
+      required: true,
+    },
+    status: {
+      type: 'positional',
+      description: `New status (${TASK_STATUSES.join(', ')})`,
+      required: true,
+    },
+  },
+  async run({ args }) {
+    const tasksDir = resolveTasksDir();
+
+    if (!isTaskStatus(args.status)) {
+      log.error(`Invalid status "${args.status}". Must be one of: ${TASK_STATUSES.join(', ')}.`);
+      process.exit(1);
+    }
+
+    try {
+      const taskFile = await resolveTaskFile(tasksDir, args.task);
+      const taskPath = path.join(tasksDir, taskFile);
+      const frontmatter = parseTaskFrontmatter(await Bun.file(taskPath).text(), taskFile);
+
+      if (frontmatter.status === args.status) {
+        outro(`${taskFile} is already ${args.status}`);
+        return;
+      }
+
+      await updateTaskFrontmatter(taskPath, getStatusFields(args.status, frontmatter, today()));
+      outro(`${taskFile}: ${frontmatter.status} → ${args.status}`);
+    } catch (err) {
+      log.error(Error.isError(err) ? err.message : String(err));
+      process.exit(1);
+    }
+  },
+});
@@ -0,0 +1,72 @@
+import path from 'node:path';
+
+import { log, outro } from '@clack/prompts';
+import {
+  FRONTMATTER_REGEX,
+  formatBlockedReason,
+  getTaskNodes,
+  parseAcceptanceCriteria,
+  parseComplexity,
+  parseLabels,
+  parseTaskFrontmatter,
+  parseTitle,
+  resolveTaskReadiness,
+  resolveTasksDir,
+} from '@internal/tasks';
+import { defineCommand } from 'citty';
+
+import { resolveTaskFile } from '../../lib/taskFiles';
+
+export const showCmd = defineCommand({
+  meta: {
+    name: 'show',
+    description: 'Show a task file',
+  },
+  args: {
+    task: {
+      type: 'positional',
+      description: 'Task file name or path',
+      required: true,
+    },
+  },
+  async run({ args }) {
+    const tasksDir = resolveTasksDir();
+
+    try {
+      const taskFile = await resolveTaskFile(tasksDir, args.task);
+      const content = await Bun.file(path.join(tasksDir, taskFile)).text();
+      const frontmatter = parseTaskFrontmatter(content, taskFile);
+      const readiness = resolveTaskReadiness(await getTaskNodes(tasksDir)).find(
+        (task) => task.taskFile === taskFile,
+      );
+      const labels = parseLabels(content);
+      const dependsOn = frontmatter.dependsOn ?? [];
+      const criteria = parseAcceptanceCriteria(content);
+
+      const details = [
+        `Status:     ${frontmatter.status}${frontmatter.status === 'pending' && readiness ? ` (${readiness.ready ? 'ready' : formatBlockedReason(readiness)})` : ''}`,
+        `Priority:   ${frontmatter.priority ?? 'medium'}`,
+        `Complexity: ${parseComplexity(content) ?? '-'}`,
+        `Labels:     ${labels.length > 0 ? labels.join(', ') : '-'}`,
+        `Depends on: ${dependsOn.length > 0 ? dependsOn.join(', ') : '-'}`,
+        `Criteria:   ${criteria.length > 0 ? `${criteria.filter((criterion) => criterion.checked).length}/${criteria.length} checked` : '-'}`,
+        `Created:    ${frontmatter.created ?? '-'}`,
+        `Started:    ${frontmatter.started ?? '-'}`,
+        `Completed:  ${frontmatter.completed ?? '-'}`,
+      ];
+
+      log.info(`${parseTitle(content)}  (${taskFile})`);
+      log.message(details.join('\n'));
+      log.message(
+        content
+          .replace(FRONTMATTER_REGEX, '')
+          .replace(/^#\s+.*$/m, '')
+          .trim(),
+      );
+      outro(path.join(tasksDir, taskFile));
+    } catch (err) {
+      log.error(Error.isError(err) ? err.message : String(err));
+      process.exit(1);
+    }
+  },
+});
@@ -0,0 +1,83 @@
+import path from 'node:path';
+
+import { log, outro } from '@clack/prompts';
+import { Config } from '@internal/config';
+import { getTaskFilesInDir, resolveTasksDir } from '@internal/tasks';
+import { defineCommand } from 'citty';
+
+import { syncTask } from '../../lib/sync';
+import { resolveTaskFile } from '../../lib/taskFiles';
+
+export const syncCmd = defineCommand({
+  meta: {
+    name: 'sync',
+    description: 'Push the status of imported tasks back to Jira or GitHub',
+  },
+  args: {
+    task: {
+      type: 'positional',
+      description: 'Task file name or path (defaults to every imported task)',
+      required: false,
+    },
+    force: {
+      type: 'boolean',
+      alias: 'f',
+      description: 'Sync tasks whose current status was already synced',
+      default: false,
+    },
+  },
+  async run({ args }) {
+    const config = Config.all();
+    const tasksDir = resolveTasksDir(config.tasksDir);
+    let taskFiles: string[];
+
+    try {
+      taskFiles = args.task
+        ? [await resolveTaskFile(tasksDir, args.task)]
+        : await getTaskFilesInDir(tasksDir);
+    } catch (err) {
+      log.error(Error.isError(err) ? err.message : String(err));
+      process.exit(1);
+    }
+
+    let synced = 0;
+    let failed = 0;
+
+    for (const taskFile of taskFiles) {
+      try {
+        const result = await syncTask(path.join(tasksDir, taskFile), config, {
+          force: args.force,
+        });
+
+        if (!result) {
+          if (args.task) {
+            log.warn(`${taskFile} was not imported from Jira or GitHub`);
+          }
+          continue;
+        }
+
+        synced++;
+
+        if (result.actions.length > 0) {
+          log.success(`${taskFile} (${result.status}): ${result.actions.join(', ')}`);
+        } else {
+          log.info(`${taskFile} (${result.status}): already up to date`);
+        }
+      } catch (err) {
+        failed++;
+        log.error(`${taskFile}: ${Error.isError(err) ? err.message : String(err)}`);
+      }
+    }
+
+    if (synced === 0 && failed === 0) {
+      outro('No imported tasks to sync');
+      return;
+    }
+
+    outro(`Synced ${synced} task(s)${failed > 0 ? `, ${failed} failed` : ''}`);
+
+    if (failed > 0) {
+      process.exit(1);
+    }
+  },
+});
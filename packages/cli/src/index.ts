@@ -1,5 +1,7 @@
 import { log } from '@clack/prompts';
+import { Harnesses } from '@internal/backends';
 import { Config } from '@internal/config';
+import { Git } from '@internal/git';
 import { defineCommand, runMain } from 'citty';
 
 import pkg from '../package.json';
@@ -23,6 +25,10 @@ const ody = defineCommand({
 
     try {
       await Config.load();
+      // Module harness paths are relative to the project root, not the
+      // directory ody was started from.
+      const projectRoot = await Git.getTopLevel().catch(() => process.cwd());
+      await Harnesses.load(Config.all(), projectRoot);
     } catch (err) {
       log.error(String(err));
       process.exit(1);
@@ -36,6 +42,7 @@ const ody = defineCommand({
     plan: () => import('./cmd/plan').then((m) => m.planCmd),
     pr: () => import('./cmd/pr').then((m) => m.prCmd),
     run: () => import('./cmd/run').then((m) => m.runCmd),
+    runs: () => import('./cmd/runs').then((m) => m.runsCmd),
     task: () => import('./cmd/task').then((m) => m.taskCmd),
     update: () => import('./cmd/update').then((m) => m.updateCmd),
   },
@@ -0,0 +1,120 @@
+import { describe, expect, test } from 'bun:test';
+
+import { Backend } from '@internal/backends';
+
+import {
+  formatAgentTimeout,
+  formatFallbackRetry,
+  getRetryableFailureReason,
+  invokeWithFallback,
+  type AgentCandidate,
+  type AgentInvocation,
+  type FallbackRetry,
+} from '../agent';
+
+const claude: AgentCandidate = { name: 'claude', backend: new Backend('claude', {}) };
+const codex: AgentCandidate = { name: 'codex', model: 'o3', backend: new Backend('codex', {}) };
+
+function invocation(exitCode: number, stderr = ''): AgentInvocation {
+  return {
+    exitCode,
+    stdout: '',
+    stderr,
+    markerDetection: { hasStrictMatch: exitCode === 0, hasAmbiguousMention: false },
+    usage: null,
+    timeout: null,
+  };
+}
+
+function runFallback(results: Record<string, AgentInvocation[]>, retries = 1) {
+  const invoked: string[] = [];
+  const retried: FallbackRetry[] = [];
+  const sleeps: number[] = [];
+
+  const result = invokeWithFallback({
+    candidates: [claude, codex],
+    retries,
+    invoke: async (candidate) => {
+      invoked.push(candidate.name);
+      return results[candidate.name]?.shift() ?? invocation(0);
+    },
+    onRetry: (retry) => {
+      retried.push(retry);
+    },
+    sleepFn: async (ms) => {
+      sleeps.push(ms);
+    },
+  });
+
+  return { result, invoked, retried, sleeps };
+}
+
+describe('agent fallback', () => {
+  test('classifies rate limits and outages as retryable', () => {
+    expect(getRetryableFailureReason(invocation(1, 'Error: 429 Too Many Requests'))).toBe(
+      'exit 1, "Too Many Requests"',
+    );
+    expect(getRetryableFailureReason(invocation(1, 'API Error: Overloaded'))).toBe(
+      'exit 1, "API Error: Overloaded"',
+    );
+    expect(getRetryableFailureReason(invocation(1, 'unexpected status 503 Service'))).toBe(
+      'exit 1, "status 503"',
+    );
+    expect(getRetryableFailureReason(invocation(1, 'TypeError: x is undefined'))).toBeUndefined();
+    expect(getRetryableFailureReason(invocation(0, 'rate limit exceeded'))).toBeUndefined();
+  });
+
+  test('does not retry ordinary failures that mention status codes or timeouts', () => {
+    for (const output of [
+      'FAIL src/api.test.ts > returns 500 for a missing user',
+      'Error: build step timed out after 60s',
+      'warning: disk quota at 90%',
+      'expected 503 to equal 200',
+      'FAIL rate limiter > rate limits the login endpoint',
+      'Error: connect ECONNREFUSED 127.0.0.1:5432',
+    ]) {
+      expect(getRetryableFailureReason(invocation(1, output))).toBeUndefined();
+    }
+  });
+
+  test('treats timeouts as retryable only when timeouts should be retried', () => {
+    const timedOut: AgentInvocation = { ...invocation(143), timeout: 'idle' };
+
+    expect(getRetryableFailureReason(timedOut)).toBeUndefined();
+    expect(getRetryableFailureReason(timedOut, { retryTimeouts: true })).toBe('idle timeout');
+    expect(formatAgentTimeout('idle', { idleMs: 300_000 })).toBe('stalled with no output after 5m');
+    expect(formatAgentTimeout('iteration', { iterationMs: 1_800_000 })).toBe('timed out after 30m');
+  });
+
+  test('retries with backoff, then falls over to the next backend', async () => {
+    const { result, invoked, retried, sleeps } = runFallback({
+      claude: [invocation(1, 'rate limit exceeded'), invocation(1, 'rate limit exceeded')],
+    });
+
+    expect((await result).candidate).toBe(codex);
+    expect(invoked).toEqual(['claude', 'claude', 'codex']);
+    expect(retried.map(formatFallbackRetry)).toEqual([
+      expect.stringMatching(/^claude failed \(exit 1, "rate limit exceeded"\); retrying in \d+s$/),
+      'claude failed (exit 1, "rate limit exceeded"); falling back to codex',
+    ]);
+    expect(sleeps[0]).toBeGreaterThanOrEqual(10_000);
+    expect(sleeps[1]).toBe(0);
+  });
+
+  test('does not retry failures that are not retryable', async () => {
+    const { result, invoked } = runFallback({ claude: [invocation(2, 'syntax error')] });
+
+    expect((await result).invocation.exitCode).toBe(2);
+    expect(invoked).toEqual(['claude']);
+  });
+
+  test('returns the last failure once every backend is exhausted', async () => {
+    const { result, invoked } = runFallback(
+      { claude: [invocation(1, 'API Error: 503')], codex: [invocation(1, 'insufficient_quota')] },
+      0,
+    );
+
+    expect(await result).toMatchObject({ candidate: codex, invocation: { exitCode: 1 } });
+    expect(invoked).toEqual(['claude', 'codex']);
+  });
+});
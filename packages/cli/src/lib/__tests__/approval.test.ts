@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { stripVTControlCharacters } from 'node:util';
+
+import { Git } from '@internal/git';
+import { parseFrontmatter } from '@internal/tasks';
+
+import { colorizeDiff, formatReviewSummary, getChanges, rejectTaskChanges } from '../approval';
+
+describe('formatReviewSummary', () => {
+  test('lists changed files and validator results', () => {
+    const summary = formatReviewSummary(
+      { diff: '', files: [{ status: 'M', path: 'src/login.ts' }] },
+      {
+        passed: true,
+        results: [{ command: 'bun test', exitCode: 0, durationMs: 1200, outputTail: '' }],
+        uncheckedCriteria: [],
+        failures: '',
+      },
+    );
+
+    expect(summary).toBe(
+      'Changed files (1):\n  M  src/login.ts\n\nValidators:\n- bun test: passed (exit 0, 1.2s)',
+    );
+  });
+
+  test('notes when nothing changed and no validators are configured', () => {
+    const summary = formatReviewSummary(
+      { diff: '', files: [] },
+      { passed: true, results: [], uncheckedCriteria: [], failures: '' },
+    );
+
+    expect(summary).toContain('  (none)');
+    expect(summary).toContain('- none configured');
+  });
+});
+
+describe('colorizeDiff', () => {
+  test('keeps the diff text intact', () => {
+    const diff = 'diff --git a/x b/x\n@@ -1 +1 @@\n-old\n+new\n context';
+
+    expect(stripVTControlCharacters(colorizeDiff(diff))).toBe(diff);
+  });
+});
+
+describe('rejectTaskChanges', () => {
+  let tmpDir: string;
+  let taskPath: string;
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(path.join(os.tmpdir(), 'ody-approval-test-'));
+    taskPath = path.join(tmpDir, '.ody', 'tasks', 'add-login.code-task.md');
+
+    await Git.run(['init', '-q'], tmpDir);
+    await Git.run(['config', 'user.email', 'test@example.com'], tmpDir);
+    await Git.run(['config', 'user.name', 'Test'], tmpDir);
+    await writeFile(path.join(tmpDir, 'login.ts'), 'export const login = () => false;\n');
+    await Git.run(['add', '-A'], tmpDir);
+    await Git.run(['commit', '-q', '-m', 'initial'], tmpDir);
+
+    await mkdir(path.dirname(taskPath), { recursive: true });
+    await writeFile(
+      taskPath,
+      '---\nstatus: completed\nstarted: 2026-01-01\ncompleted: 2026-01-02\n---\n# Task: Add login\n',
+    );
+  });
+
+  afterEach(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  test('reverts the agent changes and resets the task with a note', async () => {
+    const base = await Git.getHeadSha(tmpDir);
+
+    await writeFile(path.join(tmpDir, 'login.ts'), 'export const login = () => true;\n');
+    await writeFile(path.join(tmpDir, 'session.ts'), 'export const session = {};\n');
+
+    const changes = await getChanges(tmpDir, base);
+    expect(changes.files).toEqual([
+      { status: 'M', path: 'login.ts' },
+      { status: 'A', path: 'session.ts' },
+    ]);
+
+    await rejectTaskChanges(tmpDir, base, taskPath, 'Wrong approach');
+
+    expect(await readFile(path.join(tmpDir, 'login.ts'), 'utf-8')).toBe(
+      'export const login = () => false;\n',
+    );
+    expect(await Git.hasUncommittedChanges(tmpDir, { exclude: ['.ody'] })).toBe(false);
+
+    const content = await readFile(taskPath, 'utf-8');
+    expect(parseFrontmatter(content).status).toBe('pending');
+    expect(content).toContain('## Review Notes');
+    expect(content).toContain(': Rejected: Wrong approach');
+  });
+});
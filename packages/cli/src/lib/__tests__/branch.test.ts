@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { Git } from '@internal/git';
+import { resolveTaskReadiness } from '@internal/tasks';
+
+import {
+  blockOnUnmergedBranches,
+  buildPullRequestBody,
+  formatBranchName,
+  leaveTaskBranch,
+  startTaskBranch,
+} from '../branch';
+import { commitTask, snapshotTaskStart } from '../commit';
+
+const TASK_CONTENT = `---
+status: completed
+labels: [auth, bug]
+---
+# Task: Fix expired session handling.
+
+## Description
+Sessions past their expiry are still accepted. Reject them.
+
+They should redirect to login.
+
+## Acceptance Criteria
+
+1. [x] **Expired sessions are rejected**
+   - Given an expired session
+2. [ ] Users are redirected to login
+`;
+
+describe('formatBranchName', () => {
+  test('fills the slug from the task filename', () => {
+    expect(formatBranchName('ody/{slug}', '.ody/tasks/fix-sessions.code-task.md')).toBe(
+      'ody/fix-sessions',
+    );
+    expect(formatBranchName('task/{slug}-wip', 'add-login.code-task.md')).toBe(
+      'task/add-login-wip',
+    );
+  });
+});
+
+describe('buildPullRequestBody', () => {
+  test('includes the full description and the acceptance criteria checklist', () => {
+    const body = buildPullRequestBody(TASK_CONTENT, '.ody/tasks/fix-sessions.code-task.md');
+
+    expect(body).toStartWith(
+      'Sessions past their expiry are still accepted. Reject them.\n\nThey should redirect to login.',
+    );
+    expect(body).toContain(
+      '## Acceptance Criteria\n\n- [x] Expired sessions are rejected\n- [ ] Users are redirected to login',
+    );
+    expect(body).toContain('Task: `fix-sessions.code-task.md`');
+  });
+
+  test('leaves out missing sections', () => {
+    const body = buildPullRequestBody('# Task: Bare\n', 'bare.code-task.md');
+
+    expect(body).toStartWith('---\nTask: `bare.code-task.md`');
+  });
+});
+
+describe('task branches', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(path.join(os.tmpdir(), 'ody-branch-test-'));
+
+    await Git.run(['init', '-q', '-b', 'main'], tmpDir);
+    await Git.run(['config', 'user.email', 'test@example.com'], tmpDir);
+    await Git.run(['config', 'user.name', 'Test'], tmpDir);
+    await writeFile(path.join(tmpDir, 'README.md'), 'hello\n');
+    await Git.run(['add', '-A'], tmpDir);
+    await Git.run(['commit', '-q', '-m', 'initial'], tmpDir);
+    await mkdir(path.join(tmpDir, '.ody', 'tasks'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  test('keeps a timed-out task out of the next task branch', async () => {
+    const taskPath = path.join(tmpDir, '.ody', 'tasks', 'add-logout.code-task.md');
+
+    await startTaskBranch('ody/add-login', 'main', tmpDir);
+    await writeFile(path.join(tmpDir, 'login.ts'), 'export const login = () => {\n');
+    await writeFile(path.join(tmpDir, '.ody', 'progress.txt'), 'login timed out\n');
+
+    expect(await leaveTaskBranch('add-login.code-task.md', 'main', tmpDir)).toBe(true);
+    expect(await Git.getCurrentBranch(tmpDir)).toBe('main');
+
+    await startTaskBranch('ody/add-logout', 'main', tmpDir);
+    await writeFile(taskPath, '---\nstatus: completed\n---\n# Task: Add logout\n');
+
+    const before = await snapshotTaskStart({}, tmpDir);
+
+    await writeFile(path.join(tmpDir, 'logout.ts'), 'export const logout = () => {};\n');
+
+    const commit = await commitTask({ cwd: tmpDir, taskPath, before, config: {} });
+
+    expect(commit.committed).toBe(true);
+    expect(await Git.run(['show', '--name-only', '--format=', 'HEAD'], tmpDir)).toBe('logout.ts');
+    expect(await Git.run(['stash', 'list', '--format=%s'], tmpDir)).toContain(
+      'ody: unfinished add-login.code-task.md',
+    );
+    expect(await readFile(path.join(tmpDir, '.ody', 'progress.txt'), 'utf-8')).toBe(
+      'login timed out\n',
+    );
+    expect(await leaveTaskBranch('add-logout.code-task.md', 'main', tmpDir)).toBe(false);
+  });
+
+  test('blocks dependents until the prerequisite branch is merged', async () => {
+    const readiness = resolveTaskReadiness([
+      { taskFile: 'add-login.code-task.md', status: 'completed', dependsOn: [] },
+      {
+        taskFile: 'add-logout.code-task.md',
+        status: 'pending',
+        dependsOn: ['add-login.code-task.md'],
+      },
+    ]);
+    const options = { template: 'ody/{slug}', base: 'main', cwd: tmpDir };
+    const logout = async () =>
+      (await blockOnUnmergedBranches(readiness, options)).find(
+        (task) => task.taskFile === 'add-logout.code-task.md',
+      );
+
+    await startTaskBranch('ody/add-login', 'main', tmpDir);
+    await writeFile(path.join(tmpDir, 'login.ts'), 'export const login = () => true;\n');
+    await Git.commitAll(tmpDir, 'add login');
+    await Git.switchBranch(tmpDir, 'main');
+
+    expect(await logout()).toMatchObject({
+      ready: false,
+      blockedBy: ['add-login.code-task.md (branch ody/add-login not merged)'],
+    });
+
+    await Git.run(['merge', '-q', 'ody/add-login'], tmpDir);
+
+    expect(await logout()).toMatchObject({ ready: true, blockedBy: [] });
+
+    await Git.deleteBranch(tmpDir, 'ody/add-login');
+
+    expect(await logout()).toMatchObject({ ready: true, blockedBy: [] });
+  });
+});
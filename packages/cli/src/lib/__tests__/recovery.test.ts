@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import type { RunRecord } from '@internal/runs';
+import { parseFrontmatter } from '@internal/tasks';
+
+import { findOrphanedTasks, getResumeArgs, resetTasks } from '../recovery';
+
+let tasksDir: string;
+
+async function writeTask(taskFile: string, status: string) {
+  await writeFile(
+    path.join(tasksDir, taskFile),
+    `---\nstatus: ${status}\ncreated: 2026-01-01\nstarted: 2026-01-02\ncompleted: null\n---\n# Task: ${taskFile}\n`,
+  );
+}
+
+describe('recovery', () => {
+  beforeEach(async () => {
+    tasksDir = await mkdtemp(path.join(os.tmpdir(), 'ody-recovery-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(tasksDir, { recursive: true, force: true });
+  });
+
+  test('finds in_progress tasks, optionally limited to a set of task files', async () => {
+    await writeTask('a.code-task.md', 'in_progress');
+    await writeTask('b.code-task.md', 'pending');
+    await writeTask('c.code-task.md', 'in_progress');
+
+    expect(await findOrphanedTasks(tasksDir)).toEqual(['a.code-task.md', 'c.code-task.md']);
+    expect(await findOrphanedTasks(tasksDir, ['c.code-task.md'])).toEqual(['c.code-task.md']);
+  });
+
+  test('resets tasks to pending and clears their start date', async () => {
+    await writeTask('a.code-task.md', 'in_progress');
+
+    await resetTasks(tasksDir, ['a.code-task.md']);
+
+    expect(
+      parseFrontmatter(await readFile(path.join(tasksDir, 'a.code-task.md'), 'utf-8')),
+    ).toMatchObject({ status: 'pending', started: 'null', created: '2026-01-01' });
+  });
+
+  test('restores the options of the interrupted run', () => {
+    const run = {
+      args: {
+        taskFile: null,
+        label: 'backend',
+        iterations: 5,
+        parallel: null,
+        mergeStrategy: null,
+      },
+    } as unknown as RunRecord;
+
+    expect(getResumeArgs(run)).toEqual({
+      taskFile: undefined,
+      label: 'backend',
+      iterations: '5',
+      parallel: undefined,
+      ['merge-strategy']: 'merge',
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, test } from 'bun:test';
+
+import { buildTaskReviewPrompt } from '@internal/builders';
+
+import {
+  createReviewCandidate,
+  formatReviewProgressNote,
+  getBlockingFindings,
+  parseReviewFindings,
+} from '../review';
+
+const REVIEW_OUTPUT = `I checked the diff against the task.
+
+<finding severity="high">
+**Expired sessions are still accepted**
+Issue: \`getSession\` ignores \`expiresAt\`.
+Fix: Return null for expired sessions.
+</finding>
+
+<finding severity="LOW">
+**Rename helper**
+Issue: \`doIt\` does not say what it does.
+Fix: Rename it to \`refreshSession\`.
+</finding>
+
+<finding severity="urgent">Unknown severities are ignored</finding>
+
+<woof>COMPLETE</woof>`;
+
+describe('parseReviewFindings', () => {
+  test('reads finding blocks with known severities', () => {
+    const findings = parseReviewFindings(REVIEW_OUTPUT);
+
+    expect(findings.map((finding) => finding.severity)).toEqual(['high', 'low']);
+    expect(findings[0]?.body).toBe(
+      '**Expired sessions are still accepted**\nIssue: `getSession` ignores `expiresAt`.\nFix: Return null for expired sessions.',
+    );
+    expect(getBlockingFindings(findings)).toEqual([findings[0]!]);
+  });
+
+  test('returns nothing when the reviewer has no findings', () => {
+    expect(parseReviewFindings('Looks good.\n<woof>COMPLETE</woof>')).toEqual([]);
+  });
+});
+
+describe('formatReviewProgressNote', () => {
+  test('summarizes blocking findings and suggestions', () => {
+    const note = formatReviewProgressNote(
+      'add-login.code-task.md',
+      1,
+      'codex',
+      parseReviewFindings(REVIEW_OUTPUT),
+    );
+
+    expect(note.split('\n')[0]).toBe(
+      'Review for add-login.code-task.md (round 1, codex): 1 blocking, 1 suggestion',
+    );
+    expect(note).toContain('[HIGH] **Expired sessions are still accepted**');
+  });
+
+  test('notes a clean review', () => {
+    expect(formatReviewProgressNote('add-login.code-task.md', 2, 'claude', [])).toBe(
+      'Review for add-login.code-task.md (round 2, claude): no findings',
+    );
+  });
+});
+
+describe('createReviewCandidate', () => {
+  test('is disabled without a review config', () => {
+    expect(createReviewCandidate({ backend: 'claude' })).toBeNull();
+  });
+
+  test('defaults to the primary backend and its run model', () => {
+    const candidate = createReviewCandidate({
+      backend: ['claude', 'codex'],
+      model: { run: 'sonnet', plan: 'opus', edit: 'haiku' },
+      review: {},
+    });
+
+    expect(candidate).toMatchObject({ name: 'claude', model: 'sonnet' });
+  });
+
+  test('does not carry the run model over to a different reviewer backend', () => {
+    expect(
+      createReviewCandidate({ backend: 'claude', model: 'sonnet', review: { backend: 'codex' } }),
+    ).toMatchObject({ name: 'codex', model: undefined });
+    expect(
+      createReviewCandidate({
+        backend: 'claude',
+        model: 'sonnet',
+        review: { backend: 'codex', model: 'o3' },
+      }),
+    ).toMatchObject({ name: 'codex', model: 'o3' });
+  });
+});
+
+describe('buildTaskReviewPrompt', () => {
+  test('embeds the task and diff without expanding placeholders inside them', () => {
+    const prompt = buildTaskReviewPrompt({
+      taskFile: '.ody/tasks/add-login.code-task.md',
+      taskContent: '# Task: Add login\n\nMentions {DIFF} literally.\n',
+      diff: '+const template = "{TASK_CONTENT}";\n',
+    });
+
+    expect(prompt).toContain('The task file is at .ody/tasks/add-login.code-task.md');
+    expect(prompt).toContain('<task>\n# Task: Add login\n\nMentions {DIFF} literally.\n</task>');
+    expect(prompt).toContain('<diff>\n+const template = "{TASK_CONTENT}";\n</diff>');
+  });
+});
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { Auth } from '@internal/auth';
+import { Git } from '@internal/git';
+
+import { formatCompletionComment, getChangeLink, syncTask } from '../sync';
+
+let tempDir: string;
+let taskPath: string;
+const spies: { mockRestore: () => void }[] = [];
+
+const task = (source: string) => `---
+status: completed
+source: ${source}
+---
+# Task: Reject expired sessions
+`;
+
+describe('syncTask', () => {
+  beforeEach(async () => {
+    tempDir = await mkdtemp(path.join(os.tmpdir(), 'ody-sync-test-'));
+    taskPath = path.join(tempDir, 'reject-sessions.code-task.md');
+    spies.push(spyOn(Auth, 'getGitHub').mockResolvedValue({ token: 'token' }));
+  });
+
+  afterEach(async () => {
+    for (const spy of spies.splice(0)) {
+      spy.mockRestore();
+    }
+
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('comments on and closes the GitHub issue once, then records the synced status', async () => {
+    const requests: { method: string; url: string; body: any }[] = [];
+
+    spies.push(
+      spyOn(globalThis, 'fetch').mockImplementation((async (input: string, init?: RequestInit) => {
+        requests.push({
+          method: init?.method ?? 'GET',
+          url: input,
+          body: JSON.parse(String(init?.body)),
+        });
+        return Response.json({});
+      }) as typeof fetch),
+    );
+    await writeFile(taskPath, task('github:acme/api#12'));
+
+    const config = { sync: { enabled: true, closeGitHubIssues: true } };
+    const result = await syncTask(taskPath, config, {
+      link: 'Pull request: https://github.com/acme/api/pull/3',
+    });
+
+    expect(result?.actions).toEqual(['commented on acme/api#12', 'closed acme/api#12']);
+    expect(requests.map((request) => `${request.method} ${request.url}`)).toEqual([
+      'POST https://api.github.com/repos/acme/api/issues/12/comments',
+      'PATCH https://api.github.com/repos/acme/api/issues/12',
+    ]);
+    expect(requests[0]?.body.body).toBe(
+      'ody completed this task: Reject expired sessions\nPull request: https://github.com/acme/api/pull/3',
+    );
+    expect(await readFile(taskPath, 'utf-8')).toContain('synced: completed');
+
+    expect((await syncTask(taskPath, config))?.actions).toEqual([]);
+    expect(requests).toHaveLength(2);
+  });
+
+  test('sends GitHub Enterprise Server issues to the instance API with its host credentials', async () => {
+    const urls: string[] = [];
+
+    spies.push(
+      spyOn(globalThis, 'fetch').mockImplementation((async (input: string) => {
+        urls.push(input);
+        return Response.json({});
+      }) as typeof fetch),
+    );
+    await writeFile(taskPath, task('github:platform/api#4'));
+
+    await syncTask(taskPath, {
+      sync: { enabled: true },
+      github: { baseUrl: 'https://github.acme.dev', profile: 'work' },
+    });
+
+    expect(Auth.getGitHub).toHaveBeenCalledWith('work', 'github.acme.dev');
+    expect(urls).toEqual(['https://github.acme.dev/api/v3/repos/platform/api/issues/4/comments']);
+  });
+
+  test('ignores tasks that were not imported', async () => {
+    await writeFile(taskPath, '---\nstatus: completed\n---\n# Task: Local\n');
+
+    expect(await syncTask(taskPath, {})).toBeNull();
+  });
+});
+
+describe('formatCompletionComment', () => {
+  test('leaves out a missing link', () => {
+    expect(formatCompletionComment('Add login', null)).toBe('ody completed this task: Add login');
+  });
+});
+
+describe('getChangeLink', () => {
+  afterEach(() => {
+    for (const spy of spies.splice(0)) {
+      spy.mockRestore();
+    }
+  });
+
+  test('links the task commit rather than the current HEAD', async () => {
+    const headSpy = spyOn(Git, 'run');
+    spies.push(headSpy);
+    spies.push(spyOn(Git, 'getRemoteUrl').mockResolvedValue('git@github.com:acme/app.git'));
+
+    expect(await getChangeLink(null, 'abc123')).toBe(
+      'Commit: https://github.com/acme/app/commit/abc123',
+    );
+    expect(headSpy).not.toHaveBeenCalled();
+  });
+
+  test('falls back to the bare SHA without a GitHub remote', async () => {
+    spies.push(spyOn(Git, 'getRemoteUrl').mockRejectedValue(new Error('no remote')));
+
+    expect(await getChangeLink(null, 'abc123')).toBe('Commit: abc123');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'bun:test';
+
+import { TASK_FILE_FORMAT } from '@internal/builders';
+import { parseTaskFrontmatter, parseTitle } from '@internal/tasks';
+
+import {
+  buildTaskFile,
+  getStatusFields,
+  matchTaskFiles,
+  slugifyTitle,
+  splitList,
+} from '../taskFiles';
+import { lintTaskContent } from '../taskLint';
+
+describe('task files', () => {
+  test('scaffolds a task that passes lint', () => {
+    const content = buildTaskFile({
+      title: 'Add login page',
+      date: '2026-03-01',
+      priority: 'high',
+      labels: splitList('auth, ui'),
+      dependsOn: ['add-user-model'],
+    });
+
+    expect(parseTitle(content)).toBe('Add login page');
+    expect(parseTaskFrontmatter(content)).toEqual({
+      status: 'pending',
+      created: '2026-03-01',
+      started: null,
+      completed: null,
+      priority: 'high',
+      complexity: null,
+      labels: ['auth', 'ui'],
+      dependsOn: ['add-user-model.code-task.md'],
+    });
+    expect(lintTaskContent('add-login-page.code-task.md', content)).toEqual([]);
+  });
+
+  test('gives agents a template whose frontmatter is valid as written', () => {
+    const template = (TASK_FILE_FORMAT.match(/```markdown\n([\s\S]*?)\n```/)?.[1] ?? '').replace(
+      '{CURRENT_DATE}',
+      '2026-03-01',
+    );
+
+    expect(parseTaskFrontmatter(template)).toMatchObject({
+      priority: 'medium',
+      complexity: 'medium',
+      labels: [],
+      dependsOn: [],
+    });
+    expect(lintTaskContent('concise-task-name.code-task.md', template)).toEqual([]);
+  });
+
+  test('derives a kebab-case filename from the title', () => {
+    expect(slugifyTitle('  Add OAuth 2.0 login (GitHub)! ')).toBe('add-oauth-2-0-login-github');
+  });
+
+  test('updates dates along with the status', () => {
+    expect(getStatusFields('in_progress', { started: null }, '2026-03-02')).toEqual({
+      status: 'in_progress',
+      started: '2026-03-02',
+      completed: null,
+    });
+    expect(getStatusFields('completed', { started: '2026-03-01' }, '2026-03-02')).toEqual({
+      status: 'completed',
+      started: '2026-03-01',
+      completed: '2026-03-02',
+    });
+    expect(getStatusFields('pending', { started: '2026-03-01' }, '2026-03-02')).toEqual({
+      status: 'pending',
+      started: null,
+      completed: null,
+    });
+  });
+
+  test('matches task files by name, path or glob', () => {
+    const taskFiles = ['add-api.code-task.md', 'add-ui.code-task.md', 'fix-bug.code-task.md'];
+
+    expect(matchTaskFiles(taskFiles, ['add-*'])).toEqual([
+      'add-api.code-task.md',
+      'add-ui.code-task.md',
+    ]);
+    expect(matchTaskFiles(taskFiles, ['.ody/tasks/fix-bug.code-task.md', 'add-ui'])).toEqual([
+      'add-ui.code-task.md',
+      'fix-bug.code-task.md',
+    ]);
+    expect(matchTaskFiles(taskFiles, ['missing'])).toEqual([]);
+  });
+});
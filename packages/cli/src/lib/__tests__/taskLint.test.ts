@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { parseTaskFrontmatter } from '@internal/tasks';
+
+import { fixTaskContent, formatLintIssue, lintTaskContent, lintTasks } from '../taskLint';
+
+let tasksDir: string;
+
+function taskContent(options: { title: string; frontmatter?: string[]; criteria?: string }) {
+  return [
+    '---',
+    ...(options.frontmatter ?? ['status: pending', 'created: 2026-01-01']),
+    '---',
+    `# Task: ${options.title}`,
+    '',
+    '## Description',
+    'Something to build.',
+    '',
+    '## Background',
+    '## Technical Requirements',
+    '## Dependencies',
+    '## Implementation Approach',
+    '## Acceptance Criteria',
+    '',
+    options.criteria ??
+      '1. **Works**\n   - Given a user\n   - When they log in\n   - Then they see the dashboard',
+    '',
+  ].join('\n');
+}
+
+async function writeTask(taskFile: string, content: string) {
+  await writeFile(path.join(tasksDir, taskFile), content);
+}
+
+describe('lintTaskContent', () => {
+  test('accepts a task that follows the task file format', () => {
+    expect(lintTaskContent('a.code-task.md', taskContent({ title: 'A' }))).toEqual([]);
+  });
+
+  test('reports invalid frontmatter, missing sections and incomplete criteria', () => {
+    const content = taskContent({
+      title: 'A',
+      frontmatter: ['status: complete'],
+      criteria: '1. **Works**\n   - Given a user\n   - Then they see the dashboard',
+    }).replace('## Background\n', '');
+
+    expect(lintTaskContent('a.code-task.md', content).map(formatLintIssue)).toEqual([
+      'a.code-task.md:2:9: status: Invalid option: expected one of "pending"|"in_progress"|"completed"',
+      'a.code-task.md:1:1: Missing required section "## Background"',
+      'a.code-task.md:14:1: Acceptance criterion 1 is missing "When"',
+    ]);
+  });
+});
+
+describe('fixTaskContent', () => {
+  test('repairs status and enum casing, task references and legacy labels', () => {
+    const content = `${taskContent({
+      title: 'A',
+      frontmatter: ['status: Done', 'priority: High', 'dependsOn: add-api'],
+    })}\n## Metadata\n- **Labels**: auth, api\n`;
+
+    expect(parseTaskFrontmatter(fixTaskContent(content))).toMatchObject({
+      status: 'completed',
+      priority: 'high',
+      dependsOn: ['add-api.code-task.md'],
+      labels: ['auth', 'api'],
+    });
+  });
+
+  test('leaves valid tasks untouched', () => {
+    const content = taskContent({ title: 'A' });
+
+    expect(fixTaskContent(content)).toBe(content);
+  });
+});
+
+describe('lintTasks', () => {
+  beforeEach(async () => {
+    tasksDir = await mkdtemp(path.join(os.tmpdir(), 'ody-lint-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(tasksDir, { recursive: true, force: true });
+  });
+
+  test('reports duplicate titles, unresolved dependencies and cycles', async () => {
+    await writeTask(
+      'a.code-task.md',
+      taskContent({ title: 'Same', frontmatter: ['status: pending', 'dependsOn: [b, missing]'] }),
+    );
+    await writeTask(
+      'b.code-task.md',
+      taskContent({ title: 'same', frontmatter: ['status: pending', 'dependsOn: [a]'] }),
+    );
+
+    const result = await lintTasks(tasksDir);
+
+    expect(result.issues.map(formatLintIssue)).toEqual([
+      'a.code-task.md:1:1: Dependency cycle: a.code-task.md -> b.code-task.md -> a.code-task.md',
+      'a.code-task.md:3:1: dependsOn: no task file named missing.code-task.md',
+      'a.code-task.md:5:1: Duplicate title, also used by b.code-task.md',
+      'b.code-task.md:5:1: Duplicate title, also used by a.code-task.md',
+    ]);
+    expect(result.fixable).toEqual(['a.code-task.md', 'b.code-task.md']);
+  });
+
+  test('writes mechanical fixes when asked to', async () => {
+    await writeTask(
+      'a.code-task.md',
+      taskContent({ title: 'A', frontmatter: ['status: in progress'] }),
+    );
+
+    const result = await lintTasks(tasksDir, { fix: true });
+
+    expect(result).toMatchObject({ fileCount: 1, issues: [], fixed: ['a.code-task.md'] });
+    expect(
+      parseTaskFrontmatter(await readFile(path.join(tasksDir, 'a.code-task.md'), 'utf-8')).status,
+    ).toBe('in_progress');
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, test } from 'bun:test';
+
+import { parseComplexity, type TaskStatus } from '@internal/tasks';
+
+import {
+  filterTaskList,
+  formatTaskList,
+  formatTaskListItem,
+  getRepeatedArg,
+  parseLabelFilter,
+  parseStatusFilter,
+  sortTaskList,
+  type TaskListItem,
+} from '../taskList';
+
+function item(taskFile: string, fields: Partial<TaskListItem> = {}): TaskListItem {
+  return {
+    taskFile,
+    title: taskFile,
+    description: '',
+    status: 'pending',
+    ready: true,
+    blockedBy: [],
+    priority: 'medium',
+    complexity: null,
+    labels: [],
+    dependsOn: [],
+    created: null,
+    started: null,
+    completed: null,
+    ...fields,
+  };
+}
+
+describe('task list', () => {
+  test('collects every occurrence of a repeated flag', () => {
+    expect(
+      getRepeatedArg(['--label', 'auth,api', '-s', 'all', '-l', 'ui', '--label=db'], 'label', 'l'),
+    ).toEqual(['auth,api', 'ui', 'db']);
+  });
+
+  test('parses status filters', () => {
+    expect(parseStatusFilter('pending, in_progress')).toEqual(['pending', 'in_progress']);
+    expect(parseStatusFilter('all')).toEqual(['pending', 'in_progress', 'completed']);
+    expect(() => parseStatusFilter('done')).toThrow('Invalid --status value "done"');
+  });
+
+  test('ORs labels within a flag and ANDs repeated flags', () => {
+    const items = [
+      item('a.code-task.md', { labels: ['auth', 'api'] }),
+      item('b.code-task.md', { labels: ['Auth', 'ui'] }),
+      item('c.code-task.md', { labels: ['ui'], status: 'completed' }),
+    ];
+    const filter = (labels: string[], statuses: TaskStatus[] = ['pending', 'completed']) =>
+      filterTaskList(items, { statuses, labels: parseLabelFilter(labels) }).map(
+        (task) => task.taskFile,
+      );
+
+    expect(filter(['api,ui'])).toEqual(['a.code-task.md', 'b.code-task.md', 'c.code-task.md']);
+    expect(filter(['auth', 'ui'])).toEqual(['b.code-task.md']);
+    expect(filter(['ui'], ['pending'])).toEqual(['b.code-task.md']);
+    expect(filter([])).toHaveLength(3);
+  });
+
+  test('sorts by priority, complexity or creation date', () => {
+    const items = [
+      item('a.code-task.md', { priority: 'low', complexity: 'high', created: '2026-01-02' }),
+      item('b.code-task.md', { priority: 'high', complexity: null, created: null }),
+      item('c.code-task.md', { priority: 'medium', complexity: 'low', created: '2026-01-01' }),
+    ];
+    const sort = (by?: 'created' | 'priority' | 'complexity') =>
+      sortTaskList(items, by).map((task) => task.taskFile[0]);
+
+    expect(sort('priority')).toEqual(['b', 'c', 'a']);
+    expect(sort('complexity')).toEqual(['c', 'a', 'b']);
+    expect(sort('created')).toEqual(['c', 'a', 'b']);
+    expect(sort()).toEqual(['a', 'b', 'c']);
+  });
+
+  test('ranks the capitalised complexity of legacy tasks', () => {
+    const legacy = (complexity: string) =>
+      parseComplexity(
+        `---\nstatus: pending\n---\n# Task: Legacy\n\n**Complexity**: ${complexity}\n`,
+      );
+    const items = [
+      item('a.code-task.md', { complexity: null }),
+      item('b.code-task.md', { complexity: legacy('High') }),
+      item('c.code-task.md', { complexity: legacy('Medium') }),
+      item('d.code-task.md', { complexity: 'low' }),
+    ];
+
+    expect(sortTaskList(items, 'complexity').map((task) => task.taskFile[0])).toEqual([
+      'd',
+      'c',
+      'b',
+      'a',
+    ]);
+  });
+
+  test('formats tasks for people and scripts', () => {
+    const task = item('a.code-task.md', {
+      title: 'Add login',
+      description: 'Let users sign in.',
+      ready: false,
+      blockedBy: ['b.code-task.md'],
+      labels: ['auth'],
+      created: '2026-01-01',
+    });
+
+    expect(formatTaskListItem(task)).toBe(
+      [
+        '  - Add login  (a.code-task.md)  [blocked by b.code-task.md]',
+        '    priority medium · labels auth · created 2026-01-01',
+        '    Let users sign in.',
+      ].join('\n'),
+    );
+    expect(formatTaskList([task, task], 'ndjson').trim().split('\n')).toHaveLength(2);
+    expect(JSON.parse(formatTaskList([task], 'json'))).toEqual([task]);
+  });
+});
@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { StreamJson } from '@internal/backends';
+import { parseFrontmatter } from '@internal/tasks';
+
+import { addTaskUsage, isOverBudget } from '../usage';
+
+let tmpDir: string;
+let taskPath: string;
+
+const usage = {
+  inputTokens: 100,
+  outputTokens: 250,
+  cacheCreationInputTokens: 0,
+  cacheReadInputTokens: 900,
+  costUsd: 0.1234,
+};
+
+describe('usage', () => {
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(path.join(os.tmpdir(), 'ody-usage-test-'));
+    taskPath = path.join(tmpDir, 'add-login.code-task.md');
+
+    await writeFile(taskPath, '---\nstatus: in_progress\n---\n# Task: Add login\n');
+  });
+
+  afterEach(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  test('accumulates usage totals in the task frontmatter', async () => {
+    await addTaskUsage(taskPath, usage);
+    await addTaskUsage(taskPath, usage);
+
+    expect(parseFrontmatter(await readFile(taskPath, 'utf-8'))).toMatchObject({
+      status: 'in_progress',
+      inputTokens: '2000',
+      outputTokens: '500',
+      costUsd: '0.2468',
+    });
+  });
+
+  test('stops once spend reaches the budget', () => {
+    expect(isOverBudget(usage)).toBe(false);
+    expect(isOverBudget(usage, 0.5)).toBe(false);
+    expect(isOverBudget(StreamJson.addUsage(usage, usage), 0.2)).toBe(true);
+  });
+});
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { parseFrontmatter } from '@internal/tasks';
+
+import { formatFailedValidators, isUnfinishedAttempt, validateTask } from '../validation';
+
+let tmpDir: string;
+let taskPath: string;
+
+describe('validateTask', () => {
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(path.join(os.tmpdir(), 'ody-validation-test-'));
+    taskPath = path.join(tmpDir, '.ody', 'tasks', 'add-login.code-task.md');
+
+    await mkdir(path.dirname(taskPath), { recursive: true });
+    await writeFile(path.join(tmpDir, '.ody', 'progress.txt'), '');
+    await writeFile(
+      taskPath,
+      '---\nstatus: completed\nstarted: 2026-01-01\ncompleted: 2026-01-02\n---\n# Task: Add login\n',
+    );
+  });
+
+  afterEach(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  test('passes without touching anything when no validators are configured', async () => {
+    const validation = await validateTask({
+      taskFile: 'add-login.code-task.md',
+      taskPath,
+      attempt: 1,
+      commands: [],
+      cwd: tmpDir,
+    });
+
+    expect(validation).toEqual({ passed: true, results: [], uncheckedCriteria: [], failures: '' });
+    expect(await readFile(path.join(tmpDir, '.ody', 'progress.txt'), 'utf-8')).toBe('');
+  });
+
+  test('records results in the progress note and reopens the task on failure', async () => {
+    const validation = await validateTask({
+      taskFile: 'add-login.code-task.md',
+      taskPath,
+      attempt: 1,
+      commands: ['echo ok', 'echo type error >&2; exit 2'],
+      cwd: tmpDir,
+    });
+
+    const progress = await readFile(path.join(tmpDir, '.ody', 'progress.txt'), 'utf-8');
+
+    expect(validation.passed).toBe(false);
+    expect(validation.failures).toContain('type error');
+    expect(progress).toContain('Validation for add-login.code-task.md (attempt 1): failed');
+    expect(progress).toContain('- echo ok: passed (exit 0,');
+    expect(parseFrontmatter(await readFile(taskPath, 'utf-8'))).toMatchObject({
+      status: 'in_progress',
+      completed: 'null',
+    });
+  });
+
+  test('reopens the task while acceptance criteria are unchecked', async () => {
+    await writeFile(
+      taskPath,
+      [
+        '---',
+        'status: completed',
+        'completed: 2026-01-02',
+        '---',
+        '# Task: Add login',
+        '',
+        '## Acceptance Criteria',
+        '',
+        '1. [x] **Valid credentials**',
+        '   - Evidence: login.test.ts passes',
+        '2. [ ] **Invalid credentials**',
+        '',
+      ].join('\n'),
+    );
+
+    const validation = await validateTask({
+      taskFile: 'add-login.code-task.md',
+      taskPath,
+      attempt: 1,
+      commands: [],
+      cwd: tmpDir,
+    });
+
+    expect(validation.passed).toBe(false);
+    expect(validation.failures).toBe(
+      'Acceptance criteria not checked off:\n- Criterion 2: Invalid credentials',
+    );
+    expect(formatFailedValidators(validation)).toBe('1 unchecked acceptance criterion');
+    expect(parseFrontmatter(await readFile(taskPath, 'utf-8')).status).toBe('in_progress');
+  });
+
+  test('retries a task the agent left in_progress with unchecked criteria', async () => {
+    await writeFile(
+      taskPath,
+      [
+        '---',
+        'status: in_progress',
+        'started: 2026-01-01',
+        '---',
+        '# Task: Add login',
+        '',
+        '## Acceptance Criteria',
+        '',
+        '1. [ ] **Valid credentials**',
+        '',
+      ].join('\n'),
+    );
+
+    expect(await isUnfinishedAttempt(taskPath, 'in_progress')).toBe(true);
+
+    const validation = await validateTask({
+      taskFile: 'add-login.code-task.md',
+      taskPath,
+      attempt: 1,
+      commands: [],
+      cwd: tmpDir,
+    });
+
+    expect(validation.passed).toBe(false);
+    expect(validation.failures).toBe(
+      'Acceptance criteria not checked off:\n- Criterion 1: Valid credentials',
+    );
+  });
+
+  test('does not explain other statuses left after the agent exits', async () => {
+    expect(await isUnfinishedAttempt(taskPath, 'pending')).toBe(false);
+    expect(await isUnfinishedAttempt(taskPath, null)).toBe(false);
+    // in_progress with every criterion checked has nothing left to retry.
+    expect(await isUnfinishedAttempt(taskPath, 'in_progress')).toBe(false);
+  });
+});
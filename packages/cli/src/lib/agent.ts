@@ -0,0 +1,245 @@
+import { Backend, type AgentUsage } from '@internal/backends';
+import { Config, type OdyConfig } from '@internal/config';
+import { Http } from '@internal/integrations';
+
+import type { MarkerDetectionResult } from '../util/agentCompletion';
+import { createAgentOutputMonitor } from '../util/agentOutput';
+import { Stream } from '../util/stream';
+
+const BACKOFF_BASE_DELAY_MS = 10_000;
+const BACKOFF_MAX_DELAY_MS = 120_000;
+const TERMINATE_GRACE_MS = 5_000;
+
+// Matched against the agent's stderr, which also carries the output of the
+// commands it ran, so only API and rate limit wording counts: a failing test
+// that prints "500" or "timed out" is not an outage.
+const RETRYABLE_OUTPUT_PATTERNS = [
+  /rate[ _-]?limit(?:ed|_error| exceeded| reached)/i,
+  /too many requests/i,
+  /overloaded_error/,
+  /usage limit (?:reached|exceeded)/i,
+  /insufficient_quota/,
+  /API Error:? (?:429|5\d\d|overloaded|connection error)/i,
+  /\bHTTP(?:\/\d(?:\.\d)?)? (?:429|5\d\d)\b/,
+  /status(?: code)?:? (?:429|5\d\d)\b/i,
+];
+
+export type AgentCandidate = {
+  name: string;
+  model?: string;
+  backend: Backend;
+};
+
+export type AgentTimeout = 'iteration' | 'idle';
+
+export type AgentTimeouts = {
+  iterationMs?: number;
+  idleMs?: number;
+};
+
+export type AgentInvocation = {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  markerDetection: MarkerDetectionResult;
+  usage: AgentUsage | null;
+  timeout: AgentTimeout | null;
+};
+
+export type FallbackRetry = {
+  candidate: AgentCandidate;
+  invocation: AgentInvocation;
+  reason: string;
+  delayMs: number;
+  next: AgentCandidate;
+};
+
+type InvokeWithFallbackOptions = {
+  candidates: AgentCandidate[];
+  retries: number;
+  retryTimeouts?: boolean;
+  signal?: AbortSignal;
+  invoke: (candidate: AgentCandidate) => Promise<AgentInvocation>;
+  onRetry?: (retry: FallbackRetry) => Promise<void> | void;
+  sleepFn?: (ms: number, signal?: AbortSignal) => Promise<void>;
+};
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      resolve();
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export function createAgentCandidates(
+  config: Pick<OdyConfig, 'agent' | 'backend' | 'model' | 'skipPermissions'>,
+): AgentCandidate[] {
+  return Config.resolveBackends('run', config).map((choice) => ({
+    ...choice,
+    backend: new Backend(choice.name, config),
+  }));
+}
+
+export function getAgentTimeouts(
+  config: Pick<OdyConfig, 'iterationTimeout' | 'idleTimeout'>,
+): AgentTimeouts {
+  return {
+    iterationMs: config.iterationTimeout && config.iterationTimeout * 60_000,
+    idleMs: config.idleTimeout && config.idleTimeout * 60_000,
+  };
+}
+
+export function formatAgentTimeout(timeout: AgentTimeout, timeouts: AgentTimeouts) {
+  const ms = timeout === 'iteration' ? timeouts.iterationMs : timeouts.idleMs;
+  const minutes = ms === undefined ? '' : ` after ${ms / 60_000}m`;
+
+  return timeout === 'iteration' ? `timed out${minutes}` : `stalled with no output${minutes}`;
+}
+
+export function getRetryableFailureReason(
+  invocation: Pick<AgentInvocation, 'exitCode' | 'stderr' | 'timeout'>,
+  options: { retryTimeouts?: boolean } = {},
+) {
+  if (invocation.timeout) {
+    return options.retryTimeouts
+      ? invocation.timeout === 'iteration'
+        ? 'iteration timeout'
+        : 'idle timeout'
+      : undefined;
+  }
+
+  if (invocation.exitCode === 0) {
+    return undefined;
+  }
+
+  const match = RETRYABLE_OUTPUT_PATTERNS.map((pattern) => invocation.stderr.match(pattern)).find(
+    Boolean,
+  );
+
+  return match ? `exit ${invocation.exitCode}, "${match[0]}"` : undefined;
+}
+
+export function formatFallbackRetry(retry: FallbackRetry) {
+  const action =
+    retry.next === retry.candidate
+      ? `retrying in ${Math.round(retry.delayMs / 1000)}s`
+      : `falling back to ${retry.next.name}`;
+
+  return `${retry.candidate.name} failed (${retry.reason}); ${action}`;
+}
+
+export async function invokeWithFallback(options: InvokeWithFallbackOptions) {
+  const sleepFn = options.sleepFn ?? sleep;
+  let last: { candidate: AgentCandidate; invocation: AgentInvocation } | undefined;
+
+  for (const [index, candidate] of options.candidates.entries()) {
+    for (let attempt = 1; attempt <= options.retries + 1; attempt++) {
+      const invocation = await options.invoke(candidate);
+      const reason = getRetryableFailureReason(invocation, options);
+
+      last = { candidate, invocation };
+
+      if (!reason || options.signal?.aborted) {
+        return last;
+      }
+
+      const next = attempt <= options.retries ? candidate : options.candidates[index + 1];
+
+      if (!next) {
+        return last;
+      }
+
+      const delayMs =
+        next === candidate
+          ? Http.calculateBackoffMs(attempt, {
+              baseDelayMs: BACKOFF_BASE_DELAY_MS,
+              maxDelayMs: BACKOFF_MAX_DELAY_MS,
+            })
+          : 0;
+
+      await options.onRetry?.({ candidate, invocation, reason, delayMs, next });
+      await sleepFn(delayMs, options.signal);
+
+      if (options.signal?.aborted) {
+        return last;
+      }
+
+      if (next !== candidate) {
+        break;
+      }
+    }
+  }
+
+  if (!last) {
+    throw new Error('No backend configured');
+  }
+
+  return last;
+}
+
+export async function spawnAgent(options: {
+  candidate: AgentCandidate;
+  prompt: string;
+  cwd?: string;
+  signal?: AbortSignal;
+  verbose: boolean;
+  timeouts?: AgentTimeouts;
+}): Promise<AgentInvocation> {
+  const { backend, model } = options.candidate;
+  const proc = Bun.spawn({
+    cmd: backend.buildCommand(options.prompt, model),
+    cwd: options.cwd,
+    stdio: ['ignore', 'pipe', 'pipe'],
+    signal: options.signal,
+  });
+  const outputMonitor = createAgentOutputMonitor(backend.outputFormat, {
+    verbose: options.verbose,
+  });
+  const printRawOutput = options.verbose && backend.outputFormat === 'text';
+  const { iterationMs, idleMs } = options.timeouts ?? {};
+  let timeout: AgentTimeout | null = null;
+  let killTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const terminate = (reason: AgentTimeout) => {
+    if (timeout) {
+      return;
+    }
+
+    timeout = reason;
+    proc.kill('SIGTERM');
+    killTimer = setTimeout(() => proc.kill('SIGKILL'), TERMINATE_GRACE_MS);
+  };
+
+  const iterationTimer =
+    iterationMs === undefined ? undefined : setTimeout(() => terminate('iteration'), iterationMs);
+
+  try {
+    const [stdout, stderr] = await Promise.all([
+      Stream.toOutput(proc.stdout, {
+        shouldPrint: printRawOutput,
+        capture: true,
+        idleTimeoutMs: idleMs,
+        onIdle: () => terminate('idle'),
+        onChunk(chunk) {
+          outputMonitor.onChunk(chunk);
+        },
+      }),
+      Stream.toOutput(proc.stderr, { shouldPrint: options.verbose, capture: true }),
+    ]);
+    const { markerDetection, usage } = outputMonitor.finalize();
+    const exitCode = await proc.exited;
+
+    return { exitCode, stdout, stderr, markerDetection, usage, timeout };
+  } finally {
+    clearTimeout(iterationTimer);
+    clearTimeout(killTimer);
+  }
+}
@@ -0,0 +1,122 @@
+import { styleText } from 'node:util';
+
+import { isCancel, log, select, text } from '@clack/prompts';
+import { BASE_DIR } from '@internal/config';
+import { Git, type GitChanges } from '@internal/git';
+import { Validators } from '@internal/runs';
+import { rejectTask, updateTaskFrontmatter } from '@internal/tasks';
+
+import type { TaskValidation } from './validation';
+
+export type ApprovalDecision =
+  | { action: 'approve' }
+  | { action: 'reject'; note: string }
+  | { action: 'feedback'; comment: string };
+
+type ReviewOptions = {
+  cwd: string;
+  base: string;
+  title: string;
+  validation: TaskValidation;
+};
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export function colorizeDiff(diff: string) {
+  return diff
+    .split('\n')
+    .map((line) => {
+      if (line.startsWith('+++') || line.startsWith('---') || line.startsWith('diff ')) {
+        return styleText('bold', line);
+      }
+
+      if (line.startsWith('+')) {
+        return styleText('green', line);
+      }
+
+      if (line.startsWith('-')) {
+        return styleText('red', line);
+      }
+
+      return line.startsWith('@@') ? styleText('cyan', line) : line;
+    })
+    .join('\n');
+}
+
+export function formatReviewSummary(changes: GitChanges, validation: TaskValidation) {
+  const files = changes.files.map((file) => `  ${file.status}  ${file.path}`);
+
+  return [
+    `Changed files (${changes.files.length}):`,
+    ...(files.length > 0 ? files : ['  (none)']),
+    '',
+    'Validators:',
+    Validators.formatResults(validation.results) || '- none configured',
+  ].join('\n');
+}
+
+export function getChanges(cwd: string, base: string) {
+  return Git.getChanges(cwd, base, { exclude: [BASE_DIR] });
+}
+
+async function promptText(message: string, placeholder: string) {
+  const value = await text({ message, placeholder });
+
+  return isCancel(value) ? null : value.trim();
+}
+
+export async function reviewTask(options: ReviewOptions): Promise<ApprovalDecision | null> {
+  const changes = await getChanges(options.cwd, options.base);
+
+  if (changes.diff) {
+    process.stdout.write(`${colorizeDiff(changes.diff)}\n`);
+  }
+
+  log.message(formatReviewSummary(changes, options.validation));
+
+  for (;;) {
+    const action = await select<ApprovalDecision['action']>({
+      message: `Review "${options.title}"`,
+      options: [
+        { value: 'approve', label: 'Approve', hint: 'mark completed and commit' },
+        { value: 'feedback', label: 'Send feedback', hint: 'run the agent again with a comment' },
+        { value: 'reject', label: 'Reject', hint: 'revert the changes and reset to pending' },
+      ],
+    });
+
+    if (isCancel(action)) {
+      return null;
+    }
+
+    if (action === 'approve') {
+      return { action };
+    }
+
+    if (action === 'feedback') {
+      const comment = await promptText('What should the agent change?', 'Also handle empty input');
+
+      if (comment) {
+        return { action, comment };
+      }
+
+      continue;
+    }
+
+    const note = await promptText('Why are you rejecting it? (optional)', 'Wrong approach');
+
+    if (note !== null) {
+      return { action, note };
+    }
+  }
+}
+
+export async function rejectTaskChanges(cwd: string, base: string, taskPath: string, note: string) {
+  await Git.discardChanges(cwd, base, { exclude: [BASE_DIR] });
+  await rejectTask(taskPath, note ? `Rejected: ${note}` : 'Rejected', today());
+}
+
+export function reopenForFeedback(taskPath: string) {
+  return updateTaskFrontmatter(taskPath, { status: 'in_progress', completed: null });
+}
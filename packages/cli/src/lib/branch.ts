@@ -0,0 +1,169 @@
+import path from 'node:path';
+
+import { Auth } from '@internal/auth';
+import { BASE_DIR, type OdyConfig } from '@internal/config';
+import { Git } from '@internal/git';
+import { GitHub, type GitHubPullRequest } from '@internal/integrations';
+import { parseAcceptanceCriteria, type TaskReadiness } from '@internal/tasks';
+
+import type { TaskCommit } from './commit';
+
+type FinishTaskBranchOptions = {
+  cwd?: string;
+  branch: string;
+  base: string;
+  taskPath: string;
+  commit: TaskCommit;
+  openPullRequest: boolean;
+  github?: OdyConfig['github'];
+};
+
+export function getTaskSlug(taskFile: string) {
+  return path.basename(taskFile).replace(/\.code-task\.md$/, '');
+}
+
+export function formatBranchName(template: string, taskFile: string) {
+  return template.replaceAll('{slug}', getTaskSlug(taskFile));
+}
+
+function getDescriptionSection(content: string) {
+  const match = content.match(/(?:^|\n)## Description\s*\n([\s\S]*?)(?=\n## |$)/);
+
+  return match?.[1]?.trim() ?? '';
+}
+
+export function buildPullRequestBody(content: string, taskFile: string) {
+  const description = getDescriptionSection(content);
+  const criteria = parseAcceptanceCriteria(content);
+  const sections = [
+    description,
+    criteria.length > 0
+      ? [
+          '## Acceptance Criteria',
+          '',
+          ...criteria.map((criterion) => `- [${criterion.checked ? 'x' : ' '}] ${criterion.title}`),
+        ].join('\n')
+      : '',
+    `---\nTask: \`${path.basename(taskFile)}\`\n\n🐶 Generated by Ody - the bestest of boys`,
+  ];
+
+  return sections.filter((section) => section !== '').join('\n\n');
+}
+
+export async function startTaskBranch(branch: string, base: string, cwd?: string) {
+  if ((await Git.getCurrentBranch(cwd)) === branch) {
+    return;
+  }
+
+  if (await Git.branchExists(cwd, branch)) {
+    await Git.switchBranch(cwd, branch);
+    return;
+  }
+
+  await Git.switchBranch(cwd, branch, { create: true, base });
+}
+
+// Leaves a task branch without finishing the task, e.g. after a timeout. Its
+// unfinished changes are stashed rather than carried onto the next task branch.
+export async function leaveTaskBranch(taskFile: string, base: string, cwd?: string) {
+  const stashed = await Git.stash(cwd, `ody: unfinished ${path.basename(taskFile)}`, {
+    exclude: [BASE_DIR],
+  });
+
+  await Git.switchBranch(cwd, base);
+  return stashed;
+}
+
+// Every task branch starts from the base branch, so a prerequisite completed
+// on its own branch only counts once that branch is merged into the base (or
+// deleted). Until then its dependents stay blocked.
+export async function blockOnUnmergedBranches(
+  readiness: TaskReadiness[],
+  options: { template: string; base: string; cwd?: string },
+): Promise<TaskReadiness[]> {
+  const cwd = options.cwd ?? process.cwd();
+  const statusByFile = new Map(readiness.map((task) => [task.taskFile, task.status]));
+  const unmergedBranches = new Map<string, string | null>();
+  const results: TaskReadiness[] = [];
+
+  for (const task of readiness) {
+    const unmerged: string[] = [];
+
+    for (const dep of task.status === 'pending' ? task.dependsOn : []) {
+      if (statusByFile.get(dep) !== 'completed') {
+        continue;
+      }
+
+      if (!unmergedBranches.has(dep)) {
+        const branch = formatBranchName(options.template, dep);
+        const merged =
+          !(await Git.branchExists(cwd, branch)) ||
+          (await Git.isAncestor(cwd, branch, options.base));
+
+        unmergedBranches.set(dep, merged ? null : branch);
+      }
+
+      const branch = unmergedBranches.get(dep);
+
+      if (branch) {
+        unmerged.push(`${dep} (branch ${branch} not merged)`);
+      }
+    }
+
+    results.push(
+      unmerged.length === 0
+        ? task
+        : { ...task, ready: false, blockedBy: [...task.blockedBy, ...unmerged] },
+    );
+  }
+
+  return results;
+}
+
+async function openTaskPullRequest(options: FinishTaskBranchOptions) {
+  const cwd = options.cwd ?? process.cwd();
+
+  await Git.push(cwd, 'origin', options.branch);
+
+  const host = GitHub.resolveHost(options.github);
+  const { owner, repo } = GitHub.parseRemoteUrl(await Git.getRemoteUrl(cwd), host);
+  const token = (await Auth.getGitHub(options.github?.profile, host.hostname))?.token;
+  const existing = await GitHub.findOpenPullRequestByBranch(
+    owner,
+    repo,
+    options.branch,
+    token,
+    host.apiUrl,
+  );
+
+  if (existing) {
+    return existing;
+  }
+
+  return GitHub.createPullRequest(
+    owner,
+    repo,
+    {
+      title: options.commit.message.split('\n')[0] ?? '',
+      head: options.branch,
+      base: options.base,
+      body: buildPullRequestBody(await Bun.file(options.taskPath).text(), options.taskPath),
+    },
+    token,
+    host.apiUrl,
+  );
+}
+
+// Pushes the committed task branch, optionally opens a pull request, and
+// returns to the base branch so the next task starts from a clean base.
+export async function finishTaskBranch(
+  options: FinishTaskBranchOptions,
+): Promise<GitHubPullRequest | null> {
+  try {
+    return options.openPullRequest && options.commit.committed
+      ? await openTaskPullRequest(options)
+      : null;
+  } finally {
+    await Git.switchBranch(options.cwd, options.base);
+  }
+}
@@ -0,0 +1,40 @@
+import type { OdyConfig } from '@internal/config';
+import { Git, type GitSnapshot } from '@internal/git';
+import { Journal } from '@internal/runs';
+import { formatCommitMessage } from '@internal/tasks';
+
+type CommitConfig = Pick<OdyConfig, 'commit'>;
+
+type CommitTaskOptions = {
+  cwd?: string;
+  taskPath: string;
+  before: GitSnapshot;
+  config: CommitConfig;
+};
+
+export type TaskCommit = {
+  committed: boolean;
+  // Taken right after committing; with branchPerTask, HEAD moves back to the
+  // base branch before the change is synced.
+  sha: string | null;
+  message: string;
+};
+
+export function snapshotTaskStart(config: CommitConfig, cwd?: string) {
+  return Git.snapshotDirtyFiles(cwd, { exclude: Journal.getCommitExclude(config) });
+}
+
+export async function commitTask(options: CommitTaskOptions): Promise<TaskCommit> {
+  const cwd = options.cwd ?? process.cwd();
+  const message = formatCommitMessage(
+    await Bun.file(options.taskPath).text(),
+    options.taskPath,
+    options.config.commit,
+  );
+  const after = await Git.snapshotDirtyFiles(cwd, {
+    exclude: Journal.getCommitExclude(options.config),
+  });
+  const committed = await Git.commitPaths(cwd, message, Git.diffSnapshots(options.before, after));
+
+  return { committed, sha: committed ? await Git.getHeadSha(cwd) : null, message };
+}
@@ -0,0 +1,484 @@
+import { appendFile, copyFile, mkdir, mkdtemp, readFile, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { log } from '@clack/prompts';
+import { StreamJson, type AgentUsage } from '@internal/backends';
+import { buildRunPrompt } from '@internal/builders';
+import { BASE_DIR, type OdyConfig } from '@internal/config';
+import { Git } from '@internal/git';
+import { Checkpoints, type IterationOutcome, type RunJournal } from '@internal/runs';
+import {
+  formatCommitMessage,
+  getTaskNodes,
+  getTaskStatus,
+  mapWithConcurrency,
+  parseTitle,
+  rankReadyTasks,
+  resolveTaskReadiness,
+  updateTaskFrontmatter,
+} from '@internal/tasks';
+
+import { validateAgentCompletion, type MarkerDetectionResult } from '../util/agentCompletion';
+import {
+  formatAgentTimeout,
+  formatFallbackRetry,
+  getAgentTimeouts,
+  invokeWithFallback,
+  spawnAgent,
+  type AgentCandidate,
+} from './agent';
+import { formatReviewFindings, reviewTaskChanges, type ReviewFinding } from './review';
+import { addTaskUsage, isOverBudget } from './usage';
+import {
+  formatFailedValidators,
+  isUnfinishedAttempt,
+  validateTask,
+  type TaskValidation,
+} from './validation';
+
+const PROGRESS_FILE = path.join(BASE_DIR, 'progress.txt');
+
+export type MergeStrategy = 'merge' | 'rebase';
+
+export const MERGE_STRATEGIES: MergeStrategy[] = ['merge', 'rebase'];
+
+export type ParallelTaskResult = {
+  taskFile: string;
+  title: string;
+  branch: string;
+  status: 'completed' | 'failed';
+  reason?: string;
+  usage?: AgentUsage;
+  backend?: string;
+};
+
+type ParallelRunOptions = {
+  candidates: AgentCandidate[];
+  reviewer?: AgentCandidate | null;
+  backendRetries: number;
+  config: Pick<
+    OdyConfig,
+    | 'commit'
+    | 'validatorCommands'
+    | 'validatorRetries'
+    | 'validatorTimeout'
+    | 'tasksDir'
+    | 'budget'
+    | 'iterationTimeout'
+    | 'idleTimeout'
+    | 'onTimeout'
+    | 'review'
+  >;
+  tasksDirPath: string;
+  taskFiles?: string[];
+  concurrency: number;
+  maxTasks: number;
+  mergeStrategy: MergeStrategy;
+  verbose: boolean;
+  journal?: RunJournal;
+  signal?: AbortSignal;
+  onTaskComplete?: (result: ParallelTaskResult) => Promise<void> | void;
+};
+
+type WorktreeContext = {
+  cwd: string;
+  repoRoot: string;
+  relativeCwd: string;
+  worktreesDir: string;
+  runId: string;
+  nextIteration: () => number;
+  withIntegrationLock: <T>(fn: () => Promise<T>) => Promise<T>;
+};
+
+async function readOptionalFile(filePath: string) {
+  try {
+    return await readFile(filePath, 'utf-8');
+  } catch {
+    return '';
+  }
+}
+
+function createCounter() {
+  let value = 0;
+
+  return () => ++value;
+}
+
+function createIntegrationLock() {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return <T>(fn: () => Promise<T>): Promise<T> => {
+    const next = queue.then(fn);
+    queue = next.catch(() => undefined);
+    return next;
+  };
+}
+
+async function integrateBranch(
+  ctx: WorktreeContext,
+  branch: string,
+  worktreeCwd: string,
+  strategy: MergeStrategy,
+) {
+  if (strategy === 'merge') {
+    return Git.merge(ctx.cwd, branch);
+  }
+
+  const rebased = await Git.rebase(worktreeCwd, await Git.getHeadSha(ctx.cwd));
+
+  if (!rebased.ok) {
+    return rebased;
+  }
+
+  return Git.fastForward(ctx.cwd, branch);
+}
+
+async function runTaskInWorktree(
+  ctx: WorktreeContext,
+  taskFile: string,
+  options: ParallelRunOptions,
+): Promise<ParallelTaskResult> {
+  const slug = taskFile.replace(/\.code-task\.md$/, '');
+  const branch = `ody/${slug}-${ctx.runId}`;
+  const worktreeRoot = path.join(ctx.worktreesDir, slug);
+  const worktreeCwd = path.join(worktreeRoot, ctx.relativeCwd);
+  const mainTaskPath = path.join(options.tasksDirPath, taskFile);
+  const worktreeTaskPath = path.join(worktreeCwd, options.tasksDirPath, taskFile);
+  const worktreeProgressPath = path.join(worktreeCwd, PROGRESS_FILE);
+  const title = parseTitle(await readOptionalFile(mainTaskPath));
+  let keepBranch = false;
+  let taskUsage: AgentUsage | undefined;
+  let completedBy: string | undefined;
+
+  const fail = (reason: string): ParallelTaskResult => ({
+    taskFile,
+    title,
+    branch,
+    status: 'failed',
+    reason,
+    usage: taskUsage,
+  });
+
+  if (options.signal?.aborted) {
+    return fail('interrupted before the task started');
+  }
+
+  try {
+    await Git.addWorktree(ctx.repoRoot, worktreeRoot, branch);
+  } catch (err) {
+    return fail(Error.isError(err) ? err.message : String(err));
+  }
+
+  try {
+    // Task state lives in the main tree; the worktree gets a private copy the
+    // agent can update, which is copied back once the branch is integrated.
+    await mkdir(path.dirname(worktreeTaskPath), { recursive: true });
+    await copyFile(mainTaskPath, worktreeTaskPath);
+
+    const progressBefore = await readOptionalFile(PROGRESS_FILE);
+    await Bun.write(worktreeProgressPath, progressBefore);
+
+    log.step(`Started ${title} on ${branch}`);
+
+    const iteration = ctx.nextIteration();
+    const agentTimeouts = getAgentTimeouts(options.config);
+    const reviewBase = await Git.getHeadSha(worktreeCwd);
+    const reviewRounds = options.config.review?.rounds ?? 2;
+    let validationFailures: string | undefined;
+    let reviewFeedback: string | undefined;
+    let feedbackAttempt = 0;
+    let reviewRound = 0;
+
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = new Date().toISOString();
+      let stdout = '';
+      let stderr = '';
+      let exitCode: number | null = null;
+      let markerDetection: MarkerDetectionResult | null = null;
+      let usage: AgentUsage | null = null;
+      let usedBackend: string | null = null;
+      let validation: TaskValidation | null = null;
+      let blockingFindings: ReviewFinding[] = [];
+
+      const recordAttempt = async (outcome: IterationOutcome, error: string | null = null) => {
+        if (usage) {
+          taskUsage = StreamJson.addUsage(taskUsage ?? StreamJson.emptyUsage(), usage);
+          await addTaskUsage(worktreeTaskPath, usage);
+        }
+
+        await options.journal?.recordIteration({
+          iteration,
+          attempt,
+          taskFile,
+          taskTitle: title,
+          startedAt,
+          exitCode,
+          markerDetection,
+          outcome,
+          error,
+          validators: validation?.results ?? [],
+          usage,
+          backend: usedBackend,
+          stdout,
+          stderr,
+        });
+      };
+
+      try {
+        const prompt = buildRunPrompt({
+          taskFile: path.join(options.tasksDirPath, taskFile),
+          config: options.config,
+          validationFailures,
+          reviewFeedback,
+        });
+        const { candidate, invocation } = await invokeWithFallback({
+          candidates: options.candidates,
+          retries: options.backendRetries,
+          retryTimeouts: options.config.onTimeout !== 'skip',
+          signal: options.signal,
+          invoke: (next) =>
+            spawnAgent({
+              candidate: next,
+              prompt,
+              cwd: worktreeCwd,
+              signal: options.signal,
+              verbose: options.verbose,
+              timeouts: agentTimeouts,
+            }),
+          async onRetry(retry) {
+            ({ exitCode, stdout, stderr, markerDetection, usage } = retry.invocation);
+            usedBackend = retry.candidate.name;
+
+            const message = formatFallbackRetry(retry);
+
+            await recordAttempt('retrying', message);
+            log.warn(`${title}: ${message}`);
+          },
+        });
+
+        ({ exitCode, stdout, stderr, markerDetection, usage } = invocation);
+        usedBackend = candidate.name;
+
+        if (invocation.timeout && !options.signal?.aborted) {
+          const message = `${candidate.name} ${formatAgentTimeout(invocation.timeout, agentTimeouts)}`;
+
+          await recordAttempt('timed_out', message);
+          return fail(message);
+        }
+
+        validateAgentCompletion(exitCode, markerDetection);
+
+        const taskStatus = await getTaskStatus(worktreeTaskPath);
+
+        if (
+          taskStatus !== 'completed' &&
+          !(await isUnfinishedAttempt(worktreeTaskPath, taskStatus))
+        ) {
+          throw new Error(`task status is "${taskStatus ?? 'unknown'}" after the agent exited`);
+        }
+
+        validation = await validateTask({
+          taskFile,
+          taskPath: worktreeTaskPath,
+          attempt,
+          commands: options.config.validatorCommands ?? [],
+          timeoutMs: options.config.validatorTimeout && options.config.validatorTimeout * 60_000,
+          cwd: worktreeCwd,
+        });
+
+        if (
+          !validation.passed &&
+          attempt - feedbackAttempt > (options.config.validatorRetries ?? 2)
+        ) {
+          throw new Error(`validation failed:\n${validation.failures}`);
+        }
+
+        if (validation.passed && options.reviewer) {
+          reviewRound++;
+          log.step(`Reviewing ${title} with ${options.reviewer.name} (round ${reviewRound})`);
+
+          const review = await reviewTaskChanges({
+            candidate: options.reviewer,
+            taskFile,
+            taskPath: worktreeTaskPath,
+            base: reviewBase,
+            round: reviewRound,
+            cwd: worktreeCwd,
+            signal: options.signal,
+            verbose: options.verbose,
+            timeouts: agentTimeouts,
+          });
+
+          if (review.usage) {
+            usage = StreamJson.addUsage(usage ?? StreamJson.emptyUsage(), review.usage);
+          }
+
+          blockingFindings = review.blocking;
+
+          if (blockingFindings.length > 0 && reviewRound >= reviewRounds) {
+            throw new Error(
+              `review still has blocking findings after ${reviewRound} round${reviewRound === 1 ? '' : 's'}:\n${formatReviewFindings(blockingFindings)}`,
+            );
+          }
+        }
+      } catch (err) {
+        const message = Error.isError(err) ? err.message : String(err);
+
+        await recordAttempt(options.signal?.aborted ? 'stopped' : 'failed', message);
+        return fail(message);
+      }
+
+      if (validation.passed && blockingFindings.length > 0) {
+        await updateTaskFrontmatter(worktreeTaskPath, { status: 'in_progress', completed: null });
+        await recordAttempt(
+          'retrying',
+          `review found ${blockingFindings.length} blocking finding${blockingFindings.length === 1 ? '' : 's'}`,
+        );
+        reviewFeedback = formatReviewFindings(blockingFindings);
+        validationFailures = undefined;
+        feedbackAttempt = attempt;
+        log.warn(`Review requested changes to ${title}; retrying`);
+        continue;
+      }
+
+      if (validation.passed) {
+        await recordAttempt('completed');
+        completedBy = usedBackend ?? undefined;
+        break;
+      }
+
+      await recordAttempt('retrying');
+      validationFailures = validation.failures;
+      log.warn(`Validation failed for ${title}: ${formatFailedValidators(validation)}; retrying`);
+    }
+
+    const committed = await Git.commitAll(
+      worktreeCwd,
+      formatCommitMessage(
+        await readOptionalFile(worktreeTaskPath),
+        worktreeTaskPath,
+        options.config.commit,
+      ),
+      { exclude: [BASE_DIR] },
+    );
+
+    return await ctx.withIntegrationLock(async () => {
+      // Taken from the main tree just before the merge, so rolling the task
+      // back undoes its merge along with anything integrated after it. The
+      // worktree copy carries the checkpoint field back to the main task file.
+      await Checkpoints.record(ctx.cwd, worktreeTaskPath);
+
+      if (committed) {
+        const integration = await integrateBranch(ctx, branch, worktreeCwd, options.mergeStrategy);
+
+        if (!integration.ok) {
+          keepBranch = true;
+          await Git.updateRef(ctx.cwd, Checkpoints.refFor(taskFile), null);
+          return fail(
+            `merge conflict while integrating ${branch}; the branch was kept for manual resolution\n${integration.message}`,
+          );
+        }
+      }
+
+      await copyFile(worktreeTaskPath, mainTaskPath);
+
+      const progressAfter = await readOptionalFile(worktreeProgressPath);
+
+      if (
+        progressAfter.startsWith(progressBefore) &&
+        progressAfter.length > progressBefore.length
+      ) {
+        await appendFile(PROGRESS_FILE, progressAfter.slice(progressBefore.length));
+      }
+
+      return {
+        taskFile,
+        title,
+        branch,
+        status: 'completed' as const,
+        usage: taskUsage,
+        backend: completedBy,
+      };
+    });
+  } catch (err) {
+    return fail(Error.isError(err) ? err.message : String(err));
+  } finally {
+    await Git.removeWorktree(ctx.repoRoot, worktreeRoot);
+
+    if (!keepBranch) {
+      await Git.deleteBranch(ctx.repoRoot, branch).catch(() => undefined);
+    }
+  }
+}
+
+export async function runParallel(options: ParallelRunOptions): Promise<ParallelTaskResult[]> {
+  const cwd = process.cwd();
+  const repoRoot = await Git.getTopLevel(cwd);
+
+  if (await Git.hasUncommittedChanges(cwd, { exclude: [BASE_DIR] })) {
+    throw new Error(
+      `Parallel runs require a clean working tree outside ${BASE_DIR}/. Commit or stash your changes first.`,
+    );
+  }
+
+  const ctx: WorktreeContext = {
+    cwd,
+    repoRoot,
+    relativeCwd: await Git.run(['rev-parse', '--show-prefix'], cwd),
+    worktreesDir: await mkdtemp(path.join(os.tmpdir(), 'ody-worktrees-')),
+    runId: Date.now().toString(36),
+    nextIteration: createCounter(),
+    withIntegrationLock: createIntegrationLock(),
+  };
+
+  const results: ParallelTaskResult[] = [];
+  const attempted = new Set<string>();
+
+  try {
+    while (
+      !options.signal?.aborted &&
+      (options.maxTasks === 0 || attempted.size < options.maxTasks)
+    ) {
+      const readiness = resolveTaskReadiness(await getTaskNodes(options.tasksDirPath));
+      const candidates = rankReadyTasks(readiness, options.taskFiles).filter(
+        (task) => !attempted.has(task.taskFile),
+      );
+      const remaining =
+        options.maxTasks === 0 ? candidates.length : options.maxTasks - attempted.size;
+      const wave = candidates.slice(0, remaining);
+
+      if (wave.length === 0) {
+        break;
+      }
+
+      if (options.journal && isOverBudget(options.journal.getUsage(), options.config.budget)) {
+        break;
+      }
+
+      for (const task of wave) {
+        attempted.add(task.taskFile);
+      }
+
+      await mapWithConcurrency(wave, options.concurrency, async (task) => {
+        const result = await runTaskInWorktree(ctx, task.taskFile, options);
+        results.push(result);
+
+        if (result.status === 'completed') {
+          log.success(
+            `Completed ${result.title}${options.candidates.length > 1 ? ` via ${result.backend}` : ''}`,
+          );
+          await options.onTaskComplete?.(result);
+        } else {
+          log.error(`Failed ${result.title}: ${result.reason}`);
+        }
+
+        return result;
+      });
+    }
+  } finally {
+    await rm(ctx.worktreesDir, { recursive: true, force: true });
+  }
+
+  return results;
+}
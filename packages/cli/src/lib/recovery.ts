@@ -0,0 +1,85 @@
+import path from 'node:path';
+
+import { isCancel, log, select } from '@clack/prompts';
+import type { RunRecord } from '@internal/runs';
+import { getTaskStates, updateTaskFrontmatter } from '@internal/tasks';
+
+export type OrphanedTaskAction = 'resume' | 'reset' | 'skip';
+
+export type ResumeArgs = {
+  taskFile?: string;
+  label?: string;
+  iterations?: string;
+  parallel?: string;
+  ['merge-strategy']?: string;
+  baseBranch?: string;
+};
+
+function getStringArg(run: RunRecord, key: string) {
+  const value = run.args[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function getNumberArg(run: RunRecord, key: string) {
+  const value = run.args[key];
+  return typeof value === 'number' ? String(value) : undefined;
+}
+
+export function getResumeArgs(run: RunRecord): ResumeArgs {
+  return {
+    taskFile: getStringArg(run, 'taskFile'),
+    label: getStringArg(run, 'label'),
+    iterations: getNumberArg(run, 'iterations'),
+    parallel: getNumberArg(run, 'parallel'),
+    ['merge-strategy']: getStringArg(run, 'mergeStrategy') ?? 'merge',
+    baseBranch: getStringArg(run, 'baseBranch'),
+  };
+}
+
+export async function findOrphanedTasks(tasksDirPath: string, taskFiles?: string[]) {
+  const taskStates = await getTaskStates(undefined, tasksDirPath);
+
+  return taskStates
+    .filter((taskState) => taskState.status === 'in_progress')
+    .filter((taskState) => !taskFiles || taskFiles.includes(taskState.taskFile))
+    .map((taskState) => taskState.taskFile);
+}
+
+export async function resetTasks(tasksDirPath: string, taskFiles: string[]) {
+  for (const taskFile of taskFiles) {
+    await updateTaskFrontmatter(path.join(tasksDirPath, taskFile), {
+      status: 'pending',
+      started: null,
+    });
+  }
+}
+
+export async function chooseOrphanedTaskAction(
+  orphans: string[],
+  options: { allowResume: boolean },
+): Promise<OrphanedTaskAction> {
+  const summary = `${orphans.length} task(s) were left in_progress by an interrupted run: ${orphans.join(', ')}`;
+
+  if (!process.stdin.isTTY) {
+    log.warn(`${summary}. They are skipped; run \`ody run --resume\` to pick them up.`);
+    return 'skip';
+  }
+
+  const action = await select<OrphanedTaskAction>({
+    message: `${summary}. What should ody do?`,
+    options: [
+      ...(options.allowResume
+        ? [{ value: 'resume' as const, label: 'Resume them before other tasks' }]
+        : []),
+      { value: 'reset', label: 'Reset them to pending' },
+      { value: 'skip', label: 'Leave them in_progress and skip them' },
+    ],
+  });
+
+  if (isCancel(action)) {
+    log.info('Run cancelled.');
+    process.exit(0);
+  }
+
+  return action;
+}
@@ -0,0 +1,169 @@
+import { appendFile, readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import {
+  Backend,
+  createStreamJsonCollector,
+  type AgentUsage,
+  type OutputFormat,
+} from '@internal/backends';
+import { buildTaskReviewPrompt } from '@internal/builders';
+import { BASE_DIR, Config, type OdyConfig } from '@internal/config';
+import { Git } from '@internal/git';
+
+import { spawnAgent, type AgentCandidate, type AgentTimeouts } from './agent';
+
+const MAX_DIFF_CHARS = 200_000;
+
+export const REVIEW_SEVERITIES = ['critical', 'high', 'medium', 'low'] as const;
+
+export type ReviewSeverity = (typeof REVIEW_SEVERITIES)[number];
+
+export type ReviewFinding = {
+  severity: ReviewSeverity;
+  body: string;
+};
+
+export type TaskReview = {
+  findings: ReviewFinding[];
+  blocking: ReviewFinding[];
+  usage: AgentUsage | null;
+};
+
+type ReviewTaskChangesOptions = {
+  candidate: AgentCandidate;
+  taskFile: string;
+  taskPath: string;
+  base: string;
+  round: number;
+  cwd?: string;
+  signal?: AbortSignal;
+  verbose: boolean;
+  timeouts?: AgentTimeouts;
+};
+
+export function createReviewCandidate(
+  config: Pick<OdyConfig, 'agent' | 'backend' | 'model' | 'skipPermissions' | 'review'>,
+): AgentCandidate | null {
+  if (!config.review) {
+    return null;
+  }
+
+  const primary = Config.primaryBackend('run', config);
+  const name = config.review.backend ?? primary.name;
+  const model = config.review.model ?? (config.review.backend ? undefined : primary.model);
+
+  return { name, model, backend: new Backend(name, config) };
+}
+
+export function parseReviewFindings(output: string): ReviewFinding[] {
+  const findings: ReviewFinding[] = [];
+
+  for (const match of output.matchAll(/<finding\s+severity="(\w+)">([\s\S]*?)<\/finding>/gi)) {
+    const severity = match[1]?.toLowerCase() as ReviewSeverity;
+    const body = match[2]?.trim() ?? '';
+
+    if (REVIEW_SEVERITIES.includes(severity) && body !== '') {
+      findings.push({ severity, body });
+    }
+  }
+
+  return findings;
+}
+
+export function getBlockingFindings(findings: ReviewFinding[]) {
+  return findings.filter(
+    (finding) => finding.severity === 'critical' || finding.severity === 'high',
+  );
+}
+
+export function formatReviewFindings(findings: ReviewFinding[]) {
+  return findings
+    .map((finding) => `[${finding.severity.toUpperCase()}] ${finding.body}`)
+    .join('\n\n');
+}
+
+export function formatReviewProgressNote(
+  taskFile: string,
+  round: number,
+  reviewer: string,
+  findings: ReviewFinding[],
+) {
+  const blocking = getBlockingFindings(findings).length;
+  const outcome =
+    findings.length === 0
+      ? 'no findings'
+      : `${blocking} blocking, ${findings.length - blocking} suggestion${findings.length - blocking === 1 ? '' : 's'}`;
+
+  return [
+    `Review for ${taskFile} (round ${round}, ${reviewer}): ${outcome}`,
+    formatReviewFindings(findings),
+  ]
+    .filter((line) => line !== '')
+    .join('\n');
+}
+
+// Stream-json backends wrap the reviewer's text in JSON events, so findings
+// are read from the extracted assistant messages.
+function getReviewText(outputFormat: OutputFormat, stdout: string) {
+  if (outputFormat === 'text') {
+    return stdout;
+  }
+
+  const collector = createStreamJsonCollector();
+
+  for (const line of stdout.split(/\r?\n/)) {
+    collector.onLine(line);
+  }
+
+  const summary = collector.finalize();
+
+  return summary.messages.length > 0 ? summary.messages.join('\n') : (summary.result ?? '');
+}
+
+function truncateDiff(diff: string) {
+  if (diff.length <= MAX_DIFF_CHARS) {
+    return diff;
+  }
+
+  return `${diff.slice(0, MAX_DIFF_CHARS)}\n... diff truncated after ${MAX_DIFF_CHARS} characters; inspect the working tree for the rest`;
+}
+
+export async function reviewTaskChanges(options: ReviewTaskChangesOptions): Promise<TaskReview> {
+  const cwd = options.cwd ?? process.cwd();
+  const { diff } = await Git.getChanges(cwd, options.base, { exclude: [BASE_DIR] });
+  const prompt = buildTaskReviewPrompt({
+    taskFile: options.taskPath,
+    taskContent: await readFile(options.taskPath, 'utf-8'),
+    diff: truncateDiff(diff),
+  });
+  const invocation = await spawnAgent({
+    candidate: options.candidate,
+    prompt,
+    cwd,
+    signal: options.signal,
+    verbose: options.verbose,
+    timeouts: options.timeouts,
+  });
+
+  if (options.signal?.aborted) {
+    throw new Error('Review interrupted');
+  }
+
+  if (invocation.timeout || invocation.exitCode !== 0) {
+    throw new Error(
+      `Reviewer ${options.candidate.name} ${invocation.timeout ? `hit its ${invocation.timeout} timeout` : `exited with code ${invocation.exitCode}`}`,
+    );
+  }
+
+  const findings = parseReviewFindings(
+    getReviewText(options.candidate.backend.outputFormat, invocation.stdout),
+  );
+
+  await appendFile(
+    path.join(cwd, BASE_DIR, 'progress.txt'),
+    `\n${formatReviewProgressNote(options.taskFile, options.round, options.candidate.name, findings)}\n`,
+  );
+
+  return { findings, blocking: getBlockingFindings(findings), usage: invocation.usage };
+}
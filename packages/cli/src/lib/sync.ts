@@ -0,0 +1,190 @@
+import { log } from '@clack/prompts';
+import { Auth } from '@internal/auth';
+import type { OdyConfig } from '@internal/config';
+import { Git } from '@internal/git';
+import { GitHub, Jira, type GitHubPullRequest } from '@internal/integrations';
+import {
+  TASK_STATUSES,
+  parseTaskSource,
+  parseTitle,
+  readFrontmatterData,
+  updateTaskFrontmatter,
+  type TaskStatus,
+} from '@internal/tasks';
+
+type SyncConfig = Pick<OdyConfig, 'sync' | 'jira' | 'github'>;
+
+type SyncTaskOptions = {
+  status?: TaskStatus;
+  link?: string | null;
+  force?: boolean;
+};
+
+export type TaskSyncResult = {
+  source: string;
+  status: TaskStatus;
+  actions: string[];
+};
+
+export const DEFAULT_JIRA_STATUSES: Partial<Record<TaskStatus, string>> = {
+  in_progress: 'In Progress',
+  completed: 'Done',
+};
+
+export function formatCompletionComment(title: string, link?: string | null) {
+  return [`ody completed this task: ${title}`, link].filter(Boolean).join('\n');
+}
+
+// Links the change that completed a task: its pull request, else its commit on
+// GitHub, else the bare commit SHA.
+export async function getChangeLink(
+  pullRequest: GitHubPullRequest | null,
+  sha: string,
+  github?: OdyConfig['github'],
+  cwd?: string,
+): Promise<string> {
+  if (pullRequest) {
+    return `Pull request: ${pullRequest.url}`;
+  }
+
+  try {
+    const host = GitHub.resolveHost(github);
+    const { owner, repo } = GitHub.parseRemoteUrl(await Git.getRemoteUrl(cwd), host);
+    return `Commit: ${host.baseUrl}/${owner}/${repo}/commit/${sha}`;
+  } catch {
+    return `Commit: ${sha}`;
+  }
+}
+
+async function syncJira(
+  key: string,
+  status: TaskStatus,
+  title: string,
+  link: string | null,
+  config: SyncConfig,
+) {
+  const baseUrl = config.jira?.baseUrl;
+
+  if (!baseUrl) {
+    throw new Error(`Set jira.baseUrl in .ody/ody.json to sync ${key}`);
+  }
+
+  const profile = config.jira?.profile ?? 'default';
+  const auth = await Auth.getJira(profile);
+
+  if (!auth) {
+    throw new Error(
+      `Missing Jira credentials for profile "${profile}". Run \`ody auth jira\` to configure them.`,
+    );
+  }
+
+  const actions: string[] = [];
+  const target = { ...DEFAULT_JIRA_STATUSES, ...config.sync?.jiraStatuses }[status];
+
+  if (target) {
+    const ticket = await Jira.fetchTicket(baseUrl, key, auth);
+
+    if (ticket.status.toLowerCase() !== target.toLowerCase()) {
+      await Jira.transitionTicket(baseUrl, key, target, auth);
+      actions.push(`moved ${key} to ${target}`);
+    }
+  }
+
+  if (status === 'completed') {
+    await Jira.addComment(baseUrl, key, formatCompletionComment(title, link), auth);
+    actions.push(`commented on ${key}`);
+  }
+
+  return actions;
+}
+
+async function syncGitHub(
+  ref: string,
+  status: TaskStatus,
+  title: string,
+  link: string | null,
+  config: SyncConfig,
+) {
+  if (status !== 'completed') {
+    return [];
+  }
+
+  const host = GitHub.resolveHost(config.github);
+  const { owner, repo, issueNumber } = GitHub.parseInput(ref, host);
+  const auth = await Auth.getGitHub(config.github?.profile ?? 'default', host.hostname);
+  const actions: string[] = [];
+
+  await GitHub.addIssueComment(
+    owner,
+    repo,
+    issueNumber,
+    formatCompletionComment(title, link),
+    auth?.token,
+    host.apiUrl,
+  );
+  actions.push(`commented on ${ref}`);
+
+  if (config.sync?.closeGitHubIssues) {
+    await GitHub.closeIssue(owner, repo, issueNumber, auth?.token, host.apiUrl);
+    actions.push(`closed ${ref}`);
+  }
+
+  return actions;
+}
+
+// Pushes a task's status to the ticket it was imported from. The last synced
+// status is kept in the task's frontmatter so a status is only pushed once.
+export async function syncTask(
+  taskPath: string,
+  config: SyncConfig,
+  options: SyncTaskOptions = {},
+): Promise<TaskSyncResult | null> {
+  const content = await Bun.file(taskPath).text();
+  const frontmatter = readFrontmatterData(content);
+  const source = typeof frontmatter.source === 'string' ? frontmatter.source : '';
+  const parsed = parseTaskSource(source);
+
+  // Only Jira and GitHub have write support; other imports are left alone.
+  if (!parsed || (parsed.kind !== 'jira' && parsed.kind !== 'github')) {
+    return null;
+  }
+
+  const status = options.status ?? (frontmatter.status as TaskStatus);
+
+  if (!TASK_STATUSES.includes(status)) {
+    throw new Error(`Unknown task status "${String(status)}"`);
+  }
+
+  if (!options.force && frontmatter.synced === status) {
+    return { source, status, actions: [] };
+  }
+
+  const title = parseTitle(content);
+  const link = options.link ?? null;
+  const actions =
+    parsed.kind === 'jira'
+      ? await syncJira(parsed.key, status, title, link, config)
+      : await syncGitHub(parsed.key, status, title, link, config);
+
+  await updateTaskFrontmatter(taskPath, { synced: status });
+
+  return { source, status, actions };
+}
+
+// Used by `ody run`: a failed sync is reported but never stops the run.
+export async function syncTaskStatus(
+  taskPath: string,
+  taskTitle: string,
+  config: SyncConfig,
+  options: SyncTaskOptions,
+) {
+  try {
+    const result = await syncTask(taskPath, config, options);
+
+    if (result && result.actions.length > 0) {
+      log.info(`Synced ${taskTitle}: ${result.actions.join(', ')}`);
+    }
+  } catch (err) {
+    log.warn(`Could not sync ${taskTitle}: ${Error.isError(err) ? err.message : String(err)}`);
+  }
+}
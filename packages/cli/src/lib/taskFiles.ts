@@ -0,0 +1,95 @@
+import { access } from 'node:fs/promises';
+import path from 'node:path';
+
+import { TASK_FILE_FORMAT } from '@internal/builders';
+import {
+  TASK_STATUSES,
+  normalizeTaskRef,
+  setFrontmatterFields,
+  type FrontmatterValue,
+  type TaskFrontmatter,
+  type TaskStatus,
+} from '@internal/tasks';
+
+export type NewTaskOptions = {
+  title: string;
+  date: string;
+  priority?: TaskFrontmatter['priority'];
+  complexity?: TaskFrontmatter['complexity'];
+  labels?: string[];
+  dependsOn?: string[];
+};
+
+export function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export function splitList(value: string | undefined) {
+  return (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item !== '');
+}
+
+export function isTaskStatus(value: string): value is TaskStatus {
+  return (TASK_STATUSES as readonly string[]).includes(value);
+}
+
+export function slugifyTitle(title: string) {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export function buildTaskFile(options: NewTaskOptions) {
+  const template = TASK_FILE_FORMAT.match(/```markdown\n([\s\S]*?)\n```/)?.[1] ?? '';
+  const content = template.replace(/^# Task: .*$/m, `# Task: ${options.title}`);
+
+  return `${setFrontmatterFields(content, {
+    status: 'pending',
+    created: options.date,
+    started: null,
+    completed: null,
+    priority: options.priority ?? 'medium',
+    complexity: options.complexity ?? null,
+    labels: options.labels ?? [],
+    dependsOn: (options.dependsOn ?? []).map(normalizeTaskRef),
+  })}\n`;
+}
+
+export function getStatusFields(
+  status: TaskStatus,
+  frontmatter: Pick<TaskFrontmatter, 'started'>,
+  date: string,
+): Record<string, FrontmatterValue> {
+  switch (status) {
+    case 'pending':
+      return { status, started: null, completed: null };
+    case 'in_progress':
+      return { status, started: frontmatter.started ?? date, completed: null };
+    case 'completed':
+      return { status, started: frontmatter.started ?? date, completed: date };
+  }
+}
+
+export async function resolveTaskFile(tasksDir: string, ref: string) {
+  const taskFile = normalizeTaskRef(ref);
+
+  try {
+    await access(path.join(tasksDir, taskFile));
+  } catch {
+    throw new Error(`Task not found: ${taskFile}`);
+  }
+
+  return taskFile;
+}
+
+export function matchTaskFiles(taskFiles: string[], patterns: string[]) {
+  const globs = patterns.flatMap((pattern) => {
+    const name = path.basename(pattern.trim());
+    return [new Bun.Glob(name), new Bun.Glob(`${name}.code-task.md`)];
+  });
+
+  return taskFiles.filter((taskFile) => globs.some((glob) => glob.match(taskFile)));
+}
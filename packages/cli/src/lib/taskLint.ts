@@ -0,0 +1,312 @@
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { TASK_FILE_FORMAT } from '@internal/builders';
+import {
+  TASK_COMPLEXITIES,
+  TASK_PRIORITIES,
+  TASK_STATUSES,
+  findDependencyCycle,
+  getTaskFilesInDir,
+  normalizeTaskRef,
+  parseLabels,
+  readFrontmatterData,
+  safeParseTaskFrontmatter,
+  setFrontmatterFields,
+  taskFrontmatterSchema,
+  type FrontmatterValue,
+  type TaskNode,
+} from '@internal/tasks';
+
+export type LintSeverity = 'error' | 'warning';
+
+export type LintIssue = {
+  taskFile: string;
+  line: number;
+  column: number;
+  severity: LintSeverity;
+  message: string;
+};
+
+export type LintResult = {
+  fileCount: number;
+  issues: LintIssue[];
+  fixed: string[];
+  fixable: string[];
+};
+
+const REQUIRED_SECTIONS = [...TASK_FILE_FORMAT.matchAll(/^## (.+)$/gm)].map((match) =>
+  (match[1] ?? '').trim(),
+);
+const TITLE_REGEX = /^#\s+(?:Task:\s*)?(.+)$/m;
+const TASK_FILENAME_REGEX = /^[a-z0-9]+(?:-[a-z0-9]+)*\.code-task\.md$/;
+const CRITERION_STEPS = ['Given', 'When', 'Then'];
+
+const STATUS_ALIASES: Record<string, (typeof TASK_STATUSES)[number]> = {
+  complete: 'completed',
+  done: 'completed',
+  finished: 'completed',
+  'in-progress': 'in_progress',
+  'in progress': 'in_progress',
+  inprogress: 'in_progress',
+  started: 'in_progress',
+  todo: 'pending',
+  open: 'pending',
+};
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function lineAt(content: string, index: number) {
+  return index < 0 ? 1 : content.slice(0, index).split('\n').length;
+}
+
+function getSection(content: string, name: string) {
+  const heading = new RegExp(`^##\\s+${escapeRegExp(name)}\\s*$`, 'im').exec(content);
+
+  if (!heading) {
+    return undefined;
+  }
+
+  const start = heading.index + heading[0].length;
+  const next = content.slice(start).search(/^## /m);
+
+  return { start, text: content.slice(start, next === -1 ? undefined : start + next) };
+}
+
+function normalizeEnum(value: unknown, allowed: readonly string[]) {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  const normalized = value.trim().toLowerCase();
+
+  return allowed.includes(normalized) ? normalized : undefined;
+}
+
+export function formatLintIssue(issue: LintIssue) {
+  return `${issue.taskFile}:${issue.line}:${issue.column}: ${issue.message}`;
+}
+
+export function lintTaskContent(taskFile: string, content: string): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const report = (severity: LintSeverity, line: number, message: string, column = 1) => {
+    issues.push({ taskFile, line, column, severity, message });
+  };
+
+  const frontmatter = safeParseTaskFrontmatter(content);
+
+  if (!frontmatter.success) {
+    for (const issue of frontmatter.issues) {
+      report(
+        'error',
+        issue.line,
+        `${issue.path ? `${issue.path}: ` : ''}${issue.message}`,
+        issue.column,
+      );
+    }
+  }
+
+  const title = TITLE_REGEX.exec(content);
+
+  if (!title) {
+    report('error', 1, 'Missing task title ("# Task: <name>")');
+  }
+
+  for (const name of REQUIRED_SECTIONS) {
+    if (!getSection(content, name)) {
+      report('error', 1, `Missing required section "## ${name}"`);
+    }
+  }
+
+  const criteria = getSection(content, 'Acceptance Criteria');
+
+  if (criteria) {
+    const items = [...criteria.text.matchAll(/^\d+\.\s[\s\S]*?(?=^\d+\.\s|(?![\s\S]))/gm)];
+
+    if (items.length === 0) {
+      report(
+        'warning',
+        lineAt(content, criteria.start),
+        'Acceptance criteria should be a numbered list of Given/When/Then scenarios',
+      );
+    }
+
+    for (const [index, item] of items.entries()) {
+      const missing = CRITERION_STEPS.filter(
+        (step) => !new RegExp(`^\\s*-\\s*\\**${step}\\b`, 'im').test(item[0]),
+      );
+
+      if (missing.length > 0) {
+        report(
+          'warning',
+          lineAt(content, criteria.start + item.index),
+          `Acceptance criterion ${index + 1} is missing ${missing.map((step) => `"${step}"`).join(', ')}`,
+        );
+      }
+    }
+  }
+
+  return issues;
+}
+
+export function fixTaskContent(content: string): string {
+  const data = readFrontmatterData(content);
+  const fields: Record<string, FrontmatterValue> = {};
+
+  if (typeof data.status === 'string') {
+    const key = data.status.trim().toLowerCase();
+    const status = normalizeEnum(key, TASK_STATUSES) ?? STATUS_ALIASES[key];
+
+    if (status && status !== data.status) {
+      fields.status = status;
+    }
+  }
+
+  for (const [key, allowed] of [
+    ['priority', TASK_PRIORITIES],
+    ['complexity', TASK_COMPLEXITIES],
+  ] as const) {
+    const value = normalizeEnum(data[key], allowed);
+
+    if (value && value !== data[key]) {
+      fields[key] = value;
+    }
+  }
+
+  const dependsOn = taskFrontmatterSchema.shape.dependsOn.safeParse(data.dependsOn);
+
+  if (dependsOn.success && dependsOn.data) {
+    const normalized = dependsOn.data.map(normalizeTaskRef);
+
+    if (!Array.isArray(data.dependsOn) || normalized.join('\n') !== data.dependsOn.join('\n')) {
+      fields.dependsOn = normalized;
+    }
+  }
+
+  if (typeof data.labels === 'string' || (data.labels === undefined && 'status' in data)) {
+    const labels = parseLabels(content);
+
+    if (labels.length > 0) {
+      fields.labels = labels;
+    }
+  }
+
+  return Object.keys(fields).length > 0 ? setFrontmatterFields(content, fields) : content;
+}
+
+export async function lintTasks(tasksDir: string, options: { fix?: boolean } = {}) {
+  const taskFiles = await getTaskFilesInDir(tasksDir);
+  const result: LintResult = { fileCount: taskFiles.length, issues: [], fixed: [], fixable: [] };
+  const contents = new Map<string, string>();
+
+  for (const taskFile of taskFiles) {
+    const filePath = path.join(tasksDir, taskFile);
+    const content = await readFile(filePath, 'utf-8');
+    const fixed = fixTaskContent(content);
+
+    if (fixed !== content && options.fix) {
+      await writeFile(filePath, fixed);
+      result.fixed.push(taskFile);
+    } else if (fixed !== content) {
+      result.fixable.push(taskFile);
+    }
+
+    contents.set(taskFile, options.fix ? fixed : content);
+  }
+
+  const report = (severity: LintSeverity, taskFile: string, line: number, message: string) => {
+    result.issues.push({ taskFile, line, column: 1, severity, message });
+  };
+
+  for (const entry of await readdir(tasksDir, { withFileTypes: true }).catch(() => [])) {
+    if (entry.isFile() && entry.name.endsWith('.md') && !entry.name.endsWith('.code-task.md')) {
+      report('warning', entry.name, 1, 'Not a task file (expected a .code-task.md suffix)');
+    }
+  }
+
+  const filesByName = new Map<string, string[]>();
+  const filesByTitle = new Map<string, string[]>();
+  const nodes: TaskNode[] = [];
+
+  for (const [taskFile, content] of contents) {
+    result.issues.push(...lintTaskContent(taskFile, content));
+
+    if (!TASK_FILENAME_REGEX.test(taskFile)) {
+      report('warning', taskFile, 1, 'Filename should be kebab-case, e.g. add-login.code-task.md');
+    }
+
+    filesByName.set(taskFile.toLowerCase(), [
+      ...(filesByName.get(taskFile.toLowerCase()) ?? []),
+      taskFile,
+    ]);
+
+    const title = TITLE_REGEX.exec(content);
+
+    if (title?.[1]) {
+      const key = title[1].trim().toLowerCase();
+      filesByTitle.set(key, [...(filesByTitle.get(key) ?? []), taskFile]);
+    }
+
+    const frontmatter = safeParseTaskFrontmatter(content);
+
+    if (!frontmatter.success) {
+      continue;
+    }
+
+    const dependsOn = (frontmatter.data.dependsOn ?? []).map(normalizeTaskRef);
+    const dependsOnLine = lineAt(content, content.search(/^dependsOn\s*:/m));
+
+    for (const dep of dependsOn) {
+      if (dep === taskFile) {
+        report('error', taskFile, dependsOnLine, 'dependsOn: task depends on itself');
+      } else if (!contents.has(dep)) {
+        report('error', taskFile, dependsOnLine, `dependsOn: no task file named ${dep}`);
+      }
+    }
+
+    nodes.push({ taskFile, status: frontmatter.data.status, dependsOn });
+  }
+
+  for (const files of filesByName.values()) {
+    for (const taskFile of files.length > 1 ? files : []) {
+      report(
+        'error',
+        taskFile,
+        1,
+        `Filename differs only in case from ${files.filter((file) => file !== taskFile).join(', ')}`,
+      );
+    }
+  }
+
+  for (const files of filesByTitle.values()) {
+    for (const taskFile of files.length > 1 ? files : []) {
+      const content = contents.get(taskFile) ?? '';
+
+      report(
+        'error',
+        taskFile,
+        lineAt(content, content.search(TITLE_REGEX)),
+        `Duplicate title, also used by ${files.filter((file) => file !== taskFile).join(', ')}`,
+      );
+    }
+  }
+
+  const cycle = findDependencyCycle(
+    nodes.map((node) => ({
+      ...node,
+      dependsOn: node.dependsOn.filter((dep) => dep !== node.taskFile),
+    })),
+  );
+
+  if (cycle?.[0]) {
+    report('error', cycle[0], 1, `Dependency cycle: ${cycle.join(' -> ')}`);
+  }
+
+  result.issues.sort(
+    (a, b) => a.taskFile.localeCompare(b.taskFile) || a.line - b.line || a.column - b.column,
+  );
+
+  return result;
+}
@@ -0,0 +1,172 @@
+import {
+  TASK_COMPLEXITIES,
+  TASK_STATUSES,
+  compareCreated,
+  formatBlockedReason,
+  getPriorityRank,
+  type TaskReadiness,
+  type TaskStatus,
+} from '@internal/tasks';
+
+export const TASK_LIST_SORTS = ['created', 'priority', 'complexity'] as const;
+export const TASK_LIST_FORMATS = ['table', 'json', 'ndjson'] as const;
+
+export type TaskListSort = (typeof TASK_LIST_SORTS)[number];
+export type TaskListFormat = (typeof TASK_LIST_FORMATS)[number];
+
+export type TaskListItem = {
+  taskFile: string;
+  title: string;
+  description: string;
+  status: TaskStatus;
+  ready: boolean;
+  blockedBy: string[];
+  priority: string;
+  complexity: string | null;
+  labels: string[];
+  dependsOn: string[];
+  created: string | null;
+  started: string | null;
+  completed: string | null;
+};
+
+export type TaskListFilter = {
+  statuses: TaskStatus[];
+  labels: string[][];
+};
+
+// citty keeps only the last value of a repeated flag, so collect every
+// occurrence from the raw arguments.
+export function getRepeatedArg(rawArgs: string[], name: string, alias?: string) {
+  const flags = [`--${name}`, ...(alias ? [`-${alias}`] : [])];
+  const values: string[] = [];
+
+  for (const [index, arg] of rawArgs.entries()) {
+    const flag = flags.find((candidate) => arg === candidate || arg.startsWith(`${candidate}=`));
+
+    if (!flag) {
+      continue;
+    }
+
+    const value = arg === flag ? rawArgs[index + 1] : arg.slice(flag.length + 1);
+
+    if (value !== undefined) {
+      values.push(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseStatusFilter(value: string): TaskStatus[] {
+  const statuses = value
+    .split(',')
+    .map((status) => status.trim())
+    .filter((status) => status !== '');
+
+  if (statuses.includes('all')) {
+    return [...TASK_STATUSES];
+  }
+
+  const invalid = statuses.filter(
+    (status) => !(TASK_STATUSES as readonly string[]).includes(status),
+  );
+
+  if (invalid.length > 0 || statuses.length === 0) {
+    throw new Error(
+      `Invalid --status value "${value}". Must be "all" or a comma-separated list of: ${TASK_STATUSES.join(', ')}.`,
+    );
+  }
+
+  return statuses as TaskStatus[];
+}
+
+// Each --label flag is a group of comma-separated alternatives; a task must
+// match at least one label from every group.
+export function parseLabelFilter(values: string[]) {
+  return values
+    .map((value) =>
+      value
+        .split(',')
+        .map((label) => label.trim().toLowerCase())
+        .filter((label) => label !== ''),
+    )
+    .filter((group) => group.length > 0);
+}
+
+export function filterTaskList(items: TaskListItem[], filter: TaskListFilter) {
+  return items.filter((item) => {
+    const labels = item.labels.map((label) => label.toLowerCase());
+
+    return (
+      filter.statuses.includes(item.status) &&
+      filter.labels.every((group) => group.some((label) => labels.includes(label)))
+    );
+  });
+}
+
+function getComplexityRank(complexity: string | null) {
+  // Legacy tasks spell it out in the body, e.g. `**Complexity**: Medium`.
+  const rank = TASK_COMPLEXITIES.indexOf(
+    complexity?.trim().toLowerCase() as (typeof TASK_COMPLEXITIES)[number],
+  );
+
+  return rank === -1 ? TASK_COMPLEXITIES.length : rank;
+}
+
+export function sortTaskList(items: TaskListItem[], sort?: TaskListSort) {
+  const compare = (a: TaskListItem, b: TaskListItem) => {
+    switch (sort) {
+      case 'created':
+        return compareCreated(a.created, b.created);
+      case 'priority':
+        return getPriorityRank(a.priority) - getPriorityRank(b.priority);
+      case 'complexity':
+        return getComplexityRank(a.complexity) - getComplexityRank(b.complexity);
+      default:
+        return 0;
+    }
+  };
+
+  return [...items].sort((a, b) => compare(a, b) || a.taskFile.localeCompare(b.taskFile));
+}
+
+export function getReadinessFields(readiness: TaskReadiness | undefined) {
+  return {
+    ready: readiness?.ready ?? false,
+    blockedBy: readiness
+      ? [...readiness.blockedBy, ...readiness.missing.map((dep) => `${dep} (missing)`)]
+      : [],
+  };
+}
+
+export function formatTaskListItem(item: TaskListItem) {
+  const state =
+    item.status !== 'pending'
+      ? item.status
+      : item.ready
+        ? 'ready'
+        : formatBlockedReason({ blockedBy: item.blockedBy, missing: [] });
+  const details = [
+    `priority ${item.priority}`,
+    ...(item.complexity ? [`complexity ${item.complexity}`] : []),
+    ...(item.labels.length > 0 ? [`labels ${item.labels.join(', ')}`] : []),
+    `created ${item.created ?? '-'}`,
+    ...(item.started ? [`started ${item.started}`] : []),
+    ...(item.completed ? [`completed ${item.completed}`] : []),
+  ];
+
+  return [
+    `  - ${item.title}  (${item.taskFile})  [${state}]`,
+    `    ${details.join(' · ')}`,
+    ...(item.description ? [`    ${item.description}`] : []),
+  ].join('\n');
+}
+
+export function formatTaskList(items: TaskListItem[], format: Exclude<TaskListFormat, 'table'>) {
+  if (format === 'ndjson') {
+    return items.map((item) => `${JSON.stringify(item)}\n`).join('');
+  }
+
+  return `${JSON.stringify(items, null, 2)}\n`;
+}
@@ -0,0 +1,31 @@
+import { readFile } from 'node:fs/promises';
+
+import { StreamJson, type AgentUsage } from '@internal/backends';
+import { readFrontmatterData, updateTaskFrontmatter } from '@internal/tasks';
+
+function readNumber(value: unknown) {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+export async function addTaskUsage(taskPath: string, usage: AgentUsage) {
+  const frontmatter = readFrontmatterData(await readFile(taskPath, 'utf-8'));
+
+  await updateTaskFrontmatter(taskPath, {
+    inputTokens: readNumber(frontmatter.inputTokens) + StreamJson.totalInputTokens(usage),
+    outputTokens: readNumber(frontmatter.outputTokens) + usage.outputTokens,
+    costUsd: Number((readNumber(frontmatter.costUsd) + usage.costUsd).toFixed(4)),
+  });
+}
+
+export function hasUsage(usage: AgentUsage) {
+  return StreamJson.totalInputTokens(usage) > 0 || usage.outputTokens > 0 || usage.costUsd > 0;
+}
+
+export function isOverBudget(usage: AgentUsage, budget?: number) {
+  return budget !== undefined && usage.costUsd >= budget;
+}
+
+export function formatBudgetExceeded(usage: AgentUsage, budget: number) {
+  return `Budget of $${budget.toFixed(2)} reached ($${usage.costUsd.toFixed(2)} spent)`;
+}
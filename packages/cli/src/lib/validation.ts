@@ -0,0 +1,84 @@
+import { appendFile, readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { BASE_DIR } from '@internal/config';
+import { Validators, type ValidatorResult } from '@internal/runs';
+import {
+  formatUncheckedCriteria,
+  getUncheckedCriteria,
+  updateTaskFrontmatter,
+  type AcceptanceCriterion,
+} from '@internal/tasks';
+
+type TaskValidationOptions = {
+  taskFile: string;
+  taskPath: string;
+  attempt: number;
+  commands: string[];
+  timeoutMs?: number;
+  cwd?: string;
+};
+
+export type TaskValidation = {
+  passed: boolean;
+  results: ValidatorResult[];
+  uncheckedCriteria: AcceptanceCriterion[];
+  failures: string;
+};
+
+export async function validateTask(options: TaskValidationOptions): Promise<TaskValidation> {
+  const uncheckedCriteria = getUncheckedCriteria(await readFile(options.taskPath, 'utf-8'));
+  const cwd = options.cwd ?? process.cwd();
+  let results: ValidatorResult[] = [];
+
+  if (options.commands.length > 0) {
+    results = await Validators.run(options.commands, { cwd, timeoutMs: options.timeoutMs });
+
+    await appendFile(
+      path.join(cwd, BASE_DIR, 'progress.txt'),
+      `\n${Validators.formatProgressNote(options.taskFile, options.attempt, results)}\n`,
+    );
+  }
+
+  const passed = Validators.failed(results).length === 0 && uncheckedCriteria.length === 0;
+
+  if (!passed) {
+    await updateTaskFrontmatter(options.taskPath, { status: 'in_progress', completed: null });
+  }
+
+  const failures = [
+    Validators.formatFailures(results),
+    uncheckedCriteria.length > 0
+      ? `Acceptance criteria not checked off:\n${formatUncheckedCriteria(uncheckedCriteria)}`
+      : '',
+  ];
+
+  return {
+    passed,
+    results,
+    uncheckedCriteria,
+    failures: failures.filter((failure) => failure !== '').join('\n\n'),
+  };
+}
+
+export function formatFailedValidators(validation: TaskValidation): string {
+  const failed = Validators.failed(validation.results).map(
+    (result) => `${result.command} (exit ${result.exitCode})`,
+  );
+  const unchecked = validation.uncheckedCriteria.length;
+
+  if (unchecked > 0) {
+    failed.push(`${unchecked} unchecked acceptance criteri${unchecked === 1 ? 'on' : 'a'}`);
+  }
+
+  return failed.join(', ');
+}
+
+// The run prompt has the agent leave its task in_progress while acceptance
+// criteria are unchecked. That is a failed attempt for validateTask to retry,
+// not a broken task state.
+export async function isUnfinishedAttempt(taskPath: string, status: string | null) {
+  if (status !== 'in_progress') return false;
+
+  return getUncheckedCriteria(await readFile(taskPath, 'utf-8')).length > 0;
+}
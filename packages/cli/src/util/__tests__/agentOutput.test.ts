@@ -0,0 +1,61 @@
+import { describe, expect, test } from 'bun:test';
+
+import { COMPLETE_MARKER } from '../agentCompletion';
+import { createAgentOutputMonitor } from '../agentOutput';
+
+const assistantLine = (text: string) =>
+  JSON.stringify({ type: 'assistant', message: { content: [{ type: 'text', text }] } });
+
+const resultLine = JSON.stringify({
+  type: 'result',
+  subtype: 'success',
+  result: `Done.\n${COMPLETE_MARKER}`,
+  total_cost_usd: 0.42,
+  usage: { input_tokens: 12, output_tokens: 340, cache_read_input_tokens: 5_000 },
+});
+
+describe('createAgentOutputMonitor', () => {
+  test('detects the marker in plain text output without usage', () => {
+    const monitor = createAgentOutputMonitor('text');
+
+    monitor.onChunk({ chunk: '', lines: ['working'], partialLine: COMPLETE_MARKER });
+
+    expect(monitor.finalize()).toEqual({
+      markerDetection: { hasStrictMatch: true, hasAmbiguousMention: false },
+      usage: null,
+    });
+  });
+
+  test('detects the marker inside stream-json events and collects usage', () => {
+    const monitor = createAgentOutputMonitor('stream-json');
+
+    monitor.onChunk({ chunk: '', lines: [assistantLine('Working on it')], partialLine: '' });
+    monitor.onChunk({ chunk: '', lines: [], partialLine: resultLine });
+
+    expect(monitor.finalize()).toEqual({
+      markerDetection: { hasStrictMatch: true, hasAmbiguousMention: false },
+      usage: {
+        inputTokens: 12,
+        outputTokens: 340,
+        cacheCreationInputTokens: 0,
+        cacheReadInputTokens: 5_000,
+        costUsd: 0.42,
+      },
+    });
+  });
+
+  test('reports an inline marker mention in an assistant message as ambiguous', () => {
+    const monitor = createAgentOutputMonitor('stream-json');
+
+    monitor.onChunk({
+      chunk: '',
+      lines: [assistantLine(`I will print ${COMPLETE_MARKER} when done`)],
+      partialLine: '',
+    });
+
+    expect(monitor.finalize().markerDetection).toEqual({
+      hasStrictMatch: false,
+      hasAmbiguousMention: true,
+    });
+  });
+});
@@ -116,6 +116,35 @@ describe('Stream', () => {
       expect(partials).toEqual(['A', '', 'B']);
     });
 
+    test('calls onIdle when no output arrives within idleTimeoutMs', async () => {
+      const onIdle = mock(() => {});
+      let controller: ReadableStreamDefaultController<Uint8Array> | undefined;
+      const stream = new ReadableStream<Uint8Array>({
+        start(c) {
+          controller = c;
+        },
+      });
+
+      const result = Stream.toOutput(stream, { capture: true, idleTimeoutMs: 20, onIdle });
+
+      controller?.enqueue(new TextEncoder().encode('hello'));
+      await Bun.sleep(40);
+      controller?.close();
+
+      expect(await result).toBe('hello');
+      expect(onIdle).toHaveBeenCalledTimes(1);
+    });
+
+    test('does not call onIdle once the stream has ended', async () => {
+      const onIdle = mock(() => {});
+      const stream = createStream(['hello']);
+
+      await Stream.toOutput(stream, { idleTimeoutMs: 20, onIdle });
+      await Bun.sleep(40);
+
+      expect(onIdle).not.toHaveBeenCalled();
+    });
+
     test('returns empty string for empty stream when capture mode is enabled', async () => {
       const stream = createStream([]);
 
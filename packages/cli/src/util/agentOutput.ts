@@ -0,0 +1,69 @@
+import { log } from '@clack/prompts';
+import { createStreamJsonCollector, type AgentUsage, type OutputFormat } from '@internal/backends';
+
+import { createCompletionMarkerDetector, type MarkerDetectionResult } from './agentCompletion';
+import type { StreamChunk } from './stream';
+
+export type AgentOutputResult = {
+  markerDetection: MarkerDetectionResult;
+  usage: AgentUsage | null;
+};
+
+export type AgentOutputOptions = {
+  verbose?: boolean;
+};
+
+export function createAgentOutputMonitor(
+  outputFormat: OutputFormat,
+  options: AgentOutputOptions = {},
+) {
+  const markerDetector = createCompletionMarkerDetector();
+
+  if (outputFormat === 'text') {
+    return {
+      onChunk(data: StreamChunk) {
+        markerDetector.onChunk(data);
+      },
+      finalize(): AgentOutputResult {
+        return { markerDetection: markerDetector.finalize(), usage: null };
+      },
+    };
+  }
+
+  // Stream-json wraps the agent's text in JSON events, so the completion
+  // marker is looked for in the extracted assistant messages instead, and
+  // verbose output shows those messages rather than the raw events.
+  const collector = createStreamJsonCollector();
+  let partialLine = '';
+
+  const inspectLine = (line: string) => {
+    for (const event of collector.onLine(line)) {
+      const text = event.type === 'text' ? event.text : event.type === 'result' ? event.text : null;
+
+      if (options.verbose && event.type === 'text' && event.text.trim() !== '') {
+        log.message(event.text.trim());
+      } else if (options.verbose && event.type === 'tool_use') {
+        log.message(`→ ${event.name}`);
+      }
+
+      if (text) {
+        markerDetector.onChunk({ chunk: text, lines: text.split(/\r?\n/), partialLine: '' });
+      }
+    }
+  };
+
+  return {
+    onChunk(data: StreamChunk) {
+      for (const line of data.lines) {
+        inspectLine(line);
+      }
+
+      partialLine = data.partialLine;
+    },
+    finalize(): AgentOutputResult {
+      inspectLine(partialLine);
+
+      return { markerDetection: markerDetector.finalize(), usage: collector.finalize().usage };
+    },
+  };
+}
@@ -10,15 +10,27 @@ export type StreamOptions = {
   shouldPrint?: boolean;
   capture?: boolean;
   onChunk?: (data: StreamChunk) => boolean | void;
+  idleTimeoutMs?: number;
+  onIdle?: () => void;
 };
 
 export namespace Stream {
   export async function toOutput(stream: ReadableStream, options: StreamOptions = {}) {
-    const { shouldPrint = false, capture = false, onChunk } = options;
+    const { shouldPrint = false, capture = false, onChunk, idleTimeoutMs, onIdle } = options;
     const decoder = new TextDecoder('utf-8', { fatal: false });
     const capturedChunks: string[] = [];
     let lineBuffer = '';
     let shouldStop = false;
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const resetIdleTimer = () => {
+      if (idleTimeoutMs === undefined || !onIdle) {
+        return;
+      }
+
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(onIdle, idleTimeoutMs);
+    };
 
     const processChunk = (chunk: string) => {
       if (chunk === '') {
@@ -48,13 +60,21 @@ export namespace Stream {
       return false;
     };
 
-    for await (const chunk of stream) {
-      const decodedChunk = decoder.decode(chunk, { stream: true });
+    resetIdleTimer();
 
-      if (processChunk(decodedChunk)) {
-        shouldStop = true;
-        break;
+    try {
+      for await (const chunk of stream) {
+        resetIdleTimer();
+
+        const decodedChunk = decoder.decode(chunk, { stream: true });
+
+        if (processChunk(decodedChunk)) {
+          shouldStop = true;
+          break;
+        }
       }
+    } finally {
+      clearTimeout(idleTimer);
     }
 
     if (!shouldStop) {
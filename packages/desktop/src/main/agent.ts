@@ -1,15 +1,44 @@
 import { type ChildProcessByStdio, spawn } from 'node:child_process';
 import { once } from 'node:events';
+import { readFile } from 'node:fs/promises';
 import path from 'node:path';
 import Stream from 'node:stream';
 
-import { Backend } from '@internal/backends';
+import {
+  Backend,
+  Harnesses,
+  createStreamJsonCollector,
+  type AgentUsage,
+  type OutputFormat,
+} from '@internal/backends';
 import { buildRunPrompt } from '@internal/builders';
-import { Config, TASKS_DIR, type OdyConfig } from '@internal/config';
-import { getTaskStates, getTaskStatus, type TaskState } from '@internal/tasks';
+import { BASE_DIR, Config, TASKS_DIR, type OdyConfig } from '@internal/config';
+import { Git, type GitSnapshot } from '@internal/git';
+import {
+  Checkpoints,
+  Journal,
+  Validators,
+  type IterationOutcome,
+  type ValidatorResult,
+} from '@internal/runs';
+import {
+  formatCommitMessage,
+  getTaskStates,
+  getTaskStatus,
+  parseTitle,
+  rejectTask,
+  updateTaskFrontmatter,
+  type TaskState,
+} from '@internal/tasks';
 import { Notification, type BrowserWindow } from 'electron';
 
-import type { AgentCompletionReason, AgentStatus, RunOptions } from '../renderer/types/ipc';
+import type {
+  AgentCompletionReason,
+  AgentStatus,
+  ApprovalDecision,
+  ApprovalRequest,
+  RunOptions,
+} from '../renderer/types/ipc';
 
 const COMPLETE_MARKER = '<woof>COMPLETE</woof>';
 const GRACEFUL_STOP_TIMEOUT_MS = 5000;
@@ -26,6 +55,20 @@ type CompletionMarkerDetector = {
 
 type SpawnResult = MarkerDetectionResult;
 
+type SpawnTimeouts = {
+  iterationMs?: number;
+  idleMs?: number;
+};
+
+type SpawnOutput = {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  markerDetection: MarkerDetectionResult;
+  usage: AgentUsage | null;
+  timeout: 'iteration' | 'idle' | null;
+};
+
 function createCompletionMarkerDetector(): CompletionMarkerDetector {
   let partialLine = '';
   let hasStrictMatch = false;
@@ -77,6 +120,24 @@ function formatTaskStates(taskStates: TaskState[]) {
   return taskStates.map((taskState) => `${taskState.taskFile} (${taskState.status})`).join(', ');
 }
 
+function findNewlyCompletedTasks(before: TaskState[], after: TaskState[]) {
+  const completedBefore = new Set(
+    before.filter((taskState) => taskState.status === 'completed').map((state) => state.taskFile),
+  );
+
+  return after.filter(
+    (taskState) => taskState.status === 'completed' && !completedBefore.has(taskState.taskFile),
+  );
+}
+
+async function readOptionalFile(filePath: string) {
+  try {
+    return await readFile(filePath, 'utf-8');
+  } catch {
+    return '';
+  }
+}
+
 function resolveTaskPath(taskFile: string, projectDir: string, tasksDirPath: string) {
   if (path.isAbsolute(taskFile)) {
     return taskFile;
@@ -97,6 +158,7 @@ export class AgentRunner {
   private _iteration = 0;
   private _maxIterations = 0;
   private _taskFiles: string[] = [];
+  private pendingApproval: ((decision: ApprovalDecision | null) => void) | null = null;
 
   constructor(
     private readonly options?: {
@@ -106,7 +168,29 @@ export class AgentRunner {
   ) {}
 
   isRunning() {
-    return this.proc !== null;
+    return this.proc !== null || this.pendingApproval !== null;
+  }
+
+  // Imports spawn one agent after another; a stop ends the whole batch.
+  resetStop() {
+    this.aborted = false;
+    this.forceStop = false;
+  }
+
+  wasStopped() {
+    return this.aborted;
+  }
+
+  respondApproval(decision: ApprovalDecision | null) {
+    const resolve = this.pendingApproval;
+
+    if (!resolve) {
+      return false;
+    }
+
+    this.pendingApproval = null;
+    resolve(decision);
+    return true;
   }
 
   status(): AgentStatus {
@@ -128,20 +212,53 @@ export class AgentRunner {
     if (!config) {
       await Config.load();
       config = Config.all();
+      await Harnesses.load(config, opts.projectDir);
     }
 
-    const backend = new Backend(config.backend, config);
-    const model = Config.resolveModel('run', config);
+    const { name: backendName, model } = Config.primaryBackend('run', config);
+    const backend = new Backend(backendName, config);
     const notifyRaw = config.notify ?? false;
     const notifySetting: false | 'all' | 'individual' = notifyRaw === true ? 'all' : notifyRaw;
     const singleTaskFile = opts.taskFiles?.length === 1 ? opts.taskFiles[0] : undefined;
-    const prompt = buildRunPrompt({
-      taskFiles: opts.taskFiles,
-      taskFile: singleTaskFile,
-      config,
-    });
+    const approvalRequired = config.approval === 'required';
+
+    // A rejected task is reverted with discardChanges, which would also throw
+    // away edits that were already in the tree.
+    if (
+      approvalRequired &&
+      (await Git.hasUncommittedChanges(opts.projectDir, { exclude: [BASE_DIR] }))
+    ) {
+      throw new Error(
+        `\`approval: required\` needs a clean working tree outside ${BASE_DIR}/ so each task's diff can be reviewed and reverted. Commit or stash your changes first.`,
+      );
+    }
+
+    // Approved changes are committed even without autoCommit.
+    const odyCommits = config.autoCommit || approvalRequired;
+    let taskFiles = opts.taskFiles;
+    let commitBase: GitSnapshot | null = null;
+    let reviewFeedback: string | undefined;
+    let attempt = 1;
     const maxIterations = Math.max(0, opts.iterations ?? config.maxIterations);
+    const timeouts: SpawnTimeouts = {
+      iterationMs: config.iterationTimeout && config.iterationTimeout * 60_000,
+      idleMs: config.idleTimeout && config.idleTimeout * 60_000,
+    };
+    const validatorTimeoutMs = config.validatorTimeout && config.validatorTimeout * 60_000;
     const tasksDirPath = path.join(opts.projectDir, '.ody', config.tasksDir ?? TASKS_DIR);
+    const journal = await Journal.start(
+      Journal.resolveRunsDir(path.join(opts.projectDir, '.ody')),
+      {
+        source: 'desktop',
+        args: {
+          taskFiles: opts.taskFiles ?? [],
+          iterations: maxIterations,
+        },
+        backend: backendName,
+        model,
+        config,
+      },
+    );
     let completionReason: AgentCompletionReason = 'finished';
 
     this.aborted = false;
@@ -155,50 +272,232 @@ export class AgentRunner {
       completionReason = 'no_tasks_remaining';
     }
 
-    for (
-      let iteration = 1;
-      !this.aborted &&
-      completionReason !== 'no_tasks_remaining' &&
-      (maxIterations === 0 || iteration <= maxIterations);
-      iteration++
-    ) {
-      this._iteration = iteration;
-      win.webContents.send('agent:iteration', iteration, maxIterations);
-
-      const cmd = backend.buildCommand(prompt, model);
-      const result = await this.spawnAndStream(win, cmd, opts.projectDir);
-
-      if (this.aborted) {
-        break;
-      }
-
-      if (this.forceStop) {
-        break;
-      }
+    try {
+      for (
+        let iteration = 1;
+        !this.aborted &&
+        completionReason !== 'no_tasks_remaining' &&
+        (maxIterations === 0 || iteration <= maxIterations);
+        iteration++
+      ) {
+        this._iteration = iteration;
+        win.webContents.send('agent:iteration', iteration, maxIterations);
+
+        const startedAt = new Date().toISOString();
+        const prompt = buildRunPrompt({
+          taskFiles,
+          taskFile: singleTaskFile,
+          config,
+          reviewFeedback,
+        });
+        const cmd = backend.buildCommand(prompt, model);
+        const reviewBase = approvalRequired ? await Git.getHeadSha(opts.projectDir) : '';
+        const statesBefore = odyCommits ? await getTaskStates(undefined, tasksDirPath) : [];
+
+        // A task picked up again after an interrupted run keeps the
+        // checkpoint from before its first attempt.
+        if (singleTaskFile && attempt === 1) {
+          const taskPath = resolveTaskPath(singleTaskFile, opts.projectDir, tasksDirPath);
+
+          if (
+            (await getTaskStatus(taskPath)) !== 'in_progress' ||
+            !(await Checkpoints.get(taskPath))
+          ) {
+            await Checkpoints.record(opts.projectDir, taskPath);
+          }
+        }
 
-      if (result.hasAmbiguousMention) {
-        win.webContents.send('agent:ambiguousMarker');
-      }
+        // Feedback re-runs keep the first attempt's snapshot so the commit
+        // covers everything the iteration changed.
+        if (odyCommits && attempt === 1) {
+          commitBase = await Git.snapshotDirtyFiles(opts.projectDir, {
+            exclude: Journal.getCommitExclude(config),
+          });
+        }
+        let output: SpawnOutput | null = null;
+        let validators: ValidatorResult[] = [];
+
+        const recordIteration = (outcome: IterationOutcome, error: string | null = null) =>
+          journal.recordIteration({
+            iteration,
+            attempt,
+            taskFile: singleTaskFile ?? null,
+            taskTitle: null,
+            startedAt,
+            exitCode: output?.exitCode ?? null,
+            markerDetection: output?.markerDetection ?? null,
+            outcome,
+            error,
+            validators,
+            usage: output?.usage ?? null,
+            backend: backendName,
+            stdout: output?.stdout ?? '',
+            stderr: output?.stderr ?? '',
+          });
+
+        try {
+          output = await this.spawnProcess(
+            win,
+            cmd,
+            opts.projectDir,
+            backend.outputFormat,
+            timeouts,
+          );
+
+          if (this.aborted || this.forceStop) {
+            await recordIteration('stopped');
+            break;
+          }
+
+          if (output.timeout) {
+            const message =
+              output.timeout === 'iteration'
+                ? `${backendName} timed out after ${config.iterationTimeout}m`
+                : `${backendName} stalled with no output after ${config.idleTimeout}m`;
+
+            await recordIteration('timed_out', message);
+            win.webContents.send('agent:output', `\n[ody] ${message}\n`);
+
+            if (singleTaskFile && config.onTimeout === 'skip') {
+              break;
+            }
+
+            continue;
+          }
+
+          if (output.exitCode !== 0) {
+            throw new Error(
+              `Process exit failure: backend exited with code ${output.exitCode ?? 'unknown'}`,
+            );
+          }
+
+          if (output.markerDetection.hasAmbiguousMention) {
+            win.webContents.send('agent:ambiguousMarker');
+          }
+
+          await this.verifyTaskStates({
+            opts,
+            tasksDirPath,
+            markerDetection: output.markerDetection,
+            singleTaskFile,
+          });
+
+          const completedTasks = odyCommits
+            ? findNewlyCompletedTasks(statesBefore, await getTaskStates(undefined, tasksDirPath))
+            : [];
+          const taskPaths = completedTasks.map((taskState) =>
+            path.join(tasksDirPath, taskState.taskFile),
+          );
+          let shouldCommit = approvalRequired;
+
+          if (approvalRequired) {
+            validators = await Validators.run(config.validatorCommands ?? [], {
+              cwd: opts.projectDir,
+              timeoutMs: validatorTimeoutMs,
+            });
+
+            const request = await this.buildApprovalRequest({
+              iteration,
+              projectDir: opts.projectDir,
+              base: reviewBase,
+              taskPaths,
+              validators,
+            });
+            const decision = await this.waitForApproval(win, request);
+
+            if (!decision) {
+              await recordIteration('stopped', 'review cancelled');
+              break;
+            }
+
+            if (decision.action === 'feedback') {
+              for (const taskPath of taskPaths) {
+                await updateTaskFrontmatter(taskPath, { status: 'in_progress', completed: null });
+              }
+
+              await recordIteration('retrying', `review feedback: ${decision.comment}`);
+              win.webContents.send('agent:output', '\n[ody] Re-running with review feedback\n');
+              reviewFeedback = decision.comment;
+              attempt++;
+              iteration--;
+              continue;
+            }
+
+            reviewFeedback = undefined;
+            attempt = 1;
+
+            if (decision.action === 'reject') {
+              const date = new Date().toISOString().slice(0, 10);
+
+              await Git.discardChanges(opts.projectDir, reviewBase, { exclude: [BASE_DIR] });
+
+              for (const taskPath of taskPaths) {
+                await rejectTask(
+                  taskPath,
+                  decision.note ? `Rejected: ${decision.note}` : 'Rejected',
+                  date,
+                );
+              }
+
+              await recordIteration('rejected', decision.note || null);
+              win.webContents.send('agent:output', '\n[ody] Changes rejected and reverted\n');
+
+              const rejected = new Set(completedTasks.map((taskState) => taskState.taskFile));
+              taskFiles = taskFiles?.filter((taskFile) => !rejected.has(path.basename(taskFile)));
+
+              if (singleTaskFile || taskFiles?.length === 0) {
+                break;
+              }
+
+              continue;
+            }
+          } else if (odyCommits && taskPaths.length > 0) {
+            validators = await Validators.run(config.validatorCommands ?? [], {
+              cwd: opts.projectDir,
+              timeoutMs: validatorTimeoutMs,
+            });
+            shouldCommit = validators.every((validator) => validator.exitCode === 0);
+
+            if (!shouldCommit) {
+              win.webContents.send(
+                'agent:output',
+                '\n[ody] Validators failed; leaving the changes uncommitted\n',
+              );
+            }
+          }
+
+          if (shouldCommit && commitBase) {
+            await this.commitIteration({
+              iteration,
+              projectDir: opts.projectDir,
+              before: commitBase,
+              taskPaths,
+              config,
+            });
+          }
+        } catch (err) {
+          await recordIteration('failed', err instanceof Error ? err.message : String(err));
+          throw err;
+        }
 
-      await this.verifyTaskStates({
-        opts,
-        tasksDirPath,
-        markerDetection: result,
-        singleTaskFile,
-      });
+        await recordIteration('completed');
 
-      if (await this.shouldStopForNoTasksRemaining({ opts, tasksDirPath, maxIterations })) {
-        completionReason = 'no_tasks_remaining';
-        break;
-      }
+        if (await this.shouldStopForNoTasksRemaining({ opts, tasksDirPath, maxIterations })) {
+          completionReason = 'no_tasks_remaining';
+          break;
+        }
 
-      if (result.hasStrictMatch) {
-        break;
-      }
+        if (output.markerDetection.hasStrictMatch) {
+          break;
+        }
 
-      if (notifySetting === 'individual') {
-        this.sendNotification('Ody', `Agent iteration ${iteration} complete`);
+        if (notifySetting === 'individual') {
+          this.sendNotification('Ody', `Agent iteration ${iteration} complete`);
+        }
       }
+    } catch (err) {
+      await journal.finish('failed', err instanceof Error ? err.message : String(err));
+      throw err;
     }
 
     this._iteration = 0;
@@ -206,10 +505,12 @@ export class AgentRunner {
     this._taskFiles = [];
 
     if (this.aborted) {
+      await journal.finish('stopped');
       win.webContents.send('agent:stopped');
       return;
     }
 
+    await journal.finish('completed');
     win.webContents.send('agent:complete', completionReason);
     if (notifySetting === 'all') {
       this.sendNotification('Ody', 'Agent run complete');
@@ -221,6 +522,28 @@ export class AgentRunner {
   }
 
   async spawnAndStream(win: BrowserWindow, cmd: string[], cwd: string): Promise<SpawnResult> {
+    const output = await this.spawnProcess(win, cmd, cwd);
+
+    if (this.aborted) {
+      return { hasStrictMatch: false, hasAmbiguousMention: false };
+    }
+
+    if (output.exitCode !== 0) {
+      throw new Error(
+        `Process exit failure: backend exited with code ${output.exitCode ?? 'unknown'}`,
+      );
+    }
+
+    return output.markerDetection;
+  }
+
+  private async spawnProcess(
+    win: BrowserWindow,
+    cmd: string[],
+    cwd: string,
+    outputFormat: OutputFormat = 'text',
+    timeouts: SpawnTimeouts = {},
+  ): Promise<SpawnOutput> {
     const [bin, ...args] = cmd;
 
     if (!bin) {
@@ -235,39 +558,80 @@ export class AgentRunner {
     this.procClosed = once(proc, 'close').then(() => undefined);
 
     const markerDetector = createCompletionMarkerDetector();
+    const usageCollector = outputFormat === 'stream-json' ? createStreamJsonCollector() : null;
+    let stdout = '';
+    let stderr = '';
+    let timeout: SpawnOutput['timeout'] = null;
+    let idleTimer: NodeJS.Timeout | undefined;
+    let killTimer: NodeJS.Timeout | undefined;
+
+    const terminate = (reason: 'iteration' | 'idle') => {
+      if (timeout) {
+        return;
+      }
+
+      timeout = reason;
+      proc.kill('SIGTERM');
+      killTimer = setTimeout(() => proc.kill('SIGKILL'), GRACEFUL_STOP_TIMEOUT_MS);
+    };
+
+    const resetIdleTimer = () => {
+      if (timeouts.idleMs === undefined) {
+        return;
+      }
+
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => terminate('idle'), timeouts.idleMs);
+    };
+
+    const iterationTimer =
+      timeouts.iterationMs === undefined
+        ? undefined
+        : setTimeout(() => terminate('iteration'), timeouts.iterationMs);
+
+    resetIdleTimer();
 
     proc.stdout.on('data', (chunk: Buffer) => {
       const text = chunk.toString('utf8');
+      resetIdleTimer();
+      stdout += text;
       markerDetector.onChunk(text);
       win.webContents.send('agent:output', text);
     });
 
     proc.stderr.on('data', (chunk: Buffer) => {
       const text = chunk.toString('utf8');
+      stderr += text;
       markerDetector.onChunk(text);
       win.webContents.send('agent:output', text);
     });
 
-    const [exitCode] = await once(proc, 'close');
+    const [exitCode] = (await once(proc, 'close')) as [number | null];
 
+    clearTimeout(iterationTimer);
+    clearTimeout(idleTimer);
+    clearTimeout(killTimer);
     this.proc = null;
     this.procClosed = null;
 
-    if (this.aborted) {
-      return { hasStrictMatch: false, hasAmbiguousMention: false };
-    }
-
-    if (exitCode !== 0) {
-      throw new Error(`Process exit failure: backend exited with code ${exitCode ?? 'unknown'}`);
+    for (const line of usageCollector ? stdout.split(/\r?\n/) : []) {
+      usageCollector?.onLine(line);
     }
 
-    return markerDetector.finalize();
+    return {
+      exitCode,
+      stdout,
+      stderr,
+      markerDetection: markerDetector.finalize(),
+      usage: usageCollector?.finalize().usage ?? null,
+      timeout,
+    };
   }
 
   async stop(force = false) {
     if (!this.proc) {
       this.aborted = true;
-      return false;
+      return this.respondApproval(null);
     }
 
     this.aborted = true;
@@ -291,6 +655,69 @@ export class AgentRunner {
     return true;
   }
 
+  private waitForApproval(win: BrowserWindow, request: ApprovalRequest) {
+    return new Promise<ApprovalDecision | null>((resolve) => {
+      this.pendingApproval = resolve;
+      win.webContents.send('agent:approvalRequest', request);
+    });
+  }
+
+  private async commitIteration(input: {
+    iteration: number;
+    projectDir: string;
+    before: GitSnapshot;
+    taskPaths: string[];
+    config: OdyConfig;
+  }) {
+    const { iteration, projectDir, before, taskPaths, config } = input;
+    const messages = await Promise.all(
+      taskPaths.map(async (taskPath) =>
+        formatCommitMessage(await readOptionalFile(taskPath), taskPath, config.commit),
+      ),
+    );
+    const after = await Git.snapshotDirtyFiles(projectDir, {
+      exclude: Journal.getCommitExclude(config),
+    });
+
+    return Git.commitPaths(
+      projectDir,
+      messages.join('\n\n') || `ody: iteration ${iteration}`,
+      Git.diffSnapshots(before, after),
+    );
+  }
+
+  private async buildApprovalRequest(input: {
+    iteration: number;
+    projectDir: string;
+    base: string;
+    taskPaths: string[];
+    validators: ValidatorResult[];
+  }): Promise<ApprovalRequest> {
+    const { iteration, projectDir, base, taskPaths, validators } = input;
+    const topLevel = await Git.getTopLevel(projectDir);
+    const changes = await Git.getChanges(projectDir, base, { exclude: [BASE_DIR] });
+
+    return {
+      iteration,
+      taskTitles: await Promise.all(
+        taskPaths.map(async (taskPath) => parseTitle(await readOptionalFile(taskPath))),
+      ),
+      files: await Promise.all(
+        changes.files.map(async (file) => ({
+          path: file.path,
+          status: file.status,
+          original: await Git.showFile(projectDir, base, file.path),
+          proposed: await readOptionalFile(path.join(topLevel, file.path)),
+        })),
+      ),
+      validators: validators.map(({ command, exitCode, outputTail }) => ({
+        command,
+        exitCode,
+        outputTail,
+      })),
+    };
+  }
+
   private async verifyTaskStates(input: {
     opts: RunOptions;
     tasksDirPath: string;
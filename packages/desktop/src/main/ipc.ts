@@ -4,23 +4,37 @@ import { homedir } from 'node:os';
 import { basename, dirname, isAbsolute, join, relative, resolve } from 'node:path';
 
 import { Auth } from '@internal/auth';
-import { Backend, getAvailableBackends } from '@internal/backends';
+import { Backend, Harnesses, getAvailableBackends } from '@internal/backends';
 import {
   buildBatchPlanPrompt,
   buildImportPrompt,
   buildInlineEditPrompt,
   buildPlanPrompt,
   buildRunPrompt,
+  type ImportSource,
 } from '@internal/builders';
 import { BASE_DIR, Config, ODY_FILE, TASKS_DIR, configSchema } from '@internal/config';
-import { GitHub, Jira } from '@internal/integrations';
+import { GitHub, GitLab, Jira, Linear } from '@internal/integrations';
+import { Checkpoints } from '@internal/runs';
 import {
+  TASK_STATUSES,
+  formatTaskIssue,
+  formatTaskSource,
+  getImportedSources,
   getTaskFilesByLabel,
   getTaskFilesInDir,
   getTaskStates,
+  parseAcceptanceCriteria,
+  parseComplexity,
   parseDescription,
-  parseFrontmatter,
+  parseLabels,
+  parseTaskFrontmatter,
   parseTitle,
+  readFrontmatterData,
+  recordTaskSource,
+  safeParseTaskFrontmatter,
+  type AcceptanceCriterion,
+  type TaskStatus,
 } from '@internal/tasks';
 import type { BrowserWindow } from 'electron';
 import { dialog, ipcMain, nativeTheme, shell } from 'electron';
@@ -33,8 +47,6 @@ type ProjectItem = {
   path: string;
 };
 
-type TaskStatus = 'pending' | 'in_progress' | 'completed';
-
 type TaskSummary = {
   filePath: string;
   title: string;
@@ -45,6 +57,9 @@ type TaskSummary = {
   created: string | null;
   started: string | null;
   completed: string | null;
+  criteria: AcceptanceCriterion[];
+  checkpoint: string | null;
+  error: string | null;
 };
 
 type DesktopStore = {
@@ -186,21 +201,36 @@ const resolveAgentConfig = async (projectPath: string | null) => {
     throw new Error('No Ody configuration found. Run `ody init` to get started.');
   }
 
-  return Config.parse(mergedRaw);
+  const config = Config.parse(mergedRaw);
+  await Harnesses.load(config, projectPath ?? process.cwd());
+
+  return config;
 };
 
 const readImportSettings = async (projectPath: string | null) => {
   const mergedConfig = await readMergedRawConfig(projectPath);
   const jiraConfig = isObject(mergedConfig.jira) ? mergedConfig.jira : null;
   const githubConfig = isObject(mergedConfig.github) ? mergedConfig.github : null;
+  const linearConfig = isObject(mergedConfig.linear) ? mergedConfig.linear : null;
+  const gitlabConfig = isObject(mergedConfig.gitlab) ? mergedConfig.gitlab : null;
 
   return {
     jiraBaseUrl: typeof jiraConfig?.baseUrl === 'string' ? jiraConfig.baseUrl : undefined,
     jiraProfile: typeof jiraConfig?.profile === 'string' ? jiraConfig.profile : 'default',
     githubProfile: typeof githubConfig?.profile === 'string' ? githubConfig.profile : 'default',
+    githubHost: GitHub.resolveHost({
+      baseUrl: typeof githubConfig?.baseUrl === 'string' ? githubConfig.baseUrl : undefined,
+      apiUrl: typeof githubConfig?.apiUrl === 'string' ? githubConfig.apiUrl : undefined,
+    }),
+    linearProfile: typeof linearConfig?.profile === 'string' ? linearConfig.profile : 'default',
+    gitlabBaseUrl: typeof gitlabConfig?.baseUrl === 'string' ? gitlabConfig.baseUrl : undefined,
+    gitlabProfile: typeof gitlabConfig?.profile === 'string' ? gitlabConfig.profile : 'default',
   };
 };
 
+const parseImportSource = (value: unknown): ImportSource =>
+  value === 'github' || value === 'linear' || value === 'gitlab' ? value : 'jira';
+
 const parseImportInput = (opts: unknown) => {
   if (!opts || typeof opts !== 'object') {
     throw new Error('Invalid import payload');
@@ -216,6 +246,110 @@ const parseImportInput = (opts: unknown) => {
   return input;
 };
 
+type ImportSettings = Awaited<ReturnType<typeof readImportSettings>>;
+
+const IMPORT_SEARCH_LIMIT = 100;
+
+const requireJiraAuth = async (settings: ImportSettings) => {
+  const auth = await Auth.getJira(settings.jiraProfile);
+
+  if (!auth) {
+    throw new Error(
+      `Missing Jira credentials for profile "${settings.jiraProfile}". Configure credentials in the Auth view first.`,
+    );
+  }
+
+  return auth;
+};
+
+const requireGitHubAuth = async (settings: ImportSettings) => {
+  const auth = await Auth.getGitHub(settings.githubProfile, settings.githubHost.hostname);
+
+  if (!auth) {
+    throw new Error(
+      `Missing GitHub credentials for profile "${settings.githubProfile}" on ${settings.githubHost.hostname}. Configure credentials in the Auth view first.`,
+    );
+  }
+
+  return auth;
+};
+
+const requireLinearAuth = async (settings: ImportSettings) => {
+  const auth = await Auth.getLinear(settings.linearProfile);
+
+  if (!auth) {
+    throw new Error(
+      `Missing Linear credentials for profile "${settings.linearProfile}". Configure credentials in the Auth view first.`,
+    );
+  }
+
+  return auth;
+};
+
+// Public GitLab projects can be read without a token, as in the CLI.
+const getGitLabToken = async (settings: ImportSettings) =>
+  (await Auth.getGitLab(settings.gitlabProfile))?.token;
+
+const fetchImportData = async (source: ImportSource, input: string, settings: ImportSettings) => {
+  if (source === 'jira') {
+    const parsed = Jira.parseInput(input, settings.jiraBaseUrl);
+    const auth = await requireJiraAuth(settings);
+    const ticket = await Jira.fetchTicket(parsed.baseUrl, parsed.ticketKey, auth);
+
+    return {
+      reference: parsed.ticketKey,
+      source: formatTaskSource('jira', parsed.ticketKey),
+      formatted: Jira.formatAsDescription(ticket),
+    };
+  }
+
+  if (source === 'linear') {
+    const identifier = Linear.parseInput(input);
+    const auth = await requireLinearAuth(settings);
+    const issue = await Linear.fetchIssue(identifier, auth.apiKey);
+
+    return {
+      reference: identifier,
+      source: formatTaskSource('linear', identifier),
+      formatted: Linear.formatAsDescription(issue),
+    };
+  }
+
+  if (source === 'gitlab') {
+    const parsed = GitLab.parseInput(input, settings.gitlabBaseUrl);
+    const issue = await GitLab.fetchIssue(
+      parsed.baseUrl,
+      parsed.projectPath,
+      parsed.issueIid,
+      await getGitLabToken(settings),
+    );
+    const reference = `${parsed.projectPath}#${parsed.issueIid}`;
+
+    return {
+      reference,
+      source: formatTaskSource('gitlab', reference),
+      formatted: GitLab.formatAsDescription(issue, parsed.projectPath),
+    };
+  }
+
+  const parsed = GitHub.parseInput(input, settings.githubHost);
+  const auth = await requireGitHubAuth(settings);
+  const issue = await GitHub.fetchIssue(
+    parsed.owner,
+    parsed.repo,
+    parsed.issueNumber,
+    auth.token,
+    settings.githubHost.apiUrl,
+  );
+  const reference = `${parsed.owner}/${parsed.repo}#${parsed.issueNumber}`;
+
+  return {
+    reference,
+    source: formatTaskSource('github', reference),
+    formatted: GitHub.formatAsDescription(issue, parsed.owner, parsed.repo),
+  };
+};
+
 const projectExists = async (projectPath: string) => {
   try {
     await access(projectPath);
@@ -383,48 +517,45 @@ const normalizeTaskStatus = (status: string | undefined): TaskStatus => {
   return 'pending';
 };
 
-const parseLabels = (content: string) => {
-  const labelsMatch = content.match(/\*\*Labels\*\*:\s*(.+)/i);
-
-  if (!labelsMatch?.[1]) {
-    return [];
-  }
-
-  return labelsMatch[1]
-    .split(',')
-    .map((label) => label.trim())
-    .filter((label) => label.length > 0);
-};
-
-const parseComplexity = (content: string) => {
-  const complexityMatch = content.match(/\*\*Complexity\*\*:\s*(.+)/i);
-  return complexityMatch?.[1]?.trim() ?? null;
-};
-
 const buildTaskSummary = async (
   taskFile: string,
   tasksDirPath: string,
 ): Promise<TaskSummary | null> => {
   const filePath = join(tasksDirPath, taskFile);
+  let content: string;
 
   try {
-    const content = await readFile(filePath, 'utf-8');
-    const frontmatter = parseFrontmatter(content);
-
-    return {
-      filePath,
-      title: parseTitle(content),
-      description: parseDescription(content),
-      status: normalizeTaskStatus(frontmatter.status),
-      labels: parseLabels(content),
-      complexity: parseComplexity(content),
-      created: frontmatter.created ?? null,
-      started: frontmatter.started ?? null,
-      completed: frontmatter.completed ?? null,
-    };
+    content = await readFile(filePath, 'utf-8');
   } catch {
+    // The file was removed between listing the directory and reading it.
     return null;
   }
+
+  // Invalid frontmatter keeps the task on the board with its raw status and the
+  // validation error, as `ody task lint` would report it.
+  const result = safeParseTaskFrontmatter(content);
+  const raw = readFrontmatterData(content);
+  const frontmatter = result.success ? result.data : null;
+  const rawString = (key: string) => (typeof raw[key] === 'string' ? (raw[key] as string) : null);
+
+  return {
+    filePath,
+    title: parseTitle(content),
+    description: parseDescription(content),
+    status:
+      frontmatter?.status ??
+      (TASK_STATUSES.includes(raw.status as TaskStatus) ? (raw.status as TaskStatus) : 'pending'),
+    labels: parseLabels(content),
+    complexity: parseComplexity(content),
+    created: frontmatter ? (frontmatter.created ?? null) : rawString('created'),
+    started: frontmatter ? (frontmatter.started ?? null) : rawString('started'),
+    completed: frontmatter ? (frontmatter.completed ?? null) : rawString('completed'),
+    criteria: parseAcceptanceCriteria(content),
+    checkpoint: frontmatter ? (frontmatter.checkpoint ?? null) : rawString('checkpoint'),
+    error: result.success
+      ? null
+      : result.issues.map((issue) => formatTaskIssue(issue, taskFile)).join('\n'),
+  };
 };
 
 const cleanupProjects = async () => {
@@ -610,9 +741,13 @@ export const registerIpcHandlers = (win: BrowserWindow) => {
     return { ok: true };
   });
 
-  registerHandler('backends:available', () =>
-    getAvailableBackends().map((backend) => backend.value),
-  );
+  registerHandler('backends:available', async () => {
+    // Custom harnesses come from the project's config; without a valid config
+    // only the built-in backends are listed.
+    await resolveAgentConfig(readActiveProjectPath()).catch(() => undefined);
+
+    return getAvailableBackends().map((backend) => backend.value);
+  });
   registerHandler('backends:models', () => []);
 
   registerHandler('tasks:list', async () => {
@@ -716,6 +851,38 @@ export const registerIpcHandlers = (win: BrowserWindow) => {
     }));
   });
 
+  registerHandler('tasks:checkpoint', async (filePath: unknown) => {
+    const activeProjectPath = readActiveProjectPath();
+
+    if (!activeProjectPath) {
+      throw new Error('No active project selected');
+    }
+
+    const taskPath = await resolveTaskFilePath(activeProjectPath, String(filePath ?? ''));
+    const { laterCommits, hasUncommittedChanges } = await Checkpoints.inspect(
+      activeProjectPath,
+      taskPath,
+    );
+
+    return { laterCommits, hasUncommittedChanges };
+  });
+  registerHandler('tasks:rollback', async (filePath: unknown) => {
+    const activeProjectPath = readActiveProjectPath();
+
+    if (!activeProjectPath) {
+      throw new Error('No active project selected');
+    }
+
+    if (agentRunner.isRunning()) {
+      throw new Error('Stop the agent before reverting a task');
+    }
+
+    const taskPath = await resolveTaskFilePath(activeProjectPath, String(filePath ?? ''));
+    await Checkpoints.rollback(activeProjectPath, taskPath);
+
+    return { filePath: taskPath };
+  });
+
   registerHandler('agent:run', (opts: unknown) => {
     if (!opts || typeof opts !== 'object') {
       return { started: false };
@@ -776,6 +943,34 @@ export const registerIpcHandlers = (win: BrowserWindow) => {
     return { stopped: stoppedAgent || hadInlineEditProc || hadInlineEditSnapshot };
   });
   registerHandler('agent:status', () => agentRunner.status());
+  registerHandler('agent:respondApproval', (decision: unknown) => {
+    if (!decision || typeof decision !== 'object') {
+      return { accepted: false };
+    }
+
+    const input = decision as { action?: unknown; note?: unknown; comment?: unknown };
+
+    if (input.action === 'approve') {
+      return { accepted: agentRunner.respondApproval({ action: 'approve' }) };
+    }
+
+    if (input.action === 'reject') {
+      return {
+        accepted: agentRunner.respondApproval({
+          action: 'reject',
+          note: String(input.note ?? '').trim(),
+        }),
+      };
+    }
+
+    const comment = String(input.comment ?? '').trim();
+
+    if (input.action !== 'feedback' || comment.length === 0) {
+      return { accepted: false };
+    }
+
+    return { accepted: agentRunner.respondApproval({ action: 'feedback', comment }) };
+  });
   registerHandler('agent:planNew', async (description: unknown) => {
     const activeProjectPath = readActiveProjectPath();
     const promptInput = String(description ?? '').trim();
@@ -790,8 +985,8 @@ export const registerIpcHandlers = (win: BrowserWindow) => {
         description: promptInput,
         tasksDir: config.tasksDir ?? TASKS_DIR,
       });
-      const backend = new Backend(config.backend, config);
-      const model = Config.resolveModel('plan', config);
+      const { name: backendName, model } = Config.primaryBackend('plan', config);
+      const backend = new Backend(backendName, config);
       const command = backend.buildCommand(prompt, model);
 
       win.webContents.send('agent:started');
@@ -820,8 +1015,8 @@ export const registerIpcHandlers = (win: BrowserWindow) => {
           filePath: planFilePath,
           tasksDir: config.tasksDir ?? TASKS_DIR,
         });
-        const backend = new Backend(config.backend, config);
-        const model = Config.resolveModel('plan', config);
+        const { name: backendName, model } = Config.primaryBackend('plan', config);
+        const backend = new Backend(backendName, config);
         const command = backend.buildCommand(prompt, model);
 
         win.webContents.send('agent:started');
@@ -862,8 +1057,8 @@ export const registerIpcHandlers = (win: BrowserWindow) => {
     }
 
     const config = await resolveAgentConfig(readActiveProjectPath());
-    const backend = new Backend(config.backend, config);
-    const model = Config.resolveModel('run', config);
+    const { name: backendName, model } = Config.primaryBackend('run', config);
+    const backend = new Backend(backendName, config);
     const options = opts as { taskFiles?: string[] };
     const singleTaskFile = options.taskFiles?.length === 1 ? options.taskFiles[0] : undefined;
     const prompt = buildRunPrompt({
@@ -915,8 +1110,8 @@ export const registerIpcHandlers = (win: BrowserWindow) => {
       try {
         const resolvedPath = await resolveTaskFilePath(activeProjectPath, requestedPath, true);
         const config = await resolveAgentConfig(activeProjectPath);
-        const backend = new Backend(config.backend, config);
-        const model = Config.resolveModel('edit', config);
+        const { name: backendName, model } = Config.primaryBackend('edit', config);
+        const backend = new Backend(backendName, config);
 
         const snapshotContent = await readFile(resolvedPath, 'utf-8');
         inlineEditSnapshot = { filePath: resolvedPath, content: snapshotContent };
@@ -1001,102 +1196,98 @@ export const registerIpcHandlers = (win: BrowserWindow) => {
 
     return { started: true };
   });
-  registerHandler('agent:importFromJira', (opts: unknown) => {
+
+  const runImports = (source: ImportSource, inputs: string[]) => {
     const activeProjectPath = readActiveProjectPath();
 
     if (!activeProjectPath || agentRunner.isRunning()) {
       return { started: false };
     }
 
-    const input = parseImportInput(opts);
-
     void (async () => {
-      try {
-        const settings = await readImportSettings(activeProjectPath);
-        const parsed = Jira.parseInput(input, settings.jiraBaseUrl);
-        const auth = await Auth.getJira(settings.jiraProfile);
+      const failures: string[] = [];
 
-        if (!auth) {
-          throw new Error(
-            `Missing Jira credentials for profile "${settings.jiraProfile}". Configure credentials in the Auth view first.`,
-          );
-        }
-
-        const ticket = await Jira.fetchTicket(parsed.baseUrl, parsed.ticketKey, auth);
-        const formatted = Jira.formatAsDescription(ticket);
+      agentRunner.resetStop();
+      win.webContents.send('agent:started');
 
+      try {
+        const settings = await readImportSettings(activeProjectPath);
         const config = await resolveAgentConfig(activeProjectPath);
-        const backend = new Backend(config.backend, config);
-        const model = Config.resolveModel('plan', config);
-        const prompt = buildImportPrompt({
-          data: formatted,
-          source: 'jira',
-          tasksDir: config.tasksDir ?? TASKS_DIR,
-        });
-        const command = backend.buildCommand(prompt, model);
+        const { name: backendName, model } = Config.primaryBackend('plan', config);
+        const backend = new Backend(backendName, config);
+        const tasksDir = config.tasksDir ?? TASKS_DIR;
+        const tasksDirPath = join(activeProjectPath, BASE_DIR, tasksDir);
+        const imported = await getImportedSources(tasksDirPath);
+
+        for (const input of inputs) {
+          if (agentRunner.wasStopped()) {
+            break;
+          }
 
-        win.webContents.send('agent:started');
-        await agentRunner.spawnAndStream(win, command, activeProjectPath);
-        win.webContents.send('agent:complete');
+          try {
+            const data = await fetchImportData(source, input, settings);
+            const existingTask = imported.get(data.source);
+
+            if (existingTask) {
+              throw new Error(`${data.reference} was already imported as ${existingTask}`);
+            }
+
+            const prompt = buildImportPrompt({ data: data.formatted, source, tasksDir });
+            const before = await getTaskFilesInDir(tasksDirPath);
+
+            await agentRunner.spawnAndStream(
+              win,
+              backend.buildCommand(prompt, model),
+              activeProjectPath,
+            );
+
+            if (!agentRunner.wasStopped()) {
+              await recordTaskSource(tasksDirPath, before, data.source);
+            }
+          } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            failures.push(inputs.length > 1 ? `${input}: ${message}` : message);
+          }
+        }
       } catch (error: unknown) {
-        const message = error instanceof Error ? error.message : String(error);
-        win.webContents.send('agent:verifyFailed', message);
+        failures.push(error instanceof Error ? error.message : String(error));
+      }
+
+      if (failures.length > 0) {
+        win.webContents.send('agent:verifyFailed', failures.join('\n'));
         win.webContents.send('agent:stopped');
+        return;
       }
+
+      win.webContents.send(agentRunner.wasStopped() ? 'agent:stopped' : 'agent:complete');
     })();
 
     return { started: true };
-  });
-  registerHandler('agent:importFromGitHub', (opts: unknown) => {
-    const activeProjectPath = readActiveProjectPath();
-
-    if (!activeProjectPath || agentRunner.isRunning()) {
-      return { started: false };
-    }
-
-    const input = parseImportInput(opts);
-
-    void (async () => {
-      try {
-        const settings = await readImportSettings(activeProjectPath);
-        const parsed = GitHub.parseInput(input);
-        const auth = await Auth.getGitHub(settings.githubProfile);
-
-        if (!auth) {
-          throw new Error(
-            `Missing GitHub credentials for profile "${settings.githubProfile}". Configure credentials in the Auth view first.`,
-          );
-        }
-
-        const issue = await GitHub.fetchIssue(
-          parsed.owner,
-          parsed.repo,
-          parsed.issueNumber,
-          auth.token,
-        );
-        const formatted = GitHub.formatAsDescription(issue, parsed.owner, parsed.repo);
+  };
 
-        const config = await resolveAgentConfig(activeProjectPath);
-        const backend = new Backend(config.backend, config);
-        const model = Config.resolveModel('plan', config);
-        const prompt = buildImportPrompt({
-          data: formatted,
-          source: 'github',
-          tasksDir: config.tasksDir ?? TASKS_DIR,
-        });
-        const command = backend.buildCommand(prompt, model);
+  registerHandler('agent:importFromJira', (opts: unknown) =>
+    runImports('jira', [parseImportInput(opts)]),
+  );
+  registerHandler('agent:importFromGitHub', (opts: unknown) =>
+    runImports('github', [parseImportInput(opts)]),
+  );
+  registerHandler('agent:importFromLinear', (opts: unknown) =>
+    runImports('linear', [parseImportInput(opts)]),
+  );
+  registerHandler('agent:importFromGitLab', (opts: unknown) =>
+    runImports('gitlab', [parseImportInput(opts)]),
+  );
+  registerHandler('agent:importBatch', (opts: unknown) => {
+    const payload = (opts ?? {}) as { source?: unknown; references?: unknown };
+    const references = Array.isArray(payload.references)
+      ? payload.references.map((reference) => String(reference).trim()).filter(Boolean)
+      : [];
 
-        win.webContents.send('agent:started');
-        await agentRunner.spawnAndStream(win, command, activeProjectPath);
-        win.webContents.send('agent:complete');
-      } catch (error: unknown) {
-        const message = error instanceof Error ? error.message : String(error);
-        win.webContents.send('agent:verifyFailed', message);
-        win.webContents.send('agent:stopped');
-      }
-    })();
+    if (references.length === 0) {
+      throw new Error('Select at least one ticket or issue to import');
+    }
 
-    return { started: true };
+    return runImports(parseImportSource(payload.source), references);
   });
   registerHandler('agent:importDryRun', async (opts: unknown) => {
     const activeProjectPath = readActiveProjectPath();
@@ -1107,47 +1298,14 @@ export const registerIpcHandlers = (win: BrowserWindow) => {
     }
 
     const payload = opts as { source?: unknown };
-    const source = payload.source === 'github' ? 'github' : 'jira';
+    const source = parseImportSource(payload.source);
     const settings = await readImportSettings(activeProjectPath);
-
-    let formatted = '';
-
-    if (source === 'jira') {
-      const parsed = Jira.parseInput(input, settings.jiraBaseUrl);
-      const auth = await Auth.getJira(settings.jiraProfile);
-
-      if (!auth) {
-        throw new Error(
-          `Missing Jira credentials for profile "${settings.jiraProfile}". Configure credentials in the Auth view first.`,
-        );
-      }
-
-      const ticket = await Jira.fetchTicket(parsed.baseUrl, parsed.ticketKey, auth);
-      formatted = Jira.formatAsDescription(ticket);
-    } else {
-      const parsed = GitHub.parseInput(input);
-      const auth = await Auth.getGitHub(settings.githubProfile);
-
-      if (!auth) {
-        throw new Error(
-          `Missing GitHub credentials for profile "${settings.githubProfile}". Configure credentials in the Auth view first.`,
-        );
-      }
-
-      const issue = await GitHub.fetchIssue(
-        parsed.owner,
-        parsed.repo,
-        parsed.issueNumber,
-        auth.token,
-      );
-      formatted = GitHub.formatAsDescription(issue, parsed.owner, parsed.repo);
-    }
-
+    const data = await fetchImportData(source, input, settings);
     const config = await resolveAgentConfig(activeProjectPath);
 
     return {
       prompt: buildImportPrompt({
-        data: formatted,
+        data: data.formatted,
         source,
         tasksDir: config.tasksDir ?? TASKS_DIR,
       }),
@@ -1199,14 +1357,7 @@ export const registerIpcHandlers = (win: BrowserWindow) => {
     const activeProjectPath = readActiveProjectPath();
     const settings = await readImportSettings(activeProjectPath);
     const parsed = Jira.parseInput(input, settings.jiraBaseUrl);
-    const auth = await Auth.getJira(settings.jiraProfile);
-
-    if (!auth) {
-      throw new Error(
-        `Missing Jira credentials for profile "${settings.jiraProfile}". Configure credentials in the Auth view first.`,
-      );
-    }
-
+    const auth = await requireJiraAuth(settings);
     const ticket = await Jira.fetchTicket(parsed.baseUrl, parsed.ticketKey, auth);
 
     return {
@@ -1218,20 +1369,14 @@ export const registerIpcHandlers = (win: BrowserWindow) => {
     const input = parseImportInput(opts);
     const activeProjectPath = readActiveProjectPath();
     const settings = await readImportSettings(activeProjectPath);
-    const parsed = GitHub.parseInput(input);
-    const auth = await Auth.getGitHub(settings.githubProfile);
-
-    if (!auth) {
-      throw new Error(
-        `Missing GitHub credentials for profile "${settings.githubProfile}". Configure credentials in the Auth view first.`,
-      );
-    }
-
+    const parsed = GitHub.parseInput(input, settings.githubHost);
+    const auth = await requireGitHubAuth(settings);
     const issue = await GitHub.fetchIssue(
       parsed.owner,
       parsed.repo,
       parsed.issueNumber,
       auth.token,
+      settings.githubHost.apiUrl,
     );
 
     return {
@@ -1241,12 +1386,107 @@ export const registerIpcHandlers = (win: BrowserWindow) => {
       formatted: GitHub.formatAsDescription(issue, parsed.owner, parsed.repo),
     };
   });
+  registerHandler('import:fetchLinear', async (opts: unknown) => {
+    const input = parseImportInput(opts);
+    const activeProjectPath = readActiveProjectPath();
+    const settings = await readImportSettings(activeProjectPath);
+    const identifier = Linear.parseInput(input);
+    const auth = await requireLinearAuth(settings);
+    const issue = await Linear.fetchIssue(identifier, auth.apiKey);
 
+    return {
+      issue,
+      formatted: Linear.formatAsDescription(issue),
+    };
+  });
+  registerHandler('import:fetchGitLab', async (opts: unknown) => {
+    const input = parseImportInput(opts);
+    const activeProjectPath = readActiveProjectPath();
+    const settings = await readImportSettings(activeProjectPath);
+    const parsed = GitLab.parseInput(input, settings.gitlabBaseUrl);
+    const issue = await GitLab.fetchIssue(
+      parsed.baseUrl,
+      parsed.projectPath,
+      parsed.issueIid,
+      await getGitLabToken(settings),
+    );
+
+    return {
+      issue,
+      projectPath: parsed.projectPath,
+      formatted: GitLab.formatAsDescription(issue, parsed.projectPath),
+    };
+  });
+  registerHandler('import:search', async (opts: unknown) => {
+    const payload = (opts ?? {}) as { source?: unknown; query?: unknown };
+    const query = String(payload.query ?? '').trim();
+
+    if (query.length === 0) {
+      throw new Error('A search query is required');
+    }
+
+    if (payload.source === 'linear' || payload.source === 'gitlab') {
+      throw new Error('Search import is only available for Jira and GitHub');
+    }
+
+    const activeProjectPath = readActiveProjectPath();
+    const settings = await readImportSettings(activeProjectPath);
+    const config = await resolveAgentConfig(activeProjectPath);
+    const imported = activeProjectPath
+      ? await getImportedSources(join(activeProjectPath, BASE_DIR, config.tasksDir ?? TASKS_DIR))
+      : new Map<string, string>();
+
+    if (payload.source === 'github') {
+      const auth = await requireGitHubAuth(settings);
+      const results = await GitHub.searchIssues(query, auth.token, {
+        limit: IMPORT_SEARCH_LIMIT,
+        apiUrl: settings.githubHost.apiUrl,
+      });
+
+      return {
+        results: results.map(({ owner, repo, issue }) => {
+          const reference = `${owner}/${repo}#${issue.number}`;
+
+          return {
+            reference,
+            title: issue.title,
+            status: issue.state,
+            labels: issue.labels,
+            importedAs: imported.get(formatTaskSource('github', reference)) ?? null,
+          };
+        }),
+      };
+    }
+
+    if (!settings.jiraBaseUrl) {
+      throw new Error('Set jira.baseUrl in the project config to search Jira with JQL.');
+    }
+
+    const auth = await requireJiraAuth(settings);
+    const tickets = await Jira.searchTickets(settings.jiraBaseUrl, query, auth, {
+      limit: IMPORT_SEARCH_LIMIT,
+    });
+
+    return {
+      results: tickets.map((ticket) => ({
+        reference: ticket.key,
+        title: ticket.summary,
+        status: ticket.status,
+        labels: ticket.labels,
+        importedAs: imported.get(formatTaskSource('jira', ticket.key)) ?? null,
+      })),
+    };
+  });
+
+  // GitHub profiles are shown and edited for the active project's GitHub host.
   registerHandler('auth:list', async () => {
     const store = await Auth.load();
+    const { githubHost } = await readImportSettings(readActiveProjectPath());
     return {
       jira: store.jira ?? {},
-      github: store.github ?? {},
+      github: Auth.getGitHubProfiles(store, githubHost.hostname) ?? {},
+      linear: store.linear ?? {},
+      gitlab: store.gitlab ?? {},
     };
   });
   registerHandler('auth:setJira', async (profile: unknown, credentials: unknown) => {
@@ -1290,7 +1530,57 @@ export const registerIpcHandlers = (win: BrowserWindow) => {
       throw new Error('GitHub token is required');
     }
 
-    await Auth.setGitHub(profileName, {
+    const { githubHost } = await readImportSettings(readActiveProjectPath());
+
+    await Auth.setGitHub(
+      profileName,
+      {
+        token,
+      },
+      githubHost.hostname,
+    );
+    return { ok: true };
+  });
+  registerHandler('auth:setLinear', async (profile: unknown, credentials: unknown) => {
+    const profileName = String(profile ?? '').trim();
+
+    if (profileName.length === 0) {
+      throw new Error('Profile name is required');
+    }
+
+    if (!isObject(credentials)) {
+      throw new Error('Invalid Linear credentials payload');
+    }
+
+    const apiKey = String(credentials.apiKey ?? '').trim();
+
+    if (apiKey.length === 0) {
+      throw new Error('Linear API key is required');
+    }
+
+    await Auth.setLinear(profileName, {
+      apiKey,
+    });
+    return { ok: true };
+  });
+  registerHandler('auth:setGitLab', async (profile: unknown, credentials: unknown) => {
+    const profileName = String(profile ?? '').trim();
+
+    if (profileName.length === 0) {
+      throw new Error('Profile name is required');
+    }
+
+    if (!isObject(credentials)) {
+      throw new Error('Invalid GitLab credentials payload');
+    }
+
+    const token = String(credentials.token ?? '').trim();
+
+    if (token.length === 0) {
+      throw new Error('GitLab token is required');
+    }
+
+    await Auth.setGitLab(profileName, {
       token,
     });
     return { ok: true };
@@ -1322,13 +1612,45 @@ export const registerIpcHandlers = (win: BrowserWindow) => {
       return { ok: true };
     }
 
+    const { githubHost } = await readImportSettings(readActiveProjectPath());
+
+    await Auth.removeGitHub(profileName, githubHost.hostname);
+    return { ok: true };
+  });
+  registerHandler('auth:removeLinear', async (profile: unknown) => {
+    const profileName = String(profile ?? '').trim();
+
+    if (profileName.length === 0) {
+      return { ok: true };
+    }
+
+    const store = await Auth.load();
+
+    if (store.linear) {
+      delete store.linear[profileName];
+
+      if (Object.keys(store.linear).length === 0) {
+        delete store.linear;
+      }
+    }
+
+    await Auth.save(store);
+    return { ok: true };
+  });
+  registerHandler('auth:removeGitLab', async (profile: unknown) => {
+    const profileName = String(profile ?? '').trim();
+
+    if (profileName.length === 0) {
+      return { ok: true };
+    }
+
     const store = await Auth.load();
 
-    if (store.github) {
-      delete store.github[profileName];
+    if (store.gitlab) {
+      delete store.gitlab[profileName];
 
-      if (Object.keys(store.github).length === 0) {
-        delete store.github;
+      if (Object.keys(store.gitlab).length === 0) {
+        delete store.gitlab;
       }
     }
 
@@ -1382,9 +1704,8 @@ export const registerIpcHandlers = (win: BrowserWindow) => {
 
       try {
         const content = await readFile(filePath, 'utf-8');
-        const frontmatter = parseFrontmatter(content);
 
-        if (normalizeTaskStatus(frontmatter.status) !== 'completed') {
+        if (parseTaskFrontmatter(content, taskFile).status !== 'completed') {
           continue;
         }
 
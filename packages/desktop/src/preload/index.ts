@@ -34,11 +34,14 @@ const ody: OdyApi = {
     delete: (filePaths) => ipcRenderer.invoke('tasks:delete', filePaths),
     byLabel: (label) => ipcRenderer.invoke('tasks:byLabel', label),
     states: (filePaths) => ipcRenderer.invoke('tasks:states', filePaths),
+    checkpoint: (filePath) => ipcRenderer.invoke('tasks:checkpoint', filePath),
+    rollback: (filePath) => ipcRenderer.invoke('tasks:rollback', filePath),
   },
   agent: {
     run: (opts) => ipcRenderer.invoke('agent:run', opts),
     stop: (force) => ipcRenderer.invoke('agent:stop', force),
     status: () => ipcRenderer.invoke('agent:status'),
+    respondApproval: (decision) => ipcRenderer.invoke('agent:respondApproval', decision),
     planNew: (description) => ipcRenderer.invoke('agent:planNew', description),
     planBatch: (filePath) => ipcRenderer.invoke('agent:planBatch', filePath),
     planPreview: (description) => ipcRenderer.invoke('agent:planPreview', description),
@@ -47,7 +50,10 @@ const ody: OdyApi = {
     editInline: (opts) => ipcRenderer.invoke('agent:editInline', opts),
     importFromJira: (opts) => ipcRenderer.invoke('agent:importFromJira', opts),
     importFromGitHub: (opts) => ipcRenderer.invoke('agent:importFromGitHub', opts),
+    importFromLinear: (opts) => ipcRenderer.invoke('agent:importFromLinear', opts),
+    importFromGitLab: (opts) => ipcRenderer.invoke('agent:importFromGitLab', opts),
     importDryRun: (opts) => ipcRenderer.invoke('agent:importDryRun', opts),
+    importBatch: (opts) => ipcRenderer.invoke('agent:importBatch', opts),
     onStarted: (listener) => addListener('agent:started', listener),
     onIteration: (listener) => addListener('agent:iteration', listener),
     onOutput: (listener) => addListener('agent:output', listener),
@@ -56,6 +62,7 @@ const ody: OdyApi = {
     onVerifyFailed: (listener) => addListener('agent:verifyFailed', listener),
     onAmbiguousMarker: (listener) => addListener('agent:ambiguousMarker', listener),
     onEditResult: (listener) => addListener('agent:editResult', listener),
+    onApprovalRequest: (listener) => addListener('agent:approvalRequest', listener),
     removeAllListeners: () => {
       ipcRenderer.removeAllListeners('agent:started');
       ipcRenderer.removeAllListeners('agent:iteration');
@@ -65,6 +72,7 @@ const ody: OdyApi = {
       ipcRenderer.removeAllListeners('agent:verifyFailed');
       ipcRenderer.removeAllListeners('agent:ambiguousMarker');
       ipcRenderer.removeAllListeners('agent:editResult');
+      ipcRenderer.removeAllListeners('agent:approvalRequest');
     },
   },
   editor: {
@@ -74,6 +82,9 @@ const ody: OdyApi = {
   import: {
     fetchJira: (opts) => ipcRenderer.invoke('import:fetchJira', opts),
     fetchGitHub: (opts) => ipcRenderer.invoke('import:fetchGitHub', opts),
+    fetchLinear: (opts) => ipcRenderer.invoke('import:fetchLinear', opts),
+    fetchGitLab: (opts) => ipcRenderer.invoke('import:fetchGitLab', opts),
+    search: (opts) => ipcRenderer.invoke('import:search', opts),
   },
   auth: {
     list: () => ipcRenderer.invoke('auth:list'),
@@ -81,6 +92,10 @@ const ody: OdyApi = {
     setGitHub: (profile, credentials) => ipcRenderer.invoke('auth:setGitHub', profile, credentials),
     removeJira: (profile) => ipcRenderer.invoke('auth:removeJira', profile),
     removeGitHub: (profile) => ipcRenderer.invoke('auth:removeGitHub', profile),
+    setLinear: (profile, credentials) => ipcRenderer.invoke('auth:setLinear', profile, credentials),
+    setGitLab: (profile, credentials) => ipcRenderer.invoke('auth:setGitLab', profile, credentials),
+    removeLinear: (profile) => ipcRenderer.invoke('auth:removeLinear', profile),
+    removeGitLab: (profile) => ipcRenderer.invoke('auth:removeGitLab', profile),
   },
   progress: {
     read: () => ipcRenderer.invoke('progress:read'),
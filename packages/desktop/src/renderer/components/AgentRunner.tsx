@@ -20,10 +20,11 @@ import { useConfig } from '@/hooks/useConfig';
 import { useNotifications } from '@/hooks/useNotifications';
 import { useProjects } from '@/hooks/useProjects';
 import { useTasks } from '@/hooks/useTasks';
-import type { TaskSummary } from '@/types/ipc';
+import type { ApprovalDecision, TaskSummary } from '@/types/ipc';
 import { useMemo, useState } from 'react';
 
 import { AgentOutput } from './AgentOutput';
+import { ApprovalDialog } from './ApprovalDialog';
 import { ProgressViewer } from './ProgressViewer';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
@@ -46,8 +47,10 @@ export const AgentRunner = () => {
     output,
     error: runError,
     hasAmbiguousMarker,
+    approvalRequest,
     start,
     stop,
+    respondApproval,
     clearOutput,
   } = useAgent();
 
@@ -151,6 +154,23 @@ export const AgentRunner = () => {
     await stop(false);
   };
 
+  const handleApproval = async (decision: ApprovalDecision) => {
+    const result = await respondApproval(decision);
+
+    if (!result.accepted) {
+      warning({ title: 'The run is no longer waiting for review' });
+      return;
+    }
+
+    if (decision.action === 'approve') {
+      accent({ title: 'Changes approved and committed' });
+    } else if (decision.action === 'reject') {
+      warning({ title: 'Changes rejected', description: 'The task was reset to pending.' });
+    } else {
+      accent({ title: 'Feedback sent', description: 'The agent is running again.' });
+    }
+  };
+
   const runTargetLabel =
     selectedTask?.title ??
     (selectedLabel
@@ -259,9 +279,11 @@ export const AgentRunner = () => {
         </label>
 
         <p className="text-dim mt-3 text-xs">
-          {isRunning
-            ? `Iteration ${iteration} of ${maxIterations || '∞'} -- Running...`
-            : `Ready. ${taskFilesForRun.length} task${taskFilesForRun.length === 1 ? '' : 's'} selected.`}
+          {approvalRequest
+            ? `Iteration ${iteration} of ${maxIterations || '∞'} -- Waiting for review...`
+            : isRunning
+              ? `Iteration ${iteration} of ${maxIterations || '∞'} -- Running...`
+              : `Ready. ${taskFilesForRun.length} task${taskFilesForRun.length === 1 ? '' : 's'} selected.`}
         </p>
       </section>
 
@@ -278,6 +300,8 @@ export const AgentRunner = () => {
 
       <ProgressViewer iteration={iteration} isRunning={isRunning} />
 
+      <ApprovalDialog request={approvalRequest} onRespond={handleApproval} />
+
       <Dialog
         open={showRunConfirm}
         onOpenChange={(open) => {
@@ -308,9 +332,11 @@ export const AgentRunner = () => {
             <div className="border-edge rounded border p-2 text-xs">
               <p className="text-dim">Auto-commit</p>
               <p className="text-mid mt-1">
-                {typeof config?.autoCommit === 'boolean' && config.autoCommit
-                  ? 'Enabled by config for this project.'
-                  : 'Disabled in config.'}
+                {config?.approval === 'required'
+                  ? 'Approved changes are committed after review.'
+                  : typeof config?.autoCommit === 'boolean' && config.autoCommit
+                    ? 'Enabled by config for this project.'
+                    : 'Disabled in config.'}
               </p>
             </div>
             {selectedTask ? (
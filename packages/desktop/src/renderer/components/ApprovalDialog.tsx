@@ -0,0 +1,218 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { ApprovalDecision, ApprovalRequest } from '@/types/ipc';
+import { CheckCircle2, XCircle } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+import { DiffView } from './editor/DiffView';
+import { Textarea } from './ui/textarea';
+
+type ApprovalDialogProps = {
+  request: ApprovalRequest | null;
+  onRespond: (decision: ApprovalDecision) => Promise<void>;
+};
+
+type ReviewMode = 'review' | 'reject' | 'feedback';
+
+const FILE_STATUS_LABEL: Record<string, string> = {
+  A: 'added',
+  D: 'deleted',
+  M: 'modified',
+};
+
+export const ApprovalDialog = ({ request, onRespond }: ApprovalDialogProps) => {
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [mode, setMode] = useState<ReviewMode>('review');
+  const [message, setMessage] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setSelectedPath(request?.files[0]?.path ?? null);
+    setMode('review');
+    setMessage('');
+  }, [request]);
+
+  const selectedFile = request?.files.find((file) => file.path === selectedPath) ?? null;
+  const failedValidators = request?.validators.filter((validator) => validator.exitCode !== 0);
+
+  const submit = async (decision: ApprovalDecision) => {
+    setIsSubmitting(true);
+
+    try {
+      await onRespond(decision);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const taskLabel =
+    request && request.taskTitles.length > 0
+      ? request.taskTitles.join(', ')
+      : `Iteration ${request?.iteration ?? ''}`;
+
+  return (
+    <Dialog open={request !== null}>
+      <DialogContent
+        showCloseButton={false}
+        className="bg-panel border-edge flex h-[85vh] flex-col md:max-w-5/6"
+      >
+        <DialogHeader>
+          <DialogTitle>Review {taskLabel}</DialogTitle>
+          <DialogDescription>
+            {request?.files.length ?? 0} changed file{request?.files.length === 1 ? '' : 's'}
+            {failedValidators && failedValidators.length > 0
+              ? ` -- ${failedValidators.length} validator${failedValidators.length === 1 ? '' : 's'} failing`
+              : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid min-h-0 flex-1 gap-3 md:grid-cols-[16rem_1fr]">
+          <div className="flex min-h-0 flex-col gap-3 overflow-y-auto">
+            <div className="space-y-1">
+              <p className="text-dim text-xs">Files</p>
+              {request?.files.length === 0 ? (
+                <p className="text-mid text-xs">No changes outside .ody/</p>
+              ) : null}
+              {request?.files.map((file) => (
+                <button
+                  key={file.path}
+                  type="button"
+                  className={[
+                    'block w-full truncate rounded border px-2 py-1 text-left font-mono text-xs',
+                    file.path === selectedPath
+                      ? 'border-primary/35 bg-accent-bg text-primary'
+                      : 'border-edge text-mid',
+                  ].join(' ')}
+                  title={`${FILE_STATUS_LABEL[file.status] ?? file.status} ${file.path}`}
+                  onClick={() => {
+                    setSelectedPath(file.path);
+                  }}
+                >
+                  {file.status} {file.path}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-1">
+              <p className="text-dim text-xs">Validators</p>
+              {request?.validators.length === 0 ? (
+                <p className="text-mid text-xs">None configured</p>
+              ) : null}
+              {request?.validators.map((validator) => (
+                <details key={validator.command} className="border-edge rounded border p-2">
+                  <summary className="flex cursor-pointer items-center gap-1.5 text-xs">
+                    {validator.exitCode === 0 ? (
+                      <CheckCircle2 className="text-green size-3.5 shrink-0" />
+                    ) : (
+                      <XCircle className="text-red size-3.5 shrink-0" />
+                    )}
+                    <span className="text-light truncate font-mono">{validator.command}</span>
+                  </summary>
+                  <pre className="text-mid mt-2 max-h-40 overflow-auto text-[11px] whitespace-pre-wrap">
+                    {validator.outputTail || `exit ${validator.exitCode}`}
+                  </pre>
+                </details>
+              ))}
+            </div>
+          </div>
+
+          <div className="min-h-0">
+            {selectedFile ? (
+              <DiffView original={selectedFile.original} proposed={selectedFile.proposed} />
+            ) : null}
+          </div>
+        </div>
+
+        {mode !== 'review' ? (
+          <Textarea
+            autoFocus
+            value={message}
+            placeholder={
+              mode === 'reject'
+                ? 'Why are you rejecting these changes? (optional)'
+                : 'What should the agent change?'
+            }
+            onChange={(ev) => {
+              setMessage(ev.target.value);
+            }}
+          />
+        ) : null}
+
+        <DialogFooter>
+          {mode === 'review' ? (
+            <>
+              <button
+                type="button"
+                className="text-red border-red/35 hover:bg-red-bg rounded-md border px-3 py-2 text-sm"
+                disabled={isSubmitting}
+                onClick={() => {
+                  setMode('reject');
+                }}
+              >
+                Reject
+              </button>
+              <button
+                type="button"
+                className="text-mid hover:text-light border-edge rounded-md border px-3 py-2 text-sm"
+                disabled={isSubmitting}
+                onClick={() => {
+                  setMode('feedback');
+                }}
+              >
+                Send Feedback
+              </button>
+              <button
+                type="button"
+                className="bg-primary text-primary-foreground hover:bg-accent-hover rounded-md px-3 py-2 text-sm"
+                disabled={isSubmitting}
+                onClick={() => {
+                  void submit({ action: 'approve' });
+                }}
+              >
+                Approve
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                type="button"
+                className="text-mid hover:text-light border-edge rounded-md border px-3 py-2 text-sm"
+                disabled={isSubmitting}
+                onClick={() => {
+                  setMode('review');
+                  setMessage('');
+                }}
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                className={
+                  mode === 'reject'
+                    ? 'text-red border-red/35 hover:bg-red-bg rounded-md border px-3 py-2 text-sm'
+                    : 'bg-primary text-primary-foreground hover:bg-accent-hover rounded-md px-3 py-2 text-sm'
+                }
+                disabled={isSubmitting || (mode === 'feedback' && message.trim().length === 0)}
+                onClick={() => {
+                  void submit(
+                    mode === 'reject'
+                      ? { action: 'reject', note: message.trim() }
+                      : { action: 'feedback', comment: message.trim() },
+                  );
+                }}
+              >
+                {mode === 'reject' ? 'Reject and Revert' : 'Re-run Agent'}
+              </button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -20,7 +20,9 @@ import { EmptyState } from './EmptyState';
 import { LoadingSpinner } from './LoadingSpinner';
 import { Label } from './ui/label';
 
-type AuthProvider = 'jira' | 'github';
+type AuthProvider = 'jira' | TokenProvider;
+
+type TokenProvider = 'github' | 'linear' | 'gitlab';
 
 type JiraProfile = {
   profile: string;
@@ -28,11 +30,23 @@ type JiraProfile = {
   apiToken: string;
 };
 
-type GitHubProfile = {
+type TokenProfile = {
   profile: string;
   token: string;
 };
 
+const TOKEN_PROVIDERS: Record<
+  TokenProvider,
+  { label: string; field: 'token' | 'apiKey'; secretLabel: string }
+> = {
+  github: { label: 'GitHub', field: 'token', secretLabel: 'Personal access token' },
+  linear: { label: 'Linear', field: 'apiKey', secretLabel: 'Personal API key' },
+  gitlab: { label: 'GitLab', field: 'token', secretLabel: 'Personal access token' },
+};
+
+const isAuthProvider = (value: string): value is AuthProvider =>
+  value === 'jira' || Object.hasOwn(TOKEN_PROVIDERS, value);
+
 type EditorState =
   | {
       open: false;
@@ -95,25 +109,27 @@ const parseJiraProfiles = (value: unknown): JiraProfile[] => {
   return profiles.sort((a, b) => a.profile.localeCompare(b.profile));
 };
 
-const parseGitHubProfiles = (value: unknown): GitHubProfile[] => {
+const parseTokenProfiles = (value: unknown, field: 'token' | 'apiKey'): TokenProfile[] => {
   if (!isObject(value)) {
     return [];
   }
 
-  const profiles: GitHubProfile[] = [];
+  const profiles: TokenProfile[] = [];
 
   for (const [profile, credentials] of Object.entries(value)) {
     if (!isObject(credentials)) {
       continue;
     }
 
-    if (typeof credentials.token !== 'string') {
+    const token = credentials[field];
+
+    if (typeof token !== 'string') {
       continue;
     }
 
     profiles.push({
       profile,
-      token: credentials.token,
+      token,
     });
   }
 
@@ -139,8 +155,19 @@ export const AuthPanel = () => {
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [loadError, setLoadError] = useState<string | null>(null);
-  const { authStore, isLoading, loadAuth, saveJira, saveGitHub, removeJira, removeGitHub } =
-    useAuth();
+  const {
+    authStore,
+    isLoading,
+    loadAuth,
+    saveJira,
+    saveGitHub,
+    removeJira,
+    removeGitHub,
+    saveLinear,
+    saveGitLab,
+    removeLinear,
+    removeGitLab,
+  } = useAuth();
   const { config } = useConfig();
   const { success, error } = useNotifications();
 
@@ -155,16 +182,28 @@ export const AuthPanel = () => {
   }, [loadAuth]);
 
   const jiraProfiles = useMemo(() => parseJiraProfiles(authStore?.jira), [authStore]);
-  const githubProfiles = useMemo(() => parseGitHubProfiles(authStore?.github), [authStore]);
-  const activeJiraProfile =
-    isObject(config?.jira) && typeof config.jira.profile === 'string'
-      ? config.jira.profile
-      : 'default';
-  const activeGitHubProfile =
-    isObject(config?.github) && typeof config.github.profile === 'string'
-      ? config.github.profile
+  const tokenProfiles = useMemo(
+    () => ({
+      github: parseTokenProfiles(authStore?.github, TOKEN_PROVIDERS.github.field),
+      linear: parseTokenProfiles(authStore?.linear, TOKEN_PROVIDERS.linear.field),
+      gitlab: parseTokenProfiles(authStore?.gitlab, TOKEN_PROVIDERS.gitlab.field),
+    }),
+    [authStore],
+  );
+  const getActiveProfile = (provider: AuthProvider) => {
+    const providerConfig = config?.[provider];
+
+    return isObject(providerConfig) && typeof providerConfig.profile === 'string'
+      ? providerConfig.profile
       : 'default';
-  const hasProfiles = jiraProfiles.length > 0 || githubProfiles.length > 0;
+  };
+  const hasProfiles =
+    jiraProfiles.length > 0 || Object.values(tokenProfiles).some((profiles) => profiles.length > 0);
+  const tokenActions = {
+    github: { save: saveGitHub, remove: removeGitHub },
+    linear: { save: saveLinear, remove: removeLinear },
+    gitlab: { save: saveGitLab, remove: removeGitLab },
+  };
 
   const openAddDialog = (provider: AuthProvider) => {
     setEditor({
@@ -188,10 +227,10 @@ export const AuthPanel = () => {
     });
   };
 
-  const openEditGitHubDialog = (profile: GitHubProfile) => {
+  const openEditTokenDialog = (provider: TokenProvider, profile: TokenProfile) => {
     setEditor({
       open: true,
-      provider: 'github',
+      provider,
       initialProfile: profile.profile,
       profile: profile.profile,
       email: '',
@@ -232,18 +271,20 @@ export const AuthPanel = () => {
 
         await saveJira(profileName, { email, apiToken });
       } else {
+        const provider = TOKEN_PROVIDERS[editor.provider];
+        const actions = tokenActions[editor.provider];
         const token = editor.secret.trim();
 
         if (token.length === 0) {
-          error({ title: 'GitHub token is required' });
+          error({ title: `${provider.label} ${provider.secretLabel.toLowerCase()} is required` });
           return;
         }
 
         if (editor.initialProfile && editor.initialProfile !== profileName) {
-          await removeGitHub(editor.initialProfile);
+          await actions.remove(editor.initialProfile);
         }
 
-        await saveGitHub(profileName, { token });
+        await actions.save(profileName, { [provider.field]: token });
       }
 
       success({ title: 'Credentials saved', description: profileName });
@@ -266,7 +307,7 @@ export const AuthPanel = () => {
       if (pendingDelete.provider === 'jira') {
         await removeJira(pendingDelete.profile);
       } else {
-        await removeGitHub(pendingDelete.profile);
+        await tokenActions[pendingDelete.provider].remove(pendingDelete.profile);
       }
 
       success({ title: 'Profile deleted', description: pendingDelete.profile });
@@ -322,7 +363,7 @@ export const AuthPanel = () => {
         <Tabs
           value={tab}
           onValueChange={(value) => {
-            if (value === 'jira' || value === 'github') {
+            if (isAuthProvider(value)) {
               setTab(value);
             }
           }}
@@ -331,7 +372,11 @@ export const AuthPanel = () => {
           <div className="mb-4 flex items-center justify-between gap-2">
             <TabsList className="bg-background/60 border-edge border">
               <TabsTrigger value="jira">Jira</TabsTrigger>
-              <TabsTrigger value="github">GitHub</TabsTrigger>
+              {Object.entries(TOKEN_PROVIDERS).map(([provider, { label }]) => (
+                <TabsTrigger key={provider} value={provider}>
+                  {label}
+                </TabsTrigger>
+              ))}
             </TabsList>
             <Button size="sm" onClick={() => openAddDialog(tab)}>
               <PlusIcon /> Add Profile
@@ -351,7 +396,7 @@ export const AuthPanel = () => {
                 <p className="text-mid px-3 py-3 text-sm">No Jira profiles configured.</p>
               ) : (
                 jiraProfiles.map((profile) => {
-                  const isActive = profile.profile === activeJiraProfile;
+                  const isActive = profile.profile === getActiveProfile('jira');
 
                   return (
                     <div
@@ -399,64 +444,70 @@ export const AuthPanel = () => {
             </div>
           </TabsContent>
 
-          <TabsContent value="github" className="m-0">
-            <div className="border-edge overflow-hidden rounded-lg border">
-              <div className="bg-background/60 grid grid-cols-[1.2fr_1.6fr_auto] gap-3 border-b px-3 py-2 text-xs tracking-[0.08em] text-gray-400 uppercase">
-                <span>Profile</span>
-                <span>Token Preview</span>
-                <span>Status</span>
-              </div>
-              {isLoading ? (
-                <p className="text-mid px-3 py-3 text-sm">Loading GitHub profiles...</p>
-              ) : githubProfiles.length === 0 ? (
-                <p className="text-mid px-3 py-3 text-sm">No GitHub profiles configured.</p>
-              ) : (
-                githubProfiles.map((profile) => {
-                  const isActive = profile.profile === activeGitHubProfile;
-
-                  return (
-                    <div
-                      key={profile.profile}
-                      className="border-edge grid grid-cols-[1.2fr_1.6fr_auto] items-center gap-3 border-b px-3 py-2 text-sm last:border-b-0"
-                    >
-                      <span className="text-light font-medium">{profile.profile}</span>
-                      <span className="text-light font-mono text-xs">
-                        {maskToken(profile.token)}
-                      </span>
-                      <div className="flex items-center gap-2">
-                        {isActive && (
-                          <Badge variant="outline" className="border-primary/35 text-primary">
-                            active
-                          </Badge>
-                        )}
-                        <Button
-                          size="xs"
-                          variant="outline"
-                          onClick={() => openEditGitHubDialog(profile)}
-                        >
-                          Edit
-                        </Button>
-                        <Button
-                          size="xs"
-                          variant="outline"
-                          className="text-red"
-                          onClick={() => {
-                            setPendingDelete({
-                              open: true,
-                              provider: 'github',
-                              profile: profile.profile,
-                            });
-                          }}
-                        >
-                          Delete
-                        </Button>
+          {(Object.keys(TOKEN_PROVIDERS) as TokenProvider[]).map((provider) => (
+            <TabsContent key={provider} value={provider} className="m-0">
+              <div className="border-edge overflow-hidden rounded-lg border">
+                <div className="bg-background/60 grid grid-cols-[1.2fr_1.6fr_auto] gap-3 border-b px-3 py-2 text-xs tracking-[0.08em] text-gray-400 uppercase">
+                  <span>Profile</span>
+                  <span>Token Preview</span>
+                  <span>Status</span>
+                </div>
+                {isLoading ? (
+                  <p className="text-mid px-3 py-3 text-sm">
+                    Loading {TOKEN_PROVIDERS[provider].label} profiles...
+                  </p>
+                ) : tokenProfiles[provider].length === 0 ? (
+                  <p className="text-mid px-3 py-3 text-sm">
+                    No {TOKEN_PROVIDERS[provider].label} profiles configured.
+                  </p>
+                ) : (
+                  tokenProfiles[provider].map((profile) => {
+                    const isActive = profile.profile === getActiveProfile(provider);
+
+                    return (
+                      <div
+                        key={profile.profile}
+                        className="border-edge grid grid-cols-[1.2fr_1.6fr_auto] items-center gap-3 border-b px-3 py-2 text-sm last:border-b-0"
+                      >
+                        <span className="text-light font-medium">{profile.profile}</span>
+                        <span className="text-light font-mono text-xs">
+                          {maskToken(profile.token)}
+                        </span>
+                        <div className="flex items-center gap-2">
+                          {isActive && (
+                            <Badge variant="outline" className="border-primary/35 text-primary">
+                              active
+                            </Badge>
+                          )}
+                          <Button
+                            size="xs"
+                            variant="outline"
+                            onClick={() => openEditTokenDialog(provider, profile)}
+                          >
+                            Edit
+                          </Button>
+                          <Button
+                            size="xs"
+                            variant="outline"
+                            className="text-red"
+                            onClick={() => {
+                              setPendingDelete({
+                                open: true,
+                                provider,
+                                profile: profile.profile,
+                              });
+                            }}
+                          >
+                            Delete
+                          </Button>
+                        </div>
                       </div>
-                    </div>
-                  );
-                })
-              )}
-            </div>
-          </TabsContent>
+                    );
+                  })
+                )}
+              </div>
+            </TabsContent>
+          ))}
         </Tabs>
       </div>
 
@@ -467,7 +518,7 @@ export const AuthPanel = () => {
             <DialogDescription>
               {editor.provider === 'jira'
                 ? 'Store Jira email and API token for imports.'
-                : 'Store a GitHub personal access token for imports.'}
+                : `Store a ${TOKEN_PROVIDERS[editor.provider].label} ${TOKEN_PROVIDERS[editor.provider].secretLabel.toLowerCase()} for imports.`}
             </DialogDescription>
           </DialogHeader>
 
@@ -499,7 +550,9 @@ export const AuthPanel = () => {
 
             <div className="space-y-2">
               <Label htmlFor="password">
-                {editor.provider === 'jira' ? 'API token' : 'Personal access token'}
+                {editor.provider === 'jira'
+                  ? 'API token'
+                  : TOKEN_PROVIDERS[editor.provider].secretLabel}
               </Label>
               <Input
                 id="password"
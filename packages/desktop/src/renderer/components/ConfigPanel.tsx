@@ -56,6 +56,9 @@ const FIELD_PATHS = {
   jiraBaseUrl: ['jira', 'baseUrl'],
   jiraProfile: ['jira', 'profile'],
   githubProfile: ['github', 'profile'],
+  githubBaseUrl: ['github', 'baseUrl'],
+  linearProfile: ['linear', 'profile'],
+  gitlabBaseUrl: ['gitlab', 'baseUrl'],
 } as const;
 
 const TABS: { id: Tab; label: string; icon: React.ReactNode }[] = [
@@ -580,19 +583,91 @@ export const ConfigPanel = ({ onOpenInitWizard, onEditJson }: ConfigPanelProps)
             <div className="space-y-3">
               <div className="flex items-center gap-2">
                 <span className="text-light text-sm font-medium">GitHub</span>
-                <SourceBadge source={sourceFor(FIELD_PATHS.githubProfile)} />
+                <SourceBadge source={sourceFor(FIELD_PATHS.githubBaseUrl)} />
+              </div>
+              <div className="grid gap-3 sm:grid-cols-2">
+                <label className="space-y-1">
+                  <span className="text-dim text-xs">Base URL</span>
+                  <Input
+                    placeholder="https://github.com"
+                    value={form.githubBaseUrl}
+                    onChange={(event) => {
+                      setForm((prev) => ({ ...prev, githubBaseUrl: event.target.value }));
+                    }}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-dim text-xs">API URL</span>
+                  <Input
+                    placeholder="Derived from the base URL"
+                    value={form.githubApiUrl}
+                    onChange={(event) => {
+                      setForm((prev) => ({ ...prev, githubApiUrl: event.target.value }));
+                    }}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-dim text-xs">Profile</span>
+                  <Input
+                    placeholder="default"
+                    value={form.githubProfile}
+                    onChange={(event) => {
+                      setForm((prev) => ({ ...prev, githubProfile: event.target.value }));
+                    }}
+                  />
+                </label>
+              </div>
+            </div>
+
+            <div className="border-edge border-t" />
+
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <span className="text-light text-sm font-medium">Linear</span>
+                <SourceBadge source={sourceFor(FIELD_PATHS.linearProfile)} />
               </div>
               <label className="block space-y-1">
                 <span className="text-dim text-xs">Profile</span>
                 <Input
                   placeholder="default"
-                  value={form.githubProfile}
+                  value={form.linearProfile}
                   onChange={(event) => {
-                    setForm((prev) => ({ ...prev, githubProfile: event.target.value }));
+                    setForm((prev) => ({ ...prev, linearProfile: event.target.value }));
                   }}
                 />
               </label>
             </div>
+
+            <div className="border-edge border-t" />
+
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <span className="text-light text-sm font-medium">GitLab</span>
+                <SourceBadge source={sourceFor(FIELD_PATHS.gitlabBaseUrl)} />
+              </div>
+              <div className="grid gap-3 sm:grid-cols-2">
+                <label className="space-y-1">
+                  <span className="text-dim text-xs">Base URL</span>
+                  <Input
+                    placeholder="https://gitlab.com"
+                    value={form.gitlabBaseUrl}
+                    onChange={(event) => {
+                      setForm((prev) => ({ ...prev, gitlabBaseUrl: event.target.value }));
+                    }}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-dim text-xs">Profile</span>
+                  <Input
+                    placeholder="default"
+                    value={form.gitlabProfile}
+                    onChange={(event) => {
+                      setForm((prev) => ({ ...prev, gitlabProfile: event.target.value }));
+                    }}
+                  />
+                </label>
+              </div>
+            </div>
           </div>
         )}
 
@@ -17,7 +17,7 @@ import {
 } from '@/components/ui/scroll-area';
 import { stripAnsi } from '@/lib/ansi';
 import { api } from '@/lib/api';
-import type { TaskStatus, TaskSummary } from '@/types/ipc';
+import type { TaskCheckpoint, TaskStatus, TaskSummary } from '@/types/ipc';
 import { ClipboardList, Search } from 'lucide-react';
 import { useMemo, useState } from 'react';
 
@@ -73,6 +73,8 @@ export const TaskBoard = ({
   const [localLabelFilter, setLocalLabelFilter] = useState<string[]>([]);
   const [localStatusFilter, setLocalStatusFilter] = useState<TaskStatus[]>([]);
   const [deleteTarget, setDeleteTarget] = useState<TaskSummary | null>(null);
+  const [revertTarget, setRevertTarget] = useState<TaskSummary | null>(null);
+  const [revertCheckpoint, setRevertCheckpoint] = useState<TaskCheckpoint | null>(null);
   const [detailTarget, setDetailTarget] = useState<TaskSummary | null>(null);
   const [showArchiveConfirm, setShowArchiveConfirm] = useState(false);
   const [viewError, setViewError] = useState<string | null>(null);
@@ -213,6 +215,38 @@ export const TaskBoard = ({
     setDeleteTarget(null);
   };
 
+  const openRevert = async (task: TaskSummary) => {
+    try {
+      setRevertCheckpoint(await api.tasks.checkpoint(task.filePath));
+      setRevertTarget(task);
+    } catch (cause) {
+      const message = cause instanceof Error ? cause.message : 'Unable to read the checkpoint';
+      error({ title: 'Cannot revert task', description: message });
+    }
+  };
+
+  const closeRevert = () => {
+    setRevertTarget(null);
+    setRevertCheckpoint(null);
+  };
+
+  const revertTask = async () => {
+    if (!revertTarget) {
+      return;
+    }
+
+    try {
+      await api.tasks.rollback(revertTarget.filePath);
+      accent({ title: 'Task reverted', description: revertTarget.title });
+      await loadTasks();
+    } catch (cause) {
+      const message = cause instanceof Error ? cause.message : 'Unable to revert task';
+      error({ title: 'Task revert failed', description: message });
+    }
+
+    closeRevert();
+  };
+
   const archiveCompleted = async () => {
     if (completedTasks.length === 0) {
       warning({ title: 'No completed tasks to archive' });
@@ -386,6 +420,9 @@ export const TaskBoard = ({
                             onOpenEditor(target.filePath);
                           }}
                           onDelete={setDeleteTarget}
+                          onRevert={(target) => {
+                            void openRevert(target);
+                          }}
                           onStop={() => {
                             void stop(false);
                           }}
@@ -498,6 +535,63 @@ export const TaskBoard = ({
         </DialogContent>
       </Dialog>
 
+      <Dialog
+        open={revertTarget !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            closeRevert();
+          }
+        }}
+      >
+        <DialogContent className="bg-panel border-edge max-w-md">
+          <DialogHeader>
+            <DialogTitle>Revert this task?</DialogTitle>
+            <DialogDescription>
+              Restores the code to the checkpoint taken before the task ran and moves the task back
+              to pending. Files under .ody/ are left as they are.
+            </DialogDescription>
+          </DialogHeader>
+
+          <p className="text-light border-edge rounded border p-2 text-sm">{revertTarget?.title}</p>
+
+          {revertCheckpoint && revertCheckpoint.laterCommits.length > 0 ? (
+            <div className="space-y-1">
+              <p className="text-amber text-xs">
+                These later commits are undone too ({revertCheckpoint.laterCommits.length}):
+              </p>
+              <pre className="text-mid border-edge max-h-40 overflow-auto rounded border p-2 font-mono text-[11px]">
+                {revertCheckpoint.laterCommits.join('\n')}
+              </pre>
+            </div>
+          ) : null}
+
+          {revertCheckpoint?.hasUncommittedChanges ? (
+            <p className="text-amber text-xs">
+              Uncommitted changes outside .ody/ will be replaced by the checkpoint.
+            </p>
+          ) : null}
+
+          <DialogFooter>
+            <button
+              type="button"
+              className="text-mid hover:text-light border-edge rounded-md border px-3 py-2 text-sm"
+              onClick={closeRevert}
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              className="text-red border-red/35 hover:bg-red-bg rounded-md border px-3 py-2 text-sm"
+              onClick={() => {
+                void revertTask();
+              }}
+            >
+              Revert
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <TaskDetailDialog
         task={detailTarget}
         open={detailTarget !== null}
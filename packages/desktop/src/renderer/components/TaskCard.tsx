@@ -1,6 +1,6 @@
 import { Button } from '@/components/ui/button';
 import type { TaskSummary } from '@/types/ipc';
-import { CheckCircle2, Pencil, Play, StopCircle, Trash2 } from 'lucide-react';
+import { AlertTriangle, CheckCircle2, Pencil, Play, StopCircle, Trash2, Undo2 } from 'lucide-react';
 
 type TaskCardProps = {
   task: TaskSummary;
@@ -10,6 +10,7 @@ type TaskCardProps = {
   onRun: (task: TaskSummary) => void;
   onEdit: (task: TaskSummary) => void;
   onDelete: (task: TaskSummary) => void;
+  onRevert?: (task: TaskSummary) => void;
   onStop?: () => void;
 };
 
@@ -43,10 +44,12 @@ export const TaskCard = ({
   onRun,
   onEdit,
   onDelete,
+  onRevert,
   onStop,
 }: TaskCardProps) => {
   const isInProgress = task.status === 'in_progress';
   const isCompleted = task.status === 'completed';
+  const canRevert = onRevert !== undefined && task.checkpoint !== null && !isRunning;
 
   return (
     <article
@@ -63,6 +66,13 @@ export const TaskCard = ({
         {isCompleted ? <CheckCircle2 className="text-green mt-0.5 size-4 shrink-0" /> : null}
       </div>
 
+      {task.error ? (
+        <div className="border-red/25 bg-red-bg text-red mt-2 flex gap-1.5 rounded border p-2 text-[11px] leading-relaxed">
+          <AlertTriangle className="mt-0.5 size-3 shrink-0" />
+          <p className="break-words whitespace-pre-wrap">{task.error}</p>
+        </div>
+      ) : null}
+
       {task.description.length > 0 ? (
         <p className="text-mid mt-2 line-clamp-4 text-xs leading-relaxed">{task.description}</p>
       ) : null}
@@ -107,41 +117,59 @@ export const TaskCard = ({
         </div>
       ) : null}
 
-      {!isCompleted ? (
+      {!isCompleted || canRevert ? (
         <div className="mt-3 flex gap-1.5 opacity-100 transition-opacity md:opacity-0 md:group-hover:opacity-100">
-          <Button
-            variant="primary-outline"
-            size="sm"
-            onClick={(event) => {
-              event.stopPropagation();
-              onRun(task);
-            }}
-          >
-            <Play className="size-3" />
-            Run
-          </Button>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={(event) => {
-              event.stopPropagation();
-              onEdit(task);
-            }}
-          >
-            <Pencil className="size-3" />
-            Edit
-          </Button>
-          <Button
-            variant="destructive"
-            size="sm"
-            onClick={(event) => {
-              event.stopPropagation();
-              onDelete(task);
-            }}
-          >
-            <Trash2 className="size-3" />
-            Delete
-          </Button>
+          {isCompleted ? null : (
+            <>
+              <Button
+                variant="primary-outline"
+                size="sm"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  onRun(task);
+                }}
+              >
+                <Play className="size-3" />
+                Run
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  onEdit(task);
+                }}
+              >
+                <Pencil className="size-3" />
+                Edit
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  onDelete(task);
+                }}
+              >
+                <Trash2 className="size-3" />
+                Delete
+              </Button>
+            </>
+          )}
+          {canRevert ? (
+            <Button
+              variant="outline"
+              size="sm"
+              className="text-amber dark:border-amber/35 hover:bg-amber-bg"
+              onClick={(event) => {
+                event.stopPropagation();
+                onRevert?.(task);
+              }}
+            >
+              <Undo2 className="size-3" />
+              Revert this task
+            </Button>
+          ) : null}
         </div>
       ) : null}
 
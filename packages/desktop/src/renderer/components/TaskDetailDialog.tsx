@@ -12,7 +12,8 @@ import {
   ScrollAreaThumb,
   ScrollAreaViewport,
 } from '@/components/ui/scroll-area';
-import type { TaskSummary } from '@/types/ipc';
+import type { AcceptanceCriterion, TaskSummary } from '@/types/ipc';
+import { CheckCircle2, Circle } from 'lucide-react';
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import Markdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
@@ -205,6 +206,49 @@ const RenderedMarkdown = ({ content }: RenderedMarkdownProps) => {
   );
 };
 
+type CriteriaChecklistProps = {
+  criteria: AcceptanceCriterion[];
+};
+
+const CriteriaChecklist = ({ criteria }: CriteriaChecklistProps) => {
+  const checkedCount = criteria.filter((criterion) => criterion.checked).length;
+
+  return (
+    <div className="border-edge border-t pt-3">
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="text-light text-xs font-semibold">Acceptance Criteria</h3>
+        <span
+          className={[
+            'text-[10px] font-medium',
+            checkedCount === criteria.length ? 'text-green' : 'text-dim',
+          ].join(' ')}
+        >
+          {checkedCount}/{criteria.length} verified
+        </span>
+      </div>
+      <ul className="space-y-2">
+        {criteria.map((criterion) => (
+          <li key={criterion.line} className="flex items-start gap-2">
+            {criterion.checked ? (
+              <CheckCircle2 className="text-green mt-0.5 size-3.5 shrink-0" />
+            ) : (
+              <Circle className="text-dim mt-0.5 size-3.5 shrink-0" />
+            )}
+            <div className="min-w-0">
+              <p className="text-light text-sm">
+                {criterion.number}. {criterion.title}
+              </p>
+              {criterion.evidence ? (
+                <p className="text-dim text-xs">Evidence: {criterion.evidence}</p>
+              ) : null}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
 export const TaskDetailDialog = ({ task, open, onClose, onEdit }: TaskDetailDialogProps) => {
   const { readTask } = useTasks();
   const [content, setContent] = useState<string | null>(null);
@@ -298,6 +342,8 @@ export const TaskDetailDialog = ({ task, open, onClose, onEdit }: TaskDetailDial
           </div>
         ) : null}
 
+        {task && task.criteria.length > 0 ? <CriteriaChecklist criteria={task.criteria} /> : null}
+
         {isLoadingContent ? <LoadingSpinner size="sm" label="Loading task content" /> : null}
 
         {error ? (
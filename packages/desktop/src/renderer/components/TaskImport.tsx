@@ -12,6 +12,37 @@ import { useMemo } from 'react';
 import { EmptyState } from './EmptyState';
 import { LoadingSpinner } from './LoadingSpinner';
 
+const SINGLE_INPUTS = {
+  jira: {
+    label: 'Ticket key or URL (PROJ-123 or https://.../browse/PROJ-123)',
+    placeholder: 'PROJ-123',
+  },
+  github: {
+    label: 'Issue reference (owner/repo#123 or https://github.com/.../issues/123)',
+    placeholder: 'owner/repo#123',
+  },
+  linear: {
+    label: 'Issue ID or URL (ENG-123 or https://linear.app/.../issue/ENG-123)',
+    placeholder: 'ENG-123',
+  },
+  gitlab: {
+    label: 'Issue reference (group/project#123 or https://gitlab.com/.../-/issues/123)',
+    placeholder: 'group/project#123',
+  },
+};
+
+// Bulk search is only wired up for Jira (JQL) and GitHub (issue search).
+const SEARCH_INPUTS = {
+  jira: {
+    label: 'JQL query (project = PROJ AND sprint in openSprints())',
+    placeholder: 'project = PROJ AND status = "To Do"',
+  },
+  github: {
+    label: 'Issue search (repo:owner/repo label:ody is:open)',
+    placeholder: 'repo:owner/repo label:ody is:open',
+  },
+};
+
 type TaskImportProps = {
   config: Record<string, unknown> | null;
   onOpenAuth: () => void;
@@ -24,19 +55,27 @@ export const TaskImport = ({ config, onOpenAuth, onOpenTaskBoard }: TaskImportPr
   const {
     source,
     setSource,
+    mode,
+    setMode,
     input,
     setInput,
     isFetching,
     isGenerating,
     isPromptLoading,
+    isSearching,
     importData,
     promptPreview,
     streamOutput,
     missingCredentials,
-    settings,
+    profile,
+    searchResults,
+    selectedReferences,
     fetchData,
     previewPrompt,
     generateTask,
+    searchImports,
+    toggleReference,
+    importSelected,
     resetImport,
   } = useImport({
     config,
@@ -53,7 +92,11 @@ export const TaskImport = ({ config, onOpenAuth, onOpenTaskBoard }: TaskImportPr
         const reference =
           result.source === 'jira'
             ? result.ticket.key
-            : `${result.owner}/${result.repo}#${result.issue.number}`;
+            : result.source === 'linear'
+              ? result.issue.identifier
+              : result.source === 'gitlab'
+                ? `${result.projectPath}#${result.issue.iid}`
+                : `${result.owner}/${result.repo}#${result.issue.number}`;
         success({ title: 'Import data fetched', description: reference });
       }
     } catch (cause) {
@@ -91,20 +134,63 @@ export const TaskImport = ({ config, onOpenAuth, onOpenTaskBoard }: TaskImportPr
     }
   };
 
+  const handleSearch = async () => {
+    try {
+      const results = await searchImports();
+
+      if (results) {
+        success({ title: 'Search complete', description: `${results.length} result(s)` });
+      }
+    } catch (cause) {
+      const message = cause instanceof Error ? cause.message : String(cause);
+      error({ title: 'Search failed', description: message });
+    }
+  };
+
+  const handleImportSelected = async () => {
+    try {
+      const result = await importSelected();
+
+      if (!result.started) {
+        warning({ title: 'Agent is already running' });
+        return;
+      }
+
+      accent({ title: `Importing ${selectedReferences.length} task(s)` });
+    } catch (cause) {
+      const message = cause instanceof Error ? cause.message : String(cause);
+      error({ title: 'Import failed', description: message });
+    }
+  };
+
+  const canSearch = source === 'jira' || source === 'github';
+  const { label: inputLabel, placeholder: inputPlaceholder } =
+    mode === 'search' && canSearch ? SEARCH_INPUTS[source] : SINGLE_INPUTS[source];
+
   return (
     <section className="bg-panel/92 border-edge h-full overflow-y-auto rounded-lg border p-4 backdrop-blur-sm">
       <div className="space-y-4">
-        <div className="grid gap-3 lg:grid-cols-[1fr_auto] lg:items-end">
+        <div className="grid gap-3 lg:grid-cols-[auto_1fr_auto] lg:items-end">
           <div className="space-y-2">
             <p className="text-dim text-xs tracking-[0.08em] uppercase">Source</p>
             <RadioGroup
               value={source}
               onValueChange={(value) => {
-                if (value !== 'jira' && value !== 'github') {
+                if (
+                  value !== 'jira' &&
+                  value !== 'github' &&
+                  value !== 'linear' &&
+                  value !== 'gitlab'
+                ) {
                   return;
                 }
 
                 setSource(value);
+
+                if (value === 'linear' || value === 'gitlab') {
+                  setMode('single');
+                }
+
                 resetImport();
               }}
               className="flex gap-4"
@@ -115,60 +201,108 @@ export const TaskImport = ({ config, onOpenAuth, onOpenTaskBoard }: TaskImportPr
               <label className="text-mid flex items-center gap-2 text-sm">
                 <RadioGroupItem value="github" /> GitHub
               </label>
+              <label className="text-mid flex items-center gap-2 text-sm">
+                <RadioGroupItem value="linear" /> Linear
+              </label>
+              <label className="text-mid flex items-center gap-2 text-sm">
+                <RadioGroupItem value="gitlab" /> GitLab
+              </label>
+            </RadioGroup>
+          </div>
+          <div className="space-y-2">
+            <p className="text-dim text-xs tracking-[0.08em] uppercase">Mode</p>
+            <RadioGroup
+              value={mode}
+              onValueChange={(value) => {
+                if (value !== 'single' && value !== 'search') {
+                  return;
+                }
+
+                setMode(value);
+                resetImport();
+              }}
+              className="flex gap-4"
+            >
+              <label className="text-mid flex items-center gap-2 text-sm">
+                <RadioGroupItem value="single" /> Single
+              </label>
+              <label className="text-mid flex items-center gap-2 text-sm">
+                <RadioGroupItem value="search" disabled={!canSearch} /> Search
+              </label>
             </RadioGroup>
           </div>
           <Badge variant="outline" className="border-primary/35 text-primary w-fit">
-            Profile: {source === 'jira' ? settings.jiraProfile : settings.githubProfile}
+            Profile: {profile}
           </Badge>
         </div>
 
         <label className="block space-y-1">
-          <span className="text-dim text-xs">
-            {source === 'jira'
-              ? 'Ticket key or URL (PROJ-123 or https://.../browse/PROJ-123)'
-              : 'Issue reference (owner/repo#123 or https://github.com/.../issues/123)'}
-          </span>
+          <span className="text-dim text-xs">{inputLabel}</span>
           <Input
             value={input}
             onChange={(event) => {
               setInput(event.target.value);
             }}
-            placeholder={source === 'jira' ? 'PROJ-123' : 'owner/repo#123'}
-            disabled={isFetching || isGenerating}
+            placeholder={inputPlaceholder}
+            disabled={isFetching || isSearching || isGenerating}
           />
         </label>
 
-        <div className="flex flex-wrap items-center gap-2">
-          <Button
-            size="sm"
-            variant="outline"
-            onClick={() => {
-              void handleFetch();
-            }}
-            disabled={isFetching || isGenerating}
-          >
-            {isFetching ? 'Fetching...' : 'Fetch'}
-          </Button>
-          <Button
-            size="sm"
-            variant="outline"
-            onClick={() => {
-              void handlePreviewPrompt();
-            }}
-            disabled={isPromptLoading || isGenerating}
-          >
-            {isPromptLoading ? 'Building prompt...' : 'Preview Prompt'}
-          </Button>
-          <Button
-            size="sm"
-            onClick={() => {
-              void handleGenerateTask();
-            }}
-            disabled={isGenerating}
-          >
-            {isGenerating ? 'Generating...' : 'Generate Task'}
-          </Button>
-        </div>
+        {mode === 'search' ? (
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => {
+                void handleSearch();
+              }}
+              disabled={isSearching || isGenerating}
+            >
+              {isSearching ? 'Searching...' : 'Search'}
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => {
+                void handleImportSelected();
+              }}
+              disabled={isGenerating || selectedReferences.length === 0}
+            >
+              {isGenerating ? 'Importing...' : `Import Selected (${selectedReferences.length})`}
+            </Button>
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => {
+                void handleFetch();
+              }}
+              disabled={isFetching || isGenerating}
+            >
+              {isFetching ? 'Fetching...' : 'Fetch'}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => {
+                void handlePreviewPrompt();
+              }}
+              disabled={isPromptLoading || isGenerating}
+            >
+              {isPromptLoading ? 'Building prompt...' : 'Preview Prompt'}
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => {
+                void handleGenerateTask();
+              }}
+              disabled={isGenerating}
+            >
+              {isGenerating ? 'Generating...' : 'Generate Task'}
+            </Button>
+          </div>
+        )}
 
         {missingCredentials ? (
           <div className="border-amber/40 bg-amber-bg/40 rounded-md border p-3 text-sm">
@@ -184,77 +318,178 @@ export const TaskImport = ({ config, onOpenAuth, onOpenTaskBoard }: TaskImportPr
           </div>
         ) : null}
 
-        <div className="space-y-2">
-          <p className="text-dim text-xs tracking-[0.08em] uppercase">Fetched Preview</p>
-          <div className="bg-background border-edge min-h-32 rounded-md border p-3 text-sm">
-            {isFetching ? (
-              <LoadingSpinner size="sm" label="Fetching task data" />
-            ) : !importData ? (
-              <EmptyState
-                icon={<Import className="size-4" />}
-                title="No import data"
-                description="Fetch a Jira ticket or GitHub issue to preview the task context."
-              />
-            ) : importData.source === 'jira' ? (
-              <div className="space-y-3">
-                <div>
-                  <p className="text-light font-medium">{importData.ticket.summary}</p>
-                  <p className="text-mid text-xs">{importData.ticket.key}</p>
-                </div>
-                <div className="flex flex-wrap gap-2 text-xs">
-                  <Badge variant="outline">{importData.ticket.status || 'unknown status'}</Badge>
-                  <Badge variant="outline">{importData.ticket.priority || 'no priority'}</Badge>
-                  {importData.ticket.labels.map((label) => (
-                    <Badge key={label} variant="outline">
-                      {label}
-                    </Badge>
+        {mode === 'search' ? (
+          <div className="space-y-2">
+            <p className="text-dim text-xs tracking-[0.08em] uppercase">Search Results</p>
+            <div className="bg-background border-edge min-h-32 rounded-md border p-3 text-sm">
+              {isSearching ? (
+                <LoadingSpinner size="sm" label="Searching" />
+              ) : searchResults.length === 0 ? (
+                <EmptyState
+                  icon={<Import className="size-4" />}
+                  title="No search results"
+                  description="Search with JQL or a GitHub issue query to pick tickets to import."
+                />
+              ) : (
+                <ul className="space-y-1">
+                  {searchResults.map((result) => (
+                    <li key={result.reference}>
+                      <label className="hover:bg-panel flex items-center gap-3 rounded px-2 py-1.5">
+                        <input
+                          type="checkbox"
+                          checked={selectedReferences.includes(result.reference)}
+                          disabled={result.importedAs !== null || isGenerating}
+                          onChange={() => {
+                            toggleReference(result.reference);
+                          }}
+                        />
+                        <span className="text-mid w-32 shrink-0 truncate font-mono text-xs">
+                          {result.reference}
+                        </span>
+                        <span className="text-light min-w-0 flex-1 truncate">{result.title}</span>
+                        {result.importedAs !== null ? (
+                          <Badge variant="outline" title={result.importedAs}>
+                            Imported
+                          </Badge>
+                        ) : null}
+                        <Badge variant="outline">{result.status || 'unknown'}</Badge>
+                      </label>
+                    </li>
                   ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-dim text-xs tracking-[0.08em] uppercase">Fetched Preview</p>
+            <div className="bg-background border-edge min-h-32 rounded-md border p-3 text-sm">
+              {isFetching ? (
+                <LoadingSpinner size="sm" label="Fetching task data" />
+              ) : !importData ? (
+                <EmptyState
+                  icon={<Import className="size-4" />}
+                  title="No import data"
+                  description="Fetch a ticket or issue to preview the task context."
+                />
+              ) : importData.source === 'jira' ? (
+                <div className="space-y-3">
+                  <div>
+                    <p className="text-light font-medium">{importData.ticket.summary}</p>
+                    <p className="text-mid text-xs">{importData.ticket.key}</p>
+                  </div>
+                  <div className="flex flex-wrap gap-2 text-xs">
+                    <Badge variant="outline">{importData.ticket.status || 'unknown status'}</Badge>
+                    <Badge variant="outline">{importData.ticket.priority || 'no priority'}</Badge>
+                    {importData.ticket.labels.map((label) => (
+                      <Badge key={label} variant="outline">
+                        {label}
+                      </Badge>
+                    ))}
+                  </div>
+                  <p className="text-mid whitespace-pre-wrap">
+                    {importData.ticket.description || 'No description.'}
+                  </p>
+                  {importData.ticket.comments.length > 0 ? (
+                    <ul className="text-mid list-disc space-y-1 pl-5">
+                      {importData.ticket.comments.map((comment) => (
+                        <li key={comment}>{comment}</li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-mid">No comments.</p>
+                  )}
                 </div>
-                <p className="text-mid whitespace-pre-wrap">
-                  {importData.ticket.description || 'No description.'}
-                </p>
-                {importData.ticket.comments.length > 0 ? (
-                  <ul className="text-mid list-disc space-y-1 pl-5">
-                    {importData.ticket.comments.map((comment) => (
-                      <li key={comment}>{comment}</li>
+              ) : importData.source === 'linear' ? (
+                <div className="space-y-3">
+                  <div>
+                    <p className="text-light font-medium">{importData.issue.title}</p>
+                    <p className="text-mid text-xs">{importData.issue.identifier}</p>
+                  </div>
+                  <div className="flex flex-wrap gap-2 text-xs">
+                    <Badge variant="outline">{importData.issue.state || 'unknown state'}</Badge>
+                    <Badge variant="outline">{importData.issue.priority || 'no priority'}</Badge>
+                    {importData.issue.labels.map((label) => (
+                      <Badge key={label} variant="outline">
+                        {label}
+                      </Badge>
                     ))}
-                  </ul>
-                ) : (
-                  <p className="text-mid">No comments.</p>
-                )}
-              </div>
-            ) : (
-              <div className="space-y-3">
-                <div>
-                  <p className="text-light font-medium">{importData.issue.title}</p>
-                  <p className="text-mid text-xs">
-                    {importData.owner}/{importData.repo}#{importData.issue.number}
+                  </div>
+                  <p className="text-mid whitespace-pre-wrap">
+                    {importData.issue.description || 'No description.'}
                   </p>
+                  {importData.issue.comments.length > 0 ? (
+                    <ul className="text-mid list-disc space-y-1 pl-5">
+                      {importData.issue.comments.map((comment) => (
+                        <li key={comment}>{comment}</li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-mid">No comments.</p>
+                  )}
                 </div>
-                <div className="flex flex-wrap gap-2 text-xs">
-                  <Badge variant="outline">{importData.issue.state || 'unknown state'}</Badge>
-                  {importData.issue.labels.map((label) => (
-                    <Badge key={label} variant="outline">
-                      {label}
-                    </Badge>
-                  ))}
+              ) : importData.source === 'gitlab' ? (
+                <div className="space-y-3">
+                  <div>
+                    <p className="text-light font-medium">{importData.issue.title}</p>
+                    <p className="text-mid text-xs">
+                      {importData.projectPath}#{importData.issue.iid}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-2 text-xs">
+                    <Badge variant="outline">{importData.issue.state || 'unknown state'}</Badge>
+                    {importData.issue.labels.map((label) => (
+                      <Badge key={label} variant="outline">
+                        {label}
+                      </Badge>
+                    ))}
+                  </div>
+                  <p className="text-mid whitespace-pre-wrap">
+                    {importData.issue.description || 'No description.'}
+                  </p>
+                  {importData.issue.comments.length > 0 ? (
+                    <ul className="text-mid list-disc space-y-1 pl-5">
+                      {importData.issue.comments.map((comment) => (
+                        <li key={comment}>{comment}</li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-mid">No comments.</p>
+                  )}
                 </div>
-                <p className="text-mid whitespace-pre-wrap">
-                  {importData.issue.body || 'No description.'}
-                </p>
-                {importData.issue.comments.length > 0 ? (
-                  <ul className="text-mid list-disc space-y-1 pl-5">
-                    {importData.issue.comments.map((comment) => (
-                      <li key={comment}>{comment}</li>
+              ) : (
+                <div className="space-y-3">
+                  <div>
+                    <p className="text-light font-medium">{importData.issue.title}</p>
+                    <p className="text-mid text-xs">
+                      {importData.owner}/{importData.repo}#{importData.issue.number}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-2 text-xs">
+                    <Badge variant="outline">{importData.issue.state || 'unknown state'}</Badge>
+                    {importData.issue.labels.map((label) => (
+                      <Badge key={label} variant="outline">
+                        {label}
+                      </Badge>
                     ))}
-                  </ul>
-                ) : (
-                  <p className="text-mid">No comments.</p>
-                )}
-              </div>
-            )}
+                  </div>
+                  <p className="text-mid whitespace-pre-wrap">
+                    {importData.issue.body || 'No description.'}
+                  </p>
+                  {importData.issue.comments.length > 0 ? (
+                    <ul className="text-mid list-disc space-y-1 pl-5">
+                      {importData.issue.comments.map((comment) => (
+                        <li key={comment}>{comment}</li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-mid">No comments.</p>
+                  )}
+                </div>
+              )}
+            </div>
           </div>
-        </div>
+        )}
 
         {promptPreview.trim().length > 0 ? (
           <div className="space-y-1">
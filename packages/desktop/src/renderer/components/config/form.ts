@@ -16,7 +16,12 @@ export type ConfigFormState = {
   validatorCommands: string[];
   jiraBaseUrl: string;
   jiraProfile: string;
+  githubBaseUrl: string;
+  githubApiUrl: string;
   githubProfile: string;
+  linearProfile: string;
+  gitlabBaseUrl: string;
+  gitlabProfile: string;
 };
 
 const getString = (value: unknown, fallback = '') => (typeof value === 'string' ? value : fallback);
@@ -51,7 +56,12 @@ export const createDefaultConfigForm = (): ConfigFormState => ({
   validatorCommands: [],
   jiraBaseUrl: '',
   jiraProfile: '',
+  githubBaseUrl: '',
+  githubApiUrl: '',
   githubProfile: '',
+  linearProfile: '',
+  gitlabBaseUrl: '',
+  gitlabProfile: '',
 });
 
 export const toConfigFormState = (config: Record<string, unknown> | null): ConfigFormState => {
@@ -65,6 +75,8 @@ export const toConfigFormState = (config: Record<string, unknown> | null): Confi
   const modelRecord = getRecord(modelValue);
   const jira = getRecord(config.jira);
   const github = getRecord(config.github);
+  const linear = getRecord(config.linear);
+  const gitlab = getRecord(config.gitlab);
   const notify = config.notify;
 
   return {
@@ -89,7 +101,12 @@ export const toConfigFormState = (config: Record<string, unknown> | null): Confi
     validatorCommands: getStringArray(config.validatorCommands),
     jiraBaseUrl: getString(jira?.baseUrl),
     jiraProfile: getString(jira?.profile),
+    githubBaseUrl: getString(github?.baseUrl),
+    githubApiUrl: getString(github?.apiUrl),
     githubProfile: getString(github?.profile),
+    linearProfile: getString(linear?.profile),
+    gitlabBaseUrl: getString(gitlab?.baseUrl),
+    gitlabProfile: getString(gitlab?.profile),
   };
 };
 
@@ -124,8 +141,27 @@ export const toConfigPayload = (form: ConfigFormState) => {
     };
   }
 
-  if (form.githubProfile.trim().length > 0) {
-    payload.github = { profile: form.githubProfile.trim() };
+  if (
+    form.githubBaseUrl.trim().length > 0 ||
+    form.githubApiUrl.trim().length > 0 ||
+    form.githubProfile.trim().length > 0
+  ) {
+    payload.github = {
+      ...(form.githubBaseUrl.trim().length > 0 ? { baseUrl: form.githubBaseUrl.trim() } : {}),
+      ...(form.githubApiUrl.trim().length > 0 ? { apiUrl: form.githubApiUrl.trim() } : {}),
+      ...(form.githubProfile.trim().length > 0 ? { profile: form.githubProfile.trim() } : {}),
+    };
+  }
+
+  if (form.linearProfile.trim().length > 0) {
+    payload.linear = { profile: form.linearProfile.trim() };
+  }
+
+  if (form.gitlabBaseUrl.trim().length > 0 || form.gitlabProfile.trim().length > 0) {
+    payload.gitlab = {
+      ...(form.gitlabBaseUrl.trim().length > 0 ? { baseUrl: form.gitlabBaseUrl.trim() } : {}),
+      ...(form.gitlabProfile.trim().length > 0 ? { profile: form.gitlabProfile.trim() } : {}),
+    };
   }
 
   return payload;
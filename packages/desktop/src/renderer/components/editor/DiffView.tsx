@@ -8,7 +8,7 @@ import { odyDiffTheme, odySyntax } from './theme';
 type DiffViewProps = {
   original: string;
   proposed: string;
-  onProposedChange: (value: string) => void;
+  onProposedChange?: (value: string) => void;
 };
 
 export const DiffView = ({ original, proposed, onProposedChange }: DiffViewProps) => {
@@ -42,11 +42,13 @@ export const DiffView = ({ original, proposed, onProposedChange }: DiffViewProps
         extensions: [
           odySyntax,
           odyDiffTheme,
-          EditorView.updateListener.of((update) => {
-            if (update.docChanged) {
-              onProposedChange(update.state.doc.toString());
-            }
-          }),
+          onProposedChange
+            ? EditorView.updateListener.of((update) => {
+                if (update.docChanged) {
+                  onProposedChange(update.state.doc.toString());
+                }
+              })
+            : [EditorState.readOnly.of(true), EditorView.editable.of(false)],
         ],
       },
       orientation: 'a-b',
@@ -1,7 +1,7 @@
 import { api } from '@/lib/api';
 import { toast } from '@/lib/toast';
 import { useStore } from '@/store';
-import type { AgentCompletionReason, RunOptions } from '@/types/ipc';
+import type { AgentCompletionReason, ApprovalDecision, RunOptions } from '@/types/ipc';
 import { useCallback } from 'react';
 
 let cleanupAgentListeners: (() => void) | null = null;
@@ -42,6 +42,7 @@ const ensureAgentListeners = () => {
     const state = useStore.getState();
     state.setRunning(false);
     state.setComplete(true);
+    state.setApprovalRequest(null);
 
     if (reason === 'no_tasks_remaining') {
       toast.accent('No tasks left to run', {
@@ -51,7 +52,9 @@ const ensureAgentListeners = () => {
   });
 
   const unbindStopped = api.agent.onStopped(() => {
-    useStore.getState().setRunning(false);
+    const state = useStore.getState();
+    state.setRunning(false);
+    state.setApprovalRequest(null);
   });
 
   const unbindVerifyFailed = api.agent.onVerifyFailed((message) => {
@@ -62,6 +65,10 @@ const ensureAgentListeners = () => {
     useStore.getState().setAmbiguousMarker(true);
   });
 
+  const unbindApprovalRequest = api.agent.onApprovalRequest((request) => {
+    useStore.getState().setApprovalRequest(request);
+  });
+
   const unbindSwitched = api.projects.onSwitched(() => {
     void hydrateAgentStatus();
   });
@@ -76,6 +83,7 @@ const ensureAgentListeners = () => {
     unbindStopped();
     unbindVerifyFailed();
     unbindAmbiguousMarker();
+    unbindApprovalRequest();
     unbindSwitched();
     cleanupAgentListeners = null;
   };
@@ -91,11 +99,13 @@ export const useAgent = () => {
   const isComplete = useStore((state) => state.isComplete);
   const error = useStore((state) => state.error);
   const hasAmbiguousMarker = useStore((state) => state.hasAmbiguousMarker);
+  const approvalRequest = useStore((state) => state.approvalRequest);
   const setRunning = useStore((state) => state.setRunning);
   const setIteration = useStore((state) => state.setIteration);
   const setComplete = useStore((state) => state.setComplete);
   const setError = useStore((state) => state.setError);
   const setAmbiguousMarker = useStore((state) => state.setAmbiguousMarker);
+  const setApprovalRequest = useStore((state) => state.setApprovalRequest);
   const clearOutput = useStore((state) => state.clearOutput);
 
   const start = useCallback(
@@ -147,6 +157,27 @@ export const useAgent = () => {
     [setRunning, setError],
   );
 
+  const respondApproval = useCallback(
+    async (decision: ApprovalDecision) => {
+      let result;
+
+      try {
+        result = await api.agent.respondApproval(decision);
+      } catch (cause) {
+        const message = cause instanceof Error ? cause.message : 'Unable to send review';
+        toast.error('Failed to send review', { description: message });
+        throw cause;
+      }
+
+      if (result.accepted) {
+        setApprovalRequest(null);
+      }
+
+      return result;
+    },
+    [setApprovalRequest],
+  );
+
   return {
     isRunning,
     iteration,
@@ -155,8 +186,10 @@ export const useAgent = () => {
     isComplete,
     error,
     hasAmbiguousMarker,
+    approvalRequest,
     start,
     stop,
+    respondApproval,
     clearOutput,
   };
 };
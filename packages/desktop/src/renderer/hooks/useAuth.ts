@@ -75,6 +75,70 @@ export const useAuth = () => {
     },
   });
 
+  const saveLinearMutation = useMutation({
+    mutationFn: async ({
+      profile,
+      credentials,
+    }: {
+      profile: string;
+      credentials: Record<string, unknown>;
+    }) => {
+      return api.auth.setLinear(profile, credentials);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.auth.all });
+    },
+    onError: (cause) => {
+      const message = cause instanceof Error ? cause.message : 'Unable to save Linear profile';
+      toast.error('Failed to save Linear credentials', { description: message });
+    },
+  });
+
+  const removeLinearMutation = useMutation({
+    mutationFn: async (profile: string) => {
+      return api.auth.removeLinear(profile);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.auth.all });
+    },
+    onError: (cause) => {
+      const message = cause instanceof Error ? cause.message : 'Unable to remove Linear profile';
+      toast.error('Failed to remove Linear credentials', { description: message });
+    },
+  });
+
+  const saveGitLabMutation = useMutation({
+    mutationFn: async ({
+      profile,
+      credentials,
+    }: {
+      profile: string;
+      credentials: Record<string, unknown>;
+    }) => {
+      return api.auth.setGitLab(profile, credentials);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.auth.all });
+    },
+    onError: (cause) => {
+      const message = cause instanceof Error ? cause.message : 'Unable to save GitLab profile';
+      toast.error('Failed to save GitLab credentials', { description: message });
+    },
+  });
+
+  const removeGitLabMutation = useMutation({
+    mutationFn: async (profile: string) => {
+      return api.auth.removeGitLab(profile);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.auth.all });
+    },
+    onError: (cause) => {
+      const message = cause instanceof Error ? cause.message : 'Unable to remove GitLab profile';
+      toast.error('Failed to remove GitLab credentials', { description: message });
+    },
+  });
+
   const authStore = authQuery.data ?? null;
   const isLoading = authQuery.isLoading;
 
@@ -104,6 +168,22 @@ export const useAuth = () => {
     return removeGitHubMutation.mutateAsync(profile);
   };
 
+  const saveLinear = async (profile: string, credentials: Record<string, unknown>) => {
+    return saveLinearMutation.mutateAsync({ profile, credentials });
+  };
+
+  const saveGitLab = async (profile: string, credentials: Record<string, unknown>) => {
+    return saveGitLabMutation.mutateAsync({ profile, credentials });
+  };
+
+  const removeLinear = async (profile: string) => {
+    return removeLinearMutation.mutateAsync(profile);
+  };
+
+  const removeGitLab = async (profile: string) => {
+    return removeGitLabMutation.mutateAsync(profile);
+  };
+
   return {
     authStore,
     isLoading,
@@ -112,5 +192,9 @@ export const useAuth = () => {
     saveGitHub,
     removeJira,
     removeGitHub,
+    saveLinear,
+    saveGitLab,
+    removeLinear,
+    removeGitLab,
   };
 };
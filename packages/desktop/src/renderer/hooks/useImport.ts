@@ -1,6 +1,13 @@
 import { api } from '@/lib/api';
 import { toast } from '@/lib/toast';
-import type { GitHubImportIssue, ImportSource, JiraImportTicket } from '@/types/ipc';
+import type {
+  GitHubImportIssue,
+  GitLabImportIssue,
+  ImportSearchResult,
+  ImportSource,
+  JiraImportTicket,
+  LinearImportIssue,
+} from '@/types/ipc';
 import { useEffect, useMemo, useRef, useState } from 'react';
 
 type ImportData =
@@ -15,11 +22,33 @@ type ImportData =
       owner: string;
       repo: string;
       issue: GitHubImportIssue;
+    }
+  | {
+      source: 'linear';
+      formatted: string;
+      issue: LinearImportIssue;
+    }
+  | {
+      source: 'gitlab';
+      formatted: string;
+      projectPath: string;
+      issue: GitLabImportIssue;
     };
 
+export type ImportMode = 'single' | 'search';
+
 type ImportSettings = {
   jiraProfile: string;
   githubProfile: string;
+  linearProfile: string;
+  gitlabProfile: string;
+};
+
+const PROFILE_SETTINGS: Record<ImportSource, keyof ImportSettings> = {
+  jira: 'jiraProfile',
+  github: 'githubProfile',
+  linear: 'linearProfile',
+  gitlab: 'gitlabProfile',
 };
 
 const isObject = (value: unknown): value is Record<string, unknown> =>
@@ -28,10 +57,14 @@ const isObject = (value: unknown): value is Record<string, unknown> =>
 const resolveSettings = (config: Record<string, unknown> | null): ImportSettings => {
   const jiraConfig = isObject(config?.jira) ? config.jira : null;
   const githubConfig = isObject(config?.github) ? config.github : null;
+  const linearConfig = isObject(config?.linear) ? config.linear : null;
+  const gitlabConfig = isObject(config?.gitlab) ? config.gitlab : null;
 
   return {
     jiraProfile: typeof jiraConfig?.profile === 'string' ? jiraConfig.profile : 'default',
     githubProfile: typeof githubConfig?.profile === 'string' ? githubConfig.profile : 'default',
+    linearProfile: typeof linearConfig?.profile === 'string' ? linearConfig.profile : 'default',
+    gitlabProfile: typeof gitlabConfig?.profile === 'string' ? gitlabConfig.profile : 'default',
   };
 };
 
@@ -43,6 +76,7 @@ export const useImport = ({
   onComplete: () => Promise<unknown>;
 }) => {
   const [source, setSource] = useState<ImportSource>('jira');
+  const [mode, setMode] = useState<ImportMode>('single');
   const [input, setInput] = useState('');
   const [isFetching, setIsFetching] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
@@ -51,6 +85,9 @@ export const useImport = ({
   const [streamOutput, setStreamOutput] = useState('');
   const [importData, setImportData] = useState<ImportData | null>(null);
   const [missingCredentials, setMissingCredentials] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchResults, setSearchResults] = useState<ImportSearchResult[]>([]);
+  const [selectedReferences, setSelectedReferences] = useState<string[]>([]);
   const isGeneratingRef = useRef(false);
   const settings = useMemo(() => resolveSettings(config), [config]);
 
@@ -91,8 +128,8 @@ export const useImport = ({
   const checkCredentials = async (nextSource: ImportSource) => {
     try {
       const auth = await api.auth.list();
-      const profile = nextSource === 'jira' ? settings.jiraProfile : settings.githubProfile;
-      const entries = nextSource === 'jira' ? auth.jira : auth.github;
+      const profile = settings[PROFILE_SETTINGS[nextSource]];
+      const entries = auth[nextSource];
       const hasProfile = Object.prototype.hasOwnProperty.call(entries, profile);
 
       if (hasProfile) {
@@ -136,6 +173,29 @@ export const useImport = ({
         return nextData;
       }
 
+      if (source === 'linear') {
+        const response = await api.import.fetchLinear({ input: trimmedInput });
+        const nextData: ImportData = {
+          source: 'linear',
+          issue: response.issue,
+          formatted: response.formatted,
+        };
+        setImportData(nextData);
+        return nextData;
+      }
+
+      if (source === 'gitlab') {
+        const response = await api.import.fetchGitLab({ input: trimmedInput });
+        const nextData: ImportData = {
+          source: 'gitlab',
+          issue: response.issue,
+          projectPath: response.projectPath,
+          formatted: response.formatted,
+        };
+        setImportData(nextData);
+        return nextData;
+      }
+
       const response = await api.import.fetchGitHub({ input: trimmedInput });
       const nextData: ImportData = {
         source: 'github',
@@ -181,17 +241,7 @@ export const useImport = ({
     }
   };
 
-  const generateTask = async () => {
-    const trimmedInput = input.trim();
-    if (trimmedInput.length === 0) {
-      throw new Error('Ticket or issue reference is required');
-    }
-
-    const hasCredentials = await checkCredentials(source);
-    if (!hasCredentials) {
-      return { started: false };
-    }
-
+  const startGeneration = async (start: () => Promise<{ started: boolean }>) => {
     setPromptPreview('');
     setStreamOutput('');
     setIsGenerating(true);
@@ -200,10 +250,7 @@ export const useImport = ({
     let result;
 
     try {
-      result =
-        source === 'jira'
-          ? await api.agent.importFromJira({ input: trimmedInput })
-          : await api.agent.importFromGitHub({ input: trimmedInput });
+      result = await start();
     } catch (cause) {
       isGeneratingRef.current = false;
       setIsGenerating(false);
@@ -220,28 +267,107 @@ export const useImport = ({
     return result;
   };
 
+  const generateTask = async () => {
+    const trimmedInput = input.trim();
+    if (trimmedInput.length === 0) {
+      throw new Error('Ticket or issue reference is required');
+    }
+
+    const hasCredentials = await checkCredentials(source);
+    if (!hasCredentials) {
+      return { started: false };
+    }
+
+    const importFrom = {
+      jira: api.agent.importFromJira,
+      github: api.agent.importFromGitHub,
+      linear: api.agent.importFromLinear,
+      gitlab: api.agent.importFromGitLab,
+    }[source];
+
+    return startGeneration(() => importFrom({ input: trimmedInput }));
+  };
+
+  const searchImports = async () => {
+    const query = input.trim();
+    if (query.length === 0) {
+      throw new Error('A search query is required');
+    }
+
+    const hasCredentials = await checkCredentials(source);
+    if (!hasCredentials) {
+      return null;
+    }
+
+    setIsSearching(true);
+
+    try {
+      const { results } = await api.import.search({ source, query });
+      setSearchResults(results);
+      setSelectedReferences(
+        results.filter((result) => result.importedAs === null).map((result) => result.reference),
+      );
+      return results;
+    } catch (cause) {
+      const message = cause instanceof Error ? cause.message : 'Unable to search';
+      toast.error('Search failed', { description: message });
+      throw cause;
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const toggleReference = (reference: string) => {
+    setSelectedReferences((prev) =>
+      prev.includes(reference) ? prev.filter((item) => item !== reference) : [...prev, reference],
+    );
+  };
+
+  const importSelected = async () => {
+    if (selectedReferences.length === 0) {
+      throw new Error('Select at least one ticket or issue to import');
+    }
+
+    const hasCredentials = await checkCredentials(source);
+    if (!hasCredentials) {
+      return { started: false };
+    }
+
+    return startGeneration(() => api.agent.importBatch({ source, references: selectedReferences }));
+  };
+
   const resetImport = () => {
     setImportData(null);
     setPromptPreview('');
     setStreamOutput('');
+    setSearchResults([]);
+    setSelectedReferences([]);
   };
 
   return {
     source,
     setSource,
+    mode,
+    setMode,
     input,
     setInput,
     isFetching,
     isGenerating,
     isPromptLoading,
+    isSearching,
     importData,
     promptPreview,
     streamOutput,
     missingCredentials,
-    settings,
+    profile: settings[PROFILE_SETTINGS[source]],
+    searchResults,
+    selectedReferences,
     fetchData,
     previewPrompt,
     generateTask,
+    searchImports,
+    toggleReference,
+    importSelected,
     resetImport,
   };
 };
@@ -1,3 +1,4 @@
+import type { ApprovalRequest } from '@/types/ipc';
 import type { StateCreator } from 'zustand';
 
 import type { AppStore } from '../index';
@@ -10,12 +11,14 @@ export type AgentSlice = {
   isComplete: boolean;
   error: string | null;
   hasAmbiguousMarker: boolean;
+  approvalRequest: ApprovalRequest | null;
   setRunning: (running: boolean) => void;
   setIteration: (iteration: number, maxIterations: number) => void;
   appendOutput: (chunk: string) => void;
   setComplete: (isComplete: boolean) => void;
   setError: (error: string | null) => void;
   setAmbiguousMarker: (hasAmbiguousMarker: boolean) => void;
+  setApprovalRequest: (approvalRequest: ApprovalRequest | null) => void;
   clearOutput: () => void;
   resetAgentState: () => void;
 };
@@ -28,6 +31,7 @@ export const createAgentSlice: StateCreator<AppStore, [], [], AgentSlice> = (set
   isComplete: false,
   error: null,
   hasAmbiguousMarker: false,
+  approvalRequest: null,
   setRunning: (isRunning) => set({ isRunning }),
   setIteration: (iteration, maxIterations) => set({ iteration, maxIterations }),
   appendOutput: (chunk) =>
@@ -37,6 +41,7 @@ export const createAgentSlice: StateCreator<AppStore, [], [], AgentSlice> = (set
   setComplete: (isComplete) => set({ isComplete }),
   setError: (error) => set({ error }),
   setAmbiguousMarker: (hasAmbiguousMarker) => set({ hasAmbiguousMarker }),
+  setApprovalRequest: (approvalRequest) => set({ approvalRequest }),
   clearOutput: () => set({ output: [] }),
   resetAgentState: () =>
     set({
@@ -47,5 +52,6 @@ export const createAgentSlice: StateCreator<AppStore, [], [], AgentSlice> = (set
       isComplete: false,
       error: null,
       hasAmbiguousMarker: false,
+      approvalRequest: null,
     }),
 });
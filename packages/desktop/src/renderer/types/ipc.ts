@@ -26,6 +26,40 @@ export type AgentStatus = {
   taskFiles: string[];
 };
 
+export type ApprovalFile = {
+  path: string;
+  status: string;
+  original: string;
+  proposed: string;
+};
+
+export type ApprovalValidator = {
+  command: string;
+  exitCode: number;
+  outputTail: string;
+};
+
+export type ApprovalRequest = {
+  iteration: number;
+  taskTitles: string[];
+  files: ApprovalFile[];
+  validators: ApprovalValidator[];
+};
+
+export type ApprovalDecision =
+  | { action: 'approve' }
+  | { action: 'reject'; note: string }
+  | { action: 'feedback'; comment: string };
+
+export type AcceptanceCriterion = {
+  number: number;
+  title: string;
+  checked: boolean;
+  steps: string[];
+  evidence: string | null;
+  line: number;
+};
+
 export type TaskSummary = {
   filePath: string;
   title: string;
@@ -36,6 +70,14 @@ export type TaskSummary = {
   created: string | null;
   started: string | null;
   completed: string | null;
+  criteria: AcceptanceCriterion[];
+  checkpoint: string | null;
+  error: string | null;
+};
+
+export type TaskCheckpoint = {
+  laterCommits: string[];
+  hasUncommittedChanges: boolean;
 };
 
 export type TaskState = {
@@ -56,7 +98,7 @@ export type ArchiveEntry = {
   legacy: ArchiveFile | null;
 };
 
-export type ImportSource = 'jira' | 'github';
+export type ImportSource = 'jira' | 'github' | 'linear' | 'gitlab';
 
 export type JiraImportTicket = {
   key: string;
@@ -81,6 +123,40 @@ export type GitHubImportIssue = {
   comments: string[];
 };
 
+export type LinearImportIssue = {
+  identifier: string;
+  title: string;
+  description: string;
+  url: string;
+  state: string;
+  priority: string;
+  team: string;
+  project: string | null;
+  assignee: string | null;
+  labels: string[];
+  comments: string[];
+};
+
+export type GitLabImportIssue = {
+  iid: number;
+  title: string;
+  description: string;
+  state: string;
+  labels: string[];
+  assignees: string[];
+  milestone: string | null;
+  webUrl: string;
+  comments: string[];
+};
+
+export type ImportSearchResult = {
+  reference: string;
+  title: string;
+  status: string;
+  labels: string[];
+  importedAs: string | null;
+};
+
 export type ConfigLoadResult = {
   merged: Record<string, unknown> | null;
   localConfigPath: string | null;
@@ -104,9 +180,12 @@ export type IpcChannels = {
   'tasks:delete': (filePaths: string[]) => { deleted: string[] };
   'tasks:byLabel': (label: string) => TaskSummary[];
   'tasks:states': (filePaths?: string[]) => TaskState[];
+  'tasks:checkpoint': (filePath: string) => TaskCheckpoint;
+  'tasks:rollback': (filePath: string) => { filePath: string };
   'agent:run': (opts: RunOptions) => { started: boolean };
   'agent:stop': (force?: boolean) => { stopped: boolean };
   'agent:status': () => AgentStatus;
+  'agent:respondApproval': (decision: ApprovalDecision) => { accepted: boolean };
   'agent:planNew': (description: string) => { started: boolean };
   'agent:planBatch': (filePath: string) => { started: boolean };
   'agent:planPreview': (description: string) => { prompt: string };
@@ -130,14 +209,40 @@ export type IpcChannels = {
     repo: string;
     formatted: string;
   };
+  'import:fetchLinear': (opts: { input: string }) => {
+    issue: LinearImportIssue;
+    formatted: string;
+  };
+  'import:fetchGitLab': (opts: { input: string }) => {
+    issue: GitLabImportIssue;
+    projectPath: string;
+    formatted: string;
+  };
+  'import:search': (opts: { source: ImportSource; query: string }) => {
+    results: ImportSearchResult[];
+  };
   'agent:importFromJira': (opts: { input: string }) => { started: boolean };
   'agent:importFromGitHub': (opts: { input: string }) => { started: boolean };
+  'agent:importFromLinear': (opts: { input: string }) => { started: boolean };
+  'agent:importFromGitLab': (opts: { input: string }) => { started: boolean };
   'agent:importDryRun': (opts: { source: ImportSource; input: string }) => { prompt: string };
-  'auth:list': () => { jira: Record<string, unknown>; github: Record<string, unknown> };
+  'agent:importBatch': (opts: { source: ImportSource; references: string[] }) => {
+    started: boolean;
+  };
+  'auth:list': () => {
+    jira: Record<string, unknown>;
+    github: Record<string, unknown>;
+    linear: Record<string, unknown>;
+    gitlab: Record<string, unknown>;
+  };
   'auth:setJira': (profile: string, credentials: Record<string, unknown>) => { ok: true };
   'auth:setGitHub': (profile: string, credentials: Record<string, unknown>) => { ok: true };
   'auth:removeJira': (profile: string) => { ok: true };
   'auth:removeGitHub': (profile: string) => { ok: true };
+  'auth:setLinear': (profile: string, credentials: Record<string, unknown>) => { ok: true };
+  'auth:setGitLab': (profile: string, credentials: Record<string, unknown>) => { ok: true };
+  'auth:removeLinear': (profile: string) => { ok: true };
+  'auth:removeGitLab': (profile: string) => { ok: true };
   'progress:read': () => { content: string };
   'progress:clear': () => { ok: true };
   'archive:compact': () => { archived: string[]; archiveFilePath: string | null };
@@ -163,6 +268,7 @@ export type IpcEvents = {
   'agent:verifyFailed': [message: string];
   'agent:ambiguousMarker': [];
   'agent:editResult': [content: string];
+  'agent:approvalRequest': [request: ApprovalRequest];
   'projects:switched': [path: string | null];
   'theme:changed': [{ source: ThemeSource; resolved: ThemeResolved }];
   'app:menuAction': [action: MenuAction];
@@ -196,11 +302,14 @@ export type OdyApi = {
     delete: Asyncify<IpcChannels['tasks:delete']>;
     byLabel: Asyncify<IpcChannels['tasks:byLabel']>;
     states: Asyncify<IpcChannels['tasks:states']>;
+    checkpoint: Asyncify<IpcChannels['tasks:checkpoint']>;
+    rollback: Asyncify<IpcChannels['tasks:rollback']>;
   };
   agent: {
     run: Asyncify<IpcChannels['agent:run']>;
     stop: Asyncify<IpcChannels['agent:stop']>;
     status: Asyncify<IpcChannels['agent:status']>;
+    respondApproval: Asyncify<IpcChannels['agent:respondApproval']>;
     planNew: Asyncify<IpcChannels['agent:planNew']>;
     planBatch: Asyncify<IpcChannels['agent:planBatch']>;
     planPreview: Asyncify<IpcChannels['agent:planPreview']>;
@@ -209,7 +318,10 @@ export type OdyApi = {
     editInline: Asyncify<IpcChannels['agent:editInline']>;
     importFromJira: Asyncify<IpcChannels['agent:importFromJira']>;
     importFromGitHub: Asyncify<IpcChannels['agent:importFromGitHub']>;
+    importFromLinear: Asyncify<IpcChannels['agent:importFromLinear']>;
+    importFromGitLab: Asyncify<IpcChannels['agent:importFromGitLab']>;
     importDryRun: Asyncify<IpcChannels['agent:importDryRun']>;
+    importBatch: Asyncify<IpcChannels['agent:importBatch']>;
     onStarted: (listener: Listener<IpcEvents['agent:started']>) => () => void;
     onIteration: (listener: Listener<IpcEvents['agent:iteration']>) => () => void;
     onOutput: (listener: Listener<IpcEvents['agent:output']>) => () => void;
@@ -218,6 +330,7 @@ export type OdyApi = {
     onVerifyFailed: (listener: Listener<IpcEvents['agent:verifyFailed']>) => () => void;
     onAmbiguousMarker: (listener: Listener<IpcEvents['agent:ambiguousMarker']>) => () => void;
     onEditResult: (listener: Listener<IpcEvents['agent:editResult']>) => () => void;
+    onApprovalRequest: (listener: Listener<IpcEvents['agent:approvalRequest']>) => () => void;
     removeAllListeners: () => void;
   };
   editor: {
@@ -227,6 +340,9 @@ export type OdyApi = {
   import: {
     fetchJira: Asyncify<IpcChannels['import:fetchJira']>;
     fetchGitHub: Asyncify<IpcChannels['import:fetchGitHub']>;
+    fetchLinear: Asyncify<IpcChannels['import:fetchLinear']>;
+    fetchGitLab: Asyncify<IpcChannels['import:fetchGitLab']>;
+    search: Asyncify<IpcChannels['import:search']>;
   };
   auth: {
     list: Asyncify<IpcChannels['auth:list']>;
@@ -234,6 +350,10 @@ export type OdyApi = {
     setGitHub: Asyncify<IpcChannels['auth:setGitHub']>;
     removeJira: Asyncify<IpcChannels['auth:removeJira']>;
     removeGitHub: Asyncify<IpcChannels['auth:removeGitHub']>;
+    setLinear: Asyncify<IpcChannels['auth:setLinear']>;
+    setGitLab: Asyncify<IpcChannels['auth:setGitLab']>;
+    removeLinear: Asyncify<IpcChannels['auth:removeLinear']>;
+    removeGitLab: Asyncify<IpcChannels['auth:removeGitLab']>;
   };
   progress: {
     read: Asyncify<IpcChannels['progress:read']>;